@@ -0,0 +1,2 @@
+ALTER TABLE "brews" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "deleted_at" timestamp;
\ No newline at end of file
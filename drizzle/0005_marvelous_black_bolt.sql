@@ -0,0 +1,6 @@
+ALTER TABLE "brews" ADD COLUMN "water_temperature" real;--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "brew_time_seconds" integer;--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "bloom_time_seconds" integer;--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "bloom_water" integer;--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "beverage_yield" real;--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "tds" real;
\ No newline at end of file
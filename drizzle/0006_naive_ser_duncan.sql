@@ -0,0 +1,4 @@
+CREATE INDEX "bags_user_roast_date_idx" ON "bags" USING btree ("user_id","roast_date");--> statement-breakpoint
+CREATE INDEX "bags_user_roaster_idx" ON "bags" USING btree ("user_id",lower("roaster"));--> statement-breakpoint
+CREATE INDEX "bags_user_origin_idx" ON "bags" USING btree ("user_id",lower("origin"));--> statement-breakpoint
+CREATE INDEX "bags_search_idx" ON "bags" USING gin (to_tsvector('simple', coalesce("coffee_name", '') || ' ' || coalesce("notes", '')));
\ No newline at end of file
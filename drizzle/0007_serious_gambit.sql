@@ -0,0 +1,41 @@
+CREATE TYPE "public"."equipment_type" AS ENUM('BREWER', 'GRINDER');--> statement-breakpoint
+CREATE TABLE "equipment" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"type" "equipment_type" NOT NULL,
+	"brand" text,
+	"model" text NOT NULL,
+	"notes" text,
+	"grind_setting_min" integer,
+	"grind_setting_max" integer,
+	"grind_setting_unit" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "brewer_id" uuid;--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "grinder_id" uuid;--> statement-breakpoint
+CREATE INDEX "equipment_user_type_idx" ON "equipment" USING btree ("user_id","type");--> statement-breakpoint
+-- Backfill: one equipment row per distinct (user, brewer/grinder text), ignoring case and extra spaces.
+INSERT INTO "equipment" ("user_id", "type", "model")
+SELECT "bags"."user_id", 'BREWER', min(regexp_replace(trim("brews"."brewer"), '\s+', ' ', 'g'))
+FROM "brews" INNER JOIN "bags" ON "bags"."id" = "brews"."bag_id"
+WHERE trim(coalesce("brews"."brewer", '')) <> ''
+GROUP BY "bags"."user_id", lower(regexp_replace(trim("brews"."brewer"), '\s+', ' ', 'g'));--> statement-breakpoint
+INSERT INTO "equipment" ("user_id", "type", "model")
+SELECT "bags"."user_id", 'GRINDER', min(regexp_replace(trim("brews"."grinder"), '\s+', ' ', 'g'))
+FROM "brews" INNER JOIN "bags" ON "bags"."id" = "brews"."bag_id"
+WHERE trim(coalesce("brews"."grinder", '')) <> ''
+GROUP BY "bags"."user_id", lower(regexp_replace(trim("brews"."grinder"), '\s+', ' ', 'g'));--> statement-breakpoint
+UPDATE "brews" SET "brewer_id" = "equipment"."id"
+FROM "bags", "equipment"
+WHERE "bags"."id" = "brews"."bag_id"
+  AND "equipment"."user_id" = "bags"."user_id"
+  AND "equipment"."type" = 'BREWER'
+  AND lower("equipment"."model") = lower(regexp_replace(trim("brews"."brewer"), '\s+', ' ', 'g'));--> statement-breakpoint
+UPDATE "brews" SET "grinder_id" = "equipment"."id"
+FROM "bags", "equipment"
+WHERE "bags"."id" = "brews"."bag_id"
+  AND "equipment"."user_id" = "bags"."user_id"
+  AND "equipment"."type" = 'GRINDER'
+  AND lower("equipment"."model") = lower(regexp_replace(trim("brews"."grinder"), '\s+', ' ', 'g'));
@@ -0,0 +1,24 @@
+CREATE TABLE "recipes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"method" text NOT NULL,
+	"brewer" text,
+	"grinder" text,
+	"brewer_id" uuid,
+	"grinder_id" uuid,
+	"dose" integer,
+	"grind_setting" integer,
+	"water_amount" integer,
+	"water_temperature" real,
+	"brew_time_seconds" integer,
+	"bloom_time_seconds" integer,
+	"bloom_water" integer,
+	"notes" text,
+	"source_brew_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "recipe_id" uuid;--> statement-breakpoint
+CREATE INDEX "recipes_user_name_idx" ON "recipes" USING btree ("user_id","name");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "bag_adjustments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bag_id" uuid NOT NULL,
+	"grams" real NOT NULL,
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bags" ADD COLUMN "initial_weight_grams" integer;--> statement-breakpoint
+ALTER TABLE "bags" ADD COLUMN "price" real;--> statement-breakpoint
+CREATE INDEX "bag_adjustments_bag_created_at_idx" ON "bag_adjustments" USING btree ("bag_id","created_at");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TYPE "public"."roast_level" AS ENUM('LIGHT', 'MEDIUM', 'DARK');--> statement-breakpoint
+CREATE TABLE "resting_profiles" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"roast_level" "roast_level",
+	"process" text,
+	"rest_days" integer NOT NULL,
+	"peak_start_day" integer,
+	"peak_end_day" integer,
+	"past_peak_after_days" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bags" ADD COLUMN "roast_level" "roast_level";--> statement-breakpoint
+ALTER TABLE "bags" ADD COLUMN "resting_profile_id" uuid;--> statement-breakpoint
+CREATE INDEX "resting_profiles_user_idx" ON "resting_profiles" USING btree ("user_id");
\ No newline at end of file
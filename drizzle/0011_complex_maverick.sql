@@ -0,0 +1,13 @@
+CREATE TYPE "public"."visibility" AS ENUM('PUBLIC', 'FOLLOWERS', 'PRIVATE');--> statement-breakpoint
+CREATE TABLE "profiles" (
+	"user_id" uuid PRIMARY KEY NOT NULL,
+	"display_name" text,
+	"avatar_url" text,
+	"bio" text,
+	"default_visibility" "visibility",
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bags" ADD COLUMN "visibility" "visibility" DEFAULT 'PUBLIC' NOT NULL;--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "visibility" "visibility";
\ No newline at end of file
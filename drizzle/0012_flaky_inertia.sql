@@ -0,0 +1,39 @@
+CREATE TYPE "public"."notification_type" AS ENUM('LIKE', 'COMMENT', 'REPLY');--> statement-breakpoint
+CREATE TABLE "brew_comments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"brew_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"parent_id" uuid,
+	"body" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "brew_likes" (
+	"brew_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "brew_likes_brew_id_user_id_pk" PRIMARY KEY("brew_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "follows" (
+	"follower_id" uuid NOT NULL,
+	"followee_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "follows_follower_id_followee_id_pk" PRIMARY KEY("follower_id","followee_id")
+);
+--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"actor_id" uuid NOT NULL,
+	"type" "notification_type" NOT NULL,
+	"brew_id" uuid NOT NULL,
+	"comment_id" uuid,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "brew_comments_brew_created_at_idx" ON "brew_comments" USING btree ("brew_id","created_at");--> statement-breakpoint
+CREATE INDEX "follows_followee_idx" ON "follows" USING btree ("followee_id");--> statement-breakpoint
+CREATE INDEX "notifications_user_created_at_idx" ON "notifications" USING btree ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TYPE "public"."bag_role" AS ENUM('VIEWER', 'BREWER', 'OWNER');--> statement-breakpoint
+CREATE TABLE "bag_invites" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bag_id" uuid NOT NULL,
+	"token" text NOT NULL,
+	"role" "bag_role" NOT NULL,
+	"created_by" uuid NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "bag_invites_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+CREATE TABLE "bag_members" (
+	"bag_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"role" "bag_role" NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "bag_members_bag_id_user_id_pk" PRIMARY KEY("bag_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "user_id" uuid;--> statement-breakpoint
+UPDATE "brews" SET "user_id" = "bags"."user_id" FROM "bags" WHERE "bags"."id" = "brews"."bag_id";--> statement-breakpoint
+ALTER TABLE "brews" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+CREATE INDEX "bag_invites_bag_idx" ON "bag_invites" USING btree ("bag_id");--> statement-breakpoint
+CREATE INDEX "bag_members_user_idx" ON "bag_members" USING btree ("user_id");
\ No newline at end of file
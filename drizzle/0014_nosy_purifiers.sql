@@ -0,0 +1,7 @@
+CREATE TABLE "local_users" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "local_users_email_unique" UNIQUE("email")
+);
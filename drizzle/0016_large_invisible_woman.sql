@@ -0,0 +1,23 @@
+CREATE TYPE "public"."brew_event_type" AS ENUM('BLOOM_START', 'POUR', 'DRAWDOWN_END');--> statement-breakpoint
+CREATE TABLE "brew_session_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"type" "brew_event_type" NOT NULL,
+	"elapsed_seconds" real NOT NULL,
+	"grams" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "brew_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bag_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp,
+	"cancelled_at" timestamp,
+	"brew_id" uuid
+);
+--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "pour_schedule" jsonb;--> statement-breakpoint
+CREATE INDEX "brew_session_events_session_idx" ON "brew_session_events" USING btree ("session_id","elapsed_seconds");--> statement-breakpoint
+CREATE INDEX "brew_sessions_bag_user_idx" ON "brew_sessions" USING btree ("bag_id","user_id");
\ No newline at end of file
@@ -0,0 +1,41 @@
+CREATE TABLE "coffees" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"roaster_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"country" text,
+	"region" text,
+	"farm" text,
+	"variety" text,
+	"altitude" integer,
+	"process" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "roasters" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"website" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bags" ADD COLUMN "coffee_id" uuid;--> statement-breakpoint
+CREATE UNIQUE INDEX "coffees_roaster_name_idx" ON "coffees" USING btree ("roaster_id",lower("name"));--> statement-breakpoint
+CREATE INDEX "coffees_user_name_idx" ON "coffees" USING btree ("user_id",lower("name"));--> statement-breakpoint
+CREATE UNIQUE INDEX "roasters_user_name_idx" ON "roasters" USING btree ("user_id",lower("name"));--> statement-breakpoint
+CREATE INDEX "bags_coffee_idx" ON "bags" USING btree ("coffee_id");--> statement-breakpoint
+INSERT INTO "roasters" ("user_id", "name")
+SELECT "user_id", min(trim("roaster")) FROM "bags" GROUP BY "user_id", lower(trim("roaster"));--> statement-breakpoint
+INSERT INTO "coffees" ("user_id", "roaster_id", "name", "country", "process")
+SELECT "bags"."user_id", "roasters"."id", min(trim("bags"."coffee_name")), min("bags"."origin"), min("bags"."process")
+FROM "bags"
+JOIN "roasters" ON "roasters"."user_id" = "bags"."user_id" AND lower("roasters"."name") = lower(trim("bags"."roaster"))
+GROUP BY "bags"."user_id", "roasters"."id", lower(trim("bags"."coffee_name"));--> statement-breakpoint
+UPDATE "bags" SET "coffee_id" = "coffees"."id"
+FROM "coffees" JOIN "roasters" ON "roasters"."id" = "coffees"."roaster_id"
+WHERE "coffees"."user_id" = "bags"."user_id"
+  AND lower("roasters"."name") = lower(trim("bags"."roaster"))
+  AND lower("coffees"."name") = lower(trim("bags"."coffee_name"));
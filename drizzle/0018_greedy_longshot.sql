@@ -0,0 +1,156 @@
+CREATE TABLE "sensory_attributes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"key" text NOT NULL,
+	"label" text NOT NULL,
+	"min" integer DEFAULT 0 NOT NULL,
+	"max" integer DEFAULT 5 NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "sensory" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "brews" ADD COLUMN "flavour_tags" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "sensory_attributes_user_key_idx" ON "sensory_attributes" USING btree ("user_id","key");--> statement-breakpoint
+CREATE INDEX "brews_flavour_tags_idx" ON "brews" USING gin ("flavour_tags");--> statement-breakpoint
+INSERT INTO "sensory_attributes" ("key", "label", "position") VALUES
+  ('acidity', 'Acidity', 0),
+  ('sweetness', 'Sweetness', 1),
+  ('body', 'Body', 2),
+  ('bitterness', 'Bitterness', 3),
+  ('aftertaste', 'Aftertaste', 4),
+  ('clarity', 'Clarity', 5),
+  ('fruity', 'Fruity', 6),
+  ('floral', 'Floral', 7),
+  ('nutty', 'Nutty', 8),
+  ('chocolate', 'Chocolate', 9);--> statement-breakpoint
+UPDATE "brews" SET "sensory" = jsonb_strip_nulls(jsonb_build_object(
+  'nutty', "nutty", 'acidity', "acidity", 'fruity', "fruity",
+  'floral', "floral", 'sweetness', "sweetness", 'chocolate', "chocolate"
+));--> statement-breakpoint
+-- Comma-separated notes that name a flavour wheel tag become tags; the rest stay as notes.
+WITH "wheel" ("name", "key") AS (VALUES
+  ('fruity', 'fruity'),
+  ('berry', 'fruity.berry'),
+  ('blackberry', 'fruity.berry.blackberry'),
+  ('raspberry', 'fruity.berry.raspberry'),
+  ('blueberry', 'fruity.berry.blueberry'),
+  ('strawberry', 'fruity.berry.strawberry'),
+  ('dried fruit', 'fruity.dried-fruit'),
+  ('raisin', 'fruity.dried-fruit.raisin'),
+  ('prune', 'fruity.dried-fruit.prune'),
+  ('other fruit', 'fruity.other-fruit'),
+  ('coconut', 'fruity.other-fruit.coconut'),
+  ('cherry', 'fruity.other-fruit.cherry'),
+  ('pomegranate', 'fruity.other-fruit.pomegranate'),
+  ('pineapple', 'fruity.other-fruit.pineapple'),
+  ('grape', 'fruity.other-fruit.grape'),
+  ('apple', 'fruity.other-fruit.apple'),
+  ('peach', 'fruity.other-fruit.peach'),
+  ('pear', 'fruity.other-fruit.pear'),
+  ('citrus fruit', 'fruity.citrus-fruit'),
+  ('grapefruit', 'fruity.citrus-fruit.grapefruit'),
+  ('orange', 'fruity.citrus-fruit.orange'),
+  ('lemon', 'fruity.citrus-fruit.lemon'),
+  ('lime', 'fruity.citrus-fruit.lime'),
+  ('sour/fermented', 'sour-fermented'),
+  ('sour', 'sour-fermented.sour'),
+  ('sour aromatics', 'sour-fermented.sour.sour-aromatics'),
+  ('acetic acid', 'sour-fermented.sour.acetic-acid'),
+  ('butyric acid', 'sour-fermented.sour.butyric-acid'),
+  ('isovaleric acid', 'sour-fermented.sour.isovaleric-acid'),
+  ('citric acid', 'sour-fermented.sour.citric-acid'),
+  ('malic acid', 'sour-fermented.sour.malic-acid'),
+  ('alcohol/fermented', 'sour-fermented.alcohol-fermented'),
+  ('winey', 'sour-fermented.alcohol-fermented.winey'),
+  ('whiskey', 'sour-fermented.alcohol-fermented.whiskey'),
+  ('fermented', 'sour-fermented.alcohol-fermented.fermented'),
+  ('overripe', 'sour-fermented.alcohol-fermented.overripe'),
+  ('green/vegetative', 'green-vegetative'),
+  ('olive oil', 'green-vegetative.olive-oil'),
+  ('raw', 'green-vegetative.raw'),
+  ('under-ripe', 'green-vegetative.green-vegetative.under-ripe'),
+  ('peapod', 'green-vegetative.green-vegetative.peapod'),
+  ('fresh', 'green-vegetative.green-vegetative.fresh'),
+  ('dark green', 'green-vegetative.green-vegetative.dark-green'),
+  ('vegetative', 'green-vegetative.green-vegetative.vegetative'),
+  ('hay-like', 'green-vegetative.green-vegetative.hay-like'),
+  ('herb-like', 'green-vegetative.green-vegetative.herb-like'),
+  ('beany', 'green-vegetative.beany'),
+  ('other', 'other'),
+  ('papery/musty', 'other.papery-musty'),
+  ('stale', 'other.papery-musty.stale'),
+  ('cardboard', 'other.papery-musty.cardboard'),
+  ('papery', 'other.papery-musty.papery'),
+  ('woody', 'other.papery-musty.woody'),
+  ('moldy/damp', 'other.papery-musty.moldy-damp'),
+  ('musty/dusty', 'other.papery-musty.musty-dusty'),
+  ('musty/earthy', 'other.papery-musty.musty-earthy'),
+  ('animalic', 'other.papery-musty.animalic'),
+  ('meaty brothy', 'other.papery-musty.meaty-brothy'),
+  ('phenolic', 'other.papery-musty.phenolic'),
+  ('chemical', 'other.chemical'),
+  ('bitter', 'other.chemical.bitter'),
+  ('salty', 'other.chemical.salty'),
+  ('medicinal', 'other.chemical.medicinal'),
+  ('petroleum', 'other.chemical.petroleum'),
+  ('skunky', 'other.chemical.skunky'),
+  ('rubber', 'other.chemical.rubber'),
+  ('roasted', 'roasted'),
+  ('pipe tobacco', 'roasted.pipe-tobacco'),
+  ('tobacco', 'roasted.tobacco'),
+  ('burnt', 'roasted.burnt'),
+  ('acrid', 'roasted.burnt.acrid'),
+  ('ashy', 'roasted.burnt.ashy'),
+  ('smoky', 'roasted.burnt.smoky'),
+  ('brown roast', 'roasted.burnt.brown-roast'),
+  ('cereal', 'roasted.cereal'),
+  ('grain', 'roasted.cereal.grain'),
+  ('malt', 'roasted.cereal.malt'),
+  ('spices', 'spices'),
+  ('pungent', 'spices.pungent'),
+  ('pepper', 'spices.pepper'),
+  ('brown spice', 'spices.brown-spice'),
+  ('anise', 'spices.brown-spice.anise'),
+  ('nutmeg', 'spices.brown-spice.nutmeg'),
+  ('cinnamon', 'spices.brown-spice.cinnamon'),
+  ('clove', 'spices.brown-spice.clove'),
+  ('nutty/cocoa', 'nutty-cocoa'),
+  ('nutty', 'nutty-cocoa.nutty'),
+  ('peanuts', 'nutty-cocoa.nutty.peanuts'),
+  ('hazelnut', 'nutty-cocoa.nutty.hazelnut'),
+  ('almond', 'nutty-cocoa.nutty.almond'),
+  ('cocoa', 'nutty-cocoa.cocoa'),
+  ('chocolate', 'nutty-cocoa.cocoa.chocolate'),
+  ('dark chocolate', 'nutty-cocoa.cocoa.dark-chocolate'),
+  ('sweet', 'sweet'),
+  ('brown sugar', 'sweet.brown-sugar'),
+  ('molasses', 'sweet.brown-sugar.molasses'),
+  ('maple syrup', 'sweet.brown-sugar.maple-syrup'),
+  ('caramelized', 'sweet.brown-sugar.caramelized'),
+  ('honey', 'sweet.brown-sugar.honey'),
+  ('vanilla', 'sweet.vanilla'),
+  ('vanillin', 'sweet.vanillin'),
+  ('overall sweet', 'sweet.overall-sweet'),
+  ('sweet aromatics', 'sweet.sweet-aromatics'),
+  ('floral', 'floral'),
+  ('black tea', 'floral.black-tea'),
+  ('chamomile', 'floral.floral.chamomile'),
+  ('rose', 'floral.floral.rose'),
+  ('jasmine', 'floral.floral.jasmine')
+), "notes" AS (
+  SELECT "brews"."id", "note"."position", trim("note"."text") AS "text", "wheel"."key"
+  FROM "brews"
+  CROSS JOIN LATERAL unnest(string_to_array("brews"."flavour_notes", ',')) WITH ORDINALITY AS "note" ("text", "position")
+  LEFT JOIN "wheel" ON "wheel"."name" = lower(trim("note"."text"))
+)
+UPDATE "brews" SET
+  "flavour_tags" = coalesce(
+    (SELECT array_agg(DISTINCT "notes"."key") FROM "notes" WHERE "notes"."id" = "brews"."id" AND "notes"."key" IS NOT NULL),
+    '{}'
+  ),
+  "flavour_notes" = (
+    SELECT string_agg("notes"."text", ', ' ORDER BY "notes"."position") FROM "notes"
+    WHERE "notes"."id" = "brews"."id" AND "notes"."key" IS NULL AND "notes"."text" <> ''
+  )
+WHERE "flavour_notes" IS NOT NULL;
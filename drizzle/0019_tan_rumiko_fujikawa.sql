@@ -0,0 +1,6 @@
+ALTER TABLE "brews" DROP COLUMN "nutty";--> statement-breakpoint
+ALTER TABLE "brews" DROP COLUMN "acidity";--> statement-breakpoint
+ALTER TABLE "brews" DROP COLUMN "fruity";--> statement-breakpoint
+ALTER TABLE "brews" DROP COLUMN "floral";--> statement-breakpoint
+ALTER TABLE "brews" DROP COLUMN "sweetness";--> statement-breakpoint
+ALTER TABLE "brews" DROP COLUMN "chocolate";
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "brews" ADD COLUMN "days_off_roast" integer;--> statement-breakpoint
+UPDATE "brews" SET "days_off_roast" = greatest(0, floor(extract(epoch from "brews"."created_at" - "bags"."roast_date") / 86400))
+FROM "bags" WHERE "bags"."id" = "brews"."bag_id" AND "bags"."roast_date" IS NOT NULL;
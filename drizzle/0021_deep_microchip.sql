@@ -0,0 +1,14 @@
+CREATE TYPE "public"."bag_history_action" AS ENUM('CREATE', 'UPDATE', 'ARCHIVE', 'UNARCHIVE', 'MARK_BEST', 'UNMARK_BEST', 'DELETE', 'RESTORE');--> statement-breakpoint
+CREATE TABLE "bag_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bag_id" uuid NOT NULL,
+	"brew_id" uuid,
+	"actor_id" uuid NOT NULL,
+	"action" "bag_history_action" NOT NULL,
+	"changes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"revert_of_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "bag_history_bag_created_at_idx" ON "bag_history" USING btree ("bag_id","created_at");--> statement-breakpoint
+CREATE INDEX "bag_history_revert_of_idx" ON "bag_history" USING btree ("revert_of_id");
\ No newline at end of file
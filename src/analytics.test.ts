@@ -0,0 +1,235 @@
+import { describe, expect, it } from "vitest";
+import {
+  average,
+  buildBagAnalytics,
+  buildRatingBreakdown,
+  buildRoastAgeCurve,
+  computeAverageTasteProfile,
+  detectPeakWindow,
+} from "./analytics";
+import { buildBagComputedFields } from "./bags";
+import { ANONYMOUS_DISPLAY_NAME } from "./social";
+import type { Brew, Recipe } from "./store";
+
+const BAG_ID = "00000000-0000-0000-0000-0000000000b1";
+const BREWER_ID = "00000000-0000-0000-0000-000000000001";
+const HOUSEMATE_ID = "00000000-0000-0000-0000-000000000002";
+const RECIPE_ID = "00000000-0000-0000-0000-0000000000c1";
+const DELETED_RECIPE_ID = "00000000-0000-0000-0000-0000000000c2";
+
+let brewCount = 0;
+
+// A stored brew with every column filled in, brewed a day after the previous one.
+function brew(overrides: Partial<Brew> = {}): Brew {
+  brewCount += 1;
+  const createdAt = new Date(Date.UTC(2026, 0, brewCount));
+  return {
+    id: `00000000-0000-0000-0000-${String(brewCount).padStart(12, "0")}`,
+    bagId: BAG_ID,
+    userId: BREWER_ID,
+    method: "V60",
+    brewer: null,
+    grinder: null,
+    brewerId: null,
+    grinderId: null,
+    recipeId: null,
+    visibility: null,
+    dose: 15,
+    grindSetting: null,
+    waterAmount: 250,
+    waterTemperature: null,
+    brewTimeSeconds: null,
+    bloomTimeSeconds: null,
+    bloomWater: null,
+    beverageYield: null,
+    tds: null,
+    rating: null,
+    sensory: {},
+    flavourTags: [],
+    isBest: false,
+    flavourNotes: null,
+    pourSchedule: null,
+    daysOffRoast: null,
+    createdAt,
+    updatedAt: createdAt,
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function recipe(overrides: Partial<Recipe> = {}): Recipe {
+  const createdAt = new Date(Date.UTC(2026, 0, 1));
+  return {
+    id: RECIPE_ID,
+    userId: BREWER_ID,
+    name: "House V60",
+    method: "V60",
+    brewer: null,
+    grinder: null,
+    brewerId: null,
+    grinderId: null,
+    dose: 15,
+    grindSetting: null,
+    waterAmount: 250,
+    waterTemperature: null,
+    brewTimeSeconds: null,
+    bloomTimeSeconds: null,
+    bloomWater: null,
+    notes: null,
+    sourceBrewId: null,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
+
+describe("analytics helpers", () => {
+  it("averages to two decimals and skips unscored sensory attributes", () => {
+    expect(average([])).toBeNull();
+    expect(average([4, 4.5, 3.75])).toBe(4.08);
+
+    const profile = computeAverageTasteProfile([
+      brew({ sensory: { body: 3, sweetness: 4 } }),
+      brew({ sensory: { body: 4 } }),
+      brew(),
+    ]);
+    expect(profile).toEqual({ body: 3.5, sweetness: 4 });
+  });
+
+  it("groups ratings by key, best first, ignoring blank keys", () => {
+    const rows = [
+      { origin: "Ethiopia", rating: 4.5 },
+      { origin: " Ethiopia ", rating: 3.5 },
+      { origin: "Colombia", rating: 4.5 },
+      { origin: "", rating: 5 },
+      { origin: "Kenya", rating: null },
+    ];
+    expect(buildRatingBreakdown(rows, (row) => row.origin)).toEqual([
+      { key: "Colombia", brewCount: 1, averageRating: 4.5 },
+      { key: "Ethiopia", brewCount: 2, averageRating: 4 },
+      { key: "Kenya", brewCount: 1, averageRating: null },
+    ]);
+  });
+});
+
+describe("roast age analysis", () => {
+  it("averages rating and taste per day off roast, skipping brews without a roast date", () => {
+    const curve = buildRoastAgeCurve([
+      brew({ daysOffRoast: 7, rating: 4, sensory: { body: 3 } }),
+      brew({ daysOffRoast: 2 }),
+      brew({ daysOffRoast: 7, rating: 3, sensory: { body: 5 } }),
+      brew({ rating: 5 }),
+    ]);
+    expect(curve).toEqual([
+      { daysOffRoast: 2, brewCount: 1, averageRating: null, tasteProfile: {} },
+      { daysOffRoast: 7, brewCount: 2, averageRating: 3.5, tasteProfile: { body: 4 } },
+    ]);
+  });
+
+  it("finds the smoothed best run of days and ignores a lone day far away", () => {
+    const rows = [
+      { daysOffRoast: 3, rating: 3 },
+      { daysOffRoast: 5, rating: 3.5 },
+      { daysOffRoast: 8, rating: 4.5 },
+      { daysOffRoast: 9, rating: 4.5 },
+      { daysOffRoast: 10, rating: 4.25 },
+      { daysOffRoast: 20, rating: 3 },
+      { daysOffRoast: 9, rating: null },
+      { daysOffRoast: null, rating: 5 },
+    ];
+    expect(detectPeakWindow(rows)).toEqual({ startDay: 8, endDay: 10, brewCount: 3, averageRating: 4.42 });
+  });
+
+  it("needs enough rated brews on more than one day", () => {
+    expect(
+      detectPeakWindow([
+        { daysOffRoast: 5, rating: 4 },
+        { daysOffRoast: 6, rating: 4.5 },
+      ]),
+    ).toBeNull();
+    expect(
+      detectPeakWindow([
+        { daysOffRoast: 5, rating: 4 },
+        { daysOffRoast: 5, rating: 4.5 },
+        { daysOffRoast: 5, rating: 3 },
+      ]),
+    ).toBeNull();
+  });
+});
+
+describe("buildBagAnalytics", () => {
+  const computed = buildBagComputedFields(
+    { roastDate: null, roastLevel: null, process: null, restingProfileId: null },
+    [],
+  );
+
+  it("aggregates methods, trend, best brew and per-brewer performance", () => {
+    const rows = [
+      brew({ rating: 3, sensory: { body: 2 }, flavourTags: ["fruity.berry"] }),
+      brew({ method: "Aeropress" }),
+      brew({ rating: 4.5, userId: HOUSEMATE_ID, sensory: { body: 4 } }),
+      brew({ rating: 4 }),
+    ];
+    const analytics = buildBagAnalytics(BAG_ID, computed, rows, {
+      recipeBrews: [],
+      recipes: [],
+      profiles: [{ userId: HOUSEMATE_ID, displayName: "Housemate" }],
+    });
+
+    expect(analytics).toMatchObject({
+      bagId: BAG_ID,
+      totalBrews: 4,
+      averageRating: 3.83,
+      averageTasteProfile: { body: 3 },
+      brewMethods: [
+        { method: "V60", count: 3 },
+        { method: "Aeropress", count: 1 },
+      ],
+    });
+    expect(analytics.ratingTrend.map((point) => [point.brewNumber, point.rating])).toEqual([
+      [1, 3],
+      [2, 4.5],
+      [3, 4],
+    ]);
+    expect(analytics.bestBrew?.id).toBe(rows[2]?.id);
+    expect(analytics.brewerPerformance).toEqual([
+      expect.objectContaining({ userId: HOUSEMATE_ID, displayName: "Housemate", brewCount: 1, averageRating: 4.5 }),
+      expect.objectContaining({ userId: BREWER_ID, displayName: ANONYMOUS_DISPLAY_NAME, brewCount: 3, averageRating: 3.5 }),
+    ]);
+  });
+
+  it("prefers the flagged best brew over the top-rated one", () => {
+    const rows = [brew({ rating: 5 }), brew({ rating: 2, isBest: true })];
+    const analytics = buildBagAnalytics(BAG_ID, computed, rows, { recipeBrews: [], recipes: [], profiles: [] });
+    expect(analytics.bestBrew?.id).toBe(rows[1]?.id);
+  });
+
+  it("compares recipes with their record on other bags and keeps deleted ones bag-only", () => {
+    const rows = [brew({ recipeId: RECIPE_ID, rating: 4 }), brew({ recipeId: DELETED_RECIPE_ID, rating: 3 })];
+    const elsewhere = brew({ bagId: "00000000-0000-0000-0000-0000000000b2", recipeId: RECIPE_ID, rating: 2 });
+    const analytics = buildBagAnalytics(BAG_ID, computed, rows, {
+      recipeBrews: [...rows.slice(0, 1), elsewhere],
+      recipes: [recipe()],
+      profiles: [],
+    });
+
+    expect(analytics.recipePerformance).toEqual([
+      {
+        recipeId: RECIPE_ID,
+        name: "House V60",
+        brewCount: 1,
+        averageRating: 4,
+        allBagsBrewCount: 2,
+        allBagsAverageRating: 3,
+      },
+      {
+        recipeId: DELETED_RECIPE_ID,
+        name: "Deleted recipe",
+        brewCount: 1,
+        averageRating: 3,
+        allBagsBrewCount: 0,
+        allBagsAverageRating: null,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,327 @@
+import { countFlavourTags } from "./flavours";
+import { ANONYMOUS_DISPLAY_NAME } from "./social";
+import { toBrewResponse } from "./brews";
+import type { Bag, Brew, Profile, Recipe } from "./store";
+import type {
+  AnalyticsResponse,
+  BagComputedFields,
+  PeakWindow,
+  PersonalAnalyticsResponse,
+  RatingBreakdownItem,
+  RoastAgePoint,
+  TasteProfile,
+} from "./types/api";
+
+// Aggregations behind the analytics endpoints. Everything here works on rows already
+// loaded from the store, so it can be tested without a database.
+
+// Reusable average helper for ratings and taste dimensions.
+export function average(values: number[]): number | null {
+  return values.length
+    ? Number((values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(2))
+    : null;
+}
+
+type TasteProfileRow = Pick<Brew, "sensory">;
+
+// Average rating across brews, ignoring unrated ones.
+export function averageRatingOf(rows: Array<{ rating: number | null }>): number | null {
+  return average(rows.map((row) => row.rating).filter((value): value is number => value !== null));
+}
+
+// Averages each sensory attribute independently so partially scored brews still count.
+// Covers every attribute any of the brews was scored on, in key order.
+export function computeAverageTasteProfile(rows: TasteProfileRow[]): TasteProfile {
+  const keys = Array.from(new Set(rows.flatMap((row) => Object.keys(row.sensory)))).sort();
+  return Object.fromEntries(
+    keys.map((key) => [
+      key,
+      average(rows.map((row) => row.sensory[key]).filter((value): value is number => value !== undefined)),
+    ]),
+  );
+}
+
+// Peak window detection: at least this many rated brews, on at least two different days.
+const PEAK_WINDOW_MIN_BREWS = process.env.PEAK_WINDOW_MIN_BREWS ? Number(process.env.PEAK_WINDOW_MIN_BREWS) : 3;
+// Each day's rating is averaged with the brews this many days either side of it.
+const PEAK_SMOOTHING_DAYS = 2;
+// Days whose smoothed rating is at most this far below the best day belong to the window.
+const PEAK_RATING_TOLERANCE = 0.25;
+
+type RoastAgeRow = Pick<Brew, "daysOffRoast" | "rating" | "sensory">;
+
+// Average rating and taste per day off roast, youngest beans first. Brews on bags
+// without a roast date are left out.
+export function buildRoastAgeCurve(rows: RoastAgeRow[]): RoastAgePoint[] {
+  const rowsByDay = new Map<number, RoastAgeRow[]>();
+  for (const row of rows) {
+    if (row.daysOffRoast === null) continue;
+    rowsByDay.set(row.daysOffRoast, [...(rowsByDay.get(row.daysOffRoast) ?? []), row]);
+  }
+  return Array.from(rowsByDay.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([daysOffRoast, dayRows]) => ({
+      daysOffRoast,
+      brewCount: dayRows.length,
+      averageRating: averageRatingOf(dayRows),
+      tasteProfile: computeAverageTasteProfile(dayRows),
+    }));
+}
+
+// Finds the bean age range where brews rated best. Ratings are smoothed over neighbouring
+// days so a single lucky brew doesn't make a peak; the window then grows from the best day
+// while neighbouring days stay within PEAK_RATING_TOLERANCE of it. Days further apart
+// than the smoothing reaches are not joined.
+export function detectPeakWindow(rows: Array<Pick<Brew, "daysOffRoast" | "rating">>): PeakWindow | null {
+  const rated = rows.flatMap((row) =>
+    row.daysOffRoast !== null && row.rating !== null ? [{ day: row.daysOffRoast, rating: row.rating }] : [],
+  );
+  const days = Array.from(new Set(rated.map((row) => row.day))).sort((a, b) => a - b);
+  if (rated.length < PEAK_WINDOW_MIN_BREWS || days.length < 2) return null;
+
+  const smoothed = days.map(
+    (day) =>
+      average(rated.filter((row) => Math.abs(row.day - day) <= PEAK_SMOOTHING_DAYS).map((row) => row.rating)) ?? 0,
+  );
+  const best = smoothed.indexOf(Math.max(...smoothed));
+  const threshold = (smoothed[best] ?? 0) - PEAK_RATING_TOLERANCE;
+  const joins = (from: number, to: number) =>
+    (smoothed[to] ?? -Infinity) >= threshold && Math.abs((days[to] ?? 0) - (days[from] ?? 0)) <= 2 * PEAK_SMOOTHING_DAYS;
+  let start = best;
+  let end = best;
+  while (start > 0 && joins(start, start - 1)) start -= 1;
+  while (end < days.length - 1 && joins(end, end + 1)) end += 1;
+
+  const startDay = days[start] ?? 0;
+  const endDay = days[end] ?? startDay;
+  const windowRatings = rated.filter((row) => row.day >= startDay && row.day <= endDay).map((row) => row.rating);
+  return { startDay, endDay, brewCount: windowRatings.length, averageRating: average(windowRatings) ?? 0 };
+}
+
+// Groups brews by a key and averages their ratings; rows with no key are skipped.
+export function buildRatingBreakdown<T extends { rating: number | null }>(
+  rows: T[],
+  keyOf: (row: T) => string | null,
+): RatingBreakdownItem[] {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = keyOf(row)?.trim();
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, groupRows]) => ({
+      key,
+      brewCount: groupRows.length,
+      averageRating: averageRatingOf(groupRows),
+    }))
+    .sort((a, b) => (b.averageRating ?? -1) - (a.averageRating ?? -1) || b.brewCount - a.brewCount);
+}
+
+// Days-off-roast buckets used by the personal dashboard.
+export const ROAST_AGE_BUCKETS: Array<{ label: string; minDays: number; maxDays: number | null }> = [
+  { label: "0-3 days", minDays: 0, maxDays: 3 },
+  { label: "4-7 days", minDays: 4, maxDays: 7 },
+  { label: "8-14 days", minDays: 8, maxDays: 14 },
+  { label: "15-21 days", minDays: 15, maxDays: 21 },
+  { label: "22-30 days", minDays: 22, maxDays: 30 },
+  { label: "31+ days", minDays: 31, maxDays: null },
+];
+
+// What GET /bags/:id/analytics needs besides the bag's own brews: the brewer's brews
+// with the same recipes on any bag, those recipes, and the brewers' profiles.
+export type BagAnalyticsContext = {
+  recipeBrews: Brew[];
+  recipes: Recipe[];
+  profiles: Array<Pick<Profile, "userId" | "displayName">>;
+};
+
+// Bag-level aggregates for the analytics screen, from the bag's active brews oldest first.
+export function buildBagAnalytics(
+  bagId: string,
+  computed: BagComputedFields,
+  rows: Brew[],
+  context: BagAnalyticsContext,
+): AnalyticsResponse {
+  // Count method frequencies for bar chart.
+  const brewMethodMap = new Map<string, number>();
+  for (const row of rows) {
+    brewMethodMap.set(row.method, (brewMethodMap.get(row.method) ?? 0) + 1);
+  }
+  const brewMethods = Array.from(brewMethodMap.entries()).map(([method, count]) => ({ method, count }));
+
+  // Keep chronological order for trend chart.
+  const ratingTrend = rows
+    .filter((row) => row.rating !== null)
+    .map((row, index) => ({
+      brewNumber: index + 1,
+      rating: row.rating as number,
+      createdAt: row.createdAt,
+    }));
+
+  const bestBrewRow =
+    rows.find((row) => row.isBest) ??
+    rows
+      .filter((row) => row.rating !== null)
+      .sort((a, b) => {
+        if ((b.rating ?? 0) !== (a.rating ?? 0)) return (b.rating ?? 0) - (a.rating ?? 0);
+        return b.createdAt.getTime() - a.createdAt.getTime();
+      })[0] ??
+    null;
+
+  // Recipes used on this bag, with their track record on every other bag for comparison.
+  // Brews of recipes deleted since only count towards this bag.
+  const recipeIds = Array.from(new Set(rows.map((row) => row.recipeId).filter((id): id is string => id !== null)));
+  const recipePerformance = recipeIds
+    .map((recipeId) => {
+      const recipe = context.recipes.find((item) => item.id === recipeId);
+      const bagRows = rows.filter((row) => row.recipeId === recipeId);
+      const allRows = recipe ? context.recipeBrews.filter((row) => row.recipeId === recipeId) : [];
+      return {
+        recipeId,
+        name: recipe?.name ?? "Deleted recipe",
+        brewCount: bagRows.length,
+        averageRating: averageRatingOf(bagRows),
+        allBagsBrewCount: allRows.length,
+        allBagsAverageRating: averageRatingOf(allRows),
+      };
+    })
+    .sort((a, b) => (b.averageRating ?? -1) - (a.averageRating ?? -1));
+
+  // Who dials this bag in best, for bags shared between household members.
+  const brewerIds = Array.from(new Set(rows.map((row) => row.userId)));
+  const brewerPerformance = brewerIds
+    .map((brewerId) => {
+      const brewerRows = rows.filter((row) => row.userId === brewerId);
+      const ratings = brewerRows.map((row) => row.rating).filter((rating): rating is number => rating !== null);
+      return {
+        userId: brewerId,
+        displayName:
+          context.profiles.find((profile) => profile.userId === brewerId)?.displayName ?? ANONYMOUS_DISPLAY_NAME,
+        brewCount: brewerRows.length,
+        averageRating: averageRatingOf(brewerRows),
+        bestRating: ratings.length ? Math.max(...ratings) : null,
+        averageTasteProfile: computeAverageTasteProfile(brewerRows),
+      };
+    })
+    .sort((a, b) => (b.averageRating ?? -1) - (a.averageRating ?? -1));
+
+  return {
+    bagId,
+    ...computed,
+    totalBrews: rows.length,
+    averageRating: averageRatingOf(rows),
+    averageTasteProfile: computeAverageTasteProfile(rows),
+    flavourTags: countFlavourTags(rows),
+    brewMethods,
+    ratingTrend,
+    bestBrew: bestBrewRow ? toBrewResponse(bestBrewRow) : null,
+    roastAgeCurve: buildRoastAgeCurve(rows),
+    peakWindow: detectPeakWindow(rows),
+    recipePerformance,
+    brewerPerformance,
+  };
+}
+
+// Personal dashboard aggregated across every brew on the bags the user owns.
+export function buildPersonalAnalytics(
+  brewsWithBags: Array<{ brew: Brew; bag: Bag }>,
+  totalBags: number,
+): PersonalAnalyticsResponse {
+  const rows = brewsWithBags.map(({ brew, bag }) => ({
+    bagId: bag.id,
+    origin: bag.origin,
+    process: bag.process,
+    roaster: bag.roaster,
+    method: brew.method,
+    brewer: brew.brewer,
+    grinder: brew.grinder,
+    rating: brew.rating,
+    sensory: brew.sensory,
+    flavourTags: brew.flavourTags,
+    daysOffRoast: brew.daysOffRoast,
+  }));
+
+  // Taste radar and flavour tags per origin reuse the bag-level aggregation.
+  const rowsByOrigin = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const origin = row.origin?.trim();
+    if (!origin) continue;
+    rowsByOrigin.set(origin, [...(rowsByOrigin.get(origin) ?? []), row]);
+  }
+  const tasteProfileByOrigin = Array.from(rowsByOrigin.entries())
+    .map(([origin, originRows]) => ({
+      origin,
+      brewCount: originRows.length,
+      tasteProfile: computeAverageTasteProfile(originRows),
+    }))
+    .sort((a, b) => b.brewCount - a.brewCount);
+  const flavourTagsByOrigin = tasteProfileByOrigin.map(({ origin, brewCount }) => ({
+    origin,
+    brewCount,
+    flavourTags: countFlavourTags(rowsByOrigin.get(origin) ?? []),
+  }));
+
+  // Bucket by bean age at brew time, not today's age.
+  const ratingByRoastAge = ROAST_AGE_BUCKETS.map((bucket) => {
+    const bucketRows = rows.filter(
+      ({ daysOffRoast: days }) =>
+        days !== null && days >= bucket.minDays && (bucket.maxDays === null || days <= bucket.maxDays),
+    );
+    return { ...bucket, brewCount: bucketRows.length, averageRating: averageRatingOf(bucketRows) };
+  });
+
+  // When each roaster's beans taste best, from every bag of theirs with a roast date.
+  const agedRowsByRoaster = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const roaster = row.roaster.trim();
+    if (!roaster || row.daysOffRoast === null) continue;
+    agedRowsByRoaster.set(roaster, [...(agedRowsByRoaster.get(roaster) ?? []), row]);
+  }
+  const peakWindowByRoaster = Array.from(agedRowsByRoaster.entries())
+    .map(([roaster, roasterRows]) => ({
+      roaster,
+      bagCount: new Set(roasterRows.map((row) => row.bagId)).size,
+      brewCount: roasterRows.length,
+      peakWindow: detectPeakWindow(roasterRows),
+    }))
+    .sort((a, b) => b.brewCount - a.brewCount);
+
+  // Most-used brewer + grinder pairs, counting only brews where both were recorded.
+  const comboMap = new Map<string, { brewer: string; grinder: string; rows: typeof rows }>();
+  for (const row of rows) {
+    const brewer = row.brewer?.trim();
+    const grinder = row.grinder?.trim();
+    if (!brewer || !grinder) continue;
+    const key = `${brewer.toLowerCase()}|${grinder.toLowerCase()}`;
+    const combo = comboMap.get(key) ?? { brewer, grinder, rows: [] };
+    combo.rows.push(row);
+    comboMap.set(key, combo);
+  }
+  const equipmentCombos = Array.from(comboMap.values())
+    .map((combo) => ({
+      brewer: combo.brewer,
+      grinder: combo.grinder,
+      brewCount: combo.rows.length,
+      averageRating: averageRatingOf(combo.rows),
+    }))
+    .sort((a, b) => b.brewCount - a.brewCount || (b.averageRating ?? -1) - (a.averageRating ?? -1))
+    .slice(0, 10);
+
+  return {
+    totalBags,
+    totalBrews: rows.length,
+    averageRating: averageRatingOf(rows),
+    ratingByOrigin: buildRatingBreakdown(rows, (row) => row.origin),
+    ratingByProcess: buildRatingBreakdown(rows, (row) => row.process),
+    ratingByRoaster: buildRatingBreakdown(rows, (row) => row.roaster),
+    ratingByMethod: buildRatingBreakdown(rows, (row) => row.method),
+    tasteProfileByOrigin,
+    flavourTagsByOrigin,
+    ratingByRoastAge,
+    roastAgeCurve: buildRoastAgeCurve(rows),
+    peakWindowByRoaster,
+    equipmentCombos,
+  };
+}
@@ -3,28 +3,211 @@ import cors from "cors";
 import "dotenv/config";
 import path from "path";
 
-import { db } from "./db/client";
-import { bags, brews } from "./db/schema";
-import { eq, and, desc, inArray, sql } from "drizzle-orm";
-import { randomUUID } from "crypto";
+import { authProviderFromEnv, type AuthProvider, type AuthUser, type LocalAuthProvider } from "./auth";
+import {
+  store,
+  type ApiToken,
+  type Bag,
+  type BagHistoryEntryInsert,
+  type BagInsert,
+  type Brew,
+  type BrewInsert,
+  type BrewSession,
+  type Equipment,
+  type Profile,
+  type ProfileInsert,
+  type Recipe,
+  type RecipeInsert,
+  type SensoryAttribute,
+  type StoredRestingProfile,
+} from "./store";
+import { buildPourSchedule, deriveSessionBrewFields } from "./sessions";
+import { buildBrewComparison } from "./compare";
+import { FLAVOUR_WHEEL } from "./flavours";
+import { findOrCreateRoaster, mergeCoffees, mergeRoasters, resolveBagCoffee } from "./catalogue";
+import {
+  API_TOKEN_PREFIX,
+  generateApiToken,
+  isApiTokenScope,
+  requiredScopes,
+  verifyApiToken,
+} from "./tokens";
+import { visibility } from "./db/schema";
+import { randomBytes, randomUUID } from "crypto";
+import {
+  MIN_RATED_BREWS_FOR_BAG_FIT,
+  recommendFromBagHistory,
+  recommendFromSimilarBags,
+  type RecommendationBrew,
+} from "./recommendation";
+import { formatCsvHeader, formatCsvRow, parseCsv } from "./csv";
+import {
+  addComment,
+  getFeedItemsAfter,
+  getVisibleFeedBrew,
+  likeBrew,
+  subscribeToFeed,
+  unlikeBrew,
+  type FeedViewer,
+} from "./feed";
+import {
+  BAG_ROLE_RANK,
+  EMPTY_BAG_USAGE,
+  archiveBag,
+  autoArchiveIfEmpty,
+  buildBagComputedFields,
+  decodeBagCursor,
+  getBagAccess,
+  getBagDetail,
+  getOwnedRestingProfileById,
+  getRestingProfiles,
+  listBags,
+  revertBagChange,
+  saveBagChanges,
+  toBagDetailResponse,
+  unarchiveBag,
+  validateBagRestingProfile,
+} from "./bags";
+import {
+  canChangeBrew,
+  computeBrewRatio,
+  computeRestoreDeadline,
+  getBagBrewById,
+  listBagBrews,
+  markBestBrew,
+  revertBrewChange,
+  saveBrewChanges,
+  saveNewBrew,
+  toBrewResponse,
+} from "./brews";
+import {
+  bagHistoryEntry,
+  brewHistoryEntry,
+  findRevertConflict,
+  getBagHistoryEntry,
+  listBagHistory,
+  recordHistory,
+} from "./history";
+import {
+  average,
+  averageRatingOf,
+  buildBagAnalytics,
+  buildPersonalAnalytics,
+  buildRatingBreakdown,
+  computeAverageTasteProfile,
+} from "./analytics";
+import { ANONYMOUS_DISPLAY_NAME, buildCommentThreads, pruneDeletedComments } from "./social";
+import { validateRestingWindows } from "./resting";
+import {
+  AutocompleteQuery,
+  CoffeesQuery,
+  CompareBrewsQuery,
+  CreateApiTokenRequest,
+  CreateBagAdjustmentRequest,
+  CreateBagInviteRequest,
+  CreateBagRequest,
+  CreateBrewRequest,
+  CreateCoffeeRequest,
+  CreateCommentRequest,
+  CreateEquipmentRequest,
+  CreateRecipeFromBrewRequest,
+  CreateRecipeRequest,
+  CreateRestingProfileRequest,
+  CreateRoasterRequest,
+  CreateSensoryAttributeRequest,
+  CredentialsRequest,
+  EquipmentQuery,
+  ExportQuery,
+  FeedQuery,
+  ImportedBagRecord,
+  ImportedBrewRecord,
+  ImportJournalRequest,
+  ImportQuery,
+  ListBagsQuery,
+  MarkNotificationsReadRequest,
+  MergeCatalogueRequest,
+  NotificationsQuery,
+  RecordBrewEventRequest,
+  RECIPE_BREW_FIELDS,
+  ROUTES,
+  SENSORY_KEY_MESSAGE,
+  SENSORY_KEY_PATTERN,
+  UpdateBagMemberRequest,
+  UpdateBagRequest,
+  UpdateBrewRequest,
+  UpdateCoffeeRequest,
+  UpdateEquipmentRequest,
+  UpdateProfileRequest,
+  UpdateRecipeRequest,
+  UpdateRestingProfileRequest,
+  UpdateRoasterRequest,
+} from "./contracts";
+import { buildOpenApiDocument, checkResponseContracts } from "./openapi";
+import { parsePayload, s, UUID_PATTERN, type Schema } from "./validation";
 import type {
+  BagAdjustmentResponse,
+  BagHistoryEntryResponse,
+  BagInviteAcceptResponse,
+  BagInviteResponse,
+  BagMemberResponse,
+  BagRole,
   AnalyticsResponse,
-  BagComputedFields,
+  ApiTokenResponse,
+  ApiTokenScope,
+  AuthSessionResponse,
   BagDetailResponse,
-  BagListItemResponse,
+  BagListResponse,
+  BrewComparisonResponse,
   BrewResponse,
+  BrewSessionResponse,
+  CoffeeDetailResponse,
+  CoffeeResponse,
+  CommentResponse,
+  CreatedApiTokenResponse,
+  DeletedBrewResponse,
+  EquipmentAnalyticsResponse,
+  EquipmentResponse,
+  EquipmentType,
+  FollowListResponse,
   GlobalFeedItemResponse,
-  RestingStatus,
+  ImportResponse,
+  ImportRowError,
+  JournalBagRecord,
+  JournalBrewRecord,
+  LikeResponse,
+  NotificationListResponse,
+  NotificationResponse,
+  PersonalAnalyticsResponse,
+  PourStage,
+  ProfileResponse,
+  PublicProfileResponse,
+  RecipeAnalyticsResponse,
+  RecipeResponse,
+  RecommendationResponse,
+  RestingProfileResponse,
+  RoasterDetailResponse,
+  RoasterResponse,
+  SensoryAttributeResponse,
+  SensoryScores,
   ValidationErrorResponse,
   ValidationIssue,
+  Visibility,
 } from "./types/api";
 
 // Main Express application used by both runtime server and integration tests.
 const app = express();
 
 // Basic middleware: CORS, JSON body parsing, and static frontend hosting.
+// The JSON limit is raised from the 100kb default so whole-journal imports fit.
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: "5mb" }));
+
+// Checks JSON responses against the route table in src/contracts.ts and answers 500 on a
+// mismatch. On under tests unless CHECK_RESPONSE_CONTRACTS=false.
+const CHECK_RESPONSE_CONTRACTS =
+  process.env.CHECK_RESPONSE_CONTRACTS === "true" ||
+  (process.env.NODE_ENV === "test" && process.env.CHECK_RESPONSE_CONTRACTS !== "false");
+if (CHECK_RESPONSE_CONTRACTS) app.use(checkResponseContracts(ROUTES));
 
 // Quick health endpoint to confirm service is up.
 app.get("/health", (_req, res) => {
@@ -36,27 +219,37 @@ const DEV_USER_ID = process.env.DEV_USER_ID ?? "00000000-0000-0000-0000-00000000
 const AUTH_REQUIRED = process.env.AUTH_REQUIRED === "true";
 const SUPABASE_URL = process.env.SUPABASE_URL;
 const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY;
-
-type SupabaseUser = { id: string };
-
-function isPublicPath(pathname: string) {
-  return pathname === "/health" || pathname.startsWith("/app");
+// Guest mode normally only covers requests without a token. Set this to also treat
+// requests with an invalid token as the guest (logged) instead of answering 401.
+const AUTH_INVALID_TOKEN_AS_GUEST = process.env.AUTH_INVALID_TOKEN_AS_GUEST === "true";
+// Comment line sent on idle feed streams so proxies don't drop the connection.
+const FEED_HEARTBEAT_SECONDS = process.env.FEED_HEARTBEAT_SECONDS ? Number(process.env.FEED_HEARTBEAT_SECONDS) : 25;
+// Visibility of new bags for users who haven't picked their own default.
+const DEFAULT_VISIBILITY: Visibility = isVisibility(process.env.DEFAULT_VISIBILITY)
+  ? process.env.DEFAULT_VISIBILITY
+  : "PUBLIC";
+// Feed floor for everything owned by the shared DEV_USER_ID guest account, so
+// anonymous data stays out of other users' feeds regardless of its own settings.
+const GUEST_VISIBILITY: Visibility = isVisibility(process.env.GUEST_VISIBILITY)
+  ? process.env.GUEST_VISIBILITY
+  : "PRIVATE";
+// Lifetime of bag invite links when the request doesn't set one.
+const BAG_INVITE_TTL_HOURS = process.env.BAG_INVITE_TTL_HOURS ? Number(process.env.BAG_INVITE_TTL_HOURS) : 168;
+
+// Verifies bearer tokens; see src/auth.ts for AUTH_PROVIDER and its settings.
+const authProvider: AuthProvider | null = authProviderFromEnv();
+if (!authProvider && AUTH_REQUIRED) {
+  console.warn("AUTH_REQUIRED=true but no auth provider is configured; every API request will get 401");
 }
 
-async function fetchSupabaseUser(accessToken: string): Promise<SupabaseUser | null> {
-  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) return null;
-
-  const response = await fetch(`${SUPABASE_URL}/auth/v1/user`, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      apikey: SUPABASE_ANON_KEY,
-    },
-  });
-
-  if (!response.ok) return null;
-  const payload = (await response.json()) as SupabaseUser;
-  if (!payload?.id) return null;
-  return payload;
+function isPublicPath(pathname: string) {
+  return (
+    pathname === "/health" ||
+    pathname === "/openapi.json" ||
+    pathname === "/docs" ||
+    pathname.startsWith("/app") ||
+    pathname.startsWith("/auth/")
+  );
 }
 
 // Exposes non-secret auth config to browser frontend.
@@ -64,6 +257,8 @@ app.get("/app/config.js", (_req, res) => {
   res.type("application/javascript").send(
     `window.APP_CONFIG = ${JSON.stringify({
       authRequired: AUTH_REQUIRED,
+      authProvider: authProvider?.name ?? null,
+      localSignup: authProvider?.name === "local" && (authProvider as LocalAuthProvider).allowSignup,
       supabaseUrl: SUPABASE_URL ?? null,
       supabaseAnonKey: SUPABASE_ANON_KEY ?? null,
     })};`,
@@ -71,16 +266,77 @@ app.get("/app/config.js", (_req, res) => {
 });
 app.use("/app", express.static(path.resolve(process.cwd(), "web")));
 
+// GET /openapi.json
+// OpenAPI 3 document generated from the request and response schemas.
+const openApiDocument = buildOpenApiDocument(ROUTES);
+app.get("/openapi.json", (_req, res) => {
+  res.json(openApiDocument);
+});
+
+// GET /docs
+// Browsable API reference rendered from /openapi.json.
+app.get("/docs", (_req, res) => {
+  res.redirect("/app/docs.html");
+});
+
+function getLocalAuthProvider(res: Response): LocalAuthProvider | null {
+  if (authProvider?.name === "local") return authProvider as LocalAuthProvider;
+  res.status(404).json({ error: "Local accounts are not enabled" });
+  return null;
+}
+
+function parseCredentials(body: unknown) {
+  const { values, issues } = parsePayload(CredentialsRequest, body);
+  return { email: values.email ?? "", password: values.password ?? "", issues };
+}
+
+// POST /auth/register
+// Creates a local account and signs it in. Only with AUTH_PROVIDER=local and
+// LOCAL_AUTH_ALLOW_SIGNUP not set to false.
+app.post("/auth/register", async (req, res) => {
+  const provider = getLocalAuthProvider(res);
+  if (!provider) return;
+  if (!provider.allowSignup) return res.status(403).json({ error: "Sign-up is disabled" });
+
+  const { email, password, issues } = parseCredentials(req.body);
+  if (issues.length) return sendValidationError(res, issues);
+
+  const session = await provider.register(email, password);
+  if (!session) return sendValidationError(res, [{ field: "email", message: "is already registered" }]);
+  const payload: AuthSessionResponse = session;
+  res.status(201).json(payload);
+});
+
+// POST /auth/login
+// Exchanges a local account's email and password for an access token.
+app.post("/auth/login", async (req, res) => {
+  const provider = getLocalAuthProvider(res);
+  if (!provider) return;
+
+  const { email, password, issues } = parseCredentials(req.body);
+  if (issues.length) return res.status(401).json({ error: "Invalid email or password" });
+
+  const session = await provider.login(email, password);
+  if (!session) return res.status(401).json({ error: "Invalid email or password" });
+  const payload: AuthSessionResponse = session;
+  res.json(payload);
+});
+
 // Auth middleware:
-// - AUTH_REQUIRED=false: allow guest fallback to DEV_USER_ID
-// - AUTH_REQUIRED=true: require valid Supabase access token on API routes
+// - AUTH_REQUIRED=false: requests without a token run as the DEV_USER_ID guest
+// - AUTH_REQUIRED=true: require a valid access token on API routes
+// A token that fails verification is a 401 either way, unless AUTH_INVALID_TOKEN_AS_GUEST=true.
+// Personal access tokens (ct_...) are accepted alongside provider tokens, limited to their scopes.
 app.use(async (req, res, next) => {
   if (isPublicPath(req.path)) return next();
 
   const authHeader = req.header("authorization");
+  // EventSource can't send headers, so the feed stream also takes the token as a query param.
+  const queryToken =
+    req.path === "/feed/stream" && typeof req.query.access_token === "string" ? req.query.access_token : null;
   const token = authHeader?.toLowerCase().startsWith("bearer ")
     ? authHeader.slice("bearer ".length).trim()
-    : null;
+    : queryToken;
 
   if (!token) {
     if (!AUTH_REQUIRED) {
@@ -90,9 +346,33 @@ app.use(async (req, res, next) => {
     return res.status(401).json({ error: "Authentication required" });
   }
 
-  const user = await fetchSupabaseUser(token);
+  let user: AuthUser | null;
+  try {
+    if (token.startsWith(API_TOKEN_PREFIX)) {
+      const apiToken = await verifyApiToken(token);
+      if (apiToken) {
+        const scopes = requiredScopes(req.method, req.path);
+        if (!scopes) return res.status(403).json({ error: "Personal access tokens can't be used here" });
+        const missing = scopes.filter((scope) => !apiToken.scopes.includes(scope));
+        if (missing.length) {
+          return res
+            .status(403)
+            .json({ error: `Token is missing the ${missing.join(" and ")} scope${missing.length > 1 ? "s" : ""}` });
+        }
+        res.locals.userId = apiToken.userId;
+        return next();
+      }
+      user = null;
+    } else {
+      user = authProvider ? await authProvider.verifyAccessToken(token) : null;
+    }
+  } catch (error) {
+    console.error("auth provider unavailable", error);
+    return res.status(503).json({ error: "Authentication is temporarily unavailable" });
+  }
   if (!user) {
-    if (!AUTH_REQUIRED) {
+    if (!AUTH_REQUIRED && AUTH_INVALID_TOKEN_AS_GUEST) {
+      console.warn(`Invalid token on ${req.method} ${req.path}; continuing as guest (AUTH_INVALID_TOKEN_AS_GUEST=true)`);
       res.locals.userId = DEV_USER_ID;
       return next();
     }
@@ -107,539 +387,2466 @@ function getRequestUserId(req: Request): string {
   return (req.res?.locals.userId as string | undefined) ?? DEV_USER_ID;
 }
 
-// Ensures a bag exists and belongs to the current dev user.
-async function getOwnedBagById(bagId: string, userId: string) {
-  const rows = await db
-    .select()
-    .from(bags)
-    .where(and(eq(bags.id, bagId), eq(bags.userId, userId)));
-  return rows[0] ?? null;
-}
-
-// Parses an optional numeric input from request payloads.
-// Returns:
-// - null when empty
-// - NaN when invalid
-// - number when valid
-function parseOptionalNumber(value: unknown): number | null | typeof NaN {
-  if (value === null || value === undefined || value === "") return null;
-  const parsed = Number(value);
-  return Number.isFinite(parsed) ? parsed : NaN;
-}
-
-// Integer validator used for fields like dose/taste sliders.
-function parseOptionalIntegerInRange(
-  value: unknown,
-  fieldName: string,
-  min: number,
-  max: number,
-): { value: number | null; issue: ValidationIssue | null } {
-  const parsed = parseOptionalNumber(value);
-  if (Number.isNaN(parsed)) return { value: null, issue: { field: fieldName, message: "must be a number" } };
-  if (parsed === null) return { value: null, issue: null };
-  if (!Number.isInteger(parsed)) {
-    return { value: null, issue: { field: fieldName, message: "must be an integer" } };
-  }
-  if (parsed < min || parsed > max) {
-    return { value: null, issue: { field: fieldName, message: `must be between ${min} and ${max}` } };
-  }
-  return { value: parsed, issue: null };
-}
-
-// Decimal validator used for fields like rating.
-function parseOptionalNumberInRange(
-  value: unknown,
-  fieldName: string,
-  min: number,
-  max: number,
-): { value: number | null; issue: ValidationIssue | null } {
-  const parsed = parseOptionalNumber(value);
-  if (Number.isNaN(parsed)) return { value: null, issue: { field: fieldName, message: "must be a number" } };
-  if (parsed === null) return { value: null, issue: null };
-  if (parsed < min || parsed > max) {
-    return { value: null, issue: { field: fieldName, message: `must be between ${min} and ${max}` } };
-  }
-  return { value: parsed, issue: null };
-}
-
-// Calculates whole-day age from roast date.
-function computeRoastAgeDays(roastDate: Date | null): number | null {
-  if (!roastDate) return null;
-  const millisecondsPerDay = 24 * 60 * 60 * 1000;
-  const diffMs = Date.now() - roastDate.getTime();
-  if (diffMs < 0) return 0;
-  return Math.floor(diffMs / millisecondsPerDay);
-}
-
-// Gives user-facing rest status bands from roast age.
-function computeRestingStatus(
-  roastAgeDays: number | null,
-): RestingStatus {
-  if (roastAgeDays === null) return "UNKNOWN";
-  if (roastAgeDays <= 3) return "RESTING";
-  if (roastAgeDays <= 21) return "READY";
-  return "PAST_PEAK";
-}
-
-// Shared computed bag metadata returned by multiple endpoints.
-function buildBagComputedFields(roastDate: Date | null): BagComputedFields {
-  const roastAgeDays = computeRoastAgeDays(roastDate);
-  const restingStatus = computeRestingStatus(roastAgeDays);
-  return { roastAgeDays, restingStatus };
+function getFeedViewer(req: Request): FeedViewer {
+  return { userId: getRequestUserId(req), guestUserId: DEV_USER_ID, guestVisibility: GUEST_VISIBILITY };
 }
 
-// Standardizes validation error response shape.
-function sendValidationError(
-  res: Response,
-  issues: ValidationIssue[],
-  status = 400,
-) {
-  const payload: ValidationErrorResponse = { errors: issues };
-  return res.status(status).json(payload);
+function isVisibility(value: unknown): value is Visibility {
+  return visibility.enumValues.includes(value as Visibility);
+}
+
+async function getOwnProfile(userId: string) {
+  return store.profiles.find(userId);
+}
+
+// Visibility applied to a user's new bags when the request doesn't pick one.
+async function getDefaultVisibility(userId: string): Promise<Visibility> {
+  return (await getOwnProfile(userId))?.defaultVisibility ?? DEFAULT_VISIBILITY;
+}
+
+// Like getBagAccess, but answers 404 (no access) or 403 (role too weak) itself and returns null.
+async function requireBagRole(res: Response, bagId: string, userId: string, minRole: BagRole) {
+  const access = await getBagAccess(bagId, userId);
+  if (!access) {
+    res.status(404).json({ error: "Bag not found" });
+    return null;
+  }
+  if (BAG_ROLE_RANK[access.role] < BAG_ROLE_RANK[minRole]) {
+    res.status(403).json({ error: `Requires the ${minRole} role on this bag` });
+    return null;
+  }
+  return access;
+}
+
+// Validates resting profile payloads. PATCH merges with the stored windows before
+// checking that the bands are in order.
+function parseRestingProfilePayload(body: unknown, existing: StoredRestingProfile | null = null) {
+  const { values, issues } = existing
+    ? parsePayload(UpdateRestingProfileRequest, body)
+    : parsePayload(CreateRestingProfileRequest, body);
+
+  if (!issues.length) {
+    issues.push(
+      ...validateRestingWindows({
+        restDays: values.restDays ?? existing?.restDays ?? 0,
+        peakStartDay: values.peakStartDay !== undefined ? values.peakStartDay : (existing?.peakStartDay ?? null),
+        peakEndDay: values.peakEndDay !== undefined ? values.peakEndDay : (existing?.peakEndDay ?? null),
+        pastPeakAfterDays: values.pastPeakAfterDays ?? existing?.pastPeakAfterDays ?? 0,
+      }),
+    );
+  }
+
+  return { values, issues };
+}
+
+// Editable brew columns accepted from POST/PATCH payloads.
+type BrewPayloadValues = Partial<
+  Pick<
+    BrewInsert,
+    | "method"
+    | "brewer"
+    | "grinder"
+    | "brewerId"
+    | "grinderId"
+    | "dose"
+    | "grindSetting"
+    | "waterAmount"
+    | "waterTemperature"
+    | "brewTimeSeconds"
+    | "bloomTimeSeconds"
+    | "bloomWater"
+    | "beverageYield"
+    | "tds"
+    | "rating"
+    | "sensory"
+    | "flavourTags"
+    | "flavourNotes"
+    | "visibility"
+  >
+>;
+
+// Sensory attributes a user can score brews on: the built-in ones, then their own.
+async function getSensoryAttributes(userId: string) {
+  return store.sensoryAttributes.list(userId);
+}
+
+function toSensoryAttributeResponse(row: SensoryAttribute): SensoryAttributeResponse {
+  const { userId, createdAt: _createdAt, ...attribute } = row;
+  return { ...attribute, builtIn: userId === null };
+}
+
+// Validates a custom sensory attribute. The key defaults to the slugged label.
+function parseSensoryAttributePayload(body: unknown) {
+  const { values, issues } = parsePayload(CreateSensoryAttributeRequest, body);
+  const label = values.label ?? "";
+  const key = values.key || label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  if (label && !values.key && !SENSORY_KEY_PATTERN.test(key)) issues.push({ field: "key", message: SENSORY_KEY_MESSAGE });
+
+  const range = { min: values.min ?? 0, max: values.max ?? 5 };
+  if (values.min !== undefined && values.max !== undefined && range.min >= range.max) {
+    issues.push({ field: "max", message: "must be greater than min" });
+  }
+
+  return { values: { key, label, ...range }, issues };
 }
 
-// Maps DB bag row to API detail DTO.
-function toBagDetailResponse(row: typeof bags.$inferSelect): BagDetailResponse {
+// Sensory scores keyed by the attributes the brewing user can score, each within that
+// attribute's range. Missing scores mean an empty map, and empty scores are left out.
+function sensoryScoresSchema(attributes: SensoryAttribute[]): Schema<SensoryScores> {
   return {
-    ...row,
-    ...buildBagComputedFields(row.roastDate),
+    parse(value, field, context) {
+      const scores: SensoryScores = {};
+      const input = value ?? {};
+      if (typeof input !== "object" || Array.isArray(input)) {
+        context.issues.push({ field, message: "must be an object of scores by attribute key" });
+        return scores;
+      }
+      for (const [key, score] of Object.entries(input)) {
+        const attribute = attributes.find((item) => item.key === key);
+        if (!attribute) {
+          context.issues.push({ field: `${field}.${key}`, message: "is not a sensory attribute" });
+          continue;
+        }
+        const parsed = s.nullable(s.integer({ min: attribute.min, max: attribute.max })).parse(score, `${field}.${key}`, context);
+        if (typeof parsed === "number") scores[key] = parsed;
+      }
+      return scores;
+    },
+    jsonSchema: (components) => CreateBrewRequest.shape.sensory.jsonSchema(components),
   };
 }
 
-// Maps DB bag row to API list DTO with brewCount aggregate.
-function toBagListItemResponse(
-  row: typeof bags.$inferSelect,
-  brewCount: number,
-  averageRating: number | null,
-): BagListItemResponse {
+// Shared brew payload validation for create and edit.
+// Only keys present in the payload end up in `values`, so PATCH can apply partial updates
+// while POST gets null for every omitted optional field. Sensory scores are checked
+// against `attributes`, the sensory attributes the brewing user can score.
+function parseBrewPayload(
+  body: unknown,
+  options: { partial?: boolean; attributes?: SensoryAttribute[] } = {},
+): { values: BrewPayloadValues; issues: ValidationIssue[] } {
+  const sensory = sensoryScoresSchema(options.attributes ?? []);
+  const parsed = options.partial
+    ? parsePayload(s.extend(UpdateBrewRequest, { sensory: s.optional(sensory) }), body)
+    : parsePayload(s.extend(CreateBrewRequest, { sensory }), body);
+  const { recipeId: _recipeId, flavourTags, ...rest } = parsed.values as typeof parsed.values & { recipeId?: unknown };
+  const values: BrewPayloadValues = rest;
+  const { issues } = parsed;
+  if (flavourTags !== undefined) values.flavourTags = Array.from(new Set(flavourTags ?? []));
+
+  // Cross-field checks only apply when both sides are part of this payload.
+  if (values.bloomWater != null && values.waterAmount != null && values.bloomWater > values.waterAmount) {
+    issues.push({ field: "bloomWater", message: "must not exceed waterAmount" });
+  }
+  if (
+    values.bloomTimeSeconds != null &&
+    values.brewTimeSeconds != null &&
+    values.bloomTimeSeconds > values.brewTimeSeconds
+  ) {
+    issues.push({ field: "bloomTimeSeconds", message: "must not exceed brewTimeSeconds" });
+  }
+
+  return { values, issues };
+}
+
+// Journal export/import columns. CSV files hold bags and brews in one sheet,
+// told apart by `recordType`; JSON files keep them in separate arrays.
+const JOURNAL_BAG_FIELDS = [
+  "id",
+  "coffeeName",
+  "roaster",
+  "origin",
+  "process",
+  "roastLevel",
+  "roastDate",
+  "notes",
+  "initialWeightGrams",
+  "price",
+  "visibility",
+  "status",
+  "archivedAt",
+  "createdAt",
+  "updatedAt",
+] as const satisfies ReadonlyArray<keyof JournalBagRecord>;
+
+const JOURNAL_BREW_FIELDS = [
+  "id",
+  "bagId",
+  "method",
+  "brewer",
+  "grinder",
+  "brewerId",
+  "grinderId",
+  "dose",
+  "grindSetting",
+  "waterAmount",
+  "waterTemperature",
+  "brewTimeSeconds",
+  "bloomTimeSeconds",
+  "bloomWater",
+  "beverageYield",
+  "tds",
+  "rating",
+  "sensory",
+  "flavourTags",
+  "isBest",
+  "flavourNotes",
+  "visibility",
+  "createdAt",
+] as const satisfies ReadonlyArray<keyof JournalBrewRecord>;
+
+const JOURNAL_CSV_COLUMNS = [
+  "recordType",
+  ...new Set<string>([...JOURNAL_BAG_FIELDS, ...JOURNAL_BREW_FIELDS]),
+];
+
+function toJournalBagRecord(row: Bag): JournalBagRecord {
+  const { userId: _userId, restingProfileId: _restingProfileId, coffeeId: _coffeeId, ...record } = row;
+  return record;
+}
+
+// Sensory scores the journal carried as columns before they became configurable.
+const LEGACY_SENSORY_FIELDS = ["nutty", "acidity", "fruity", "floral", "sweetness", "chocolate"] as const;
+
+// CSV cells hold flat values, so sensory scores are written as "acidity=4;body=3"
+// and flavour tags as "fruity.berry;floral".
+function toJournalBrewCsvRecord(record: JournalBrewRecord) {
   return {
-    ...row,
-    brewCount,
-    averageRating,
-    ...buildBagComputedFields(row.roastDate),
+    ...record,
+    sensory: Object.entries(record.sensory)
+      .map(([key, score]) => `${key}=${score}`)
+      .join(";"),
+    flavourTags: record.flavourTags.join(";"),
+  };
+}
+
+// Reverses toJournalBrewCsvRecord for CSV rows and folds the old per-attribute columns of
+// earlier exports into `sensory`. JSON rows pass through unchanged.
+function normalizeImportedBrewRecord(record: Record<string, unknown>): Record<string, unknown> {
+  const normalized = { ...record };
+  if (typeof record.sensory === "string") {
+    normalized.sensory = Object.fromEntries(
+      record.sensory
+        .split(";")
+        .filter((pair) => pair.trim())
+        .map((pair) => {
+          const [key = "", score = ""] = pair.split("=");
+          return [key.trim(), score.trim()];
+        }),
+    );
+  } else if (record.sensory === undefined) {
+    const legacy = LEGACY_SENSORY_FIELDS.filter((key) => record[key] !== undefined && record[key] !== "");
+    if (legacy.length) normalized.sensory = Object.fromEntries(legacy.map((key) => [key, record[key]]));
+  }
+  for (const key of LEGACY_SENSORY_FIELDS) delete normalized[key];
+  if (typeof record.flavourTags === "string") {
+    normalized.flavourTags = record.flavourTags.split(";").map((tag) => tag.trim()).filter(Boolean);
+  }
+  return normalized;
+}
+
+function toJournalBrewRecord(row: Brew): JournalBrewRecord {
+  const {
+    userId: _userId,
+    updatedAt: _updatedAt,
+    deletedAt: _deletedAt,
+    pourSchedule: _pourSchedule,
+    recipeId: _recipeId,
+    daysOffRoast: _daysOffRoast,
+    ...record
+  } = row;
+  return record;
+}
+
+// Validates one imported bag row; mirrors POST /bags rules plus the fields an export carries.
+function parseImportedBag(record: Record<string, unknown>) {
+  const { values: parsed, issues } = parsePayload(ImportedBagRecord, record);
+  const values = {
+    id: parsed.id ?? randomUUID(),
+    coffeeName: parsed.coffeeName ?? "",
+    roaster: parsed.roaster ?? "",
+    origin: parsed.origin ?? null,
+    process: parsed.process ?? null,
+    roastLevel: parsed.roastLevel ?? null,
+    roastDate: parsed.roastDate ?? null,
+    notes: parsed.notes ?? null,
+    initialWeightGrams: parsed.initialWeightGrams ?? null,
+    price: parsed.price ?? null,
+    // Missing visibility is filled with the importing user's default.
+    visibility: parsed.visibility ?? null,
+    status: parsed.status ?? "ACTIVE",
+    archivedAt: parsed.archivedAt ?? null,
+    createdAt: parsed.createdAt ?? new Date(),
+    updatedAt: parsed.updatedAt ?? new Date(),
+  };
+  return { values, issues };
+}
+
+// Validates one imported brew row with the same field and equipment rules as POST /bags/:id/brews.
+async function parseImportedBrew(record: Record<string, unknown>, attributes: SensoryAttribute[], userId: string) {
+  const { values: brewValues, issues } = parseBrewPayload(normalizeImportedBrewRecord(record), { attributes });
+  const { values: parsed, issues: recordIssues } = parsePayload(ImportedBrewRecord, record);
+  issues.push(...recordIssues);
+
+  // Files exported before equipment links were added leave re-imported brews linked as they are.
+  if (record.brewerId === undefined) delete brewValues.brewerId;
+  if (record.grinderId === undefined) delete brewValues.grinderId;
+  const resolvedEquipment = await resolveBrewEquipment(brewValues, userId);
+  issues.push(...resolvedEquipment.issues);
+
+  const values = {
+    ...brewValues,
+    ...resolvedEquipment.values,
+    id: parsed.id ?? randomUUID(),
+    bagId: parsed.bagId ?? "",
+    method: brewValues.method ?? "",
+    isBest: parsed.isBest ?? false,
+    createdAt: parsed.createdAt ?? new Date(),
+    updatedAt: new Date(),
   };
+  return { values, issues };
+}
+
+// Human-readable equipment name, also copied into brews.brewer/grinder text.
+function equipmentDisplayName(row: Pick<Equipment, "brand" | "model">): string {
+  return [row.brand, row.model].filter(Boolean).join(" ");
+}
+
+function toEquipmentResponse(row: Equipment): EquipmentResponse {
+  return { ...row, displayName: equipmentDisplayName(row) };
+}
+
+async function getOwnedEquipmentById(equipmentId: string, userId: string) {
+  if (!UUID_PATTERN.test(equipmentId)) return null;
+  return store.equipment.find(equipmentId, userId);
+}
+
+// Resolves brewerId/grinderId from a parsed brew payload against the user's equipment.
+// Referenced equipment also fills the matching free-text column so older readers keep working.
+async function resolveBrewEquipment(
+  fields: Pick<BrewPayloadValues, "brewerId" | "grinderId" | "brewer" | "grinder">,
+  userId: string,
+) {
+  const values: Partial<Pick<BrewInsert, "brewerId" | "grinderId" | "brewer" | "grinder">> = {};
+  const issues: ValidationIssue[] = [];
+  let grinder: Equipment | null = null;
+
+  const slots = [
+    ["brewerId", "brewer", "BREWER"],
+    ["grinderId", "grinder", "GRINDER"],
+  ] as const;
+  for (const [idField, textField, type] of slots) {
+    const value = fields[idField];
+    if (value === undefined) continue;
+    if (value === null) {
+      values[idField] = null;
+      continue;
+    }
+
+    const row = await getOwnedEquipmentById(value, userId);
+    if (!row) {
+      issues.push({ field: idField, message: "must reference your equipment" });
+    } else if (row.type !== type) {
+      issues.push({ field: idField, message: `must reference a ${type.toLowerCase()}` });
+    } else {
+      values[idField] = row.id;
+      if (!fields[textField]) values[textField] = equipmentDisplayName(row);
+      if (type === "GRINDER") grinder = row;
+    }
+  }
+
+  return { values, issues, grinder };
+}
+
+// Checks a grind setting against the grinder's configured scale, when it has one.
+function validateGrindSettingForGrinder(
+  grindSetting: number | null | undefined,
+  grinder: Equipment | null,
+): ValidationIssue | null {
+  if (grindSetting === null || grindSetting === undefined || !grinder) return null;
+  const { grindSettingMin: min, grindSettingMax: max } = grinder;
+  if ((min !== null && grindSetting < min) || (max !== null && grindSetting > max)) {
+    return {
+      field: "grindSetting",
+      message: `must be between ${min ?? 0} and ${max ?? "∞"} on ${equipmentDisplayName(grinder)}`,
+    };
+  }
+  return null;
+}
+
+// Validates equipment create/edit payloads; `partial` skips fields that were not sent.
+function parseEquipmentPayload(body: unknown, options: { partial?: boolean } = {}) {
+  const { values, issues } = options.partial
+    ? parsePayload(UpdateEquipmentRequest, body)
+    : parsePayload(CreateEquipmentRequest, body);
+
+  if (
+    values.grindSettingMin != null &&
+    values.grindSettingMax != null &&
+    values.grindSettingMin > values.grindSettingMax
+  ) {
+    issues.push({ field: "grindSettingMax", message: "must be greater than or equal to grindSettingMin" });
+  }
+
+  return { values, issues };
+}
+
+function toRecipeResponse(row: Recipe): RecipeResponse {
+  return { ...row, brewRatio: computeBrewRatio(row.dose, row.waterAmount) };
+}
+
+async function getOwnedRecipeById(recipeId: string, userId: string) {
+  if (!UUID_PATTERN.test(recipeId)) return null;
+  return store.recipes.find(recipeId, userId);
+}
+
+// Validates recipe create/edit payloads with the brew field rules.
+async function parseRecipePayload(body: unknown, userId: string, options: { partial?: boolean } = {}) {
+  const { values: parsed, issues } = options.partial
+    ? parsePayload(UpdateRecipeRequest, body)
+    : parsePayload(CreateRecipeRequest, body);
+  const resolvedEquipment = await resolveBrewEquipment(parsed, userId);
+  issues.push(...resolvedEquipment.issues);
+  const grindIssue = validateGrindSettingForGrinder(parsed.grindSetting, resolvedEquipment.grinder);
+  if (grindIssue) issues.push(grindIssue);
+
+  const values: Partial<RecipeInsert> = { ...parsed, ...resolvedEquipment.values };
+  return { values, issues };
+}
+
+// Prefills a brew payload from its recipeId; fields sent explicitly override the recipe.
+// A recipeId that isn't an id at all is left for the schema to report.
+async function applyBrewRecipe(body: unknown, userId: string) {
+  const recipeId = (body as { recipeId?: unknown } | null)?.recipeId;
+  if (typeof recipeId !== "string" || !UUID_PATTERN.test(recipeId)) {
+    return { body, recipeId: null, issue: null };
+  }
+
+  const recipe = await getOwnedRecipeById(recipeId, userId);
+  if (!recipe) {
+    return { body, recipeId: null, issue: { field: "recipeId", message: "must reference your recipe" } };
+  }
+
+  const defaults = Object.fromEntries(RECIPE_BREW_FIELDS.map((key) => [key, recipe[key]]));
+  const explicit = Object.fromEntries(Object.entries(body ?? {}).filter(([, value]) => value !== undefined));
+  return { body: { ...defaults, ...explicit }, recipeId: recipe.id, issue: null };
+}
+
+// Standardizes validation error response shape.
+function sendValidationError(
+  res: Response,
+  issues: ValidationIssue[],
+  status = 400,
+) {
+  const payload: ValidationErrorResponse = { errors: issues };
+  return res.status(status).json(payload);
 }
 
 // POST /bags
 // Creates a new active bag for DEV_USER_ID.
 app.post("/bags", async (req, res) => {
   const userId = getRequestUserId(req);
-  const { coffeeName, roaster, origin, process, roastDate, notes } = req.body ?? {};
+  const { values, issues } = parsePayload(CreateBagRequest, req.body);
+  const { coffee, issue: coffeeIssue } = await parseBagCoffeeId(values.coffeeId, userId);
 
   // Collect all validation issues so frontend can show field-level feedback.
-  const issues: ValidationIssue[] = [];
-  if (!coffeeName) issues.push({ field: "coffeeName", message: "is required" });
-  if (!roaster) issues.push({ field: "roaster", message: "is required" });
-  if (!roastDate) issues.push({ field: "roastDate", message: "is required" });
-  if (issues.length) return sendValidationError(res, issues);
+  // A catalogue coffee stands in for the typed coffee and roaster names.
+  if (coffeeIssue) issues.push(coffeeIssue);
+  if (!values.coffeeName && !coffee) issues.push({ field: "coffeeName", message: "is required" });
+  if (!values.roaster && !coffee) issues.push({ field: "roaster", message: "is required" });
+  const restingIssue = await validateBagRestingProfile(values.restingProfileId, userId);
+  if (restingIssue) issues.push(restingIssue);
+  if (issues.length || !values.roastDate) return sendValidationError(res, issues);
 
   // Application-side UUID generation for explicit IDs.
   const id = randomUUID();
 
-  // Keep roastDate parsing strict so age/resting logic remains reliable.
-  const parsedRoastDate = new Date(roastDate);
-  if (Number.isNaN(parsedRoastDate.getTime())) {
-    return sendValidationError(res, [{ field: "roastDate", message: "must be a valid date" }]);
-  }
-
-  // Insert and return created row in one query.
-  const inserted = await db
-    .insert(bags)
-    .values({
+  // Bags typed in by name are linked to the catalogue, adding the coffee on first purchase.
+  const origin = values.origin ?? null;
+  const process = values.process ?? null;
+  const coffeeFields = coffee
+    ? {
+        coffeeName: coffee.name,
+        roaster: coffee.roasterName,
+        origin: coffee.country ?? origin,
+        process: coffee.process ?? process,
+      }
+    : { coffeeName: values.coffeeName ?? "", roaster: values.roaster ?? "", origin, process };
+  const coffeeId = coffee?.id ?? (await resolveBagCoffee(store, userId, coffeeFields)).id;
+
+  const visibility = values.visibility ?? (await getDefaultVisibility(userId));
+  const createdBag = await store.transaction(async (tx) => {
+    const bag = await tx.bags.create({
       id,
       userId,
-      coffeeName,
-      roaster,
-      origin: origin ?? null,
-      process: process ?? null,
-      roastDate: parsedRoastDate,
-      notes: notes ?? null,
+      ...coffeeFields,
+      coffeeId,
+      roastDate: values.roastDate,
+      notes: values.notes ?? null,
+      initialWeightGrams: values.initialWeightGrams ?? null,
+      price: values.price ?? null,
+      visibility,
+      roastLevel: values.roastLevel ?? null,
+      restingProfileId: values.restingProfileId ?? null,
       status: "ACTIVE",
-    })
-    .returning();
+    });
+    await recordHistory(tx, [bagHistoryEntry(null, bag, userId)]);
+    return bag;
+  });
 
-  const createdBag = inserted[0];
-  if (!createdBag) return res.status(500).json({ error: "Failed to create bag" });
-  const payload: BagDetailResponse = toBagDetailResponse(createdBag);
+  const payload: BagDetailResponse = toBagDetailResponse(
+    createdBag,
+    EMPTY_BAG_USAGE,
+    await getRestingProfiles(userId),
+    "OWNER",
+  );
   res.status(201).json(payload);
 });
 
-// GET /bags?status=ACTIVE|ARCHIVED
-// Returns user's bags with brew counts and computed roast metadata.
+// GET /bags?status=ACTIVE|ARCHIVED&q=&roaster=&origin=&process=&roastDateFrom=&roastDateTo=&minRating=&sort=&order=&limit=&cursor=
+// Returns one page of the user's bags with brew counts and computed roast metadata.
 app.get("/bags", async (req, res) => {
   const userId = getRequestUserId(req);
-  const status = (req.query.status as string | undefined) ?? "ACTIVE";
-  if (status !== "ACTIVE" && status !== "ARCHIVED") {
-    return sendValidationError(res, [{ field: "status", message: "must be ACTIVE or ARCHIVED" }]);
-  }
-
-  const rows = await db
-    .select()
-    .from(bags)
-    .where(and(eq(bags.userId, userId), eq(bags.status, status)))
-    .orderBy(bags.updatedAt);
-
-  if (!rows.length) return res.json([]);
-
-  // Aggregate brew counts in one grouped query to avoid N+1 queries.
-  const bagIds = rows.map((row) => row.id);
-  const brewCounts = await db
-    .select({
-      bagId: brews.bagId,
-      count: sql<number>`count(*)::int`,
-      averageRating: sql<number | null>`round(avg(${brews.rating})::numeric, 2)::float`,
-    })
-    .from(brews)
-    .where(inArray(brews.bagId, bagIds))
-    .groupBy(brews.bagId);
-
-  const bagStatsByBagId = new Map(
-    brewCounts.map((row) => [row.bagId, { brewCount: row.count, averageRating: row.averageRating }]),
-  );
-  const payload: BagListItemResponse[] = rows.map((row) =>
-    toBagListItemResponse(
-      row,
-      bagStatsByBagId.get(row.id)?.brewCount ?? 0,
-      bagStatsByBagId.get(row.id)?.averageRating ?? null,
-    ),
-  );
+  const { values: query, issues } = parsePayload(ListBagsQuery, req.query);
+  const cursor = query.cursor ? decodeBagCursor(query.cursor, query.sort ?? "updated") : null;
+  if (query.cursor && !cursor) issues.push({ field: "cursor", message: "is invalid" });
+  if (issues.length) return sendValidationError(res, issues);
+
+  const payload: BagListResponse = await listBags(userId, {
+    ...query,
+    status: query.status ?? "ACTIVE",
+    sort: query.sort ?? "updated",
+    order: query.order ?? "desc",
+    limit: query.limit ?? 50,
+    cursor,
+  });
   res.json(payload);
 });
 
+// Shared `limit` query param for feed-style lists (default 50, max 200).
+function parseFeedLimit(req: Request): { value: number; issue: ValidationIssue | null } {
+  const { values, issues } = parsePayload(FeedQuery, req.query);
+  return { value: values.limit ?? 50, issue: issues[0] ?? null };
+}
+
 // GET /feed/brews?limit=50
 // Global activity feed across all users, newest brew first.
+// Lists public brews, followers-only brews of people the viewer follows, and their own.
 app.get("/feed/brews", async (req, res) => {
-  const limitRaw = req.query.limit as string | undefined;
-  const parsedLimit = limitRaw ? Number(limitRaw) : 50;
-  if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > 200) {
-    return sendValidationError(res, [{ field: "limit", message: "must be an integer between 1 and 200" }]);
-  }
-
-  // Single query join gives enough context to render a social timeline item.
-  const rows = await db
-    .select({
-      brewId: brews.id,
-      bagId: brews.bagId,
-      userId: bags.userId,
-      coffeeName: bags.coffeeName,
-      roaster: bags.roaster,
-      method: brews.method,
-      brewer: brews.brewer,
-      grinder: brews.grinder,
-      dose: brews.dose,
-      grindSetting: brews.grindSetting,
-      waterAmount: brews.waterAmount,
-      rating: brews.rating,
-      flavourNotes: brews.flavourNotes,
-      isBest: brews.isBest,
-      createdAt: brews.createdAt,
-    })
-    .from(brews)
-    .innerJoin(bags, eq(brews.bagId, bags.id))
-    .orderBy(desc(brews.createdAt))
-    .limit(parsedLimit);
-
-  const payload: GlobalFeedItemResponse[] = rows;
+  const limit = parseFeedLimit(req);
+  if (limit.issue) return sendValidationError(res, [limit.issue]);
+
+  const payload: GlobalFeedItemResponse[] = await store.feed.list(getFeedViewer(req), { limit: limit.value });
   res.json(payload);
 });
 
-// POST /bags/:id/brews
-// Adds a brew entry linked to an owned bag.
-app.post("/bags/:id/brews", async (req, res) => {
-  const userId = getRequestUserId(req);
-  const bagId = req.params.id;
-  const bag = await getOwnedBagById(bagId, userId);
-  if (!bag) return res.status(404).json({ error: "Bag not found" });
+// GET /feed/following?limit=50
+// Personal timeline: brews from the people the caller follows, newest first.
+app.get("/feed/following", async (req, res) => {
+  const limit = parseFeedLimit(req);
+  if (limit.issue) return sendValidationError(res, [limit.issue]);
 
-  const {
-    method,
-    brewer,
-    grinder,
-    dose,
-    grindSetting,
-    waterAmount,
-    rating,
-    nutty,
-    acidity,
-    fruity,
-    floral,
-    sweetness,
-    chocolate,
-    flavourNotes,
-  } = req.body ?? {};
+  const payload: GlobalFeedItemResponse[] = await store.feed.list(getFeedViewer(req), {
+    limit: limit.value,
+    followingOnly: true,
+  });
+  res.json(payload);
+});
 
-  // Frontend consumes all field issues in one response.
-  const issues: ValidationIssue[] = [];
-  if (!method || typeof method !== "string") {
-    issues.push({ field: "method", message: "is required" });
-  }
-
-  const parsedDose = parseOptionalIntegerInRange(dose, "dose", 0, 1000);
-  const parsedGrindSetting = parseOptionalIntegerInRange(grindSetting, "grindSetting", 0, 1000);
-  const parsedWaterAmount = parseOptionalIntegerInRange(waterAmount, "waterAmount", 0, 5000);
-  const parsedRating = parseOptionalNumberInRange(rating, "rating", 0, 5);
-  const parsedNutty = parseOptionalIntegerInRange(nutty, "nutty", 0, 5);
-  const parsedAcidity = parseOptionalIntegerInRange(acidity, "acidity", 0, 5);
-  const parsedFruity = parseOptionalIntegerInRange(fruity, "fruity", 0, 5);
-  const parsedFloral = parseOptionalIntegerInRange(floral, "floral", 0, 5);
-  const parsedSweetness = parseOptionalIntegerInRange(sweetness, "sweetness", 0, 5);
-  const parsedChocolate = parseOptionalIntegerInRange(chocolate, "chocolate", 0, 5);
-
-  const parsedIssues = [
-    parsedDose.issue,
-    parsedGrindSetting.issue,
-    parsedWaterAmount.issue,
-    parsedRating.issue,
-    parsedNutty.issue,
-    parsedAcidity.issue,
-    parsedFruity.issue,
-    parsedFloral.issue,
-    parsedSweetness.issue,
-    parsedChocolate.issue,
-  ].filter((issue): issue is ValidationIssue => issue !== null);
-
-  if (parsedIssues.length) issues.push(...parsedIssues);
-  if (issues.length) return sendValidationError(res, issues);
+// GET /feed/stream
+// Server-Sent Events feed: one `brew` event per new brew, id = brewId.
+// Reconnecting clients send Last-Event-ID and first get the brews they missed.
+app.get("/feed/stream", async (req, res) => {
+  const lastEventId = req.header("last-event-id");
+  if (lastEventId && !UUID_PATTERN.test(lastEventId)) {
+    return sendValidationError(res, [{ field: "Last-Event-ID", message: "must be a brew id" }]);
+  }
 
-  // Insert brew and return created row.
-  const inserted = await db
-    .insert(brews)
-    .values({
-      id: randomUUID(),
-      bagId,
-      method,
-      brewer: brewer ?? null,
-      grinder: grinder ?? null,
-      dose: parsedDose.value,
-      grindSetting: parsedGrindSetting.value,
-      waterAmount: parsedWaterAmount.value,
-      rating: parsedRating.value,
-      nutty: parsedNutty.value,
-      acidity: parsedAcidity.value,
-      fruity: parsedFruity.value,
-      floral: parsedFloral.value,
-      sweetness: parsedSweetness.value,
-      chocolate: parsedChocolate.value,
-      isBest: false,
-      flavourNotes: flavourNotes ?? null,
-    })
-    .returning();
-
-  const createdBrew = inserted[0];
-  if (!createdBrew) return res.status(500).json({ error: "Failed to create brew" });
-  const payload: BrewResponse = createdBrew;
-  res.status(201).json(payload);
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 3000\n\n");
+
+  const send = (item: GlobalFeedItemResponse) => {
+    res.write(`id: ${item.brewId}\nevent: brew\ndata: ${JSON.stringify(item)}\n\n`);
+  };
+
+  // Subscribe before replaying so brews created meanwhile are queued rather than lost.
+  let queued: GlobalFeedItemResponse[] | null = [];
+  const viewer = getFeedViewer(req);
+  const unsubscribe = subscribeToFeed(viewer, (item) => {
+    if (queued) queued.push(item);
+    else send(item);
+  });
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), FEED_HEARTBEAT_SECONDS * 1000);
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  const replayed = lastEventId ? await getFeedItemsAfter(lastEventId, viewer) : [];
+  replayed.forEach(send);
+  const replayedIds = new Set(replayed.map((item) => item.brewId));
+  const pending = queued;
+  queued = null;
+  pending.filter((item) => !replayedIds.has(item.brewId)).forEach(send);
 });
 
-// GET /bags/:id/brews
-// Brew history is returned newest first for bag detail UI.
-app.get("/bags/:id/brews", async (req, res) => {
+// Validates profile edits; every field is optional and empty strings clear it.
+function parseProfilePayload(body: unknown) {
+  const { values: parsed, issues } = parsePayload(UpdateProfileRequest, body);
+  const values: Partial<ProfileInsert> = {
+    ...parsed,
+    ...Object.fromEntries(
+      (["displayName", "bio", "avatarUrl"] as const)
+        .filter((key) => parsed[key] !== undefined)
+        .map((key) => [key, parsed[key] || null]),
+    ),
+  };
+  return { values, issues };
+}
+
+// GET /profiles/me
+// Own profile; users who never saved one get empty fields.
+app.get("/profiles/me", async (req, res) => {
   const userId = getRequestUserId(req);
-  const bagId = req.params.id;
-  const bag = await getOwnedBagById(bagId, userId);
-  if (!bag) return res.status(404).json({ error: "Bag not found" });
+  const row = await getOwnProfile(userId);
+  const payload: ProfileResponse = row ?? {
+    userId,
+    displayName: null,
+    avatarUrl: null,
+    bio: null,
+    defaultVisibility: null,
+    createdAt: null,
+    updatedAt: null,
+  };
+  res.json(payload);
+});
 
-  const rows = await db
-    .select()
-    .from(brews)
-    .where(eq(brews.bagId, bagId))
-    .orderBy(desc(brews.createdAt));
+// PATCH /profiles/me
+// Creates or updates the caller's profile.
+app.patch("/profiles/me", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const { values, issues } = parseProfilePayload(req.body);
+  if (issues.length) return sendValidationError(res, issues);
 
-  const payload: BrewResponse[] = rows;
+  const payload: ProfileResponse = await store.profiles.save(userId, values);
   res.json(payload);
 });
 
-// GET /bags/:id/analytics
-// Computes bag-level aggregates used by charts/cards in analytics screen.
-app.get("/bags/:id/analytics", async (req, res) => {
-  const userId = getRequestUserId(req);
-  const bagId = req.params.id;
-  const bag = await getOwnedBagById(bagId, userId);
-  if (!bag) return res.status(404).json({ error: "Bag not found" });
-
-  const rows = await db
-    .select()
-    .from(brews)
-    .where(eq(brews.bagId, bagId))
-    .orderBy(brews.createdAt);
-
-  const totalBrews = rows.length;
-
-  // Reusable average helper for ratings and taste dimensions.
-  const average = (values: number[]) =>
-    values.length ? Number((values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(2)) : null;
-
-  const ratings = rows.map((row) => row.rating).filter((value): value is number => value !== null);
-  const averageRating = average(ratings);
-
-  const averageTasteProfile = {
-    nutty: average(rows.map((row) => row.nutty).filter((value): value is number => value !== null)),
-    acidity: average(rows.map((row) => row.acidity).filter((value): value is number => value !== null)),
-    fruity: average(rows.map((row) => row.fruity).filter((value): value is number => value !== null)),
-    floral: average(rows.map((row) => row.floral).filter((value): value is number => value !== null)),
-    sweetness: average(rows.map((row) => row.sweetness).filter((value): value is number => value !== null)),
-    chocolate: average(rows.map((row) => row.chocolate).filter((value): value is number => value !== null)),
+// GET /profiles/:userId
+// Public part of another user's profile, e.g. for feed author pages.
+app.get("/profiles/:userId", async (req, res) => {
+  const profileUserId = req.params.userId;
+  if (!UUID_PATTERN.test(profileUserId)) return res.status(404).json({ error: "Profile not found" });
+
+  const viewerId = getRequestUserId(req);
+  const profile = await store.profiles.findPublic(profileUserId);
+  if (!profile) return res.status(404).json({ error: "Profile not found" });
+  const payload: PublicProfileResponse = {
+    ...profile,
+    followedByMe: await store.profiles.isFollowing(viewerId, profileUserId),
   };
+  res.json(payload);
+});
 
-  // Count method frequencies for bar chart.
-  const brewMethodMap = new Map<string, number>();
-  for (const row of rows) {
-    brewMethodMap.set(row.method, (brewMethodMap.get(row.method) ?? 0) + 1);
-  }
-
-  const brewMethods = Array.from(brewMethodMap.entries()).map(([method, count]) => ({ method, count }));
-
-  // Keep chronological order for trend chart.
-  const ratingTrend = rows
-    .filter((row) => row.rating !== null)
-    .map((row, index) => ({
-      brewNumber: index + 1,
-      rating: row.rating as number,
-      createdAt: row.createdAt,
-    }));
-
-  const bestBrew =
-    rows.find((row) => row.isBest) ??
-    rows
-      .filter((row) => row.rating !== null)
-      .sort((a, b) => {
-        if ((b.rating ?? 0) !== (a.rating ?? 0)) return (b.rating ?? 0) - (a.rating ?? 0);
-        return b.createdAt.getTime() - a.createdAt.getTime();
-      })[0] ??
-    null;
-
-  const payload: AnalyticsResponse = {
-    bagId,
-    ...buildBagComputedFields(bag.roastDate),
-    totalBrews,
-    averageRating,
-    averageTasteProfile,
-    brewMethods,
-    ratingTrend,
-    bestBrew,
-  };
+// POST /users/:userId/follow
+// Follows another user; following twice is a no-op.
+app.post("/users/:userId/follow", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const followeeId = req.params.userId;
+  if (!UUID_PATTERN.test(followeeId)) return res.status(404).json({ error: "User not found" });
+  if (followeeId === userId) return sendValidationError(res, [{ field: "userId", message: "cannot follow yourself" }]);
 
-  res.json(payload);
+  await store.profiles.follow(userId, followeeId);
+  res.status(204).send();
 });
 
-// GET /bags/:id
-// Returns single owned bag with computed roast metadata.
-app.get("/bags/:id", async (req, res) => {
+// DELETE /users/:userId/follow
+// Unfollows a user.
+app.delete("/users/:userId/follow", async (req, res) => {
   const userId = getRequestUserId(req);
-  const bagId = req.params.id;
+  const followeeId = req.params.userId;
+  if (!UUID_PATTERN.test(followeeId)) return res.status(404).json({ error: "User not found" });
+
+  await store.profiles.unfollow(userId, followeeId);
+  res.status(204).send();
+});
 
-  const rows = await db
-    .select()
-    .from(bags)
-    .where(and(eq(bags.id, bagId), eq(bags.userId, userId)));
+// GET /follows
+// Who the caller follows and who follows them.
+app.get("/follows", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const [following, followers] = await Promise.all([
+    store.profiles.listFollowing(userId),
+    store.profiles.listFollowers(userId),
+  ]);
+  const payload: FollowListResponse = { following, followers };
+  res.json(payload);
+});
+
+// POST /feed/brews/:brewId/like
+// Likes a brew and notifies its owner; liking twice is a no-op.
+app.post("/feed/brews/:brewId/like", async (req, res) => {
+  const viewer = getFeedViewer(req);
+  const brew = await getVisibleFeedBrew(req.params.brewId, viewer);
+  if (!brew) return res.status(404).json({ error: "Brew not found" });
 
-  if (!rows[0]) return res.status(404).json({ error: "Bag not found" });
-  const payload: BagDetailResponse = toBagDetailResponse(rows[0]);
+  const payload: LikeResponse = await likeBrew(brew, viewer.userId);
   res.json(payload);
 });
 
-// PATCH /bags/:id/archive
-// Marks bag as archived; archived bags are hidden from ACTIVE list.
-app.patch("/bags/:id/archive", async (req, res) => {
-  const userId = getRequestUserId(req);
-  const bagId = req.params.id;
+// DELETE /feed/brews/:brewId/like
+// Removes the caller's like, along with its notification if still unread.
+app.delete("/feed/brews/:brewId/like", async (req, res) => {
+  const viewer = getFeedViewer(req);
+  const brew = await getVisibleFeedBrew(req.params.brewId, viewer);
+  if (!brew) return res.status(404).json({ error: "Brew not found" });
+
+  const payload: LikeResponse = await unlikeBrew(brew, viewer.userId);
+  res.json(payload);
+});
 
-  const updated = await db
-    .update(bags)
-    .set({
-      status: "ARCHIVED",
-      archivedAt: new Date(),
-      updatedAt: new Date(),
-    })
-    .where(and(eq(bags.id, bagId), eq(bags.userId, userId)))
-    .returning();
+// GET /feed/brews/:brewId/comments
+// Comment threads on a brew, oldest first.
+app.get("/feed/brews/:brewId/comments", async (req, res) => {
+  const viewer = getFeedViewer(req);
+  const brew = await getVisibleFeedBrew(req.params.brewId, viewer);
+  if (!brew) return res.status(404).json({ error: "Brew not found" });
 
-  if (!updated[0]) return res.status(404).json({ error: "Bag not found" });
-  res.json(updated[0]);
+  const rows = await store.feed.listComments(brew.brewId);
+  const payload: CommentResponse[] = pruneDeletedComments(buildCommentThreads(rows));
+  res.json(payload);
 });
 
-// PATCH /bags/:id/unarchive
-// Moves an archived bag back to active inventory.
-app.patch("/bags/:id/unarchive", async (req, res) => {
+// POST /feed/brews/:brewId/comments
+// Adds a comment, or a reply when parentId is set. Notifies the brew owner, and the
+// parent comment's author for replies.
+app.post("/feed/brews/:brewId/comments", async (req, res) => {
+  const viewer = getFeedViewer(req);
+  const brew = await getVisibleFeedBrew(req.params.brewId, viewer);
+  if (!brew) return res.status(404).json({ error: "Brew not found" });
+
+  const { values, issues } = parsePayload(CreateCommentRequest, req.body);
+  const parent = values.parentId ? await store.feed.findComment(brew.brewId, values.parentId) : null;
+  if (values.parentId && !parent) issues.push({ field: "parentId", message: "must reference a comment on this brew" });
+  if (issues.length || !values.body) return sendValidationError(res, issues);
+
+  const created = await addComment(brew, viewer.userId, values.body, parent);
+
+  const author = await getOwnProfile(viewer.userId);
+  const payload: CommentResponse = {
+    ...created,
+    displayName: author?.displayName ?? ANONYMOUS_DISPLAY_NAME,
+    avatarUrl: author?.avatarUrl ?? null,
+    replies: [],
+  };
+  res.status(201).json(payload);
+});
+
+// DELETE /feed/brews/:brewId/comments/:commentId
+// Deletes a comment; allowed for its author and the brew owner. Replies stay in the thread.
+app.delete("/feed/brews/:brewId/comments/:commentId", async (req, res) => {
+  const viewer = getFeedViewer(req);
+  const brew = await getVisibleFeedBrew(req.params.brewId, viewer);
+  if (!brew) return res.status(404).json({ error: "Brew not found" });
+  const commentId = req.params.commentId;
+  if (!UUID_PATTERN.test(commentId)) return res.status(404).json({ error: "Comment not found" });
+
+  const canModerate = brew.userId === viewer.userId;
+  const deleted = await store.feed.deleteComment(brew.brewId, commentId, canModerate ? null : viewer.userId);
+  if (!deleted) return res.status(404).json({ error: "Comment not found" });
+  res.status(204).send();
+});
+
+// GET /notifications?unread=true&limit=50
+// Likes, comments and replies on the caller's brews and comments, newest first.
+app.get("/notifications", async (req, res) => {
   const userId = getRequestUserId(req);
-  const bagId = req.params.id;
+  const { values: query, issues } = parsePayload(NotificationsQuery, req.query);
+  if (issues.length) return sendValidationError(res, issues);
+  const unreadOnly = query.unread === true;
 
-  const updated = await db
-    .update(bags)
-    .set({
-      status: "ACTIVE",
-      archivedAt: null,
-      updatedAt: new Date(),
-    })
-    .where(and(eq(bags.id, bagId), eq(bags.userId, userId)))
-    .returning();
+  const items: NotificationResponse[] = await store.feed.listNotifications(userId, {
+    unreadOnly,
+    limit: query.limit ?? 50,
+  });
+  const payload: NotificationListResponse = {
+    items,
+    unreadCount: await store.feed.countUnreadNotifications(userId),
+  };
+  res.json(payload);
+});
+
+// PATCH /notifications/read
+// Marks the given notification ids as read, or all of them when `ids` is omitted.
+app.patch("/notifications/read", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const { values, issues } = parsePayload(MarkNotificationsReadRequest, req.body);
+  if (issues.length) return sendValidationError(res, issues);
 
-  if (!updated[0]) return res.status(404).json({ error: "Bag not found" });
-  res.json(updated[0]);
+  await store.feed.markNotificationsRead(userId, values.ids, new Date());
+  res.status(204).send();
 });
 
-// PATCH /bags/:id
-// Allows editing bag metadata for future corrections and archived bag maintenance.
-app.patch("/bags/:id", async (req, res) => {
+// POST /tokens
+// Creates a personal access token. The token itself is only in this response.
+app.post("/tokens", async (req, res) => {
   const userId = getRequestUserId(req);
-  const bagId = req.params.id;
-  const existing = await getOwnedBagById(bagId, userId);
-  if (!existing) return res.status(404).json({ error: "Bag not found" });
-
-  const { coffeeName, roaster, origin, process, roastDate, notes } = req.body ?? {};
-  const updates: Partial<typeof bags.$inferInsert> = { updatedAt: new Date() };
-
-  if (coffeeName !== undefined) updates.coffeeName = coffeeName || existing.coffeeName;
-  if (roaster !== undefined) updates.roaster = roaster || existing.roaster;
-  if (origin !== undefined) updates.origin = origin || null;
-  if (process !== undefined) updates.process = process || null;
-  if (notes !== undefined) updates.notes = notes || null;
-  if (roastDate !== undefined) {
-    const parsedRoastDate = new Date(roastDate);
-    if (Number.isNaN(parsedRoastDate.getTime())) {
-      return sendValidationError(res, [{ field: "roastDate", message: "must be a valid date" }]);
-    }
-    updates.roastDate = parsedRoastDate;
-  }
+  const { values, issues } = parsePayload(CreateApiTokenRequest, req.body);
+  if (issues.length || !values.name || !values.scopes) return sendValidationError(res, issues);
+  const { expiresInDays } = values;
+
+  const { token, prefix, tokenHash } = generateApiToken();
+  const created = await store.apiTokens.create({
+    userId,
+    name: values.name,
+    prefix,
+    tokenHash,
+    scopes: Array.from(new Set(values.scopes)),
+    expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+  });
+
+  const payload: CreatedApiTokenResponse = { ...toApiTokenResponse(created), token };
+  res.status(201).json(payload);
+});
 
-  const updated = await db
-    .update(bags)
-    .set(updates)
-    .where(and(eq(bags.id, bagId), eq(bags.userId, userId)))
-    .returning();
+function toApiTokenResponse(row: ApiToken): ApiTokenResponse {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: row.scopes.filter(isApiTokenScope),
+    expiresAt: row.expiresAt,
+    lastUsedAt: row.lastUsedAt,
+    createdAt: row.createdAt,
+  };
+}
 
-  if (!updated[0]) return res.status(404).json({ error: "Bag not found" });
-  const payload: BagDetailResponse = toBagDetailResponse(updated[0]);
+// GET /tokens
+// The caller's tokens that haven't been revoked, newest first; expired ones included.
+app.get("/tokens", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const rows = await store.apiTokens.listActive(userId);
+  const payload: ApiTokenResponse[] = rows.map(toApiTokenResponse);
   res.json(payload);
 });
 
-// PATCH /bags/:bagId/brews/:brewId/best
-// Keeps exactly one "best" brew per bag by clearing previous flags first.
-app.patch("/bags/:bagId/brews/:brewId/best", async (req, res) => {
+// DELETE /tokens/:id
+// Revokes a token; requests using it get 401 from then on.
+app.delete("/tokens/:id", async (req, res) => {
   const userId = getRequestUserId(req);
-  const bagId = req.params.bagId;
-  const brewId = req.params.brewId;
-
-  const bag = await getOwnedBagById(bagId, userId);
-  if (!bag) return res.status(404).json({ error: "Bag not found" });
+  const tokenId = req.params.id;
+  const revoked = UUID_PATTERN.test(tokenId) ? await store.apiTokens.revoke(tokenId, userId) : null;
+  if (!revoked) return res.status(404).json({ error: "Token not found" });
+  res.status(204).send();
+});
 
-  const updated = await db.transaction(async (tx) => {
-    await tx
-      .update(brews)
-      .set({ isBest: false })
-      .where(eq(brews.bagId, bagId));
+// Validates and inserts a brew; shared by POST /bags/:id/brews and finishing a brew session.
+// Sends the validation or server error itself and returns null in that case.
+async function createBrew(
+  res: Response,
+  bag: Bag,
+  userId: string,
+  requestBody: unknown,
+  pourSchedule: PourStage[] | null = null,
+) {
+  // A recipeId prefills the brew; explicitly sent fields still win.
+  const withRecipe = await applyBrewRecipe(requestBody, userId);
 
-    const rows = await tx
-      .update(brews)
-      .set({ isBest: true })
-      .where(and(eq(brews.id, brewId), eq(brews.bagId, bagId)))
-      .returning();
+  // Frontend consumes all field issues in one response.
+  const { values, issues } = parseBrewPayload(withRecipe.body, { attributes: await getSensoryAttributes(userId) });
+  if (withRecipe.issue) issues.push(withRecipe.issue);
+  const resolvedEquipment = await resolveBrewEquipment(values, userId);
+  issues.push(...resolvedEquipment.issues);
+  const grindIssue = validateGrindSettingForGrinder(values.grindSetting, resolvedEquipment.grinder);
+  if (grindIssue) issues.push(grindIssue);
+  if (issues.length) {
+    sendValidationError(res, issues);
+    return null;
+  }
 
-    return rows[0] ?? null;
+  return saveNewBrew(bag, {
+    ...values,
+    ...resolvedEquipment.values,
+    userId,
+    recipeId: withRecipe.recipeId,
+    method: values.method as string,
+    isBest: false,
+    pourSchedule,
   });
+}
 
-  if (!updated) return res.status(404).json({ error: "Brew not found" });
-  res.json(updated);
+// POST /bags/:id/brews
+// Adds a brew entry linked to an owned bag.
+app.post("/bags/:id/brews", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.id, userId, "BREWER");
+  if (!access) return;
+
+  const createdBrew = await createBrew(res, access.bag, userId, req.body ?? {});
+  if (!createdBrew) return;
+  const payload: BrewResponse = toBrewResponse(createdBrew);
+  res.status(201).json(payload);
+});
+
+// Loads the caller's own session on a bag they can brew from. Sends 404/403 itself.
+async function requireBrewSession(res: Response, bagId: string, sessionId: string, userId: string) {
+  const access = await requireBagRole(res, bagId, userId, "BREWER");
+  if (!access) return null;
+  const session = UUID_PATTERN.test(sessionId) ? await store.brews.findSession(sessionId, bagId, userId) : null;
+  if (!session) {
+    res.status(404).json({ error: "Brew session not found" });
+    return null;
+  }
+  return { bag: access.bag, session };
+}
+
+function isSessionOpen(session: BrewSession) {
+  return !session.finishedAt && !session.cancelledAt;
+}
+
+async function getSessionEvents(sessionId: string) {
+  return store.brews.listSessionEvents(sessionId);
+}
+
+// Seconds since the session started, by the server clock, to one decimal.
+function sessionElapsedSeconds(session: BrewSession) {
+  return Math.round((Date.now() - session.startedAt.getTime()) / 100) / 10;
+}
+
+async function toBrewSessionResponse(session: BrewSession): Promise<BrewSessionResponse> {
+  const events = await getSessionEvents(session.id);
+  return { ...session, events, pourSchedule: buildPourSchedule(events) };
+}
+
+// POST /bags/:id/brew-sessions
+// Starts the brew timer on a bag.
+app.post("/bags/:id/brew-sessions", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.id, userId, "BREWER");
+  if (!access) return;
+
+  const created = await store.brews.createSession({ bagId: access.bag.id, userId });
+  const payload: BrewSessionResponse = await toBrewSessionResponse(created);
+  res.status(201).json(payload);
+});
+
+// GET /bags/:id/brew-sessions
+// The caller's unfinished sessions on this bag, newest first, so a reloaded page can resume its timer.
+app.get("/bags/:id/brew-sessions", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.id, userId, "BREWER");
+  if (!access) return;
+
+  const rows = await store.brews.listOpenSessions(access.bag.id, userId);
+
+  const payload: BrewSessionResponse[] = await Promise.all(rows.map(toBrewSessionResponse));
+  res.json(payload);
+});
+
+// GET /bags/:id/brew-sessions/:sessionId
+app.get("/bags/:id/brew-sessions/:sessionId", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const found = await requireBrewSession(res, req.params.id, req.params.sessionId, userId);
+  if (!found) return;
+  const payload: BrewSessionResponse = await toBrewSessionResponse(found.session);
+  res.json(payload);
+});
+
+// POST /bags/:id/brew-sessions/:sessionId/events
+// Records a timer step. `elapsedSeconds` defaults to the time since the session started;
+// clients with their own timer can send it to avoid network lag.
+app.post("/bags/:id/brew-sessions/:sessionId/events", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const found = await requireBrewSession(res, req.params.id, req.params.sessionId, userId);
+  if (!found) return;
+  const { session } = found;
+  if (!isSessionOpen(session)) return res.status(409).json({ error: "Brew session is already finished" });
+
+  const { values, issues } = parsePayload(RecordBrewEventRequest, req.body);
+  const { type } = values;
+  if (type === "POUR" && values.grams === null) issues.push({ field: "grams", message: "is required for a pour" });
+  else if (type === "DRAWDOWN_END" && values.grams != null) {
+    issues.push({ field: "grams", message: "must be empty for DRAWDOWN_END" });
+  }
+
+  const events = await getSessionEvents(session.id);
+  const elapsedSeconds = values.elapsedSeconds ?? sessionElapsedSeconds(session);
+  const last = events[events.length - 1];
+  if (last?.type === "DRAWDOWN_END") {
+    issues.push({ field: "type", message: "can't follow DRAWDOWN_END; finish the session instead" });
+  } else if (last && elapsedSeconds < last.elapsedSeconds) {
+    issues.push({ field: "elapsedSeconds", message: "must not be before the previous event" });
+  }
+  if (issues.length || !type) return sendValidationError(res, issues);
+
+  await store.brews.createSessionEvent({ sessionId: session.id, type, elapsedSeconds, grams: values.grams ?? null });
+
+  const payload: BrewSessionResponse = await toBrewSessionResponse(session);
+  res.status(201).json(payload);
+});
+
+// DELETE /bags/:id/brew-sessions/:sessionId/events/:eventId
+// Undoes a mistaken step while the session is still running.
+app.delete("/bags/:id/brew-sessions/:sessionId/events/:eventId", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const found = await requireBrewSession(res, req.params.id, req.params.sessionId, userId);
+  if (!found) return;
+  const { session } = found;
+  if (!isSessionOpen(session)) return res.status(409).json({ error: "Brew session is already finished" });
+
+  const eventId = req.params.eventId;
+  const deleted = UUID_PATTERN.test(eventId) ? await store.brews.deleteSessionEvent(session.id, eventId) : null;
+  if (!deleted) return res.status(404).json({ error: "Event not found" });
+
+  const payload: BrewSessionResponse = await toBrewSessionResponse(session);
+  res.json(payload);
+});
+
+// POST /bags/:id/brew-sessions/:sessionId/finish
+// Ends the timer and logs the brew. Takes the same body as POST /bags/:id/brews; total
+// time, water, bloom and pour schedule come from the recorded events unless sent.
+app.post("/bags/:id/brew-sessions/:sessionId/finish", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const found = await requireBrewSession(res, req.params.id, req.params.sessionId, userId);
+  if (!found) return;
+  const { bag, session } = found;
+  if (!isSessionOpen(session)) return res.status(409).json({ error: "Brew session is already finished" });
+
+  const events = await getSessionEvents(session.id);
+  const derived = deriveSessionBrewFields(events, Math.min(sessionElapsedSeconds(session), 3600));
+  const body: Record<string, unknown> = { ...(req.body ?? {}) };
+  for (const [key, value] of Object.entries(derived)) {
+    if (body[key] === undefined || body[key] === null || body[key] === "") body[key] = value;
+  }
+
+  const createdBrew = await createBrew(res, bag, userId, body, buildPourSchedule(events));
+  if (!createdBrew) return;
+  await store.brews.updateSession(session.id, { finishedAt: new Date(), brewId: createdBrew.id });
+
+  const payload: BrewResponse = toBrewResponse(createdBrew);
+  res.status(201).json(payload);
+});
+
+// DELETE /bags/:id/brew-sessions/:sessionId
+// Abandons a running session without logging a brew.
+app.delete("/bags/:id/brew-sessions/:sessionId", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const found = await requireBrewSession(res, req.params.id, req.params.sessionId, userId);
+  if (!found) return;
+  if (!isSessionOpen(found.session)) return res.status(409).json({ error: "Brew session is already finished" });
+
+  await store.brews.updateSession(found.session.id, { cancelledAt: new Date() });
+  res.status(204).send();
+});
+
+// GET /bags/:id/brews
+// Brew history is returned newest first for bag detail UI.
+app.get("/bags/:id/brews", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const bagId = req.params.id;
+  const access = await requireBagRole(res, bagId, userId, "VIEWER");
+  if (!access) return;
+
+  const rows = await listBagBrews(bagId);
+  const payload: BrewResponse[] = rows.map(toBrewResponse);
+  res.json(payload);
+});
+
+const MAX_COMPARED_BREWS = 10;
+
+// GET /bags/:id/brews/compare?ids=a,b,c
+// Lines up parameters and taste profiles of the given brews and diffs them against the first.
+// Brews can come from any bag the caller can see, not only this one.
+app.get("/bags/:id/brews/compare", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.id, userId, "VIEWER");
+  if (!access) return;
+
+  const { values, issues } = parsePayload(CompareBrewsQuery, req.query);
+  const ids = Array.from(new Set((values.ids ?? "").split(",").map((id) => id.trim()).filter(Boolean)));
+  if (issues.length || ids.length < 2 || ids.length > MAX_COMPARED_BREWS || !ids.every((id) => UUID_PATTERN.test(id))) {
+    return sendValidationError(res, [
+      { field: "ids", message: `must list 2 to ${MAX_COMPARED_BREWS} brew ids, comma-separated` },
+    ]);
+  }
+
+  const rows = await store.brews.listAccessible(ids, userId);
+  const rowsById = new Map(rows.map((row) => [row.brew.id, row]));
+  const compared = ids.flatMap((id) => rowsById.get(id) ?? []);
+  if (compared.length !== ids.length) return res.status(404).json({ error: "Brew not found" });
+
+  const payload: BrewComparisonResponse = buildBrewComparison(
+    compared.map(({ brew, bag }) => ({
+      brew: toBrewResponse(brew),
+      coffeeName: bag.coffeeName,
+      roaster: bag.roaster,
+      daysOffRoast: brew.daysOffRoast,
+      tasteProfile: computeAverageTasteProfile([brew]),
+    })),
+  );
+  res.json(payload);
+});
+
+// GET /bags/:id/analytics
+// Computes bag-level aggregates used by charts/cards in analytics screen.
+app.get("/bags/:id/analytics", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const bagId = req.params.id;
+  const access = await requireBagRole(res, bagId, userId, "VIEWER");
+  if (!access) return;
+  const { bag } = access;
+
+  const rows = await store.brews.listForBags([bagId]);
+  const recipeIds = Array.from(new Set(rows.map((row) => row.recipeId).filter((id): id is string => id !== null)));
+  const brewerIds = Array.from(new Set(rows.map((row) => row.userId)));
+  const [recipeBrews, recipeRows, brewerProfiles, restingProfiles] = await Promise.all([
+    recipeIds.length ? store.brews.listByBrewer(userId, { recipeIds }) : [],
+    recipeIds.length ? store.recipes.findMany(recipeIds) : [],
+    brewerIds.length ? store.profiles.findMany(brewerIds) : [],
+    getRestingProfiles(bag.userId),
+  ]);
+
+  const payload: AnalyticsResponse = buildBagAnalytics(bagId, buildBagComputedFields(bag, restingProfiles), rows, {
+    recipeBrews: recipeBrews.map(({ brew }) => brew),
+    recipes: recipeRows,
+    profiles: brewerProfiles,
+  });
+  res.json(payload);
+});
+
+// GET /bags/:id/recommendation
+// Suggests the next dose/grind/water to try from the bag's rated brews,
+// falling back to the user's best brews on similar bags for new bags.
+app.get("/bags/:id/recommendation", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const bagId = req.params.id;
+  const access = await requireBagRole(res, bagId, userId, "VIEWER");
+  if (!access) return;
+  const { bag } = access;
+
+  const toRecommendationBrew = (row: Brew): RecommendationBrew => ({
+    bagId: row.bagId,
+    method: row.method,
+    dose: row.dose,
+    grindSetting: row.grindSetting,
+    waterAmount: row.waterAmount,
+    rating: row.rating,
+    sensory: row.sensory,
+  });
+
+  const bagRows = (await store.brews.listForBags([bagId])).map(toRecommendationBrew);
+
+  const ratedCount = bagRows.filter((row) => row.rating !== null).length;
+  if (ratedCount >= MIN_RATED_BREWS_FOR_BAG_FIT) {
+    const payload: RecommendationResponse = recommendFromBagHistory(bagId, bagRows);
+    return res.json(payload);
+  }
+
+  // Similar bags share origin and/or process (case-insensitive); prefer matching both.
+  const otherRows = (await store.brews.listOnOwnedBags(userId))
+    .filter((row) => row.bag.id !== bagId)
+    .map((row) => ({ ...toRecommendationBrew(row.brew), origin: row.bag.origin, process: row.bag.process }));
+
+  const normalize = (value: string | null) => value?.trim().toLowerCase() || null;
+  const origin = normalize(bag.origin);
+  const process = normalize(bag.process);
+  const sameOrigin = (row: (typeof otherRows)[number]) => origin !== null && normalize(row.origin) === origin;
+  const sameProcess = (row: (typeof otherRows)[number]) => process !== null && normalize(row.process) === process;
+
+  const candidates: Array<[string, typeof otherRows]> = [
+    ["origin and process", otherRows.filter((row) => sameOrigin(row) && sameProcess(row))],
+    ["origin", otherRows.filter(sameOrigin)],
+    ["process", otherRows.filter(sameProcess)],
+  ];
+  const [similarity, similarRows] = candidates.find(([, rows]) => rows.some((row) => row.rating !== null)) ?? [
+    "origin or process",
+    [],
+  ];
+
+  const payload: RecommendationResponse = recommendFromSimilarBags(bagId, similarRows, similarity);
+  res.json(payload);
+});
+
+// GET /analytics/me
+// Personal dashboard aggregated across every bag the user owns, active and archived.
+app.get("/analytics/me", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const [rows, totalBags] = await Promise.all([
+    store.brews.listOnOwnedBags(userId),
+    store.bags.countOwned(userId),
+  ]);
+
+  const payload: PersonalAnalyticsResponse = buildPersonalAnalytics(rows, totalBags);
+  res.json(payload);
+});
+
+// GET /export?format=csv|json
+// Streams the user's whole journal (bags + non-deleted brews) as a download.
+app.get("/export", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const { values: query, issues } = parsePayload(ExportQuery, req.query);
+  if (issues.length) return sendValidationError(res, issues);
+  const format = query.format ?? "json";
+
+  const bagRows = await store.bags.listOwned(userId);
+  const filename = `coffee-journal-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.type(format === "csv" ? "text/csv" : "application/json");
+
+  // Brews are read a chunk of bags at a time so large journals never sit in memory at once.
+  const exportBatchSize = 100;
+  const forEachBrewBatch = async (write: (row: Brew) => void) => {
+    for (let start = 0; start < bagRows.length; start += exportBatchSize) {
+      const bagIds = bagRows.slice(start, start + exportBatchSize).map((row) => row.id);
+      const brewRows = await store.brews.listForBags(bagIds);
+      brewRows.forEach(write);
+    }
+  };
+
+  if (format === "csv") {
+    res.write(formatCsvHeader(JOURNAL_CSV_COLUMNS));
+    for (const row of bagRows) {
+      res.write(formatCsvRow(JOURNAL_CSV_COLUMNS, { recordType: "bag", ...toJournalBagRecord(row) }));
+    }
+    await forEachBrewBatch((row) => {
+      res.write(
+        formatCsvRow(JOURNAL_CSV_COLUMNS, { recordType: "brew", ...toJournalBrewCsvRecord(toJournalBrewRecord(row)) }),
+      );
+    });
+    return res.end();
+  }
+
+  res.write(`{"version":1,"exportedAt":${JSON.stringify(new Date())},"bags":[`);
+  bagRows.forEach((row, index) => {
+    res.write(`${index ? "," : ""}${JSON.stringify(toJournalBagRecord(row))}`);
+  });
+  res.write(`],"brews":[`);
+  let brewIndex = 0;
+  await forEachBrewBatch((row) => {
+    res.write(`${brewIndex ? "," : ""}${JSON.stringify(toJournalBrewRecord(row))}`);
+    brewIndex += 1;
+  });
+  res.end("]}");
+});
+
+// POST /import?dryRun=true
+// Imports a journal exported by GET /export (JSON body or text/csv).
+// Rows are upserted by id so re-importing the same file never duplicates anything.
+// Rows owned by the DEV_USER_ID guest account are moved to the importing user;
+// rows owned by any other account are rejected.
+app.post("/import", express.text({ type: "text/csv", limit: "5mb" }), async (req, res) => {
+  const userId = getRequestUserId(req);
+  const query = parsePayload(ImportQuery, req.query);
+  if (query.issues.length) return sendValidationError(res, query.issues);
+  const dryRun = query.values.dryRun ?? false;
+
+  type ImportInput = { recordType: "bag" | "brew"; row: number; record: Record<string, unknown> };
+  const inputs: ImportInput[] = [];
+  const errors: ImportRowError[] = [];
+
+  if (typeof req.body === "string") {
+    const parsed = parseCsv(req.body);
+    if (parsed.error) return sendValidationError(res, [{ field: "file", message: parsed.error }]);
+    for (const { line, values } of parsed.records) {
+      if (values.recordType === "bag" || values.recordType === "brew") {
+        inputs.push({ recordType: values.recordType, row: line, record: values });
+      } else {
+        errors.push({
+          recordType: "unknown",
+          row: line,
+          errors: [{ field: "recordType", message: "must be bag or brew" }],
+        });
+      }
+    }
+  } else {
+    const { values: journal, issues } = parsePayload(ImportJournalRequest, req.body);
+    if (issues.length) return sendValidationError(res, issues);
+
+    for (const [recordType, records] of [
+      ["bag", journal.bags ?? []],
+      ["brew", journal.brews ?? []],
+    ] as const) {
+      records.forEach((record, index) => {
+        if (record && typeof record === "object" && !Array.isArray(record)) {
+          inputs.push({ recordType, row: index + 1, record: record as Record<string, unknown> });
+        } else {
+          errors.push({ recordType, row: index + 1, errors: [{ field: "row", message: "must be an object" }] });
+        }
+      });
+    }
+  }
+
+  // Field-level validation for every row.
+  const bagInputs: Array<{ row: number; values: ReturnType<typeof parseImportedBag>["values"] }> = [];
+  const brewInputs: Array<{ row: number; values: Awaited<ReturnType<typeof parseImportedBrew>>["values"] }> = [];
+  const attributes = await getSensoryAttributes(userId);
+  for (const input of inputs) {
+    const parsed =
+      input.recordType === "bag"
+        ? parseImportedBag(input.record)
+        : await parseImportedBrew(input.record, attributes, userId);
+    if (parsed.issues.length) {
+      errors.push({ recordType: input.recordType, row: input.row, errors: parsed.issues });
+    } else if (input.recordType === "bag") {
+      bagInputs.push({ row: input.row, values: parsed.values as ReturnType<typeof parseImportedBag>["values"] });
+    } else {
+      brewInputs.push({
+        row: input.row,
+        values: parsed.values as Awaited<ReturnType<typeof parseImportedBrew>>["values"],
+      });
+    }
+  }
+
+  // Cross-row checks: duplicate ids, ownership, brew -> bag links and one best brew per bag.
+  const rowError = (recordType: "bag" | "brew", row: number, field: string, message: string) => {
+    const existing = errors.find((error) => error.recordType === recordType && error.row === row);
+    if (existing) existing.errors.push({ field, message });
+    else errors.push({ recordType, row, errors: [{ field, message }] });
+  };
+  const canWrite = (ownerId: string) => ownerId === userId || ownerId === DEV_USER_ID;
+
+  const importedBagIds = new Set<string>();
+  for (const { row, values } of bagInputs) {
+    if (importedBagIds.has(values.id)) rowError("bag", row, "id", "is duplicated in this file");
+    importedBagIds.add(values.id);
+  }
+  const importedBrewIds = new Set<string>();
+  for (const { row, values } of brewInputs) {
+    if (importedBrewIds.has(values.id)) rowError("brew", row, "id", "is duplicated in this file");
+    importedBrewIds.add(values.id);
+  }
+
+  const referencedBagIds = Array.from(new Set([...importedBagIds, ...brewInputs.map((input) => input.values.bagId)]));
+  const existingBags = await store.bags.findMany(referencedBagIds);
+  const existingBagOwners = new Map(existingBags.map((row) => [row.id, row.userId]));
+
+  const existingBrews = await store.brews.findOwners(Array.from(importedBrewIds));
+  const existingBrewOwners = new Map(existingBrews.map((row) => [row.id, row.userId]));
+
+  for (const { row, values } of bagInputs) {
+    const owner = existingBagOwners.get(values.id);
+    if (owner && !canWrite(owner)) rowError("bag", row, "id", "belongs to another account");
+  }
+
+  const bestBrewBagIds = new Set<string>();
+  for (const { row, values } of brewInputs) {
+    const brewOwner = existingBrewOwners.get(values.id);
+    if (brewOwner && !canWrite(brewOwner)) rowError("brew", row, "id", "belongs to another account");
+
+    const bagOwner = existingBagOwners.get(values.bagId);
+    if (!importedBagIds.has(values.bagId) && bagOwner !== userId) {
+      rowError("brew", row, "bagId", "must reference a bag in this file or one you own");
+    }
+
+    if (values.isBest) {
+      if (bestBrewBagIds.has(values.bagId)) rowError("brew", row, "isBest", "only one best brew per bag");
+      bestBrewBagIds.add(values.bagId);
+    }
+  }
+
+  errors.sort((a, b) => (a.recordType === b.recordType ? a.row - b.row : a.recordType < b.recordType ? -1 : 1));
+  const payload: ImportResponse = {
+    dryRun,
+    bags: {
+      created: bagInputs.filter((input) => !existingBagOwners.has(input.values.id)).length,
+      updated: bagInputs.filter((input) => existingBagOwners.has(input.values.id)).length,
+    },
+    brews: {
+      created: brewInputs.filter((input) => !existingBrewOwners.has(input.values.id)).length,
+      updated: brewInputs.filter((input) => existingBrewOwners.has(input.values.id)).length,
+    },
+    errors,
+  };
+
+  // All-or-nothing: a file with any bad row writes nothing.
+  if (errors.length) return res.status(400).json(payload);
+  if (dryRun) return res.json(payload);
+
+  const defaultVisibility = await getDefaultVisibility(userId);
+  const existingBagsById = new Map(existingBags.map((bag) => [bag.id, bag]));
+  await store.transaction(async (tx) => {
+    // Every imported row is a create or an update in its bag's history.
+    const history: Array<BagHistoryEntryInsert | null> = [];
+    for (const { values } of bagInputs) {
+      const coffee = await resolveBagCoffee(tx, userId, values);
+      const saved = await tx.bags.upsert({
+        ...values,
+        userId,
+        coffeeId: coffee.id,
+        visibility: values.visibility ?? defaultVisibility,
+      });
+      history.push(bagHistoryEntry(existingBagsById.get(values.id) ?? null, saved, userId));
+    }
+
+    // An imported best brew replaces whatever was flagged best in that bag before.
+    const previousBrews = new Map((await tx.brews.findMany(Array.from(importedBrewIds))).map((row) => [row.id, row]));
+    const unflagged = (await tx.brews.listForBags(Array.from(bestBrewBagIds))).filter(
+      (brew) => brew.isBest && !importedBrewIds.has(brew.id),
+    );
+    await tx.brews.clearBest(Array.from(bestBrewBagIds));
+    history.push(...unflagged.map((brew) => brewHistoryEntry(brew, { ...brew, isBest: false }, userId)));
+
+    // New brews are attributed to the importer; re-imported ones keep their brewer.
+    for (const { values } of brewInputs) {
+      const saved = await tx.brews.upsert(values, userId);
+      history.push(brewHistoryEntry(previousBrews.get(values.id) ?? null, saved, userId));
+    }
+    await recordHistory(tx, history);
+
+    // Bean age at brew time follows from the imported roast dates and brew times.
+    const importedBagIds = new Set([
+      ...bagInputs.map(({ values }) => values.id),
+      ...brewInputs.map(({ values }) => values.bagId),
+    ]);
+    await tx.brews.refreshDaysOffRoast(Array.from(importedBagIds));
+  });
+
+  res.json(payload);
+});
+
+// GET /bags/:id
+// Returns a bag the user owns or shares, with computed roast metadata.
+app.get("/bags/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const bagId = req.params.id;
+
+  const access = await getBagAccess(bagId, userId);
+  if (!access) return res.status(404).json({ error: "Bag not found" });
+  const payload: BagDetailResponse = await getBagDetail(access.bag, access.role);
+  res.json(payload);
+});
+
+// PATCH /bags/:id/archive
+// Marks bag as archived; archived bags are hidden from ACTIVE list.
+app.patch("/bags/:id/archive", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const bagId = req.params.id;
+  const access = await requireBagRole(res, bagId, userId, "OWNER");
+  if (!access) return;
+
+  const archived = await archiveBag(access.bag, userId);
+  if (!archived) return res.status(404).json({ error: "Bag not found" });
+  const payload: BagDetailResponse = await getBagDetail(archived, access.role);
+  res.json(payload);
+});
+
+// PATCH /bags/:id/unarchive
+// Moves an archived bag back to active inventory.
+app.patch("/bags/:id/unarchive", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const bagId = req.params.id;
+  const access = await requireBagRole(res, bagId, userId, "OWNER");
+  if (!access) return;
+
+  const unarchived = await unarchiveBag(access.bag, userId);
+  if (!unarchived) return res.status(404).json({ error: "Bag not found" });
+  const payload: BagDetailResponse = await getBagDetail(unarchived, access.role);
+  res.json(payload);
+});
+
+// PATCH /bags/:id
+// Allows editing bag metadata for future corrections and archived bag maintenance.
+app.patch("/bags/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const bagId = req.params.id;
+  const access = await requireBagRole(res, bagId, userId, "OWNER");
+  if (!access) return;
+  const existing = access.bag;
+
+  // Every issue is reported at once and nothing is saved while any remain.
+  // Catalogue coffees and resting profiles belong to the bag's creator, also when a
+  // co-owner edits it.
+  const { values, issues } = parsePayload(UpdateBagRequest, req.body);
+  const { coffee, issue: coffeeIssue } = await parseBagCoffeeId(values.coffeeId, existing.userId);
+  if (coffeeIssue) issues.push(coffeeIssue);
+  const restingIssue = await validateBagRestingProfile(values.restingProfileId, existing.userId);
+  if (restingIssue) issues.push(restingIssue);
+  if (issues.length) return sendValidationError(res, issues);
+
+  const { coffeeId: _coffeeId, ...fields } = values;
+  const updates: Partial<BagInsert> = { ...fields };
+  // Linking a catalogue coffee copies its names; renaming the coffee or roaster on the
+  // bag links it to the matching catalogue entry instead, adding one if needed.
+  if (coffee) {
+    Object.assign(updates, {
+      coffeeId: coffee.id,
+      coffeeName: coffee.name,
+      roaster: coffee.roasterName,
+      origin: coffee.country ?? updates.origin ?? existing.origin,
+      process: coffee.process ?? updates.process ?? existing.process,
+    });
+  } else if (updates.coffeeName !== undefined || updates.roaster !== undefined) {
+    const relinked = await resolveBagCoffee(store, existing.userId, {
+      coffeeName: updates.coffeeName ?? existing.coffeeName,
+      roaster: updates.roaster ?? existing.roaster,
+      origin: updates.origin === undefined ? existing.origin : updates.origin,
+      process: updates.process === undefined ? existing.process : updates.process,
+    });
+    updates.coffeeId = relinked.id;
+  }
+
+  // Shrinking the recorded weight can empty the bag too, and a corrected roast date
+  // changes how old the beans were for every brew already logged.
+  const updated = await saveBagChanges(existing, updates, userId);
+  if (!updated) return res.status(404).json({ error: "Bag not found" });
+  const refreshed = (await getBagAccess(bagId, userId))?.bag ?? updated;
+  const payload: BagDetailResponse = await getBagDetail(refreshed, access.role);
+  res.json(payload);
+});
+
+// POST /bags/:id/adjustments
+// Records coffee that left (negative grams) or joined (positive) the bag outside of brews.
+app.post("/bags/:id/adjustments", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.id, userId, "OWNER");
+  if (!access) return;
+  const { bag } = access;
+
+  const { values, issues } = parsePayload(CreateBagAdjustmentRequest, req.body);
+  if (values.grams === null || values.grams === 0) {
+    issues.push({ field: "grams", message: "is required and must not be 0" });
+  }
+  if (issues.length || !values.grams) return sendValidationError(res, issues);
+
+  const created = await store.bags.createAdjustment({
+    id: randomUUID(),
+    bagId: bag.id,
+    grams: values.grams,
+    reason: values.reason || null,
+  });
+  await autoArchiveIfEmpty(bag, userId);
+  const payload: BagAdjustmentResponse = created;
+  res.status(201).json(payload);
+});
+
+// GET /bags/:id/adjustments
+// Lists manual inventory corrections, newest first.
+app.get("/bags/:id/adjustments", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.id, userId, "VIEWER");
+  if (!access) return;
+  const { bag } = access;
+
+  const payload: BagAdjustmentResponse[] = await store.bags.listAdjustments(bag.id);
+  res.json(payload);
+});
+
+// GET /bags/:id/history
+// Every create, edit, archive and best brew change to the bag and its brews, newest first.
+app.get("/bags/:id/history", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.id, userId, "VIEWER");
+  if (!access) return;
+
+  const payload: BagHistoryEntryResponse[] = await listBagHistory(access.bag.id);
+  res.json(payload);
+});
+
+// POST /bags/:id/history/:entryId/revert
+// Undoes one change by writing back the values it replaced, unless those fields changed
+// again since. Bag changes need the OWNER role; brew changes follow the brew edit rules,
+// except that anyone who can brew may move the best flag back. Returns the updated history.
+app.post("/bags/:id/history/:entryId/revert", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.id, userId, "BREWER");
+  if (!access) return;
+  const { bag } = access;
+
+  const entry = await getBagHistoryEntry(bag.id, req.params.entryId);
+  if (!entry) return res.status(404).json({ error: "History entry not found" });
+
+  if (!entry.brewId) {
+    if (access.role !== "OWNER") return res.status(403).json({ error: "Requires the OWNER role on this bag" });
+    const conflict = await findRevertConflict(entry, bag);
+    if (conflict) return res.status(409).json({ error: conflict });
+    if (!(await revertBagChange(bag, entry, userId))) return res.status(404).json({ error: "Bag not found" });
+  } else {
+    const brew = await getBagBrewById(bag.id, entry.brewId);
+    if (!brew) return res.status(404).json({ error: "Brew not found" });
+    const movesBestFlag = entry.action === "MARK_BEST" || entry.action === "UNMARK_BEST";
+    if (!movesBestFlag && !canChangeBrew(access.role, brew, userId)) {
+      return res.status(403).json({ error: "Only the brewer or a bag owner can revert changes to this brew" });
+    }
+    const conflict = await findRevertConflict(entry, brew);
+    if (conflict) return res.status(409).json({ error: conflict });
+    if (brew.deletedAt) return res.status(409).json({ error: "Restore the brew before reverting its changes" });
+    if (!(await revertBrewChange(bag, brew, entry, userId))) return res.status(404).json({ error: "Brew not found" });
+  }
+
+  const payload: BagHistoryEntryResponse[] = await listBagHistory(bag.id);
+  res.json(payload);
+});
+
+// GET /bags/:id/members
+// Everyone with access to the bag, starting with its creator.
+app.get("/bags/:id/members", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.id, userId, "VIEWER");
+  if (!access) return;
+  const { bag } = access;
+
+  const [creator, memberRows] = await Promise.all([store.profiles.find(bag.userId), store.bags.listMembers(bag.id)]);
+
+  const payload: BagMemberResponse[] = [
+    {
+      userId: bag.userId,
+      displayName: creator?.displayName ?? ANONYMOUS_DISPLAY_NAME,
+      avatarUrl: creator?.avatarUrl ?? null,
+      role: "OWNER",
+      joinedAt: bag.createdAt,
+    },
+    ...memberRows,
+  ];
+  res.json(payload);
+});
+
+// PATCH /bags/:id/members/:userId
+// Changes a member's role. The creator always stays owner.
+app.patch("/bags/:id/members/:userId", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.id, userId, "OWNER");
+  if (!access) return;
+  const { bag } = access;
+  const memberId = req.params.userId;
+
+  const { values, issues } = parsePayload(UpdateBagMemberRequest, req.body);
+  const { role } = values;
+  if (issues.length || !role) return sendValidationError(res, issues);
+  if (memberId === bag.userId) {
+    return sendValidationError(res, [{ field: "userId", message: "is the bag creator, whose role can't change" }]);
+  }
+
+  const updated = UUID_PATTERN.test(memberId) ? await store.bags.updateMember(bag.id, memberId, role) : null;
+  if (!updated) return res.status(404).json({ error: "Member not found" });
+
+  const member = await getOwnProfile(memberId);
+  const payload: BagMemberResponse = {
+    userId: memberId,
+    displayName: member?.displayName ?? ANONYMOUS_DISPLAY_NAME,
+    avatarUrl: member?.avatarUrl ?? null,
+    role: updated.role,
+    joinedAt: updated.createdAt,
+  };
+  res.json(payload);
+});
+
+// DELETE /bags/:id/members/:userId
+// Removes a member; owners can remove anyone but the creator, and members can leave.
+// Brews they logged stay on the bag.
+app.delete("/bags/:id/members/:userId", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const memberId = req.params.userId;
+  const access = await requireBagRole(res, req.params.id, userId, memberId === userId ? "VIEWER" : "OWNER");
+  if (!access) return;
+  const { bag } = access;
+
+  if (memberId === bag.userId) {
+    return sendValidationError(res, [{ field: "userId", message: "is the bag creator and can't be removed" }]);
+  }
+
+  const deleted = UUID_PATTERN.test(memberId) ? await store.bags.removeMember(bag.id, memberId) : null;
+  if (!deleted) return res.status(404).json({ error: "Member not found" });
+  res.status(204).end();
+});
+
+// POST /bags/:id/invites
+// Creates an invite link granting `role` (BREWER by default) to whoever accepts it.
+app.post("/bags/:id/invites", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.id, userId, "OWNER");
+  if (!access) return;
+  const { bag } = access;
+
+  const { values, issues } = parsePayload(CreateBagInviteRequest, req.body);
+  if (issues.length) return sendValidationError(res, issues);
+
+  const ttlHours = values.expiresInHours ?? BAG_INVITE_TTL_HOURS;
+  const created = await store.bags.createInvite({
+    bagId: bag.id,
+    token: randomBytes(24).toString("base64url"),
+    role: values.role ?? "BREWER",
+    createdBy: userId,
+    expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+  });
+  const payload: BagInviteResponse = created;
+  res.status(201).json(payload);
+});
+
+// GET /bags/:id/invites
+// Invites that can still be accepted, newest first.
+app.get("/bags/:id/invites", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.id, userId, "OWNER");
+  if (!access) return;
+
+  const payload: BagInviteResponse[] = await store.bags.listActiveInvites(access.bag.id, new Date());
+  res.json(payload);
+});
+
+// DELETE /bags/:id/invites/:inviteId
+// Revokes an invite; members who already joined keep their access.
+app.delete("/bags/:id/invites/:inviteId", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.id, userId, "OWNER");
+  if (!access) return;
+  const inviteId = req.params.inviteId;
+
+  const revoked = UUID_PATTERN.test(inviteId) ? await store.bags.revokeInvite(access.bag.id, inviteId) : null;
+  if (!revoked) return res.status(404).json({ error: "Invite not found" });
+  res.status(204).end();
+});
+
+// POST /invites/:token/accept
+// Joins the bag behind an invite link. Links stay valid for several people until they
+// expire or are revoked; accepting never downgrades a role the caller already has.
+app.post("/invites/:token/accept", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const invite = await store.bags.findActiveInvite(req.params.token, new Date());
+  if (!invite) return res.status(404).json({ error: "Invite not found" });
+
+  const access = await getBagAccess(invite.bagId, userId);
+  let role = invite.role;
+  if (access && BAG_ROLE_RANK[access.role] >= BAG_ROLE_RANK[invite.role]) {
+    role = access.role;
+  } else {
+    await store.bags.saveMember(invite.bagId, userId, role);
+  }
+
+  const payload: BagInviteAcceptResponse = { bagId: invite.bagId, role };
+  res.json(payload);
+});
+
+// PATCH /bags/:bagId/brews/:brewId/best
+// Keeps exactly one "best" brew per bag by clearing previous flags first.
+app.patch("/bags/:bagId/brews/:brewId/best", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const bagId = req.params.bagId;
+  const brewId = req.params.brewId;
+
+  const access = await requireBagRole(res, bagId, userId, "BREWER");
+  if (!access) return;
+
+  const updated = await markBestBrew(bagId, brewId, userId);
+
+  if (!updated) return res.status(404).json({ error: "Brew not found" });
+  const payload: BrewResponse = toBrewResponse(updated);
+  res.json(payload);
+});
+
+// PATCH /bags/:bagId/brews/:brewId
+// Corrects a logged brew; only fields present in the payload are changed.
+app.patch("/bags/:bagId/brews/:brewId", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const bagId = req.params.bagId;
+  const brewId = req.params.brewId;
+
+  const access = await requireBagRole(res, bagId, userId, "BREWER");
+  if (!access) return;
+  const { bag } = access;
+
+  const existing = await getBagBrewById(bagId, brewId);
+  if (!existing || existing.deletedAt || !canChangeBrew(access.role, existing, userId)) {
+    return res.status(404).json({ error: "Brew not found" });
+  }
+
+  // Sensory attributes and equipment are the brewer's, also when a bag owner edits the brew.
+  const { values, issues } = parseBrewPayload(req.body, {
+    partial: true,
+    attributes: await getSensoryAttributes(existing.userId),
+  });
+  const resolvedEquipment = await resolveBrewEquipment(values, existing.userId);
+  issues.push(...resolvedEquipment.issues);
+
+  // Re-check the grind setting whenever either it or the grinder changes.
+  if (values.grindSetting !== undefined || resolvedEquipment.values.grinderId !== undefined) {
+    const grinderId =
+      resolvedEquipment.values.grinderId !== undefined ? resolvedEquipment.values.grinderId : existing.grinderId;
+    const grinder =
+      resolvedEquipment.grinder ?? (grinderId ? await getOwnedEquipmentById(grinderId, existing.userId) : null);
+    const grindSetting = values.grindSetting !== undefined ? values.grindSetting : existing.grindSetting;
+    const grindIssue = validateGrindSettingForGrinder(grindSetting, grinder);
+    if (grindIssue) issues.push(grindIssue);
+  }
+  if (issues.length) return sendValidationError(res, issues);
+
+  const updated = await saveBrewChanges(bag, existing, { ...values, ...resolvedEquipment.values }, userId, {
+    activeOnly: true,
+  });
+
+  if (!updated) return res.status(404).json({ error: "Brew not found" });
+  const payload: BrewResponse = toBrewResponse(updated);
+  res.json(payload);
+});
+
+// DELETE /bags/:bagId/brews/:brewId
+// Soft-deletes a brew so it drops out of history/analytics but can be restored for a while.
+// A deleted brew loses its best flag; analytics then falls back to the top-rated brew.
+app.delete("/bags/:bagId/brews/:brewId", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const bagId = req.params.bagId;
+  const brewId = req.params.brewId;
+
+  const access = await requireBagRole(res, bagId, userId, "BREWER");
+  if (!access) return;
+  const { bag } = access;
+
+  const existing = await getBagBrewById(bagId, brewId);
+  if (!existing || !canChangeBrew(access.role, existing, userId)) {
+    return res.status(404).json({ error: "Brew not found" });
+  }
+
+  const deletedAt = new Date();
+  const deleted = await saveBrewChanges(bag, existing, { deletedAt, isBest: false, updatedAt: deletedAt }, userId, {
+    activeOnly: true,
+  });
+
+  if (!deleted) return res.status(404).json({ error: "Brew not found" });
+  const payload: DeletedBrewResponse = {
+    ...toBrewResponse(deleted),
+    restoreDeadline: computeRestoreDeadline(deletedAt),
+  };
+  res.json(payload);
+});
+
+// PATCH /bags/:bagId/brews/:brewId/restore
+// Undoes a soft delete while the restore window is still open.
+app.patch("/bags/:bagId/brews/:brewId/restore", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const bagId = req.params.bagId;
+  const brewId = req.params.brewId;
+
+  const access = await requireBagRole(res, bagId, userId, "BREWER");
+  if (!access) return;
+  const { bag } = access;
+
+  const existing = await getBagBrewById(bagId, brewId);
+  if (!existing || !canChangeBrew(access.role, existing, userId)) {
+    return res.status(404).json({ error: "Brew not found" });
+  }
+  if (!existing.deletedAt) return res.status(409).json({ error: "Brew is not deleted" });
+  if (computeRestoreDeadline(existing.deletedAt).getTime() < Date.now()) {
+    return res.status(410).json({ error: "Restore window has expired" });
+  }
+
+  const restored = await saveBrewChanges(bag, existing, { deletedAt: null }, userId);
+
+  if (!restored) return res.status(404).json({ error: "Brew not found" });
+  await autoArchiveIfEmpty(bag, userId);
+  const payload: BrewResponse = toBrewResponse(restored);
+  res.json(payload);
+});
+
+async function getRoasterDetail(userId: string, roasterId: string): Promise<RoasterDetailResponse | null> {
+  const [summary] = await store.catalogue.listRoasters(userId, { id: roasterId });
+  if (!summary) return null;
+  return { ...summary, coffees: await store.catalogue.listCoffees(userId, { roasterId }) };
+}
+
+async function getOwnedRoasterById(roasterId: string, userId: string) {
+  if (!UUID_PATTERN.test(roasterId)) return null;
+  return store.catalogue.findRoaster(roasterId, userId);
+}
+
+async function getOwnedCoffeeById(coffeeId: string, userId: string) {
+  if (!UUID_PATTERN.test(coffeeId)) return null;
+  return store.catalogue.findCoffee(coffeeId, userId);
+}
+
+// Resolves `coffeeId` from a bag payload to one of the bag owner's catalogue coffees.
+async function parseBagCoffeeId(coffeeId: string | null | undefined, ownerId: string) {
+  if (!coffeeId) return { coffee: null, issue: null };
+  const [coffee] = UUID_PATTERN.test(coffeeId) ? await store.catalogue.listCoffees(ownerId, { id: coffeeId }) : [];
+  return coffee
+    ? { coffee, issue: null }
+    : { coffee: null, issue: { field: "coffeeId", message: "coffee not found" } };
+}
+
+// Validates `sourceIds` for a merge: the user's own roasters or coffees, not including the target.
+function parseMergeSourceIds(body: unknown, targetId: string) {
+  const { values, issues } = parsePayload(MergeCatalogueRequest, body);
+  const sourceIds = Array.from(new Set(values.sourceIds ?? []));
+  return issues.length || sourceIds.includes(targetId)
+    ? { sourceIds: [], issue: { field: "sourceIds", message: "must list other catalogue ids to merge into this one" } }
+    : { sourceIds, issue: null };
+}
+
+function parseRoasterPayload(body: unknown, options: { partial?: boolean } = {}) {
+  return options.partial ? parsePayload(UpdateRoasterRequest, body) : parsePayload(CreateRoasterRequest, body);
+}
+
+// Coffee fields; the roaster is given as `roasterId` or by `roaster` name and resolved by the route.
+function parseCoffeePayload(body: unknown, options: { partial?: boolean } = {}) {
+  const { values: parsed, issues } = options.partial
+    ? parsePayload(UpdateCoffeeRequest, body)
+    : parsePayload(CreateCoffeeRequest, body);
+  const { roasterId, roaster, ...values } = parsed;
+  const roasterRef = roasterId !== undefined || roaster !== undefined ? { roasterId, roaster } : null;
+  return { values, roasterRef, issues };
+}
+
+// Roaster for a coffee payload: `roasterId` must be the user's, a `roaster` name is created on first use.
+async function resolveCoffeeRoaster(ref: { roasterId?: string | undefined; roaster?: string | undefined }, userId: string) {
+  if (ref.roasterId) return getOwnedRoasterById(ref.roasterId, userId);
+  if (ref.roaster) return findOrCreateRoaster(store, userId, ref.roaster);
+  return null;
+}
+
+// POST /roasters
+// Adds a roaster to the user's catalogue.
+app.post("/roasters", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const { values, issues } = parseRoasterPayload(req.body);
+  if (issues.length) return sendValidationError(res, issues);
+
+  const created = await store.catalogue.createRoaster({
+    ...values,
+    id: randomUUID(),
+    userId,
+    name: values.name as string,
+  });
+  if (!created) return res.status(409).json({ error: "Roaster already exists" });
+  const payload: RoasterResponse = { ...created, coffeeCount: 0, bagCount: 0 };
+  res.status(201).json(payload);
+});
+
+// GET /roasters?q=&limit=10
+// Autocomplete over the user's roasters; names starting with `q` come first.
+app.get("/roasters", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const { values: query, issues } = parsePayload(AutocompleteQuery, req.query);
+  if (issues.length) return sendValidationError(res, issues);
+
+  const payload: RoasterResponse[] = await store.catalogue.listRoasters(userId, {
+    q: query.q ?? "",
+    limit: query.limit ?? 10,
+  });
+  res.json(payload);
+});
+
+// GET /roasters/:id
+// A roaster with the coffees bought from it.
+app.get("/roasters/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const roaster = await getOwnedRoasterById(req.params.id, userId);
+  if (!roaster) return res.status(404).json({ error: "Roaster not found" });
+
+  const payload = await getRoasterDetail(userId, roaster.id);
+  if (!payload) return res.status(404).json({ error: "Roaster not found" });
+  res.json(payload);
+});
+
+// PATCH /roasters/:id
+// Renames a roaster; linked bags pick up the new name.
+app.patch("/roasters/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const existing = await getOwnedRoasterById(req.params.id, userId);
+  if (!existing) return res.status(404).json({ error: "Roaster not found" });
+
+  const { values, issues } = parseRoasterPayload(req.body, { partial: true });
+  if (issues.length) return sendValidationError(res, issues);
+
+  if (values.name && (await store.catalogue.listRoasters(userId, { name: values.name, exceptId: existing.id })).length) {
+    return res.status(409).json({ error: "Roaster already exists" });
+  }
+
+  await store.transaction(async (tx) => {
+    await tx.catalogue.updateRoaster(existing.id, { ...values, updatedAt: new Date() });
+    const roasterCoffees = await tx.catalogue.listRoasterCoffees([existing.id]);
+    await tx.catalogue.syncBags(roasterCoffees.map((coffee) => coffee.id));
+  });
+
+  const [payload] = await store.catalogue.listRoasters(userId, { id: existing.id });
+  res.json(payload);
+});
+
+// POST /roasters/:id/merge
+// Folds duplicate roasters (`sourceIds`) into this one, merging coffees that share a name.
+app.post("/roasters/:id/merge", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const target = await getOwnedRoasterById(req.params.id, userId);
+  if (!target) return res.status(404).json({ error: "Roaster not found" });
+
+  const { sourceIds, issue } = parseMergeSourceIds(req.body, target.id);
+  if (issue) return sendValidationError(res, [issue]);
+  const sources = await Promise.all(sourceIds.map((sourceId) => getOwnedRoasterById(sourceId, userId)));
+  if (sources.includes(null)) return res.status(404).json({ error: "Roaster not found" });
+
+  await store.transaction((tx) => mergeRoasters(tx, target.id, sourceIds));
+
+  const payload = await getRoasterDetail(userId, target.id);
+  if (!payload) return res.status(404).json({ error: "Roaster not found" });
+  res.json(payload);
+});
+
+// POST /coffees
+// Adds a coffee with its origin details under `roasterId` or a `roaster` name.
+app.post("/coffees", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const { values, roasterRef, issues } = parseCoffeePayload(req.body);
+  if (!roasterRef) issues.push({ field: "roasterId", message: "is required" });
+  if (issues.length || !roasterRef) return sendValidationError(res, issues);
+
+  const roaster = await resolveCoffeeRoaster(roasterRef, userId);
+  if (!roaster) return sendValidationError(res, [{ field: "roasterId", message: "roaster not found" }]);
+
+  const created = await store.catalogue.createCoffee({
+    ...values,
+    id: randomUUID(),
+    userId,
+    roasterId: roaster.id,
+    name: values.name as string,
+  });
+  if (!created) return res.status(409).json({ error: "Coffee already exists" });
+
+  const payload: CoffeeResponse = { ...created, roasterName: roaster.name, bagCount: 0 };
+  res.status(201).json(payload);
+});
+
+// GET /coffees?q=&roasterId=&limit=10
+// Autocomplete over the user's coffees, optionally for one roaster.
+app.get("/coffees", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const { values: query, issues } = parsePayload(CoffeesQuery, req.query);
+  if (issues.length) return sendValidationError(res, issues);
+
+  const payload: CoffeeResponse[] = await store.catalogue.listCoffees(userId, {
+    q: query.q ?? "",
+    ...(query.roasterId ? { roasterId: query.roasterId } : {}),
+    limit: query.limit ?? 10,
+  });
+  res.json(payload);
+});
+
+// GET /coffees/:id
+// A coffee with every bag bought of it, to compare repurchases.
+app.get("/coffees/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const coffee = await getOwnedCoffeeById(req.params.id, userId);
+  if (!coffee) return res.status(404).json({ error: "Coffee not found" });
+
+  const [summary] = await store.catalogue.listCoffees(userId, { id: coffee.id });
+  if (!summary) return res.status(404).json({ error: "Coffee not found" });
+  const purchases = await store.catalogue.listPurchases(coffee.id);
+
+  const payload: CoffeeDetailResponse = { ...summary, purchases };
+  res.json(payload);
+});
+
+// PATCH /coffees/:id
+// Edits a coffee's name, origin details or roaster; linked bags pick up the changes.
+app.patch("/coffees/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const existing = await getOwnedCoffeeById(req.params.id, userId);
+  if (!existing) return res.status(404).json({ error: "Coffee not found" });
+
+  const { values, roasterRef, issues } = parseCoffeePayload(req.body, { partial: true });
+  if (issues.length) return sendValidationError(res, issues);
+  const roaster = roasterRef ? await resolveCoffeeRoaster(roasterRef, userId) : null;
+  if (roasterRef && !roaster) {
+    return sendValidationError(res, [{ field: "roasterId", message: "roaster not found" }]);
+  }
+
+  const roasterId = roaster?.id ?? existing.roasterId;
+  if (await store.catalogue.findCoffeeNamed(roasterId, values.name ?? existing.name, existing.id)) {
+    return res.status(409).json({ error: "Coffee already exists" });
+  }
+
+  await store.transaction(async (tx) => {
+    await tx.catalogue.updateCoffee(existing.id, { ...values, roasterId, updatedAt: new Date() });
+    await tx.catalogue.syncBags([existing.id]);
+  });
+
+  const [payload] = await store.catalogue.listCoffees(userId, { id: existing.id });
+  res.json(payload);
+});
+
+// POST /coffees/:id/merge
+// Folds duplicate coffees (`sourceIds`) into this one; their bags are relinked.
+app.post("/coffees/:id/merge", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const target = await getOwnedCoffeeById(req.params.id, userId);
+  if (!target) return res.status(404).json({ error: "Coffee not found" });
+
+  const { sourceIds, issue } = parseMergeSourceIds(req.body, target.id);
+  if (issue) return sendValidationError(res, [issue]);
+  const sources = (await Promise.all(sourceIds.map((sourceId) => getOwnedCoffeeById(sourceId, userId)))).filter(
+    (coffee) => coffee !== null,
+  );
+  if (sources.length !== sourceIds.length) return res.status(404).json({ error: "Coffee not found" });
+
+  await store.transaction((tx) => mergeCoffees(tx, target, sources));
+
+  const [payload] = await store.catalogue.listCoffees(userId, { id: target.id });
+  res.json(payload);
+});
+
+// POST /equipment
+// Adds a brewer or grinder to the user's catalogue.
+app.post("/equipment", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const { values, issues } = parseEquipmentPayload(req.body);
+  if (values.type === "BREWER" && (values.grindSettingMin != null || values.grindSettingMax != null)) {
+    issues.push({ field: "type", message: "only grinders have a grind setting range" });
+  }
+  if (issues.length) return sendValidationError(res, issues);
+
+  const created = await store.equipment.create({
+    ...values,
+    id: randomUUID(),
+    userId,
+    type: values.type as EquipmentType,
+    model: values.model as string,
+  });
+  const payload: EquipmentResponse = toEquipmentResponse(created);
+  res.status(201).json(payload);
+});
+
+// GET /equipment?type=BREWER|GRINDER
+// Lists the user's equipment, alphabetically by display name.
+app.get("/equipment", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const { values: query, issues } = parsePayload(EquipmentQuery, req.query);
+  if (issues.length) return sendValidationError(res, issues);
+  const { type } = query;
+
+  const rows = await store.equipment.list(userId, type);
+  const payload: EquipmentResponse[] = rows.map(toEquipmentResponse);
+  res.json(payload);
+});
+
+// GET /equipment/:id
+app.get("/equipment/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const row = await getOwnedEquipmentById(req.params.id, userId);
+  if (!row) return res.status(404).json({ error: "Equipment not found" });
+  const payload: EquipmentResponse = toEquipmentResponse(row);
+  res.json(payload);
+});
+
+// PATCH /equipment/:id
+// Edits equipment; the type is fixed once brews may reference it.
+app.patch("/equipment/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const existing = await getOwnedEquipmentById(req.params.id, userId);
+  if (!existing) return res.status(404).json({ error: "Equipment not found" });
+
+  const { values, issues } = parseEquipmentPayload(req.body, { partial: true });
+  if (values.type !== undefined && values.type !== existing.type) {
+    issues.push({ field: "type", message: "cannot be changed" });
+  }
+  const min = values.grindSettingMin !== undefined ? values.grindSettingMin : existing.grindSettingMin;
+  const max = values.grindSettingMax !== undefined ? values.grindSettingMax : existing.grindSettingMax;
+  if (min != null && max != null && min > max && !issues.some((issue) => issue.field === "grindSettingMax")) {
+    issues.push({ field: "grindSettingMax", message: "must be greater than or equal to grindSettingMin" });
+  }
+  if (issues.length) return sendValidationError(res, issues);
+
+  const updated = await store.equipment.update(existing.id, { ...values, updatedAt: new Date() });
+  if (!updated) return res.status(404).json({ error: "Equipment not found" });
+  const payload: EquipmentResponse = toEquipmentResponse(updated);
+  res.json(payload);
+});
+
+// DELETE /equipment/:id
+// Removes equipment; brews and recipes keep their free-text brewer/grinder name but lose the link.
+app.delete("/equipment/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const existing = await getOwnedEquipmentById(req.params.id, userId);
+  if (!existing) return res.status(404).json({ error: "Equipment not found" });
+
+  await store.transaction(async (tx) => {
+    await tx.brews.unlinkEquipment(existing.id, existing.type);
+    await tx.recipes.unlinkEquipment(existing.id, existing.type);
+    await tx.equipment.delete(existing.id);
+  });
+
+  res.status(204).end();
+});
+
+// GET /equipment/:id/analytics
+// Ratings achieved with one brewer/grinder across all of the user's bags.
+app.get("/equipment/:id/analytics", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const item = await getOwnedEquipmentById(req.params.id, userId);
+  if (!item) return res.status(404).json({ error: "Equipment not found" });
+
+  const brewsWithBags = await store.brews.listByBrewer(
+    userId,
+    item.type === "BREWER" ? { brewerId: item.id } : { grinderId: item.id },
+  );
+  const rows = brewsWithBags.map(({ brew, bag }) => ({
+    bagId: bag.id,
+    coffeeName: bag.coffeeName,
+    roaster: bag.roaster,
+    method: brew.method,
+    grindSetting: brew.grindSetting,
+    rating: brew.rating,
+    createdAt: brew.createdAt,
+  }));
+
+  const rowsByBag = new Map<string, typeof rows>();
+  for (const row of rows) rowsByBag.set(row.bagId, [...(rowsByBag.get(row.bagId) ?? []), row]);
+  const byBag = Array.from(rowsByBag.values()).map((bagRows) => {
+    const ratings = bagRows.map((row) => row.rating).filter((value): value is number => value !== null);
+    const first = bagRows[0] as (typeof rows)[number];
+    return {
+      bagId: first.bagId,
+      coffeeName: first.coffeeName,
+      roaster: first.roaster,
+      brewCount: bagRows.length,
+      averageRating: average(ratings),
+      bestRating: ratings.length ? Math.max(...ratings) : null,
+    };
+  });
+
+  const payload: EquipmentAnalyticsResponse = {
+    equipment: toEquipmentResponse(item),
+    totalBrews: rows.length,
+    bagCount: byBag.length,
+    averageRating: averageRatingOf(rows),
+    byBag,
+    ratingByMethod: buildRatingBreakdown(rows, (row) => row.method),
+    // Grind settings only mean something relative to one grinder.
+    ratingByGrindSetting:
+      item.type === "GRINDER"
+        ? buildRatingBreakdown(rows, (row) => (row.grindSetting === null ? null : String(row.grindSetting)))
+        : [],
+  };
+  res.json(payload);
+});
+
+// POST /resting-profiles
+// Creates a resting profile; bags pick it up by roast level/process or by restingProfileId.
+app.post("/resting-profiles", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const { values, issues } = parseRestingProfilePayload(req.body);
+  if (issues.length) return sendValidationError(res, issues);
+
+  const created = await store.restingProfiles.create({
+    ...values,
+    id: randomUUID(),
+    userId,
+    name: values.name as string,
+    restDays: values.restDays as number,
+    pastPeakAfterDays: values.pastPeakAfterDays as number,
+  });
+  const payload: RestingProfileResponse = created;
+  res.status(201).json(payload);
+});
+
+// GET /resting-profiles
+app.get("/resting-profiles", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const payload: RestingProfileResponse[] = await store.restingProfiles.list(userId);
+  res.json(payload);
+});
+
+// PATCH /resting-profiles/:id
+app.patch("/resting-profiles/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const existing = await getOwnedRestingProfileById(req.params.id, userId);
+  if (!existing) return res.status(404).json({ error: "Resting profile not found" });
+
+  const { values, issues } = parseRestingProfilePayload(req.body, existing);
+  if (issues.length) return sendValidationError(res, issues);
+
+  const updated = await store.restingProfiles.update(existing.id, { ...values, updatedAt: new Date() });
+  if (!updated) return res.status(404).json({ error: "Resting profile not found" });
+  const payload: RestingProfileResponse = updated;
+  res.json(payload);
+});
+
+// DELETE /resting-profiles/:id
+// Bags that pinned this profile fall back to matching by roast level/process.
+app.delete("/resting-profiles/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const existing = await getOwnedRestingProfileById(req.params.id, userId);
+  if (!existing) return res.status(404).json({ error: "Resting profile not found" });
+
+  await store.transaction(async (tx) => {
+    await tx.bags.clearRestingProfile(existing.id, userId);
+    await tx.restingProfiles.delete(existing.id);
+  });
+  res.status(204).end();
+});
+
+// POST /recipes
+// Saves a named recipe from scratch.
+app.post("/recipes", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const { values, issues } = await parseRecipePayload(req.body, userId);
+  if (issues.length) return sendValidationError(res, issues);
+
+  const created = await store.recipes.create({
+    ...values,
+    id: randomUUID(),
+    userId,
+    name: values.name as string,
+    method: values.method as string,
+  });
+  const payload: RecipeResponse = toRecipeResponse(created);
+  res.status(201).json(payload);
+});
+
+// POST /bags/:bagId/brews/:brewId/recipe
+// Promotes a logged brew (e.g. the best one) into a reusable recipe.
+app.post("/bags/:bagId/brews/:brewId/recipe", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const access = await requireBagRole(res, req.params.bagId, userId, "VIEWER");
+  if (!access) return;
+  const { bag } = access;
+
+  const brew = await getBagBrewById(bag.id, req.params.brewId);
+  if (!brew || brew.deletedAt) return res.status(404).json({ error: "Brew not found" });
+
+  const { values, issues } = parsePayload(CreateRecipeFromBrewRequest, req.body);
+  if (issues.length) return sendValidationError(res, issues);
+
+  const created = await store.recipes.create({
+    ...Object.fromEntries(RECIPE_BREW_FIELDS.map((key) => [key, brew[key]])),
+    id: randomUUID(),
+    userId,
+    name: values.name ?? `${bag.coffeeName} - ${brew.method}`,
+    method: brew.method,
+    sourceBrewId: brew.id,
+  });
+  const payload: RecipeResponse = toRecipeResponse(created);
+  res.status(201).json(payload);
+});
+
+// GET /recipes
+// Lists the user's recipes alphabetically.
+app.get("/recipes", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const rows = await store.recipes.list(userId);
+  const payload: RecipeResponse[] = rows.map(toRecipeResponse);
+  res.json(payload);
+});
+
+// GET /recipes/:id
+app.get("/recipes/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const recipe = await getOwnedRecipeById(req.params.id, userId);
+  if (!recipe) return res.status(404).json({ error: "Recipe not found" });
+  const payload: RecipeResponse = toRecipeResponse(recipe);
+  res.json(payload);
+});
+
+// PATCH /recipes/:id
+// Edits a recipe; brews already logged from it are unchanged.
+app.patch("/recipes/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const existing = await getOwnedRecipeById(req.params.id, userId);
+  if (!existing) return res.status(404).json({ error: "Recipe not found" });
+
+  const { values, issues } = await parseRecipePayload(req.body, userId, { partial: true });
+  if (issues.length) return sendValidationError(res, issues);
+
+  const updated = await store.recipes.update(existing.id, { ...values, updatedAt: new Date() });
+  if (!updated) return res.status(404).json({ error: "Recipe not found" });
+  const payload: RecipeResponse = toRecipeResponse(updated);
+  res.json(payload);
+});
+
+// DELETE /recipes/:id
+// Deletes a recipe; brews keep their recipeId so history still groups them together.
+app.delete("/recipes/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const existing = await getOwnedRecipeById(req.params.id, userId);
+  if (!existing) return res.status(404).json({ error: "Recipe not found" });
+
+  await store.recipes.delete(existing.id);
+  res.status(204).end();
+});
+
+// GET /recipes/:id/analytics
+// How one recipe performed on each bag it was brewed with.
+app.get("/recipes/:id/analytics", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const recipe = await getOwnedRecipeById(req.params.id, userId);
+  if (!recipe) return res.status(404).json({ error: "Recipe not found" });
+
+  const rows = (await store.brews.listByBrewer(userId, { recipeIds: [recipe.id] })).map(({ brew, bag }) => ({
+    bagId: bag.id,
+    coffeeName: bag.coffeeName,
+    roaster: bag.roaster,
+    rating: brew.rating,
+  }));
+
+  const rowsByBag = new Map<string, typeof rows>();
+  for (const row of rows) rowsByBag.set(row.bagId, [...(rowsByBag.get(row.bagId) ?? []), row]);
+
+  const payload: RecipeAnalyticsResponse = {
+    recipe: toRecipeResponse(recipe),
+    totalBrews: rows.length,
+    averageRating: averageRatingOf(rows),
+    byBag: Array.from(rowsByBag.values())
+      .map((bagRows) => {
+        const first = bagRows[0] as (typeof rows)[number];
+        return {
+          bagId: first.bagId,
+          coffeeName: first.coffeeName,
+          roaster: first.roaster,
+          brewCount: bagRows.length,
+          averageRating: averageRatingOf(bagRows),
+        };
+      })
+      .sort((a, b) => (b.averageRating ?? -1) - (a.averageRating ?? -1)),
+  };
+  res.json(payload);
+});
+
+// GET /flavour-wheel
+// The flavour wheel brews are tagged from, as a tree.
+app.get("/flavour-wheel", (_req, res) => {
+  res.json(FLAVOUR_WHEEL);
+});
+
+// GET /sensory-attributes
+// Built-in attributes first, then the user's own.
+app.get("/sensory-attributes", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const payload: SensoryAttributeResponse[] = (await getSensoryAttributes(userId)).map(toSensoryAttributeResponse);
+  res.json(payload);
+});
+
+// POST /sensory-attributes
+// Adds a custom attribute; keys must be unique among the built-in and the user's attributes.
+app.post("/sensory-attributes", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const { values, issues } = parseSensoryAttributePayload(req.body);
+  if (issues.length) return sendValidationError(res, issues);
+
+  const existing = await getSensoryAttributes(userId);
+  if (existing.some((attribute) => attribute.key === values.key)) {
+    return res.status(409).json({ error: "Sensory attribute already exists" });
+  }
+  const position = Math.max(-1, ...existing.filter((row) => row.userId).map((row) => row.position)) + 1;
+
+  const created = await store.sensoryAttributes.create({ ...values, userId, position });
+  if (!created) return res.status(409).json({ error: "Sensory attribute already exists" });
+  const payload: SensoryAttributeResponse = toSensoryAttributeResponse(created);
+  res.status(201).json(payload);
+});
+
+// DELETE /sensory-attributes/:id
+// Removes one of the user's own attributes along with its scores on their brews.
+app.delete("/sensory-attributes/:id", async (req, res) => {
+  const userId = getRequestUserId(req);
+  const attribute = UUID_PATTERN.test(req.params.id)
+    ? await store.sensoryAttributes.findOwn(req.params.id, userId)
+    : null;
+  if (!attribute) return res.status(404).json({ error: "Sensory attribute not found" });
+
+  await store.transaction(async (tx) => {
+    await tx.brews.removeSensoryScore(userId, attribute.key);
+    await tx.sensoryAttributes.delete(attribute.id);
+  });
+  res.status(204).end();
 });
 
 // Export app for runtime and tests.
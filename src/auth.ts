@@ -0,0 +1,302 @@
+import {
+  createHmac,
+  createPublicKey,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+  verify as verifySignature,
+  type KeyObject,
+} from "crypto";
+import { promisify } from "util";
+import { store } from "./store";
+import type { AuthSessionResponse } from "./types/api";
+
+// Auth providers turn a bearer token into a user without a network round-trip per request.
+// - supabase: verifies Supabase access tokens locally, with SUPABASE_JWT_SECRET (HS256)
+//   or the project's JWKS, fetched once and cached
+// - local: email/password accounts in local_users, issuing HS256 tokens signed with
+//   LOCAL_AUTH_JWT_SECRET, for self-hosting without Supabase
+
+export type AuthUser = { id: string; email: string | null };
+
+export type AuthProvider = {
+  name: "supabase" | "local";
+  // Null when the token is malformed, forged, expired or meant for another audience.
+  // Throws when tokens can't be checked right now, e.g. the JWKS is unreachable and
+  // nothing is cached yet.
+  verifyAccessToken(token: string): Promise<AuthUser | null>;
+};
+
+export type LocalAuthProvider = AuthProvider & {
+  name: "local";
+  allowSignup: boolean;
+  // Null when the email is already registered.
+  register(email: string, password: string): Promise<AuthSessionResponse | null>;
+  // Null when the email or password is wrong.
+  login(email: string, password: string): Promise<AuthSessionResponse | null>;
+};
+
+export type JwtClaims = {
+  sub?: unknown;
+  aud?: unknown;
+  iss?: unknown;
+  exp?: unknown;
+  nbf?: unknown;
+  email?: unknown;
+  [claim: string]: unknown;
+};
+
+type JwtHeader = { alg?: unknown; kid?: unknown };
+
+export type JwtVerifierOptions = {
+  hs256Secret?: string | undefined;
+  jwksUrl?: string | undefined;
+  audience: string;
+  issuer?: string | undefined;
+  jwksCacheSeconds?: number;
+};
+
+// Allowed drift between our clock and the token issuer's.
+const CLOCK_TOLERANCE_SECONDS = 30;
+// An unknown `kid` triggers a JWKS refresh at most this often, so forged tokens can't
+// hammer the key endpoint.
+const JWKS_MIN_REFRESH_SECONDS = 30;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    const value = JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as unknown;
+    return value && typeof value === "object" ? (value as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+// Splits a compact JWT; null when it isn't one.
+function parseJwt(token: string) {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  const [headerSegment = "", claimsSegment = "", signatureSegment = ""] = parts;
+  const header = decodeSegment<JwtHeader>(headerSegment);
+  const claims = decodeSegment<JwtClaims>(claimsSegment);
+  if (!header || !claims) return null;
+  return {
+    header,
+    claims,
+    signingInput: `${headerSegment}.${claimsSegment}`,
+    signature: Buffer.from(signatureSegment, "base64url"),
+  };
+}
+
+export function signHs256Jwt(claims: JwtClaims, secret: string): string {
+  const signingInput = `${encodeSegment({ alg: "HS256", typ: "JWT" })}.${encodeSegment(claims)}`;
+  const signature = createHmac("sha256", secret).update(signingInput).digest("base64url");
+  return `${signingInput}.${signature}`;
+}
+
+function hs256Matches(signingInput: string, signature: Buffer, secret: string): boolean {
+  const expected = createHmac("sha256", secret).update(signingInput).digest();
+  return expected.length === signature.length && timingSafeEqual(expected, signature);
+}
+
+function publicKeyMatches(alg: string, signingInput: string, signature: Buffer, key: KeyObject): boolean {
+  const data = Buffer.from(signingInput);
+  if (alg === "RS256") return verifySignature("sha256", data, key, signature);
+  if (alg === "ES256") return verifySignature("sha256", data, { key, dsaEncoding: "ieee-p1363" }, signature);
+  return false;
+}
+
+// Expiry is required; audience and issuer must match when configured.
+function claimsAreValid(claims: JwtClaims, audience: string, issuer: string | undefined): boolean {
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_TOLERANCE_SECONDS <= now) return false;
+  if (typeof claims.nbf === "number" && claims.nbf - CLOCK_TOLERANCE_SECONDS > now) return false;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(audience)) return false;
+  if (issuer && claims.iss !== issuer) return false;
+  // User ids end up in uuid columns.
+  return typeof claims.sub === "string" && UUID_PATTERN.test(claims.sub);
+}
+
+type CachedKey = { alg: string | null; key: KeyObject };
+
+// Public keys from a JWKS endpoint, refetched after `ttlSeconds` or when a token names a
+// key we haven't seen. A failed refresh keeps serving the keys already cached.
+function createJwksCache(url: string, ttlSeconds: number) {
+  let keys = new Map<string, CachedKey>();
+  let fetchedAt = 0;
+  let refreshing: Promise<void> | null = null;
+
+  const refresh = async () => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`JWKS request failed with ${response.status}`);
+    const body = (await response.json()) as { keys?: Array<JsonWebKey & { kid?: string; alg?: string }> };
+    const next = new Map<string, CachedKey>();
+    for (const jwk of body.keys ?? []) {
+      if (!jwk.kid) continue;
+      try {
+        next.set(jwk.kid, { alg: jwk.alg ?? null, key: createPublicKey({ key: jwk, format: "jwk" }) });
+      } catch {
+        // Skip key types Node can't load rather than rejecting the whole set.
+      }
+    }
+    keys = next;
+    fetchedAt = Date.now();
+  };
+
+  const refreshOnce = () => {
+    refreshing ??= refresh().finally(() => {
+      refreshing = null;
+    });
+    return refreshing;
+  };
+
+  return async (kid: string): Promise<CachedKey | null> => {
+    const age = (Date.now() - fetchedAt) / 1000;
+    const stale = age > ttlSeconds;
+    if (stale || (!keys.has(kid) && age > JWKS_MIN_REFRESH_SECONDS)) {
+      try {
+        await refreshOnce();
+      } catch (error) {
+        if (!fetchedAt) throw error;
+        console.warn("JWKS refresh failed; using cached keys", error);
+      }
+    }
+    return keys.get(kid) ?? null;
+  };
+}
+
+// Returns the claims of a valid token, or null. Needs an HS256 secret, a JWKS URL, or both.
+export function createJwtVerifier(options: JwtVerifierOptions) {
+  const getJwksKey = options.jwksUrl ? createJwksCache(options.jwksUrl, options.jwksCacheSeconds ?? 600) : null;
+
+  return async (token: string): Promise<JwtClaims | null> => {
+    const jwt = parseJwt(token);
+    if (!jwt) return null;
+    const { header, claims, signingInput, signature } = jwt;
+
+    let signed = false;
+    if (header.alg === "HS256") {
+      signed = !!options.hs256Secret && hs256Matches(signingInput, signature, options.hs256Secret);
+    } else if ((header.alg === "RS256" || header.alg === "ES256") && getJwksKey && typeof header.kid === "string") {
+      const cached = await getJwksKey(header.kid);
+      signed =
+        !!cached &&
+        (cached.alg === null || cached.alg === header.alg) &&
+        publicKeyMatches(header.alg, signingInput, signature, cached.key);
+    }
+
+    return signed && claimsAreValid(claims, options.audience, options.issuer) ? claims : null;
+  };
+}
+
+function toAuthUser(claims: JwtClaims): AuthUser {
+  return { id: claims.sub as string, email: typeof claims.email === "string" ? claims.email : null };
+}
+
+export function createSupabaseAuthProvider(options: JwtVerifierOptions): AuthProvider {
+  const verify = createJwtVerifier(options);
+  return {
+    name: "supabase",
+    async verifyAccessToken(token) {
+      const claims = await verify(token);
+      return claims ? toAuthUser(claims) : null;
+    },
+  };
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const PASSWORD_KEY_LENGTH = 64;
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt:${salt.toString("base64url")}:${hash.toString("base64url")}`;
+}
+
+async function passwordMatches(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt = "", expected = ""] = stored.split(":");
+  if (scheme !== "scrypt") return false;
+  const hash = await scryptAsync(password, Buffer.from(salt, "base64url"), PASSWORD_KEY_LENGTH);
+  const expectedHash = Buffer.from(expected, "base64url");
+  return hash.length === expectedHash.length && timingSafeEqual(hash, expectedHash);
+}
+
+export function createLocalAuthProvider(options: {
+  secret: string;
+  audience: string;
+  tokenTtlHours: number;
+  allowSignup: boolean;
+}): LocalAuthProvider {
+  const verify = createJwtVerifier({ hs256Secret: options.secret, audience: options.audience, issuer: "local" });
+  // Checked when the email is unknown so failed logins take the same time either way.
+  const unknownUserHash = hashPassword(randomBytes(16).toString("hex"));
+
+  const issueSession = (user: { id: string; email: string }): AuthSessionResponse => {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt = issuedAt + Math.round(options.tokenTtlHours * 60 * 60);
+    const accessToken = signHs256Jwt(
+      { sub: user.id, email: user.email, aud: options.audience, iss: "local", iat: issuedAt, exp: expiresAt },
+      options.secret,
+    );
+    return {
+      accessToken,
+      tokenType: "bearer",
+      expiresAt: new Date(expiresAt * 1000),
+      user: { id: user.id, email: user.email },
+    };
+  };
+
+  return {
+    name: "local",
+    allowSignup: options.allowSignup,
+    async verifyAccessToken(token) {
+      const claims = await verify(token);
+      return claims ? toAuthUser(claims) : null;
+    },
+    async register(email, password) {
+      const created = await store.localUsers.create({
+        email: email.toLowerCase(),
+        passwordHash: await hashPassword(password),
+      });
+      return created ? issueSession(created) : null;
+    },
+    async login(email, password) {
+      const user = await store.localUsers.findByEmail(email.toLowerCase());
+      const matches = await passwordMatches(password, user?.passwordHash ?? (await unknownUserHash));
+      return user && matches ? issueSession(user) : null;
+    },
+  };
+}
+
+// Builds the provider named by AUTH_PROVIDER (default supabase). Null when Supabase has
+// neither a JWT secret nor a URL to find its JWKS; every bearer token is then rejected.
+export function authProviderFromEnv(env: NodeJS.ProcessEnv = process.env): AuthProvider | null {
+  const name = env.AUTH_PROVIDER ?? "supabase";
+
+  if (name === "local") {
+    if (!env.LOCAL_AUTH_JWT_SECRET) throw new Error("AUTH_PROVIDER=local needs LOCAL_AUTH_JWT_SECRET");
+    return createLocalAuthProvider({
+      secret: env.LOCAL_AUTH_JWT_SECRET,
+      audience: env.AUTH_JWT_AUDIENCE ?? "authenticated",
+      tokenTtlHours: env.LOCAL_AUTH_TOKEN_TTL_HOURS ? Number(env.LOCAL_AUTH_TOKEN_TTL_HOURS) : 24,
+      allowSignup: env.LOCAL_AUTH_ALLOW_SIGNUP !== "false",
+    });
+  }
+  if (name !== "supabase") throw new Error(`Unknown AUTH_PROVIDER "${name}"; use supabase or local`);
+
+  const supabaseUrl = env.SUPABASE_URL?.replace(/\/+$/, "");
+  const jwksUrl = env.SUPABASE_JWKS_URL ?? (supabaseUrl ? `${supabaseUrl}/auth/v1/.well-known/jwks.json` : undefined);
+  if (!env.SUPABASE_JWT_SECRET && !jwksUrl) return null;
+  return createSupabaseAuthProvider({
+    hs256Secret: env.SUPABASE_JWT_SECRET,
+    jwksUrl,
+    audience: env.AUTH_JWT_AUDIENCE ?? "authenticated",
+    issuer: supabaseUrl ? `${supabaseUrl}/auth/v1` : undefined,
+    jwksCacheSeconds: env.SUPABASE_JWKS_CACHE_SECONDS ? Number(env.SUPABASE_JWKS_CACHE_SECONDS) : 600,
+  });
+}
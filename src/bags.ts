@@ -0,0 +1,248 @@
+import {
+  computeRestingBands,
+  computeRestingStatus,
+  computeRoastAgeDays,
+  resolveRestingProfile,
+  type RestingProfile,
+} from "./resting";
+import type { BagSort } from "./contracts";
+import { bagHistoryEntry, recordHistory, revertedValues } from "./history";
+import {
+  store,
+  type Bag,
+  type BagHistoryEntry,
+  type BagInsert,
+  type BagListQuery,
+  type BagUsageStats,
+} from "./store";
+import { UUID_PATTERN } from "./validation";
+import type {
+  BagComputedFields,
+  BagDetailResponse,
+  BagInventoryFields,
+  BagListItemResponse,
+  BagListResponse,
+  BagRole,
+  ValidationIssue,
+} from "./types/api";
+
+// Bags on top of the store: access by role, computed resting and inventory fields,
+// archiving, and the list page with its cursor.
+
+// A bag with this many brews or fewer left (at its average dose) is flagged as running low.
+const LOW_INVENTORY_BREWS = process.env.LOW_INVENTORY_BREWS ? Number(process.env.LOW_INVENTORY_BREWS) : 3;
+// Archive bags automatically once brews and adjustments use up their recorded weight.
+const AUTO_ARCHIVE_EMPTY_BAGS = process.env.AUTO_ARCHIVE_EMPTY_BAGS !== "false";
+
+export const BAG_ROLE_RANK: Record<BagRole, number> = { VIEWER: 0, BREWER: 1, OWNER: 2 };
+
+export const EMPTY_BAG_USAGE: BagUsageStats = { usedGrams: 0, averageDose: null, adjustmentGrams: 0 };
+
+// Loads a bag the user created or is a member of, with their role on it.
+export async function getBagAccess(bagId: string, userId: string): Promise<{ bag: Bag; role: BagRole } | null> {
+  if (!UUID_PATTERN.test(bagId)) return null;
+  const row = await store.bags.findWithMemberRole(bagId, userId);
+  const role: BagRole | null = row?.bag.userId === userId ? "OWNER" : (row?.memberRole ?? null);
+  return row && role ? { bag: row.bag, role } : null;
+}
+
+// Loads the user's resting profiles once per request; bags are matched against them in memory.
+export async function getRestingProfiles(userId: string): Promise<RestingProfile[]> {
+  return store.restingProfiles.list(userId);
+}
+
+export async function getRestingProfilesByOwner(userIds: string[]): Promise<Map<string, RestingProfile[]>> {
+  const ownerIds = Array.from(new Set(userIds));
+  const rows = ownerIds.length ? await store.restingProfiles.listForOwners(ownerIds) : [];
+  const byOwner = new Map<string, RestingProfile[]>();
+  for (const row of rows) byOwner.set(row.userId, [...(byOwner.get(row.userId) ?? []), row]);
+  return byOwner;
+}
+
+export async function getOwnedRestingProfileById(profileId: string, userId: string) {
+  if (!UUID_PATTERN.test(profileId)) return null;
+  return store.restingProfiles.find(profileId, userId);
+}
+
+// Checks restingProfileId on bag create/edit against the bag owner's resting profiles.
+export async function validateBagRestingProfile(
+  restingProfileId: string | null | undefined,
+  userId: string,
+): Promise<ValidationIssue | null> {
+  if (!restingProfileId || (await getOwnedRestingProfileById(restingProfileId, userId))) return null;
+  return { field: "restingProfileId", message: "must reference your resting profile" };
+}
+
+// Shared computed bag metadata returned by multiple endpoints.
+export function buildBagComputedFields(
+  bag: Pick<Bag, "roastDate" | "roastLevel" | "process" | "restingProfileId">,
+  profiles: RestingProfile[],
+): BagComputedFields {
+  const roastAgeDays = computeRoastAgeDays(bag.roastDate);
+  const { summary, windows } = resolveRestingProfile(bag, profiles);
+  return {
+    roastAgeDays,
+    restingStatus: computeRestingStatus(roastAgeDays, windows),
+    restingProfile: summary,
+    restingBands: computeRestingBands(bag.roastDate, windows),
+  };
+}
+
+// Remaining grams, brews left at the average dose and cost per cup.
+// Without a recorded bag weight there is nothing to count down from, so those stay null.
+export function buildBagInventoryFields(
+  row: Pick<Bag, "initialWeightGrams" | "price">,
+  usage: BagUsageStats,
+): BagInventoryFields {
+  const remainingGrams =
+    row.initialWeightGrams === null
+      ? null
+      : Number(Math.max(0, row.initialWeightGrams - usage.usedGrams + usage.adjustmentGrams).toFixed(1));
+  const brewsRemaining =
+    remainingGrams !== null && usage.averageDose ? Math.floor(remainingGrams / usage.averageDose) : null;
+  const costPerCup =
+    row.price !== null && row.initialWeightGrams && usage.averageDose
+      ? Number(((row.price * usage.averageDose) / row.initialWeightGrams).toFixed(2))
+      : null;
+  const isRunningLow =
+    remainingGrams !== null && (remainingGrams === 0 || (brewsRemaining !== null && brewsRemaining <= LOW_INVENTORY_BREWS));
+  return { usedGrams: usage.usedGrams, remainingGrams, brewsRemaining, costPerCup, isRunningLow };
+}
+
+// Saves changes to a bag and appends them to its history in one transaction. A new
+// roast date re-ages the bag's brews and a new weight can leave the bag empty.
+export async function saveBagChanges(
+  bag: Bag,
+  changes: Partial<BagInsert>,
+  actorId: string,
+  revertOfId: string | null = null,
+): Promise<Bag | null> {
+  const updated = await store.transaction(async (tx) => {
+    const saved = await tx.bags.update(bag.id, { updatedAt: new Date(), ...changes });
+    if (saved) await recordHistory(tx, [bagHistoryEntry(bag, saved, actorId, revertOfId)]);
+    return saved;
+  });
+  if (!updated) return null;
+  if (changes.roastDate !== undefined) await store.brews.refreshDaysOffRoast([bag.id]);
+  if (changes.initialWeightGrams !== undefined) await autoArchiveIfEmpty(updated, actorId);
+  return updated;
+}
+
+// Shared by PATCH /bags/:id/archive and inventory auto-archive.
+export async function archiveBag(bag: Bag, actorId: string) {
+  return saveBagChanges(bag, { status: "ARCHIVED", archivedAt: new Date() }, actorId);
+}
+
+export async function unarchiveBag(bag: Bag, actorId: string) {
+  return saveBagChanges(bag, { status: "ACTIVE", archivedAt: null }, actorId);
+}
+
+// Archives an active bag once it has no coffee left; a no-op when AUTO_ARCHIVE_EMPTY_BAGS=false.
+// The archive is credited to whoever used up the last of it.
+export async function autoArchiveIfEmpty(bag: Bag, actorId: string) {
+  if (!AUTO_ARCHIVE_EMPTY_BAGS || bag.status !== "ACTIVE" || bag.initialWeightGrams === null) return;
+  const inventory = buildBagInventoryFields(bag, await store.bags.usage(bag.id));
+  if (inventory.remainingGrams === 0) await archiveBag(bag, actorId);
+}
+
+// Writes back the bag fields a history entry changed, recorded as a new entry pointing
+// at it. Checking that it can be reverted is up to the caller.
+export async function revertBagChange(bag: Bag, entry: BagHistoryEntry, actorId: string) {
+  const changes: Partial<BagInsert> = revertedValues(entry);
+  if (changes.status !== undefined) changes.archivedAt = changes.status === "ARCHIVED" ? new Date() : null;
+  return saveBagChanges(bag, changes, actorId, entry.id);
+}
+
+// Maps a stored bag to the API detail DTO.
+export function toBagDetailResponse(
+  row: Bag,
+  usage: BagUsageStats,
+  profiles: RestingProfile[],
+  role: BagRole,
+): BagDetailResponse {
+  return {
+    ...row,
+    role,
+    ...buildBagComputedFields(row, profiles),
+    ...buildBagInventoryFields(row, usage),
+  };
+}
+
+// Detail DTO for one bag, loading its usage and its owner's resting profiles.
+export async function getBagDetail(bag: Bag, role: BagRole): Promise<BagDetailResponse> {
+  const [usage, profiles] = await Promise.all([store.bags.usage(bag.id), getRestingProfiles(bag.userId)]);
+  return toBagDetailResponse(bag, usage, profiles, role);
+}
+
+// Maps a stored bag to the API list DTO with brewCount aggregate.
+function toBagListItemResponse(
+  row: Bag,
+  brewCount: number,
+  averageRating: number | null,
+  usage: BagUsageStats,
+  profiles: RestingProfile[],
+  role: BagRole,
+): BagListItemResponse {
+  return {
+    ...row,
+    role,
+    brewCount,
+    averageRating,
+    ...buildBagComputedFields(row, profiles),
+    ...buildBagInventoryFields(row, usage),
+  };
+}
+
+// Sort values as the stores hand them out: timestamps as Postgres or ISO text, ratings
+// and counts as plain numbers. Checked before a cursor ever reaches a store.
+const TIMESTAMP_SORT_VALUE = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d+)?Z?$/;
+const SORT_VALUE_PATTERNS: Record<BagSort, RegExp> = {
+  updated: TIMESTAMP_SORT_VALUE,
+  roastDate: new RegExp(`^-infinity$|${TIMESTAMP_SORT_VALUE.source}`),
+  averageRating: /^-?\d+(\.\d+)?$/,
+  brewCount: /^\d+$/,
+};
+
+// Opaque cursor: the sort it belongs to, last row's sort value (as the store hands it out)
+// + id tiebreaker.
+export function encodeBagCursor(sort: BagSort, sortValue: string, id: string): string {
+  return Buffer.from(JSON.stringify([sort, sortValue, id])).toString("base64url");
+}
+
+// Null unless the cursor came from a page with the same sort.
+export function decodeBagCursor(cursor: string, sort: BagSort): { sortValue: string; id: string } | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as unknown;
+    if (!Array.isArray(decoded) || decoded.length !== 3) return null;
+    const [cursorSort, sortValue, id] = decoded;
+    if (cursorSort !== sort || typeof sortValue !== "string" || !SORT_VALUE_PATTERNS[sort].test(sortValue)) return null;
+    if (typeof id !== "string" || !UUID_PATTERN.test(id)) return null;
+    return { sortValue, id };
+  } catch {
+    return null;
+  }
+}
+
+// One page of the user's bags with brew counts and computed roast metadata.
+export async function listBags(userId: string, query: BagListQuery): Promise<BagListResponse> {
+  const rows = await store.bags.list(userId, query);
+
+  // One extra row tells us whether another page exists.
+  const pageRows = rows.slice(0, query.limit);
+  const lastRow = pageRows[pageRows.length - 1];
+  // Shared bags resolve resting profiles against their owner's profiles.
+  const profilesByOwner = await getRestingProfilesByOwner(pageRows.map((row) => row.bag.userId));
+  return {
+    items: pageRows.map((row) =>
+      toBagListItemResponse(
+        row.bag,
+        row.brewCount,
+        row.averageRating,
+        row.usage,
+        profilesByOwner.get(row.bag.userId) ?? [],
+        row.role,
+      ),
+    ),
+    nextCursor: rows.length > query.limit && lastRow ? encodeBagCursor(query.sort, lastRow.sortValue, lastRow.bag.id) : null,
+  };
+}
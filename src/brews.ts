@@ -0,0 +1,145 @@
+import { randomUUID } from "crypto";
+import { autoArchiveIfEmpty } from "./bags";
+import { publishFeedBrew } from "./feed";
+import { brewHistoryEntry, recordHistory, revertedValues } from "./history";
+import { computeRoastAgeDays } from "./resting";
+import { store, type Bag, type BagHistoryEntry, type Brew, type BrewInsert } from "./store";
+import { UUID_PATTERN } from "./validation";
+import type { BagRole, BrewResponse } from "./types/api";
+
+// Brew logging on top of the store: response mapping, who may change a brew, and
+// the follow-up work every new brew triggers.
+
+// How long a deleted brew can still be restored before it is gone for good.
+const BREW_RESTORE_WINDOW_MINUTES = process.env.BREW_RESTORE_WINDOW_MINUTES
+  ? Number(process.env.BREW_RESTORE_WINDOW_MINUTES)
+  : 30;
+
+// Water-to-coffee ratio, e.g. 16.67 for 18g dose and 300ml water.
+export function computeBrewRatio(dose: number | null, waterAmount: number | null): number | null {
+  if (!dose || waterAmount === null) return null;
+  return Number((waterAmount / dose).toFixed(2));
+}
+
+// Extraction yield estimate (%) from beverage weight, TDS and dose.
+// Needs a refractometer TDS reading; without it there is nothing to estimate from.
+export function computeExtractionYield(
+  dose: number | null,
+  beverageYield: number | null,
+  tds: number | null,
+): number | null {
+  if (!dose || beverageYield === null || tds === null) return null;
+  return Number(((beverageYield * tds) / dose).toFixed(2));
+}
+
+// Maps a stored brew to the API DTO with computed recipe metrics.
+export function toBrewResponse(row: Brew): BrewResponse {
+  return {
+    ...row,
+    brewRatio: computeBrewRatio(row.dose, row.waterAmount),
+    extractionYield: computeExtractionYield(row.dose, row.beverageYield, row.tds),
+  };
+}
+
+// A brew of the bag, including soft-deleted ones.
+export async function getBagBrewById(bagId: string, brewId: string): Promise<Brew | null> {
+  if (!UUID_PATTERN.test(brewId)) return null;
+  return store.brews.find(bagId, brewId);
+}
+
+// Brewers may only edit, delete or restore their own brews; owners may change any brew in the bag.
+export function canChangeBrew(role: BagRole, brew: Pick<Brew, "userId">, userId: string) {
+  return role === "OWNER" || brew.userId === userId;
+}
+
+// Last moment a soft-deleted brew can be restored.
+export function computeRestoreDeadline(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + BREW_RESTORE_WINDOW_MINUTES * 60 * 1000);
+}
+
+// Active brews of a bag, newest first as the bag detail UI shows them.
+export async function listBagBrews(bagId: string): Promise<Brew[]> {
+  return (await store.brews.listForBags([bagId])).reverse();
+}
+
+// Stores an already validated brew with the bean age at brew time, archives the bag if that used it up and announces
+// the brew to feed streams.
+export async function saveNewBrew(bag: Bag, values: Omit<BrewInsert, "id" | "bagId">): Promise<Brew> {
+  const created = await store.transaction(async (tx) => {
+    const brew = await tx.brews.create({
+      ...values,
+      id: randomUUID(),
+      bagId: bag.id,
+      daysOffRoast: computeRoastAgeDays(bag.roastDate),
+    });
+    await recordHistory(tx, [brewHistoryEntry(null, brew, values.userId)]);
+    return brew;
+  });
+  await autoArchiveIfEmpty(bag, values.userId);
+  // Fire and forget: a feed hiccup shouldn't fail the brew write.
+  publishFeedBrew(created.id).catch((error) => console.error("feed publish failed", error));
+  return created;
+}
+
+// Saves changes to a brew and appends them to the bag's history in one transaction.
+// `activeOnly` leaves soft-deleted brews untouched. A new dose can use up the bag.
+export async function saveBrewChanges(
+  bag: Bag,
+  brew: Brew,
+  changes: Partial<BrewInsert>,
+  actorId: string,
+  options: { activeOnly?: boolean; revertOfId?: string } = {},
+): Promise<Brew | null> {
+  const updated = await store.transaction(async (tx) => {
+    const saved = await tx.brews.update(bag.id, brew.id, { updatedAt: new Date(), ...changes }, {
+      activeOnly: options.activeOnly ?? false,
+    });
+    if (saved) await recordHistory(tx, [brewHistoryEntry(brew, saved, actorId, options.revertOfId ?? null)]);
+    return saved;
+  });
+  if (updated && changes.dose !== undefined) await autoArchiveIfEmpty(bag, actorId);
+  return updated;
+}
+
+// Flags the brew as its bag's best and records every flag that moved. Null when it
+// isn't an active brew of the bag; the previous best loses its flag all the same.
+export async function markBestBrew(
+  bagId: string,
+  brewId: string,
+  actorId: string,
+  revertOfId: string | null = null,
+): Promise<Brew | null> {
+  if (!UUID_PATTERN.test(brewId)) return null;
+  return store.transaction(async (tx) => {
+    const flagged = (await tx.brews.listForBags([bagId])).filter((brew) => brew.isBest);
+    const marked = await tx.brews.markBest(bagId, brewId);
+    await recordHistory(tx, [
+      ...flagged
+        .filter((brew) => brew.id !== marked?.id)
+        .map((brew) => brewHistoryEntry(brew, { ...brew, isBest: false }, actorId)),
+      marked
+        ? brewHistoryEntry(
+            flagged.find((brew) => brew.id === marked.id) ?? { ...marked, isBest: false },
+            marked,
+            actorId,
+            revertOfId,
+          )
+        : null,
+    ]);
+    return marked;
+  });
+}
+
+// Writes back the brew fields a history entry changed, recorded as a new entry pointing
+// at it. Flagging a brew best again unflags the current best, as PATCH .../best does.
+// Checking that it can be reverted is up to the caller.
+export async function revertBrewChange(bag: Bag, brew: Brew, entry: BagHistoryEntry, actorId: string) {
+  const { isBest, ...fields }: Partial<BrewInsert> = revertedValues(entry);
+  const changes = isBest === false ? { ...fields, isBest } : fields;
+  let reverted: Brew | null = brew;
+  if (Object.keys(changes).length) {
+    reverted = await saveBrewChanges(bag, brew, changes, actorId, { activeOnly: true, revertOfId: entry.id });
+  }
+  if (!reverted || isBest !== true) return reverted;
+  return markBestBrew(bag.id, brew.id, actorId, entry.id);
+}
@@ -0,0 +1,102 @@
+import type { Coffee, Store } from "./store";
+
+// Roaster and coffee catalogue. Each bag links to a coffee, and its free-text
+// coffeeName/roaster/origin/process columns mirror the catalogue so older readers,
+// filters and analytics keep working off the bag row.
+
+// Bag text fields the catalogue entry is matched on and seeded from.
+export type BagCoffeeFields = {
+  coffeeName: string;
+  roaster: string;
+  origin?: string | null;
+  process?: string | null;
+};
+
+// Finds the user's roaster by name, ignoring case, or adds it.
+export async function findOrCreateRoaster(store: Store, userId: string, name: string) {
+  const existing = await store.catalogue.findRoasterNamed(userId, name);
+  if (existing) return existing;
+  // A concurrent request may add the same name; the store reports that as null.
+  const created =
+    (await store.catalogue.createRoaster({ userId, name: name.trim() })) ??
+    (await store.catalogue.findRoasterNamed(userId, name));
+  if (!created) throw new Error(`Could not create roaster ${name}`);
+  return created;
+}
+
+// Finds a coffee by name under the roaster, or adds it with the given origin details.
+export async function findOrCreateCoffee(
+  store: Store,
+  userId: string,
+  roasterId: string,
+  name: string,
+  details: { country?: string | null; process?: string | null } = {},
+) {
+  const existing = await store.catalogue.findCoffeeNamed(roasterId, name);
+  if (existing) return existing;
+  const created =
+    (await store.catalogue.createCoffee({
+      userId,
+      roasterId,
+      name: name.trim(),
+      country: details.country || null,
+      process: details.process || null,
+    })) ?? (await store.catalogue.findCoffeeNamed(roasterId, name));
+  if (!created) throw new Error(`Could not create coffee ${name}`);
+  return created;
+}
+
+// Catalogue coffee for a bag typed in by name, created on first use.
+export async function resolveBagCoffee(store: Store, userId: string, fields: BagCoffeeFields) {
+  const roaster = await findOrCreateRoaster(store, userId, fields.roaster);
+  return findOrCreateCoffee(store, userId, roaster.id, fields.coffeeName, {
+    country: fields.origin ?? null,
+    process: fields.process ?? null,
+  });
+}
+
+// Folds duplicate coffees into the target: their bags move over and any origin
+// details the target lacks are copied from them. Callers check ownership first.
+export async function mergeCoffees(store: Store, target: Coffee, sources: Coffee[]) {
+  const sourceIds = sources.map((source) => source.id);
+  if (!sourceIds.length) return target;
+  const firstOf = <K extends "country" | "region" | "farm" | "variety" | "altitude" | "process">(key: K) =>
+    target[key] ?? sources.find((source) => source[key] != null)?.[key] ?? null;
+
+  await store.catalogue.relinkBags(sourceIds, target.id);
+  await store.catalogue.deleteCoffees(sourceIds);
+  const merged = await store.catalogue.updateCoffee(target.id, {
+    country: firstOf("country"),
+    region: firstOf("region"),
+    farm: firstOf("farm"),
+    variety: firstOf("variety"),
+    altitude: firstOf("altitude"),
+    process: firstOf("process"),
+    updatedAt: new Date(),
+  });
+  await store.catalogue.syncBags([target.id]);
+  return merged ?? target;
+}
+
+// Folds duplicate roasters into the target. Their coffees move over, and a coffee
+// the target already sells under the same name is merged into that one.
+export async function mergeRoasters(store: Store, targetId: string, sourceIds: string[]) {
+  if (!sourceIds.length) return;
+  const targetCoffees = await store.catalogue.listRoasterCoffees([targetId]);
+  const byName = new Map(targetCoffees.map((coffee) => [coffee.name.toLowerCase(), coffee]));
+  const moved = await store.catalogue.listRoasterCoffees(sourceIds);
+
+  for (const coffee of moved) {
+    const key = coffee.name.toLowerCase();
+    const existing = byName.get(key);
+    if (existing) {
+      byName.set(key, await mergeCoffees(store, existing, [coffee]));
+    } else {
+      await store.catalogue.updateCoffee(coffee.id, { roasterId: targetId, updatedAt: new Date() });
+      byName.set(key, { ...coffee, roasterId: targetId });
+    }
+  }
+
+  await store.catalogue.deleteRoasters(sourceIds);
+  await store.catalogue.syncBags(Array.from(byName.values()).map((coffee) => coffee.id));
+}
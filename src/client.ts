@@ -0,0 +1,295 @@
+import type {
+  CompareBrewsQuery,
+  CreateBagAdjustmentRequest,
+  CreateBagInviteRequest,
+  CreateBagRequest,
+  CreateBrewRequest,
+  CreateCommentRequest,
+  ListBagsQuery,
+  RecordBrewEventRequest,
+  UpdateBagMemberRequest,
+  UpdateBagRequest,
+  UpdateBrewRequest,
+} from "./contracts";
+import type {
+  AnalyticsResponse,
+  BagAdjustmentResponse,
+  BagDetailResponse,
+  BagHistoryEntryResponse,
+  BagInviteAcceptResponse,
+  BagInviteResponse,
+  BagListResponse,
+  BagMemberResponse,
+  BrewComparisonResponse,
+  BrewResponse,
+  BrewSessionResponse,
+  CommentResponse,
+  DeletedBrewResponse,
+  EquipmentAnalyticsResponse,
+  GlobalFeedItemResponse,
+  LikeResponse,
+  PersonalAnalyticsResponse,
+  RecipeAnalyticsResponse,
+  RecommendationResponse,
+  ValidationIssue,
+} from "./types/api";
+
+// Typed client for scripts and tests. Only types are imported, so the compiled module
+// has no runtime dependencies beyond `fetch`.
+
+// A payload as it travels over the wire: timestamps are ISO strings.
+export type Json<T> = T extends Date
+  ? string
+  : T extends Array<infer Item>
+    ? Array<Json<Item>>
+    : T extends object
+      ? { [K in keyof T]: Json<T[K]> }
+      : T;
+
+type NullableKeys<T> = { [K in keyof T]-?: null extends T[K] ? K : never }[keyof T];
+
+type InputValue<T> = T extends Date ? Date | string : T;
+
+// A request body or query: nullable fields may be left out, timestamps may be Dates.
+export type Input<T> = {
+  [K in keyof T as K extends NullableKeys<T> ? never : K]: InputValue<T[K]>;
+} & {
+  [K in NullableKeys<T>]?: InputValue<T[K]>;
+};
+
+// With a recipeId the recipe fills in whatever is left out, method included.
+export type NewBrew = Input<CreateBrewRequest> | (Partial<Input<CreateBrewRequest>> & { recipeId: string });
+
+export type ApiClientOptions = {
+  // e.g. http://localhost:3000
+  baseUrl: string;
+  // Provider access token or personal access token (ct_...). A function is called before
+  // every request, so refreshed tokens are picked up.
+  token?: string | (() => string | null | Promise<string | null>);
+  fetch?: typeof fetch;
+  // Extra attempts for GETs that fail on the network or with 429/502/503/504.
+  retries?: number;
+  // Delay before the first retry; doubled for each one after.
+  retryDelayMs?: number;
+};
+
+export type RequestOptions = {
+  query?: Record<string, unknown>;
+  // Objects are sent as JSON; strings as they are, with the Content-Type from `headers`.
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+};
+
+// Any non-2xx answer. `body` is the parsed JSON body, or null.
+export type ApiError = Error & {
+  name: "ApiError" | "ApiValidationError";
+  method: string;
+  path: string;
+  status: number;
+  body: unknown;
+};
+
+// A 400 answered with field-level issues (ValidationErrorResponse).
+export type ApiValidationError = ApiError & {
+  name: "ApiValidationError";
+  errors: ValidationIssue[];
+};
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof Error && (error.name === "ApiError" || error.name === "ApiValidationError");
+}
+
+export function isValidationError(error: unknown): error is ApiValidationError {
+  return isApiError(error) && error.name === "ApiValidationError";
+}
+
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isValidationIssues(value: unknown): value is ValidationIssue[] {
+  return (
+    Array.isArray(value) &&
+    value.every((issue) => isRecord(issue) && typeof issue.field === "string" && typeof issue.message === "string")
+  );
+}
+
+function toApiError(method: string, path: string, status: number, body: unknown): ApiError {
+  const errors = status === 400 && isRecord(body) && isValidationIssues(body.errors) ? body.errors : null;
+  const message = errors
+    ? `Invalid request: ${errors.map((issue) => `${issue.field} ${issue.message}`).join("; ")}`
+    : isRecord(body) && typeof body.error === "string"
+      ? body.error
+      : `${method} ${path} failed with ${status}`;
+  const fields = { method, path, status, body };
+  return errors
+    ? Object.assign(new Error(message), { ...fields, name: "ApiValidationError" as const, errors })
+    : Object.assign(new Error(message), { ...fields, name: "ApiError" as const });
+}
+
+function queryString(query: Record<string, unknown> = {}) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) continue;
+    params.set(key, value instanceof Date ? value.toISOString() : String(value));
+  }
+  const text = params.toString();
+  return text ? `?${text}` : "";
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  if (response.status === 204) return undefined;
+  const text = await response.text();
+  if (!(response.headers.get("content-type") ?? "").includes("json")) return text;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export function createApiClient(options: ApiClientOptions) {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const fetchImpl = options.fetch ?? fetch;
+  const retries = options.retries ?? 2;
+  const retryDelayMs = options.retryDelayMs ?? 250;
+
+  const authorization = async () => {
+    const token = typeof options.token === "function" ? await options.token() : options.token;
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  };
+
+  // Sends one request and resolves with the parsed body (undefined for 204s), or rejects
+  // with an ApiError. Only GETs are retried: they are the calls safe to repeat.
+  async function request<T = unknown>(method: string, path: string, init: RequestOptions = {}): Promise<T> {
+    const isJson = init.body !== undefined && typeof init.body !== "string";
+    const headers = {
+      ...(isJson ? { "Content-Type": "application/json" } : {}),
+      ...init.headers,
+      ...(await authorization()),
+    };
+    const body = init.body === undefined ? undefined : isJson ? JSON.stringify(init.body) : String(init.body);
+    const url = `${baseUrl}${path}${queryString(init.query)}`;
+    const attempts = method === "GET" ? retries + 1 : 1;
+
+    for (let attempt = 1; ; attempt += 1) {
+      let response: Response;
+      try {
+        response = await fetchImpl(url, {
+          method,
+          headers,
+          ...(body === undefined ? {} : { body }),
+          ...(init.signal ? { signal: init.signal } : {}),
+        });
+      } catch (error) {
+        if (attempt >= attempts || init.signal?.aborted) throw error;
+        await sleep(retryDelayMs * 2 ** (attempt - 1));
+        continue;
+      }
+
+      if (RETRYABLE_STATUSES.includes(response.status) && attempt < attempts) {
+        await response.body?.cancel();
+        await sleep(retryDelayMs * 2 ** (attempt - 1));
+        continue;
+      }
+
+      const data = await readBody(response);
+      if (!response.ok) throw toApiError(method, path, response.status, data);
+      return data as T;
+    }
+  }
+
+  const get = <T>(path: string, query?: Record<string, unknown>) =>
+    request<Json<T>>("GET", path, query ? { query } : {});
+  const send = <T>(method: string, path: string, body?: unknown) =>
+    request<Json<T>>(method, path, body === undefined ? {} : { body });
+  const id = encodeURIComponent;
+
+  const bags = {
+    list: (query: Input<ListBagsQuery> = {}) => get<BagListResponse>("/bags", query),
+    get: (bagId: string) => get<BagDetailResponse>(`/bags/${id(bagId)}`),
+    create: (bag: Input<CreateBagRequest>) => send<BagDetailResponse>("POST", "/bags", bag),
+    update: (bagId: string, changes: Input<UpdateBagRequest>) =>
+      send<BagDetailResponse>("PATCH", `/bags/${id(bagId)}`, changes),
+    archive: (bagId: string) => send<BagDetailResponse>("PATCH", `/bags/${id(bagId)}/archive`),
+    unarchive: (bagId: string) => send<BagDetailResponse>("PATCH", `/bags/${id(bagId)}/unarchive`),
+    adjustments: (bagId: string) => get<BagAdjustmentResponse[]>(`/bags/${id(bagId)}/adjustments`),
+    adjust: (bagId: string, adjustment: Input<CreateBagAdjustmentRequest>) =>
+      send<BagAdjustmentResponse>("POST", `/bags/${id(bagId)}/adjustments`, adjustment),
+    history: (bagId: string) => get<BagHistoryEntryResponse[]>(`/bags/${id(bagId)}/history`),
+    revert: (bagId: string, entryId: string) =>
+      send<BagHistoryEntryResponse[]>("POST", `/bags/${id(bagId)}/history/${id(entryId)}/revert`),
+    members: (bagId: string) => get<BagMemberResponse[]>(`/bags/${id(bagId)}/members`),
+    updateMember: (bagId: string, userId: string, changes: Input<UpdateBagMemberRequest>) =>
+      send<BagMemberResponse>("PATCH", `/bags/${id(bagId)}/members/${id(userId)}`, changes),
+    removeMember: (bagId: string, userId: string) =>
+      send<void>("DELETE", `/bags/${id(bagId)}/members/${id(userId)}`),
+    invites: (bagId: string) => get<BagInviteResponse[]>(`/bags/${id(bagId)}/invites`),
+    createInvite: (bagId: string, invite: Input<CreateBagInviteRequest> = {}) =>
+      send<BagInviteResponse>("POST", `/bags/${id(bagId)}/invites`, invite),
+    revokeInvite: (bagId: string, inviteId: string) =>
+      send<void>("DELETE", `/bags/${id(bagId)}/invites/${id(inviteId)}`),
+    acceptInvite: (token: string) => send<BagInviteAcceptResponse>("POST", `/invites/${id(token)}/accept`),
+  };
+
+  const sessionPath = (bagId: string, sessionId: string) => `/bags/${id(bagId)}/brew-sessions/${id(sessionId)}`;
+
+  const brews = {
+    list: (bagId: string) => get<BrewResponse[]>(`/bags/${id(bagId)}/brews`),
+    create: (bagId: string, brew: NewBrew) => send<BrewResponse>("POST", `/bags/${id(bagId)}/brews`, brew),
+    update: (bagId: string, brewId: string, changes: Input<UpdateBrewRequest>) =>
+      send<BrewResponse>("PATCH", `/bags/${id(bagId)}/brews/${id(brewId)}`, changes),
+    markBest: (bagId: string, brewId: string) =>
+      send<BrewResponse>("PATCH", `/bags/${id(bagId)}/brews/${id(brewId)}/best`),
+    delete: (bagId: string, brewId: string) =>
+      send<DeletedBrewResponse>("DELETE", `/bags/${id(bagId)}/brews/${id(brewId)}`),
+    restore: (bagId: string, brewId: string) =>
+      send<BrewResponse>("PATCH", `/bags/${id(bagId)}/brews/${id(brewId)}/restore`),
+    // The first id is the baseline.
+    compare: (bagId: string, brewIds: string[]) =>
+      get<BrewComparisonResponse>(`/bags/${id(bagId)}/brews/compare`, {
+        ids: brewIds.join(","),
+      } satisfies CompareBrewsQuery),
+    sessions: {
+      start: (bagId: string) => send<BrewSessionResponse>("POST", `/bags/${id(bagId)}/brew-sessions`),
+      list: (bagId: string) => get<BrewSessionResponse[]>(`/bags/${id(bagId)}/brew-sessions`),
+      get: (bagId: string, sessionId: string) => get<BrewSessionResponse>(sessionPath(bagId, sessionId)),
+      record: (bagId: string, sessionId: string, event: Input<RecordBrewEventRequest>) =>
+        send<BrewSessionResponse>("POST", `${sessionPath(bagId, sessionId)}/events`, event),
+      undo: (bagId: string, sessionId: string, eventId: string) =>
+        send<BrewSessionResponse>("DELETE", `${sessionPath(bagId, sessionId)}/events/${id(eventId)}`),
+      finish: (bagId: string, sessionId: string, brew: Input<CreateBrewRequest>) =>
+        send<BrewResponse>("POST", `${sessionPath(bagId, sessionId)}/finish`, brew),
+      cancel: (bagId: string, sessionId: string) => send<void>("DELETE", sessionPath(bagId, sessionId)),
+    },
+  };
+
+  const analytics = {
+    bag: (bagId: string) => get<AnalyticsResponse>(`/bags/${id(bagId)}/analytics`),
+    recommendation: (bagId: string) => get<RecommendationResponse>(`/bags/${id(bagId)}/recommendation`),
+    me: () => get<PersonalAnalyticsResponse>("/analytics/me"),
+    equipment: (equipmentId: string) => get<EquipmentAnalyticsResponse>(`/equipment/${id(equipmentId)}/analytics`),
+    recipe: (recipeId: string) => get<RecipeAnalyticsResponse>(`/recipes/${id(recipeId)}/analytics`),
+  };
+
+  const feed = {
+    brews: (query: { limit?: number } = {}) => get<GlobalFeedItemResponse[]>("/feed/brews", query),
+    following: (query: { limit?: number } = {}) => get<GlobalFeedItemResponse[]>("/feed/following", query),
+    like: (brewId: string) => send<LikeResponse>("POST", `/feed/brews/${id(brewId)}/like`),
+    unlike: (brewId: string) => send<LikeResponse>("DELETE", `/feed/brews/${id(brewId)}/like`),
+    comments: (brewId: string) => get<CommentResponse[]>(`/feed/brews/${id(brewId)}/comments`),
+    comment: (brewId: string, comment: Input<CreateCommentRequest>) =>
+      send<CommentResponse>("POST", `/feed/brews/${id(brewId)}/comments`, comment),
+    deleteComment: (brewId: string, commentId: string) =>
+      send<void>("DELETE", `/feed/brews/${id(brewId)}/comments/${id(commentId)}`),
+  };
+
+  return { request, bags, brews, analytics, feed };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,80 @@
+import type {
+  BrewComparisonField,
+  BrewComparisonResponse,
+  BrewComparisonRow,
+  BrewParameterChange,
+  BrewResponse,
+  TasteProfile,
+} from "./types/api";
+
+// A brew with the bag context the comparison needs.
+export type ComparisonInput = {
+  brew: BrewResponse;
+  coffeeName: string;
+  roaster: string;
+  daysOffRoast: number | null;
+  tasteProfile: TasteProfile;
+};
+
+// Rows in display order: setup first, then recipe numbers, then the outcome.
+const COMPARISON_FIELDS: BrewComparisonField[] = [
+  "method",
+  "brewer",
+  "grinder",
+  "dose",
+  "grindSetting",
+  "waterAmount",
+  "brewRatio",
+  "waterTemperature",
+  "brewTimeSeconds",
+  "bloomTimeSeconds",
+  "bloomWater",
+  "beverageYield",
+  "tds",
+  "extractionYield",
+  "daysOffRoast",
+  "rating",
+];
+
+function fieldValue(input: ComparisonInput, field: BrewComparisonField): number | string | null {
+  return field === "daysOffRoast" ? input.daysOffRoast : input.brew[field];
+}
+
+function deltaOf(from: number | string | null, to: number | string | null): number | null {
+  if (typeof from !== "number" || typeof to !== "number") return null;
+  return Number((to - from).toFixed(2));
+}
+
+// Lines the brews up parameter by parameter and diffs each one against the first brew.
+export function buildBrewComparison(inputs: ComparisonInput[]): BrewComparisonResponse {
+  const baseline = inputs[0];
+  if (!baseline) throw new Error("buildBrewComparison needs at least one brew");
+
+  const parameters: BrewComparisonRow[] = COMPARISON_FIELDS.map((field) => {
+    const values = inputs.map((input) => fieldValue(input, field));
+    return { field, values, changed: values.some((value) => value !== values[0]) };
+  });
+
+  return {
+    baselineBrewId: baseline.brew.id,
+    parameters,
+    brews: inputs.map((input) => {
+      const changes: BrewParameterChange[] = [];
+      for (const field of COMPARISON_FIELDS) {
+        if (field === "rating") continue;
+        const from = fieldValue(baseline, field);
+        const to = fieldValue(input, field);
+        if (from !== to) changes.push({ field, from, to, delta: deltaOf(from, to) });
+      }
+      return {
+        brew: input.brew,
+        coffeeName: input.coffeeName,
+        roaster: input.roaster,
+        daysOffRoast: input.daysOffRoast,
+        tasteProfile: input.tasteProfile,
+        ratingDelta: deltaOf(baseline.brew.rating, input.brew.rating),
+        changes,
+      };
+    }),
+  };
+}
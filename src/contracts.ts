@@ -0,0 +1,1149 @@
+import { isFlavourTag } from "./flavours";
+import { s, type Infer, type ObjectSchema, type Schema, type Shape } from "./validation";
+import {
+  AnalyticsResponse,
+  ApiTokenResponse,
+  ApiTokenScope,
+  AuthSessionResponse,
+  BagAdjustmentResponse,
+  BagDetailResponse,
+  BagHistoryEntryResponse,
+  BagInviteAcceptResponse,
+  BagInviteResponse,
+  BagListResponse,
+  BagMemberResponse,
+  BagRole,
+  BagStatus,
+  BrewComparisonResponse,
+  BrewEventType,
+  BrewResponse,
+  BrewSessionResponse,
+  CoffeeDetailResponse,
+  CoffeeResponse,
+  CommentResponse,
+  CreatedApiTokenResponse,
+  DeletedBrewResponse,
+  EquipmentAnalyticsResponse,
+  EquipmentResponse,
+  EquipmentType,
+  ErrorResponse,
+  FlavourWheelNode,
+  FollowListResponse,
+  GlobalFeedItemResponse,
+  HealthResponse,
+  ImportResponse,
+  JournalExport,
+  LikeResponse,
+  NotificationListResponse,
+  PersonalAnalyticsResponse,
+  ProfileResponse,
+  PublicProfileResponse,
+  RecipeAnalyticsResponse,
+  RecipeResponse,
+  RecommendationResponse,
+  RestingProfileResponse,
+  RoasterDetailResponse,
+  RoasterResponse,
+  RoastLevel,
+  SensoryAttributeResponse,
+  ValidationErrorResponse,
+  Visibility,
+} from "./types/api";
+
+// Request schemas and the route table. Handlers parse bodies and queries with these
+// schemas, the OpenAPI document is built from ROUTES, and in tests every JSON response
+// is checked against the schema declared for its status.
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const CredentialsRequest = s.object(
+  {
+    email: s.string({ trim: true, pattern: EMAIL_PATTERN, message: "must be an email address", patternMessage: "must be an email address", format: "email" }),
+    password: s.string({ minLength: 8, maxLength: 200, message: "must be at least 8 characters" }),
+  },
+  { name: "CredentialsRequest" },
+);
+export type CredentialsRequest = Infer<typeof CredentialsRequest>;
+
+// Bags. coffeeName and roaster may be left out when coffeeId picks a catalogue coffee.
+export const CreateBagRequest = s.object(
+  {
+    coffeeId: s.nullable(s.uuid({ message: "coffee not found" })),
+    coffeeName: s.optional(s.string({ trim: true })),
+    roaster: s.optional(s.string({ trim: true })),
+    origin: s.nullable(s.string()),
+    process: s.nullable(s.string()),
+    roastDate: s.timestamp(),
+    notes: s.nullable(s.string()),
+    initialWeightGrams: s.nullable(s.integer({ min: 1, max: 10000 })),
+    price: s.nullable(s.number({ min: 0, max: 100000 })),
+    visibility: s.nullable(Visibility),
+    roastLevel: s.nullable(RoastLevel),
+    restingProfileId: s.nullable(s.uuid({ message: "must reference your resting profile" })),
+  },
+  { name: "CreateBagRequest" },
+);
+export type CreateBagRequest = Infer<typeof CreateBagRequest>;
+
+// Only the fields sent are changed; names can't be blanked.
+export const UpdateBagRequest = s.partial(
+  s.extend(CreateBagRequest, {
+    coffeeName: s.string({ trim: true, nonEmpty: true }),
+    roaster: s.string({ trim: true, nonEmpty: true }),
+    visibility: Visibility,
+  }),
+  { name: "UpdateBagRequest" },
+);
+export type UpdateBagRequest = Infer<typeof UpdateBagRequest>;
+
+// Sort keys for GET /bags.
+export const BagSort = s.enumOf(["updated", "roastDate", "averageRating", "brewCount"]);
+export type BagSort = Infer<typeof BagSort>;
+
+export const ListBagsQuery = s.object({
+  status: s.optional(BagStatus),
+  q: s.optional(s.string({ description: "Prefix search over coffee name and notes" })),
+  roaster: s.optional(s.string()),
+  origin: s.optional(s.string()),
+  process: s.optional(s.string()),
+  roastDateFrom: s.nullable(s.timestamp()),
+  roastDateTo: s.nullable(s.timestamp()),
+  minRating: s.nullable(s.number({ min: 0, max: 5 })),
+  sort: s.optional(BagSort),
+  order: s.optional(s.enumOf(["asc", "desc"], { message: "must be asc or desc" })),
+  limit: s.nullable(s.integer({ min: 1, max: 100, message: "must be an integer between 1 and 100" })),
+  cursor: s.nullable(s.string({ description: "nextCursor from the previous page" })),
+});
+export type ListBagsQuery = Infer<typeof ListBagsQuery>;
+
+export const CreateBagAdjustmentRequest = s.object(
+  {
+    grams: s.nullable(s.number({ min: -10000, max: 10000, description: "Negative when coffee left the bag" })),
+    reason: s.nullable(s.string()),
+  },
+  { name: "CreateBagAdjustmentRequest" },
+);
+export type CreateBagAdjustmentRequest = Infer<typeof CreateBagAdjustmentRequest>;
+
+export const UpdateBagMemberRequest = s.object({ role: BagRole }, { name: "UpdateBagMemberRequest" });
+export type UpdateBagMemberRequest = Infer<typeof UpdateBagMemberRequest>;
+
+export const CreateBagInviteRequest = s.object(
+  {
+    role: s.nullable(BagRole),
+    expiresInHours: s.nullable(s.integer({ min: 1, max: 24 * 90 })),
+  },
+  { name: "CreateBagInviteRequest" },
+);
+export type CreateBagInviteRequest = Infer<typeof CreateBagInviteRequest>;
+
+// Brews. Scores are checked against the brewing user's sensory attributes by the handler.
+const BrewFields = s.object({
+  method: s.string({ trim: true, nonEmpty: true }),
+  brewer: s.nullable(s.string()),
+  grinder: s.nullable(s.string()),
+  brewerId: s.nullable(s.uuid({ message: "must reference your equipment" })),
+  grinderId: s.nullable(s.uuid({ message: "must reference your equipment" })),
+  dose: s.nullable(s.integer({ min: 0, max: 1000 })),
+  grindSetting: s.nullable(s.integer({ min: 0, max: 1000 })),
+  waterAmount: s.nullable(s.integer({ min: 0, max: 5000 })),
+  waterTemperature: s.nullable(s.number({ min: 0, max: 100 })),
+  brewTimeSeconds: s.nullable(s.integer({ min: 0, max: 3600 })),
+  bloomTimeSeconds: s.nullable(s.integer({ min: 0, max: 600 })),
+  bloomWater: s.nullable(s.integer({ min: 0, max: 5000 })),
+  beverageYield: s.nullable(s.number({ min: 0, max: 5000 })),
+  tds: s.nullable(s.number({ min: 0, max: 30 })),
+  rating: s.nullable(s.number({ min: 0, max: 5 })),
+  sensory: s.nullable(s.record(s.integer(), { message: "must be an object of scores by attribute key" })),
+  flavourTags: s.nullable(
+    s.array(
+      s.refine(s.string(), (tag) => (isFlavourTag(tag) ? null : "is not a flavour wheel tag")),
+      {
+        message: "must be an array of flavour wheel tags",
+        itemsMessage: (unknown) => `has unknown flavour wheel tags: ${unknown.join(", ")}`,
+      },
+    ),
+  ),
+  flavourNotes: s.nullable(s.string()),
+  // Empty means the brew follows its bag.
+  visibility: s.nullable(Visibility),
+});
+
+// recipeId prefills the brew from a saved recipe; fields sent explicitly win.
+export const CreateBrewRequest = s.extend(
+  BrewFields,
+  { recipeId: s.nullable(s.uuid({ message: "must reference your recipe" })) },
+  { name: "CreateBrewRequest" },
+);
+export type CreateBrewRequest = Infer<typeof CreateBrewRequest>;
+
+export const UpdateBrewRequest = s.partial(BrewFields, { name: "UpdateBrewRequest" });
+export type UpdateBrewRequest = Infer<typeof UpdateBrewRequest>;
+
+export const CompareBrewsQuery = s.object({
+  ids: s.string({ description: "2 to 10 brew ids, comma-separated; the first is the baseline" }),
+});
+export type CompareBrewsQuery = Infer<typeof CompareBrewsQuery>;
+
+// elapsedSeconds defaults to the time since the session started.
+export const RecordBrewEventRequest = s.object(
+  {
+    type: BrewEventType,
+    grams: s.nullable(s.integer({ min: 1, max: 5000 })),
+    elapsedSeconds: s.nullable(s.number({ min: 0, max: 3600 })),
+  },
+  { name: "RecordBrewEventRequest" },
+);
+export type RecordBrewEventRequest = Infer<typeof RecordBrewEventRequest>;
+
+// Journal import rows. Brew rows also go through the brew field rules.
+export const ImportedBagRecord = s.object({
+  id: s.nullable(s.uuid()),
+  coffeeName: s.string({ nonEmpty: true, trim: true }),
+  roaster: s.string({ nonEmpty: true, trim: true }),
+  origin: s.nullable(s.string()),
+  process: s.nullable(s.string()),
+  notes: s.nullable(s.string()),
+  roastDate: s.timestamp(),
+  roastLevel: s.nullable(RoastLevel),
+  initialWeightGrams: s.nullable(s.integer({ min: 1, max: 10000 })),
+  price: s.nullable(s.number({ min: 0, max: 100000 })),
+  visibility: s.nullable(Visibility),
+  status: s.nullable(BagStatus),
+  archivedAt: s.nullable(s.timestamp()),
+  createdAt: s.nullable(s.timestamp()),
+  updatedAt: s.nullable(s.timestamp()),
+});
+
+export const ImportedBrewRecord = s.object({
+  id: s.nullable(s.uuid()),
+  bagId: s.uuid(),
+  isBest: s.nullable(s.boolean()),
+  createdAt: s.nullable(s.timestamp()),
+});
+
+// Rows are checked one by one, so the body only has to hold the two arrays.
+export const ImportJournalRequest = s.object(
+  {
+    bags: s.array(s.unknown({ description: "A bag row as exported" })),
+    brews: s.array(s.unknown({ description: "A brew row as exported" })),
+  },
+  { name: "ImportJournalRequest" },
+);
+export type ImportJournalRequest = Infer<typeof ImportJournalRequest>;
+
+export const ImportQuery = s.object({ dryRun: s.nullable(s.boolean()) });
+
+export const ExportQuery = s.object({
+  format: s.nullable(s.enumOf(["csv", "json"], { message: "must be csv or json" })),
+});
+
+// Feeds and social.
+export const FeedQuery = s.object({
+  limit: s.nullable(s.integer({ min: 1, max: 200, message: "must be an integer between 1 and 200" })),
+});
+
+export const NotificationsQuery = s.extend(FeedQuery, { unread: s.nullable(s.boolean()) });
+
+export const UpdateProfileRequest = s.partial(
+  s.object({
+    displayName: s.nullable(s.string({ trim: true, maxLength: 50 })),
+    bio: s.nullable(s.string({ trim: true, maxLength: 500 })),
+    avatarUrl: s.nullable(
+      s.string({ trim: true, maxLength: 500, pattern: /^(https?:\/\/\S+)?$/i, patternMessage: "must be an http(s) URL", format: "uri" }),
+    ),
+    defaultVisibility: s.nullable(Visibility),
+  }),
+  { name: "UpdateProfileRequest" },
+);
+export type UpdateProfileRequest = Infer<typeof UpdateProfileRequest>;
+
+export const CreateCommentRequest = s.object(
+  {
+    body: s.string({ trim: true, nonEmpty: true, maxLength: 1000 }),
+    parentId: s.nullable(s.uuid({ message: "must reference a comment on this brew" })),
+  },
+  { name: "CreateCommentRequest" },
+);
+export type CreateCommentRequest = Infer<typeof CreateCommentRequest>;
+
+// Without ids every notification is marked read.
+export const MarkNotificationsReadRequest = s.object(
+  { ids: s.optional(s.array(s.uuid(), { message: "must be an array of notification ids" })) },
+  { name: "MarkNotificationsReadRequest" },
+);
+export type MarkNotificationsReadRequest = Infer<typeof MarkNotificationsReadRequest>;
+
+// Omitted or null expiresInDays means the token never expires.
+export const CreateApiTokenRequest = s.object(
+  {
+    name: s.string({ trim: true, nonEmpty: true, maxLength: 100 }),
+    scopes: s.array(ApiTokenScope, {
+      minItems: 1,
+      message: "must be a non-empty array",
+      itemsMessage: () => `must only contain ${ApiTokenScope.values.join(", ")}`,
+    }),
+    expiresInDays: s.nullable(s.integer({ min: 1, max: 3650 })),
+  },
+  { name: "CreateApiTokenRequest" },
+);
+export type CreateApiTokenRequest = Infer<typeof CreateApiTokenRequest>;
+
+// Catalogue.
+export const AutocompleteQuery = s.object({
+  q: s.optional(s.string({ trim: true })),
+  limit: s.nullable(s.integer({ min: 1, max: 50 })),
+});
+
+export const CoffeesQuery = s.extend(AutocompleteQuery, {
+  roasterId: s.optional(s.uuid({ message: "must be a roaster id" })),
+});
+
+export const CreateRoasterRequest = s.object(
+  {
+    name: s.string({ trim: true, nonEmpty: true }),
+    website: s.nullable(s.string({ trim: true })),
+  },
+  { name: "CreateRoasterRequest" },
+);
+export type CreateRoasterRequest = Infer<typeof CreateRoasterRequest>;
+
+export const UpdateRoasterRequest = s.partial(CreateRoasterRequest, { name: "UpdateRoasterRequest" });
+export type UpdateRoasterRequest = Infer<typeof UpdateRoasterRequest>;
+
+// The roaster is given as roasterId or by name, which adds it on first use.
+export const CreateCoffeeRequest = s.object(
+  {
+    name: s.string({ trim: true, nonEmpty: true }),
+    country: s.nullable(s.string({ trim: true })),
+    region: s.nullable(s.string({ trim: true })),
+    farm: s.nullable(s.string({ trim: true })),
+    variety: s.nullable(s.string({ trim: true })),
+    altitude: s.nullable(s.integer({ min: 0, max: 6000 })),
+    process: s.nullable(s.string({ trim: true })),
+    roasterId: s.optional(s.uuid({ message: "must be a roaster id" })),
+    roaster: s.optional(s.string({ trim: true, nonEmpty: true, message: "must be a roaster name" })),
+  },
+  { name: "CreateCoffeeRequest" },
+);
+export type CreateCoffeeRequest = Infer<typeof CreateCoffeeRequest>;
+
+export const UpdateCoffeeRequest = s.partial(CreateCoffeeRequest, { name: "UpdateCoffeeRequest" });
+export type UpdateCoffeeRequest = Infer<typeof UpdateCoffeeRequest>;
+
+export const MergeCatalogueRequest = s.object(
+  {
+    sourceIds: s.array(s.uuid(), {
+      minItems: 1,
+      message: "must list other catalogue ids to merge into this one",
+    }),
+  },
+  { name: "MergeCatalogueRequest" },
+);
+export type MergeCatalogueRequest = Infer<typeof MergeCatalogueRequest>;
+
+export const EquipmentQuery = s.object({ type: s.optional(EquipmentType) });
+
+export const CreateEquipmentRequest = s.object(
+  {
+    type: EquipmentType,
+    model: s.string({ trim: true, nonEmpty: true }),
+    brand: s.nullable(s.string({ trim: true })),
+    notes: s.nullable(s.string({ trim: true })),
+    grindSettingUnit: s.nullable(s.string({ trim: true })),
+    grindSettingMin: s.nullable(s.integer({ min: 0, max: 1000 })),
+    grindSettingMax: s.nullable(s.integer({ min: 0, max: 1000 })),
+  },
+  { name: "CreateEquipmentRequest" },
+);
+export type CreateEquipmentRequest = Infer<typeof CreateEquipmentRequest>;
+
+export const UpdateEquipmentRequest = s.partial(CreateEquipmentRequest, { name: "UpdateEquipmentRequest" });
+export type UpdateEquipmentRequest = Infer<typeof UpdateEquipmentRequest>;
+
+// Brew fields a recipe stores; the same keys are accepted by POST /bags/:id/brews.
+export const RECIPE_BREW_FIELDS = [
+  "method",
+  "brewer",
+  "grinder",
+  "brewerId",
+  "grinderId",
+  "dose",
+  "grindSetting",
+  "waterAmount",
+  "waterTemperature",
+  "brewTimeSeconds",
+  "bloomTimeSeconds",
+  "bloomWater",
+] as const;
+
+export const CreateRecipeRequest = s.object(
+  {
+    name: s.string({ trim: true, nonEmpty: true }),
+    ...s.pick(BrewFields, RECIPE_BREW_FIELDS).shape,
+    notes: s.nullable(s.string()),
+  },
+  { name: "CreateRecipeRequest" },
+);
+export type CreateRecipeRequest = Infer<typeof CreateRecipeRequest>;
+
+export const UpdateRecipeRequest = s.partial(CreateRecipeRequest, { name: "UpdateRecipeRequest" });
+export type UpdateRecipeRequest = Infer<typeof UpdateRecipeRequest>;
+
+// Defaults to "<coffee> - <method>".
+export const CreateRecipeFromBrewRequest = s.object(
+  { name: s.nullable(s.string({ trim: true, nonEmpty: true, message: "must be a non-empty string" })) },
+  { name: "CreateRecipeFromBrewRequest" },
+);
+export type CreateRecipeFromBrewRequest = Infer<typeof CreateRecipeFromBrewRequest>;
+
+const RESTING_DAY = s.integer({ min: 0, max: 365 });
+
+export const CreateRestingProfileRequest = s.object(
+  {
+    name: s.string({ trim: true, nonEmpty: true }),
+    roastLevel: s.nullable(RoastLevel),
+    process: s.nullable(s.string({ trim: true })),
+    restDays: RESTING_DAY,
+    peakStartDay: s.nullable(RESTING_DAY),
+    peakEndDay: s.nullable(RESTING_DAY),
+    pastPeakAfterDays: RESTING_DAY,
+  },
+  { name: "CreateRestingProfileRequest" },
+);
+export type CreateRestingProfileRequest = Infer<typeof CreateRestingProfileRequest>;
+
+export const UpdateRestingProfileRequest = s.partial(CreateRestingProfileRequest, {
+  name: "UpdateRestingProfileRequest",
+});
+export type UpdateRestingProfileRequest = Infer<typeof UpdateRestingProfileRequest>;
+
+export const SENSORY_KEY_PATTERN = /^[a-z][a-z0-9-]{0,39}$/;
+export const SENSORY_KEY_MESSAGE = "must be lowercase letters, digits and dashes, starting with a letter";
+
+// The key defaults to the slugged label.
+export const CreateSensoryAttributeRequest = s.object(
+  {
+    label: s.string({ trim: true, nonEmpty: true }),
+    key: s.nullable(s.string({ pattern: SENSORY_KEY_PATTERN, patternMessage: SENSORY_KEY_MESSAGE })),
+    min: s.nullable(s.integer({ min: 0, max: 100 })),
+    max: s.nullable(s.integer({ min: 1, max: 100 })),
+  },
+  { name: "CreateSensoryAttributeRequest" },
+);
+export type CreateSensoryAttributeRequest = Infer<typeof CreateSensoryAttributeRequest>;
+
+// Route table.
+
+// A JSON schema, or the media types of a body that isn't plain JSON (null = not described).
+export type Content = Schema<unknown> | { content: Record<string, Schema<unknown> | null> };
+
+export type RouteContract = {
+  method: "get" | "post" | "patch" | "delete";
+  // Express-style path, e.g. /bags/:id.
+  path: string;
+  summary: string;
+  tag: string;
+  // Reachable without a token.
+  public?: boolean;
+  query?: ObjectSchema<Shape>;
+  body?: Content;
+  // Response by status; null for responses without a body.
+  responses: Record<number, Content | null>;
+};
+
+const list = <T>(item: Schema<T>) => s.array(item);
+const errors = (...statuses: number[]) => Object.fromEntries(statuses.map((status) => [status, ErrorResponse]));
+const invalid = { 400: ValidationErrorResponse };
+
+// Errors every route can answer with.
+export const COMMON_ERROR_STATUSES = [500];
+// Added to routes that need a token: missing or bad token, token without the scope,
+// auth provider down.
+export const AUTH_ERROR_STATUSES = [401, 403, 503];
+
+export const ROUTES: RouteContract[] = [
+  // Meta
+  { method: "get", path: "/health", tag: "Meta", public: true, summary: "Health check", responses: { 200: HealthResponse } },
+  {
+    method: "get",
+    path: "/app/config.js",
+    tag: "Meta",
+    public: true,
+    summary: "Frontend auth settings as a script",
+    responses: { 200: { content: { "application/javascript": null } } },
+  },
+  {
+    method: "get",
+    path: "/openapi.json",
+    tag: "Meta",
+    public: true,
+    summary: "This OpenAPI document",
+    responses: { 200: s.unknown() },
+  },
+  {
+    method: "get",
+    path: "/docs",
+    tag: "Meta",
+    public: true,
+    summary: "Browsable API docs (redirects to the docs page)",
+    responses: { 302: null },
+  },
+
+  // Auth
+  {
+    method: "post",
+    path: "/auth/register",
+    tag: "Auth",
+    public: true,
+    summary: "Create a local account and sign in",
+    body: CredentialsRequest,
+    responses: { 201: AuthSessionResponse, ...invalid, ...errors(403, 404) },
+  },
+  {
+    method: "post",
+    path: "/auth/login",
+    tag: "Auth",
+    public: true,
+    summary: "Sign in to a local account",
+    body: CredentialsRequest,
+    responses: { 200: AuthSessionResponse, ...errors(401, 404) },
+  },
+
+  // Bags
+  {
+    method: "post",
+    path: "/bags",
+    tag: "Bags",
+    summary: "Add a bag",
+    body: CreateBagRequest,
+    responses: { 201: BagDetailResponse, ...invalid },
+  },
+  {
+    method: "get",
+    path: "/bags",
+    tag: "Bags",
+    summary: "List bags, one page at a time",
+    query: ListBagsQuery,
+    responses: { 200: BagListResponse, ...invalid },
+  },
+  { method: "get", path: "/bags/:id", tag: "Bags", summary: "Get a bag", responses: { 200: BagDetailResponse, ...errors(404) } },
+  {
+    method: "patch",
+    path: "/bags/:id/archive",
+    tag: "Bags",
+    summary: "Archive a bag",
+    responses: { 200: BagDetailResponse, ...errors(403, 404) },
+  },
+  {
+    method: "patch",
+    path: "/bags/:id/unarchive",
+    tag: "Bags",
+    summary: "Move a bag back to active inventory",
+    responses: { 200: BagDetailResponse, ...errors(403, 404) },
+  },
+  {
+    method: "patch",
+    path: "/bags/:id",
+    tag: "Bags",
+    summary: "Edit a bag",
+    body: UpdateBagRequest,
+    responses: { 200: BagDetailResponse, ...invalid, ...errors(403, 404) },
+  },
+  {
+    method: "post",
+    path: "/bags/:id/adjustments",
+    tag: "Bags",
+    summary: "Record coffee added to or taken from a bag outside of brews",
+    body: CreateBagAdjustmentRequest,
+    responses: { 201: BagAdjustmentResponse, ...invalid, ...errors(403, 404) },
+  },
+  {
+    method: "get",
+    path: "/bags/:id/adjustments",
+    tag: "Bags",
+    summary: "List inventory adjustments",
+    responses: { 200: list(BagAdjustmentResponse), ...errors(404) },
+  },
+  {
+    method: "get",
+    path: "/bags/:id/history",
+    tag: "Bags",
+    summary: "Change history of a bag and its brews, newest first",
+    responses: { 200: list(BagHistoryEntryResponse), ...errors(404) },
+  },
+  {
+    method: "post",
+    path: "/bags/:id/history/:entryId/revert",
+    tag: "Bags",
+    summary: "Revert one change from a bag's history",
+    responses: { 200: list(BagHistoryEntryResponse), ...errors(403, 404, 409) },
+  },
+  {
+    method: "get",
+    path: "/bags/:id/analytics",
+    tag: "Analytics",
+    summary: "Bag analytics",
+    responses: { 200: AnalyticsResponse, ...errors(404) },
+  },
+  {
+    method: "get",
+    path: "/bags/:id/recommendation",
+    tag: "Analytics",
+    summary: "Suggest the next brew for a bag",
+    responses: { 200: RecommendationResponse, ...errors(404) },
+  },
+
+  // Sharing
+  {
+    method: "get",
+    path: "/bags/:id/members",
+    tag: "Sharing",
+    summary: "List everyone with access to a bag",
+    responses: { 200: list(BagMemberResponse), ...errors(404) },
+  },
+  {
+    method: "patch",
+    path: "/bags/:id/members/:userId",
+    tag: "Sharing",
+    summary: "Change a member's role",
+    body: UpdateBagMemberRequest,
+    responses: { 200: BagMemberResponse, ...invalid, ...errors(403, 404) },
+  },
+  {
+    method: "delete",
+    path: "/bags/:id/members/:userId",
+    tag: "Sharing",
+    summary: "Remove a member, or leave a bag",
+    responses: { 204: null, ...invalid, ...errors(403, 404) },
+  },
+  {
+    method: "post",
+    path: "/bags/:id/invites",
+    tag: "Sharing",
+    summary: "Create an invite link",
+    body: CreateBagInviteRequest,
+    responses: { 201: BagInviteResponse, ...invalid, ...errors(403, 404) },
+  },
+  {
+    method: "get",
+    path: "/bags/:id/invites",
+    tag: "Sharing",
+    summary: "List open invite links",
+    responses: { 200: list(BagInviteResponse), ...errors(403, 404) },
+  },
+  {
+    method: "delete",
+    path: "/bags/:id/invites/:inviteId",
+    tag: "Sharing",
+    summary: "Revoke an invite link",
+    responses: { 204: null, ...errors(403, 404) },
+  },
+  {
+    method: "post",
+    path: "/invites/:token/accept",
+    tag: "Sharing",
+    summary: "Join a bag through an invite link",
+    responses: { 200: BagInviteAcceptResponse, ...errors(404) },
+  },
+
+  // Brews
+  {
+    method: "post",
+    path: "/bags/:id/brews",
+    tag: "Brews",
+    summary: "Log a brew",
+    body: CreateBrewRequest,
+    responses: { 201: BrewResponse, ...invalid, ...errors(403, 404) },
+  },
+  {
+    method: "get",
+    path: "/bags/:id/brews",
+    tag: "Brews",
+    summary: "List a bag's brews, newest first",
+    responses: { 200: list(BrewResponse), ...errors(404) },
+  },
+  {
+    method: "get",
+    path: "/bags/:id/brews/compare",
+    tag: "Brews",
+    summary: "Compare brews side by side",
+    query: CompareBrewsQuery,
+    responses: { 200: BrewComparisonResponse, ...invalid, ...errors(404) },
+  },
+  {
+    method: "patch",
+    path: "/bags/:bagId/brews/:brewId/best",
+    tag: "Brews",
+    summary: "Mark the bag's best brew",
+    responses: { 200: BrewResponse, ...errors(403, 404) },
+  },
+  {
+    method: "patch",
+    path: "/bags/:bagId/brews/:brewId",
+    tag: "Brews",
+    summary: "Edit a brew",
+    body: UpdateBrewRequest,
+    responses: { 200: BrewResponse, ...invalid, ...errors(403, 404) },
+  },
+  {
+    method: "delete",
+    path: "/bags/:bagId/brews/:brewId",
+    tag: "Brews",
+    summary: "Delete a brew; it can be restored for a while",
+    responses: { 200: DeletedBrewResponse, ...errors(403, 404) },
+  },
+  {
+    method: "patch",
+    path: "/bags/:bagId/brews/:brewId/restore",
+    tag: "Brews",
+    summary: "Restore a deleted brew",
+    responses: { 200: BrewResponse, ...errors(403, 404, 409, 410) },
+  },
+  {
+    method: "post",
+    path: "/bags/:bagId/brews/:brewId/recipe",
+    tag: "Recipes",
+    summary: "Save a brew as a recipe",
+    body: CreateRecipeFromBrewRequest,
+    responses: { 201: RecipeResponse, ...invalid, ...errors(404) },
+  },
+  {
+    method: "get",
+    path: "/flavour-wheel",
+    tag: "Brews",
+    summary: "The flavour wheel brews are tagged from",
+    responses: { 200: list(FlavourWheelNode) },
+  },
+  {
+    method: "get",
+    path: "/sensory-attributes",
+    tag: "Brews",
+    summary: "List the sensory attributes brews can be scored on",
+    responses: { 200: list(SensoryAttributeResponse) },
+  },
+  {
+    method: "post",
+    path: "/sensory-attributes",
+    tag: "Brews",
+    summary: "Add a custom sensory attribute",
+    body: CreateSensoryAttributeRequest,
+    responses: { 201: SensoryAttributeResponse, ...invalid, ...errors(409) },
+  },
+  {
+    method: "delete",
+    path: "/sensory-attributes/:id",
+    tag: "Brews",
+    summary: "Remove a custom sensory attribute and its scores",
+    responses: { 204: null, ...errors(404) },
+  },
+
+  // Brew sessions
+  {
+    method: "post",
+    path: "/bags/:id/brew-sessions",
+    tag: "Brew sessions",
+    summary: "Start a brew timer",
+    responses: { 201: BrewSessionResponse, ...errors(403, 404) },
+  },
+  {
+    method: "get",
+    path: "/bags/:id/brew-sessions",
+    tag: "Brew sessions",
+    summary: "List the caller's running sessions on a bag",
+    responses: { 200: list(BrewSessionResponse), ...errors(403, 404) },
+  },
+  {
+    method: "get",
+    path: "/bags/:id/brew-sessions/:sessionId",
+    tag: "Brew sessions",
+    summary: "Get a brew session",
+    responses: { 200: BrewSessionResponse, ...errors(403, 404) },
+  },
+  {
+    method: "post",
+    path: "/bags/:id/brew-sessions/:sessionId/events",
+    tag: "Brew sessions",
+    summary: "Record a timer step",
+    body: RecordBrewEventRequest,
+    responses: { 201: BrewSessionResponse, ...invalid, ...errors(403, 404, 409) },
+  },
+  {
+    method: "delete",
+    path: "/bags/:id/brew-sessions/:sessionId/events/:eventId",
+    tag: "Brew sessions",
+    summary: "Undo a timer step",
+    responses: { 200: BrewSessionResponse, ...errors(403, 404, 409) },
+  },
+  {
+    method: "post",
+    path: "/bags/:id/brew-sessions/:sessionId/finish",
+    tag: "Brew sessions",
+    summary: "Stop the timer and log the brew",
+    body: CreateBrewRequest,
+    responses: { 201: BrewResponse, ...invalid, ...errors(403, 404, 409) },
+  },
+  {
+    method: "delete",
+    path: "/bags/:id/brew-sessions/:sessionId",
+    tag: "Brew sessions",
+    summary: "Abandon a brew session",
+    responses: { 204: null, ...errors(403, 404, 409) },
+  },
+
+  // Analytics and journal
+  {
+    method: "get",
+    path: "/analytics/me",
+    tag: "Analytics",
+    summary: "Personal analytics across all bags",
+    responses: { 200: PersonalAnalyticsResponse },
+  },
+  {
+    method: "get",
+    path: "/export",
+    tag: "Journal",
+    summary: "Download the whole journal",
+    query: ExportQuery,
+    responses: { 200: { content: { "application/json": JournalExport, "text/csv": null } }, ...invalid },
+  },
+  {
+    method: "post",
+    path: "/import",
+    tag: "Journal",
+    summary: "Import a journal export; all rows or none are written",
+    query: ImportQuery,
+    body: { content: { "application/json": ImportJournalRequest, "text/csv": null } },
+    responses: { 200: ImportResponse, 400: s.oneOf([ImportResponse, ValidationErrorResponse]) },
+  },
+
+  // Catalogue
+  {
+    method: "post",
+    path: "/roasters",
+    tag: "Catalogue",
+    summary: "Add a roaster",
+    body: CreateRoasterRequest,
+    responses: { 201: RoasterResponse, ...invalid, ...errors(409) },
+  },
+  {
+    method: "get",
+    path: "/roasters",
+    tag: "Catalogue",
+    summary: "Autocomplete roasters",
+    query: AutocompleteQuery,
+    responses: { 200: list(RoasterResponse), ...invalid },
+  },
+  {
+    method: "get",
+    path: "/roasters/:id",
+    tag: "Catalogue",
+    summary: "Get a roaster with its coffees",
+    responses: { 200: RoasterDetailResponse, ...errors(404) },
+  },
+  {
+    method: "patch",
+    path: "/roasters/:id",
+    tag: "Catalogue",
+    summary: "Edit a roaster",
+    body: UpdateRoasterRequest,
+    responses: { 200: RoasterResponse, ...invalid, ...errors(404, 409) },
+  },
+  {
+    method: "post",
+    path: "/roasters/:id/merge",
+    tag: "Catalogue",
+    summary: "Merge duplicate roasters into this one",
+    body: MergeCatalogueRequest,
+    responses: { 200: RoasterDetailResponse, ...invalid, ...errors(404) },
+  },
+  {
+    method: "post",
+    path: "/coffees",
+    tag: "Catalogue",
+    summary: "Add a coffee",
+    body: CreateCoffeeRequest,
+    responses: { 201: CoffeeResponse, ...invalid, ...errors(409) },
+  },
+  {
+    method: "get",
+    path: "/coffees",
+    tag: "Catalogue",
+    summary: "Autocomplete coffees",
+    query: CoffeesQuery,
+    responses: { 200: list(CoffeeResponse), ...invalid },
+  },
+  {
+    method: "get",
+    path: "/coffees/:id",
+    tag: "Catalogue",
+    summary: "Get a coffee with every bag bought of it",
+    responses: { 200: CoffeeDetailResponse, ...errors(404) },
+  },
+  {
+    method: "patch",
+    path: "/coffees/:id",
+    tag: "Catalogue",
+    summary: "Edit a coffee",
+    body: UpdateCoffeeRequest,
+    responses: { 200: CoffeeResponse, ...invalid, ...errors(404, 409) },
+  },
+  {
+    method: "post",
+    path: "/coffees/:id/merge",
+    tag: "Catalogue",
+    summary: "Merge duplicate coffees into this one",
+    body: MergeCatalogueRequest,
+    responses: { 200: CoffeeResponse, ...invalid, ...errors(404) },
+  },
+
+  // Equipment
+  {
+    method: "post",
+    path: "/equipment",
+    tag: "Equipment",
+    summary: "Add a brewer or grinder",
+    body: CreateEquipmentRequest,
+    responses: { 201: EquipmentResponse, ...invalid },
+  },
+  {
+    method: "get",
+    path: "/equipment",
+    tag: "Equipment",
+    summary: "List equipment",
+    query: EquipmentQuery,
+    responses: { 200: list(EquipmentResponse), ...invalid },
+  },
+  {
+    method: "get",
+    path: "/equipment/:id",
+    tag: "Equipment",
+    summary: "Get a piece of equipment",
+    responses: { 200: EquipmentResponse, ...errors(404) },
+  },
+  {
+    method: "patch",
+    path: "/equipment/:id",
+    tag: "Equipment",
+    summary: "Edit a piece of equipment",
+    body: UpdateEquipmentRequest,
+    responses: { 200: EquipmentResponse, ...invalid, ...errors(404) },
+  },
+  {
+    method: "delete",
+    path: "/equipment/:id",
+    tag: "Equipment",
+    summary: "Remove a piece of equipment",
+    responses: { 204: null, ...errors(404) },
+  },
+  {
+    method: "get",
+    path: "/equipment/:id/analytics",
+    tag: "Analytics",
+    summary: "Ratings achieved with a piece of equipment",
+    responses: { 200: EquipmentAnalyticsResponse, ...errors(404) },
+  },
+
+  // Resting profiles
+  {
+    method: "post",
+    path: "/resting-profiles",
+    tag: "Resting profiles",
+    summary: "Add a resting profile",
+    body: CreateRestingProfileRequest,
+    responses: { 201: RestingProfileResponse, ...invalid },
+  },
+  {
+    method: "get",
+    path: "/resting-profiles",
+    tag: "Resting profiles",
+    summary: "List resting profiles",
+    responses: { 200: list(RestingProfileResponse) },
+  },
+  {
+    method: "patch",
+    path: "/resting-profiles/:id",
+    tag: "Resting profiles",
+    summary: "Edit a resting profile",
+    body: UpdateRestingProfileRequest,
+    responses: { 200: RestingProfileResponse, ...invalid, ...errors(404) },
+  },
+  {
+    method: "delete",
+    path: "/resting-profiles/:id",
+    tag: "Resting profiles",
+    summary: "Delete a resting profile",
+    responses: { 204: null, ...errors(404) },
+  },
+
+  // Recipes
+  {
+    method: "post",
+    path: "/recipes",
+    tag: "Recipes",
+    summary: "Save a recipe",
+    body: CreateRecipeRequest,
+    responses: { 201: RecipeResponse, ...invalid },
+  },
+  { method: "get", path: "/recipes", tag: "Recipes", summary: "List recipes", responses: { 200: list(RecipeResponse) } },
+  {
+    method: "get",
+    path: "/recipes/:id",
+    tag: "Recipes",
+    summary: "Get a recipe",
+    responses: { 200: RecipeResponse, ...errors(404) },
+  },
+  {
+    method: "patch",
+    path: "/recipes/:id",
+    tag: "Recipes",
+    summary: "Edit a recipe",
+    body: UpdateRecipeRequest,
+    responses: { 200: RecipeResponse, ...invalid, ...errors(404) },
+  },
+  {
+    method: "delete",
+    path: "/recipes/:id",
+    tag: "Recipes",
+    summary: "Delete a recipe",
+    responses: { 204: null, ...errors(404) },
+  },
+  {
+    method: "get",
+    path: "/recipes/:id/analytics",
+    tag: "Analytics",
+    summary: "How a recipe did on each bag",
+    responses: { 200: RecipeAnalyticsResponse, ...errors(404) },
+  },
+
+  // Social
+  {
+    method: "get",
+    path: "/feed/brews",
+    tag: "Social",
+    summary: "Global brew feed",
+    query: FeedQuery,
+    responses: { 200: list(GlobalFeedItemResponse), ...invalid },
+  },
+  {
+    method: "get",
+    path: "/feed/following",
+    tag: "Social",
+    summary: "Brews from people you follow",
+    query: FeedQuery,
+    responses: { 200: list(GlobalFeedItemResponse), ...invalid },
+  },
+  {
+    method: "get",
+    path: "/feed/stream",
+    tag: "Social",
+    summary: "Live feed as Server-Sent Events",
+    query: s.object({ access_token: s.optional(s.string({ description: "For EventSource, which can't send headers" })) }),
+    responses: { 200: { content: { "text/event-stream": null } }, ...invalid },
+  },
+  {
+    method: "post",
+    path: "/feed/brews/:brewId/like",
+    tag: "Social",
+    summary: "Like a brew",
+    responses: { 200: LikeResponse, ...errors(404) },
+  },
+  {
+    method: "delete",
+    path: "/feed/brews/:brewId/like",
+    tag: "Social",
+    summary: "Unlike a brew",
+    responses: { 200: LikeResponse, ...errors(404) },
+  },
+  {
+    method: "get",
+    path: "/feed/brews/:brewId/comments",
+    tag: "Social",
+    summary: "Comment threads on a brew",
+    responses: { 200: list(CommentResponse), ...errors(404) },
+  },
+  {
+    method: "post",
+    path: "/feed/brews/:brewId/comments",
+    tag: "Social",
+    summary: "Comment on a brew or reply to a comment",
+    body: CreateCommentRequest,
+    responses: { 201: CommentResponse, ...invalid, ...errors(404) },
+  },
+  {
+    method: "delete",
+    path: "/feed/brews/:brewId/comments/:commentId",
+    tag: "Social",
+    summary: "Delete a comment",
+    responses: { 204: null, ...errors(404) },
+  },
+  { method: "get", path: "/profiles/me", tag: "Social", summary: "Your profile", responses: { 200: ProfileResponse } },
+  {
+    method: "patch",
+    path: "/profiles/me",
+    tag: "Social",
+    summary: "Edit your profile",
+    body: UpdateProfileRequest,
+    responses: { 200: ProfileResponse, ...invalid },
+  },
+  {
+    method: "get",
+    path: "/profiles/:userId",
+    tag: "Social",
+    summary: "Another user's public profile",
+    responses: { 200: PublicProfileResponse, ...errors(404) },
+  },
+  {
+    method: "post",
+    path: "/users/:userId/follow",
+    tag: "Social",
+    summary: "Follow a user",
+    responses: { 204: null, ...invalid, ...errors(404) },
+  },
+  {
+    method: "delete",
+    path: "/users/:userId/follow",
+    tag: "Social",
+    summary: "Unfollow a user",
+    responses: { 204: null, ...errors(404) },
+  },
+  { method: "get", path: "/follows", tag: "Social", summary: "Who you follow and who follows you", responses: { 200: FollowListResponse } },
+  {
+    method: "get",
+    path: "/notifications",
+    tag: "Social",
+    summary: "Likes, comments and replies on your brews",
+    query: NotificationsQuery,
+    responses: { 200: NotificationListResponse, ...invalid },
+  },
+  {
+    method: "patch",
+    path: "/notifications/read",
+    tag: "Social",
+    summary: "Mark notifications read",
+    body: MarkNotificationsReadRequest,
+    responses: { 204: null, ...invalid },
+  },
+
+  // Tokens
+  {
+    method: "post",
+    path: "/tokens",
+    tag: "Tokens",
+    summary: "Create a personal access token",
+    body: CreateApiTokenRequest,
+    responses: { 201: CreatedApiTokenResponse, ...invalid },
+  },
+  { method: "get", path: "/tokens", tag: "Tokens", summary: "List personal access tokens", responses: { 200: list(ApiTokenResponse) } },
+  {
+    method: "delete",
+    path: "/tokens/:id",
+    tag: "Tokens",
+    summary: "Revoke a personal access token",
+    responses: { 204: null, ...errors(404) },
+  },
+];
+
+export function findRoute(method: string, path: string): RouteContract | undefined {
+  return ROUTES.find((route) => route.method === method.toLowerCase() && route.path === path);
+}
@@ -0,0 +1,85 @@
+// Minimal RFC 4180 CSV helpers used by journal export/import.
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Quotes a field only when it contains a delimiter, quote or line break.
+function formatCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Serializes one record as a CSV line (with trailing CRLF) in column order.
+export function formatCsvRow(columns: readonly string[], record: Record<string, CsvValue>): string {
+  return `${columns.map((column) => formatCsvField(record[column])).join(",")}\r\n`;
+}
+
+// Serializes the header line.
+export function formatCsvHeader(columns: readonly string[]): string {
+  return `${columns.map((column) => formatCsvField(column)).join(",")}\r\n`;
+}
+
+// Parses CSV text into records keyed by the header row.
+// `line` is the 1-based line the record starts on, so import errors can point at it.
+export function parseCsv(text: string): {
+  records: Array<{ line: number; values: Record<string, string> }>;
+  error: string | null;
+} {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowStartLine = 1;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line += 1;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      fields.push(field);
+      rows.push({ line: rowStartLine, fields });
+      fields = [];
+      field = "";
+      line += 1;
+      rowStartLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) return { records: [], error: `unterminated quoted field starting on line ${rowStartLine}` };
+  if (field !== "" || fields.length) {
+    fields.push(field);
+    rows.push({ line: rowStartLine, fields });
+  }
+
+  // Ignore blank lines, which spreadsheet tools like to append.
+  const nonEmpty = rows.filter((row) => row.fields.some((value) => value !== ""));
+  const header = nonEmpty[0];
+  if (!header) return { records: [], error: "missing header row" };
+
+  const records = nonEmpty.slice(1).map((row) => ({
+    line: row.line,
+    values: Object.fromEntries(header.fields.map((column, index) => [column.trim(), row.fields[index] ?? ""])),
+  }));
+  return { records, error: null };
+}
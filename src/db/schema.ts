@@ -1,8 +1,111 @@
-import { pgTable, uuid, text, timestamp, integer, pgEnum, real, index, boolean } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  integer,
+  pgEnum,
+  real,
+  index,
+  uniqueIndex,
+  boolean,
+  primaryKey,
+  jsonb,
+} from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import type { BagHistoryChange, PourStage, SensoryScores } from "../types/api";
 
 // Bag lifecycle status used by UI filtering and archive flow.
 export const bagStatus = pgEnum("bag_status", ["ACTIVE", "ARCHIVED"]);
 
+// Roast development level, used to pick a resting profile.
+export const roastLevel = pgEnum("roast_level", ["LIGHT", "MEDIUM", "DARK"]);
+
+// Who can see a bag or brew in the feed. Declared from most to least visible so
+// Postgres' greatest() picks the more restrictive of two values.
+export const visibility = pgEnum("visibility", ["PUBLIC", "FOLLOWERS", "PRIVATE"]);
+
+// Accounts for AUTH_PROVIDER=local, used when self-hosting without Supabase.
+// Emails are stored lowercased; passwordHash is a salted scrypt hash.
+export const localUsers = pgTable("local_users", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  email: text("email").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+});
+
+// Personal access tokens for scripts and scale bridges. Only a SHA-256 hash of the
+// token is stored; `prefix` is the first few characters, shown to tell tokens apart.
+export const apiTokens = pgTable(
+  "api_tokens",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    name: text("name").notNull(),
+    prefix: text("prefix").notNull(),
+    tokenHash: text("token_hash").notNull().unique(),
+    scopes: text("scopes").array().notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: false }), // null = never expires
+    lastUsedAt: timestamp("last_used_at", { withTimezone: false }),
+    revokedAt: timestamp("revoked_at", { withTimezone: false }),
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    userIdx: index("api_tokens_user_idx").on(table.userId, table.createdAt),
+  }),
+);
+
+// Public-facing user profile; users without a row show up under a placeholder name.
+export const profiles = pgTable("profiles", {
+  userId: uuid("user_id").primaryKey(),
+  displayName: text("display_name"),
+  avatarUrl: text("avatar_url"),
+  bio: text("bio"),
+  defaultVisibility: visibility("default_visibility"), // for new bags; null = deployment default
+  createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: false }).notNull().defaultNow(),
+});
+
+// Roaster in a user's coffee catalogue. Names are unique per user, ignoring case.
+export const roasters = pgTable(
+  "roasters",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    name: text("name").notNull(),
+    website: text("website"),
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    userNameIdx: uniqueIndex("roasters_user_name_idx").on(table.userId, sql`lower(${table.name})`),
+  }),
+);
+
+// A coffee a roaster sells, with its origin details. Buying it again gives another bag
+// linked to the same coffee. Names are unique per roaster, ignoring case.
+export const coffees = pgTable(
+  "coffees",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    roasterId: uuid("roaster_id").notNull(),
+    name: text("name").notNull(),
+    country: text("country"),
+    region: text("region"),
+    farm: text("farm"),
+    variety: text("variety"),
+    altitude: integer("altitude"), // metres above sea level
+    process: text("process"),
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    roasterNameIdx: uniqueIndex("coffees_roaster_name_idx").on(table.roasterId, sql`lower(${table.name})`),
+    userNameIdx: index("coffees_user_name_idx").on(table.userId, sql`lower(${table.name})`),
+  }),
+);
+
 // Coffee bag entity.
 // Represents one purchased bag that can have many brews.
 export const bags = pgTable(
@@ -14,8 +117,14 @@ export const bags = pgTable(
     roaster: text("roaster").notNull(),
     origin: text("origin"),
     process: text("process"),
+    roastLevel: roastLevel("roast_level"),
     roastDate: timestamp("roast_date", { withTimezone: false }),
     notes: text("notes"),
+    restingProfileId: uuid("resting_profile_id"), // overrides the profile matched on roast level/process
+    coffeeId: uuid("coffee_id"), // catalogue entry; coffeeName/roaster/origin/process mirror it
+    initialWeightGrams: integer("initial_weight_grams"), // bag size as bought
+    price: real("price"), // what the bag cost, in the user's currency
+    visibility: visibility("visibility").notNull().default("PUBLIC"),
     status: bagStatus("status").notNull().default("ACTIVE"),
     archivedAt: timestamp("archived_at", { withTimezone: false }),
     createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
@@ -27,6 +136,91 @@ export const bags = pgTable(
       table.status,
       table.updatedAt,
     ),
+    // Bag list filters and sort options.
+    userRoastDateIdx: index("bags_user_roast_date_idx").on(table.userId, table.roastDate),
+    userRoasterIdx: index("bags_user_roaster_idx").on(table.userId, sql`lower(${table.roaster})`),
+    userOriginIdx: index("bags_user_origin_idx").on(table.userId, sql`lower(${table.origin})`),
+    coffeeIdx: index("bags_coffee_idx").on(table.coffeeId),
+    // Free-text `q` search over coffee name + notes; must match bagSearchDocument in app.ts.
+    searchIdx: index("bags_search_idx").using(
+      "gin",
+      sql`to_tsvector('simple', coalesce(${table.coffeeName}, '') || ' ' || coalesce(${table.notes}, ''))`,
+    ),
+  }),
+);
+
+// What a user may do with a bag. The bag's creator (bags.userId) is always OWNER;
+// other OWNER members can manage the bag too.
+export const bagRole = pgEnum("bag_role", ["VIEWER", "BREWER", "OWNER"]);
+
+// Household members sharing a bag, besides its creator.
+export const bagMembers = pgTable(
+  "bag_members",
+  {
+    bagId: uuid("bag_id").notNull(),
+    userId: uuid("user_id").notNull(),
+    role: bagRole("role").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.bagId, table.userId] }),
+    userIdx: index("bag_members_user_idx").on(table.userId),
+  }),
+);
+
+// Invite link for joining a bag; reusable by several people until it expires or is revoked.
+export const bagInvites = pgTable(
+  "bag_invites",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    bagId: uuid("bag_id").notNull(),
+    token: text("token").notNull().unique(),
+    role: bagRole("role").notNull(),
+    createdBy: uuid("created_by").notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: false }).notNull(),
+    revokedAt: timestamp("revoked_at", { withTimezone: false }),
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    bagIdx: index("bag_invites_bag_idx").on(table.bagId),
+  }),
+);
+
+// User-defined resting windows, matched to bags by roast level and process.
+// A null roastLevel/process matches any bag. Day numbers count whole days off roast.
+export const restingProfiles = pgTable(
+  "resting_profiles",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    name: text("name").notNull(),
+    roastLevel: roastLevel("roast_level"),
+    process: text("process"), // matched case-insensitively
+    restDays: integer("rest_days").notNull(), // RESTING through this day
+    peakStartDay: integer("peak_start_day"), // optional PEAK band inside READY
+    peakEndDay: integer("peak_end_day"),
+    pastPeakAfterDays: integer("past_peak_after_days").notNull(), // PAST_PEAK after this day
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    userIdx: index("resting_profiles_user_idx").on(table.userId),
+  }),
+);
+
+// Manual inventory correction for a bag, e.g. coffee given away (negative) or a
+// top-up from another bag (positive). Brew doses are counted separately.
+export const bagAdjustments = pgTable(
+  "bag_adjustments",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    bagId: uuid("bag_id").notNull(),
+    grams: real("grams").notNull(),
+    reason: text("reason"),
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    bagCreatedAtIdx: index("bag_adjustments_bag_created_at_idx").on(table.bagId, table.createdAt),
   }),
 );
 
@@ -37,24 +231,243 @@ export const brews = pgTable(
   {
     id: uuid("id").defaultRandom().primaryKey(),
     bagId: uuid("bag_id").notNull(),
+    userId: uuid("user_id").notNull(), // who brewed it; can differ from the bag owner on shared bags
     method: text("method").notNull(),
-    brewer: text("brewer"),
-    grinder: text("grinder"),
+    brewer: text("brewer"), // free text, or the display name of brewerId
+    grinder: text("grinder"), // free text, or the display name of grinderId
+    brewerId: uuid("brewer_id"),
+    grinderId: uuid("grinder_id"),
+    recipeId: uuid("recipe_id"), // recipe the brew was started from
+    visibility: visibility("visibility"), // null = same as the bag; never more visible than the bag
     dose: integer("dose"), // grams
     grindSetting: integer("grind_setting"),
     waterAmount: integer("water_amount"), // ml or grams, your choice
+    waterTemperature: real("water_temperature"), // °C
+    brewTimeSeconds: integer("brew_time_seconds"), // total contact time
+    bloomTimeSeconds: integer("bloom_time_seconds"),
+    bloomWater: integer("bloom_water"), // grams
+    beverageYield: real("beverage_yield"), // grams in the cup
+    tds: real("tds"), // total dissolved solids, %
     rating: real("rating"), // 0.0 - 5.0
-    nutty: integer("nutty"), // 0 - 5
-    acidity: integer("acidity"), // 0 - 5
-    fruity: integer("fruity"), // 0 - 5
-    floral: integer("floral"), // 0 - 5
-    sweetness: integer("sweetness"), // 0 - 5
-    chocolate: integer("chocolate"), // 0 - 5
+    daysOffRoast: integer("days_off_roast"), // bean age when brewed; null while the bag has no roast date
+    sensory: jsonb("sensory").$type<SensoryScores>().notNull().default({}), // sensory attribute key -> score
+    flavourTags: text("flavour_tags").array().notNull().default([]), // flavour wheel keys, see src/flavours.ts
     isBest: boolean("is_best").notNull().default(false),
-    flavourNotes: text("flavour_notes"),
+    flavourNotes: text("flavour_notes"), // free text the flavour wheel doesn't cover
+    pourSchedule: jsonb("pour_schedule").$type<PourStage[]>(), // from a timed brew session; null otherwise
     createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: false }).notNull().defaultNow(),
+    deletedAt: timestamp("deleted_at", { withTimezone: false }), // soft delete, restorable for a window
   },
   (table) => ({
     bagCreatedAtIdx: index("brews_bag_created_at_idx").on(table.bagId, table.createdAt),
+    flavourTagsIdx: index("brews_flavour_tags_idx").using("gin", table.flavourTags),
+  }),
+);
+
+// Kinds of change recorded in a bag's history.
+export const bagHistoryAction = pgEnum("bag_history_action", [
+  "CREATE",
+  "UPDATE",
+  "ARCHIVE",
+  "UNARCHIVE",
+  "MARK_BEST",
+  "UNMARK_BEST",
+  "DELETE",
+  "RESTORE",
+]);
+
+// Append-only change history of a bag and its brews: who changed what, with each
+// field's value before and after. Rows are never updated or deleted.
+export const bagHistory = pgTable(
+  "bag_history",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    bagId: uuid("bag_id").notNull(),
+    brewId: uuid("brew_id"), // null = a change to the bag itself
+    actorId: uuid("actor_id").notNull(),
+    action: bagHistoryAction("action").notNull(),
+    changes: jsonb("changes").$type<BagHistoryChange[]>().notNull().default([]),
+    revertOfId: uuid("revert_of_id"), // the entry this one undid
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    bagCreatedAtIdx: index("bag_history_bag_created_at_idx").on(table.bagId, table.createdAt),
+    revertOfIdx: index("bag_history_revert_of_idx").on(table.revertOfId),
+  }),
+);
+
+// Attribute brews are scored on, e.g. body or clarity. Rows without a user are
+// built in; users can add their own. Scores live in brews.sensory under `key`.
+export const sensoryAttributes = pgTable(
+  "sensory_attributes",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id"), // null = built in
+    key: text("key").notNull(),
+    label: text("label").notNull(),
+    min: integer("min").notNull().default(0),
+    max: integer("max").notNull().default(5),
+    position: integer("position").notNull().default(0),
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    userKeyIdx: uniqueIndex("sensory_attributes_user_key_idx").on(table.userId, table.key),
+  }),
+);
+
+// Steps recorded by the brew timer.
+export const brewEventType = pgEnum("brew_event_type", ["BLOOM_START", "POUR", "DRAWDOWN_END"]);
+
+// A brew being timed live. Finishing it creates a normal brew (brewId); a session ends
+// either finished or cancelled.
+export const brewSessions = pgTable(
+  "brew_sessions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    bagId: uuid("bag_id").notNull(),
+    userId: uuid("user_id").notNull(),
+    startedAt: timestamp("started_at", { withTimezone: false }).notNull().defaultNow(),
+    finishedAt: timestamp("finished_at", { withTimezone: false }),
+    cancelledAt: timestamp("cancelled_at", { withTimezone: false }),
+    brewId: uuid("brew_id"),
+  },
+  (table) => ({
+    bagUserIdx: index("brew_sessions_bag_user_idx").on(table.bagId, table.userId),
+  }),
+);
+
+// Timestamped step of a brew session, in seconds since it started.
+export const brewSessionEvents = pgTable(
+  "brew_session_events",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    sessionId: uuid("session_id").notNull(),
+    type: brewEventType("type").notNull(),
+    elapsedSeconds: real("elapsed_seconds").notNull(),
+    grams: integer("grams"), // water added; required for POUR
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    sessionIdx: index("brew_session_events_session_idx").on(table.sessionId, table.elapsedSeconds),
+  }),
+);
+
+// One user following another; FOLLOWERS-visibility brews are shown to followers.
+export const follows = pgTable(
+  "follows",
+  {
+    followerId: uuid("follower_id").notNull(),
+    followeeId: uuid("followee_id").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.followerId, table.followeeId] }),
+    followeeIdx: index("follows_followee_idx").on(table.followeeId),
+  }),
+);
+
+// One like per user per brew.
+export const brewLikes = pgTable(
+  "brew_likes",
+  {
+    brewId: uuid("brew_id").notNull(),
+    userId: uuid("user_id").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.brewId, table.userId] }),
+  }),
+);
+
+// Comment on a brew; parentId makes it a reply within the same brew's thread.
+export const brewComments = pgTable(
+  "brew_comments",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    brewId: uuid("brew_id").notNull(),
+    userId: uuid("user_id").notNull(),
+    parentId: uuid("parent_id"),
+    body: text("body").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+    deletedAt: timestamp("deleted_at", { withTimezone: false }), // kept so replies stay threaded
+  },
+  (table) => ({
+    brewCreatedAtIdx: index("brew_comments_brew_created_at_idx").on(table.brewId, table.createdAt),
+  }),
+);
+
+// What happened to trigger a notification.
+export const notificationType = pgEnum("notification_type", ["LIKE", "COMMENT", "REPLY"]);
+
+// Inbox entry for the user whose brew (or comment) someone reacted to.
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(), // recipient
+    actorId: uuid("actor_id").notNull(),
+    type: notificationType("type").notNull(),
+    brewId: uuid("brew_id").notNull(),
+    commentId: uuid("comment_id"),
+    readAt: timestamp("read_at", { withTimezone: false }),
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    userCreatedAtIdx: index("notifications_user_created_at_idx").on(table.userId, table.createdAt),
+  }),
+);
+
+// Equipment kinds users can catalogue.
+export const equipmentType = pgEnum("equipment_type", ["BREWER", "GRINDER"]);
+
+// User-owned brewer or grinder that brews can reference by id.
+export const equipment = pgTable(
+  "equipment",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    type: equipmentType("type").notNull(),
+    brand: text("brand"),
+    model: text("model").notNull(),
+    notes: text("notes"),
+    // Grinder setting scale, e.g. 0-40 clicks; null for brewers or unknown scales.
+    grindSettingMin: integer("grind_setting_min"),
+    grindSettingMax: integer("grind_setting_max"),
+    grindSettingUnit: text("grind_setting_unit"),
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    userTypeIdx: index("equipment_user_type_idx").on(table.userId, table.type),
+  }),
+);
+
+// Saved brew recipe a user can start new brews from.
+export const recipes = pgTable(
+  "recipes",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    name: text("name").notNull(),
+    method: text("method").notNull(),
+    brewer: text("brewer"),
+    grinder: text("grinder"),
+    brewerId: uuid("brewer_id"),
+    grinderId: uuid("grinder_id"),
+    dose: integer("dose"),
+    grindSetting: integer("grind_setting"),
+    waterAmount: integer("water_amount"),
+    waterTemperature: real("water_temperature"),
+    brewTimeSeconds: integer("brew_time_seconds"),
+    bloomTimeSeconds: integer("bloom_time_seconds"),
+    bloomWater: integer("bloom_water"),
+    notes: text("notes"),
+    sourceBrewId: uuid("source_brew_id"), // set when promoted from a logged brew
+    createdAt: timestamp("created_at", { withTimezone: false }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => ({
+    userNameIdx: index("recipes_user_name_idx").on(table.userId, table.name),
   }),
 );
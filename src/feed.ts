@@ -0,0 +1,150 @@
+import { EventEmitter } from "events";
+import { store, type BrewComment, type FeedEvent, type FeedViewer } from "./store";
+import { UUID_PATTERN } from "./validation";
+import type { GlobalFeedItemResponse, LikeResponse, Visibility } from "./types/api";
+
+export type { FeedViewer } from "./store";
+
+// The social feed: visibility-checked brews, likes and comments with their
+// notifications, and the live plumbing for GET /feed/stream.
+// New brews go through an in-process event bus. With FEED_PG_NOTIFY=true they are
+// announced through the store instead (Postgres NOTIFY), and every instance listening
+// on it pushes them to its own open streams.
+const FEED_PG_NOTIFY = process.env.FEED_PG_NOTIFY === "true";
+
+// Most brews replayed to a reconnecting client; older gaps need a full feed reload.
+export const FEED_REPLAY_LIMIT = 100;
+
+const bus = new EventEmitter();
+// One listener per open stream.
+bus.setMaxListeners(0);
+
+let listening: Promise<void> | null = null;
+
+const VISIBILITY_RANK: Record<Visibility, number> = { PUBLIC: 0, FOLLOWERS: 1, PRIVATE: 2 };
+
+// Same rule as the feed queries for events that are already loaded. Public brews and
+// the viewer's own skip the store; the rest need the follow and membership lookups.
+async function canView(viewer: FeedViewer, event: FeedEvent): Promise<boolean> {
+  const { bagOwnerId } = event;
+  const brewerId = event.item.userId;
+  if (brewerId === viewer.userId || bagOwnerId === viewer.userId) return true;
+  const floor = [brewerId, bagOwnerId].includes(viewer.guestUserId) ? viewer.guestVisibility : "PUBLIC";
+  const effective = VISIBILITY_RANK[floor] > VISIBILITY_RANK[event.visibility] ? floor : event.visibility;
+  if (effective === "PUBLIC") return true;
+  return store.feed.isVisible(event.item.brewId, viewer);
+}
+
+// Brews created after the given one, oldest first, for Last-Event-ID resume.
+// An unknown id replays nothing.
+export async function getFeedItemsAfter(brewId: string, viewer: FeedViewer): Promise<GlobalFeedItemResponse[]> {
+  return store.feed.listAfter(brewId, viewer, FEED_REPLAY_LIMIT);
+}
+
+async function emitBrew(brewId: string) {
+  const event = await store.feed.findEvent(brewId);
+  if (event) bus.emit("brew", event);
+}
+
+// Notifications carry only the brew id, so each instance loads the row itself.
+function startListening() {
+  return store.feed.listen(
+    (brewId) => {
+      emitBrew(brewId).catch((error) => console.error("feed notification failed", error));
+    },
+    // Reconnect on the next subscription.
+    () => {
+      listening = null;
+    },
+  );
+}
+
+// Registers a stream listener for brews the viewer may see; returns the unsubscribe function.
+export function subscribeToFeed(
+  viewer: FeedViewer,
+  listener: (item: GlobalFeedItemResponse) => void,
+): () => void {
+  if (FEED_PG_NOTIFY && !listening) {
+    listening = startListening().catch((error) => {
+      console.error("feed listener failed to start", error);
+      listening = null;
+    });
+  }
+  // Follow lookups are async; chain them so events still arrive in publish order.
+  let delivered = Promise.resolve();
+  const onBrew = (event: FeedEvent) => {
+    delivered = delivered
+      .then(async () => {
+        if (await canView(viewer, event)) listener(event.item);
+      })
+      .catch((error) => console.error("feed visibility check failed", error));
+  };
+  bus.on("brew", onBrew);
+  return () => {
+    bus.off("brew", onBrew);
+  };
+}
+
+// Announces a newly created brew to open streams.
+export async function publishFeedBrew(brewId: string) {
+  if (FEED_PG_NOTIFY) {
+    await store.feed.announce(brewId);
+    return;
+  }
+  // Skip the lookup when nobody is watching.
+  if (!bus.listenerCount("brew")) return;
+  await emitBrew(brewId);
+}
+
+// Loads a brew the viewer can see in the feed; likes and comments follow feed visibility.
+export async function getVisibleFeedBrew(brewId: string, viewer: FeedViewer) {
+  if (!UUID_PATTERN.test(brewId)) return null;
+  return store.feed.find(brewId, viewer);
+}
+
+// Likes a brew and notifies its owner; liking twice is a no-op.
+export async function likeBrew(brew: GlobalFeedItemResponse, userId: string): Promise<LikeResponse> {
+  const inserted = await store.feed.like(brew.brewId, userId);
+  if (inserted && brew.userId !== userId) {
+    await store.feed.createNotifications([{ userId: brew.userId, actorId: userId, type: "LIKE", brewId: brew.brewId }]);
+  }
+  return store.feed.likeState(brew.brewId, userId);
+}
+
+// Takes a like back, along with its notification if still unread.
+export async function unlikeBrew(brew: GlobalFeedItemResponse, userId: string): Promise<LikeResponse> {
+  await store.transaction(async (tx) => {
+    await tx.feed.unlike(brew.brewId, userId);
+    await tx.feed.deleteUnreadLikeNotification(brew.brewId, userId);
+  });
+  return store.feed.likeState(brew.brewId, userId);
+}
+
+// Adds a comment or reply and notifies the brew owner, and the parent comment's author
+// for replies.
+export async function addComment(
+  brew: GlobalFeedItemResponse,
+  userId: string,
+  body: string,
+  parent: BrewComment | null,
+): Promise<BrewComment> {
+  return store.transaction(async (tx) => {
+    const comment = await tx.feed.createComment({ brewId: brew.brewId, userId, parentId: parent?.id ?? null, body });
+
+    // One notification per person: a reply to the brew owner's own comment counts as a reply.
+    const recipients = new Map<string, "COMMENT" | "REPLY">();
+    recipients.set(brew.userId, "COMMENT");
+    if (parent) recipients.set(parent.userId, "REPLY");
+    recipients.delete(userId);
+    await tx.feed.createNotifications(
+      Array.from(recipients, ([recipientId, type]) => ({
+        userId: recipientId,
+        actorId: userId,
+        type,
+        brewId: brew.brewId,
+        commentId: comment.id,
+      })),
+    );
+    return comment;
+  });
+}
@@ -0,0 +1,119 @@
+import type { FlavourTagCount, FlavourWheelNode } from "./types/api";
+
+// Flavour wheel brews are tagged from, after the SCA coffee taster's flavour wheel.
+// Tags are referenced by key, the slugged path from the top of the wheel, for example
+// "fruity.berry.blueberry". Brews may be tagged at any depth.
+type WheelEntry = string | [name: string, children: WheelEntry[]];
+
+const WHEEL: WheelEntry[] = [
+  [
+    "Fruity",
+    [
+      ["Berry", ["Blackberry", "Raspberry", "Blueberry", "Strawberry"]],
+      ["Dried Fruit", ["Raisin", "Prune"]],
+      ["Other Fruit", ["Coconut", "Cherry", "Pomegranate", "Pineapple", "Grape", "Apple", "Peach", "Pear"]],
+      ["Citrus Fruit", ["Grapefruit", "Orange", "Lemon", "Lime"]],
+    ],
+  ],
+  [
+    "Sour/Fermented",
+    [
+      ["Sour", ["Sour Aromatics", "Acetic Acid", "Butyric Acid", "Isovaleric Acid", "Citric Acid", "Malic Acid"]],
+      ["Alcohol/Fermented", ["Winey", "Whiskey", "Fermented", "Overripe"]],
+    ],
+  ],
+  [
+    "Green/Vegetative",
+    [
+      "Olive Oil",
+      "Raw",
+      ["Green/Vegetative", ["Under-ripe", "Peapod", "Fresh", "Dark Green", "Vegetative", "Hay-like", "Herb-like"]],
+      "Beany",
+    ],
+  ],
+  [
+    "Other",
+    [
+      ["Papery/Musty", ["Stale", "Cardboard", "Papery", "Woody", "Moldy/Damp", "Musty/Dusty", "Musty/Earthy", "Animalic", "Meaty Brothy", "Phenolic"]],
+      ["Chemical", ["Bitter", "Salty", "Medicinal", "Petroleum", "Skunky", "Rubber"]],
+    ],
+  ],
+  [
+    "Roasted",
+    ["Pipe Tobacco", "Tobacco", ["Burnt", ["Acrid", "Ashy", "Smoky", "Brown Roast"]], ["Cereal", ["Grain", "Malt"]]],
+  ],
+  ["Spices", ["Pungent", "Pepper", ["Brown Spice", ["Anise", "Nutmeg", "Cinnamon", "Clove"]]]],
+  ["Nutty/Cocoa", [["Nutty", ["Peanuts", "Hazelnut", "Almond"]], ["Cocoa", ["Chocolate", "Dark Chocolate"]]]],
+  [
+    "Sweet",
+    [
+      ["Brown Sugar", ["Molasses", "Maple Syrup", "Caramelized", "Honey"]],
+      "Vanilla",
+      "Vanillin",
+      "Overall Sweet",
+      "Sweet Aromatics",
+    ],
+  ],
+  ["Floral", ["Black Tea", ["Floral", ["Chamomile", "Rose", "Jasmine"]]]],
+];
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+function buildNodes(entries: WheelEntry[], parentKey: string | null): FlavourWheelNode[] {
+  return entries.map((entry) => {
+    const [name, children] = typeof entry === "string" ? [entry, []] : entry;
+    const key = parentKey ? `${parentKey}.${slug(name)}` : slug(name);
+    return { key, name, children: buildNodes(children, key) };
+  });
+}
+
+export const FLAVOUR_WHEEL: FlavourWheelNode[] = buildNodes(WHEEL, null);
+
+const TAGS_BY_KEY = new Map<string, FlavourWheelNode>();
+(function index(nodes: FlavourWheelNode[]) {
+  for (const node of nodes) {
+    TAGS_BY_KEY.set(node.key, node);
+    index(node.children);
+  }
+})(FLAVOUR_WHEEL);
+
+export function isFlavourTag(key: unknown): key is string {
+  return typeof key === "string" && TAGS_BY_KEY.has(key);
+}
+
+export function flavourTagName(key: string): string {
+  return TAGS_BY_KEY.get(key)?.name ?? key;
+}
+
+// The tag and the categories above it, top first: "fruity", "fruity.berry", "fruity.berry.blueberry".
+export function flavourTagLineage(key: string): string[] {
+  const parts = key.split(".");
+  return parts.map((_part, index) => parts.slice(0, index + 1).join("."));
+}
+
+// Tag for a free-text note such as "Blueberry" or "dark chocolate"; names are matched
+// ignoring case, and the shallowest tag wins when a name repeats ("Floral").
+export function matchFlavourNote(note: string): string | null {
+  const name = note.trim().toLowerCase();
+  let match: string | null = null;
+  for (const node of TAGS_BY_KEY.values()) {
+    if (node.name.toLowerCase() !== name) continue;
+    if (!match || node.key.split(".").length < match.split(".").length) match = node.key;
+  }
+  return match;
+}
+
+// How many brews carry each tag. A brew tagged "fruity.berry.blueberry" also counts
+// towards "fruity.berry" and "fruity", once each. Most frequent first.
+export function countFlavourTags(rows: Array<{ flavourTags: string[] }>): FlavourTagCount[] {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    const keys = new Set(row.flavourTags.filter(isFlavourTag).flatMap(flavourTagLineage));
+    for (const key of keys) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .map(([key, brewCount]) => ({ key, name: flavourTagName(key), depth: key.split(".").length, brewCount }))
+    .sort((a, b) => b.brewCount - a.brewCount || a.depth - b.depth || a.key.localeCompare(b.key));
+}
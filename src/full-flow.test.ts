@@ -1,18 +1,83 @@
 import { afterAll, beforeAll, describe, expect, it } from "vitest";
 import type { AddressInfo } from "net";
-import type { Server } from "http";
+import { createServer, type Server } from "http";
+import { generateKeyPairSync, randomUUID, sign } from "crypto";
 import app from "./app";
+import { createApiClient, isApiError, isValidationError, type ApiClient, type Input, type Json } from "./client";
+import { ROUTES, type CreateBagRequest, type CreateBrewRequest, type RecordBrewEventRequest } from "./contracts";
+import { createLocalAuthProvider, createSupabaseAuthProvider, signHs256Jwt } from "./auth";
+import { store } from "./store";
+import type {
+  ApiTokenResponse,
+  CoffeeDetailResponse,
+  CoffeeResponse,
+  CreatedApiTokenResponse,
+  EquipmentResponse,
+  FlavourWheelNode,
+  FollowListResponse,
+  ImportResponse,
+  JournalExport,
+  NotificationListResponse,
+  ProfileResponse,
+  PublicProfileResponse,
+  RecipeResponse,
+  RestingProfileResponse,
+  RoasterDetailResponse,
+  RoasterResponse,
+  SensoryAttributeResponse,
+} from "./types/api";
 
 // Flexible JSON shape used in assertions for API payloads.
 type JsonRecord = Record<string, unknown>;
 
 let server: Server;
 let baseUrl = "";
+// Runs as the guest user, like the UI without a login.
+let client: ApiClient;
 
-async function api(path: string, init?: RequestInit) {
-  const response = await fetch(`${baseUrl}${path}`, init);
-  const data = (await response.json()) as unknown;
-  return { status: response.status, data };
+// Resolves with the ApiError a request is expected to fail with.
+async function failure(request: Promise<unknown>) {
+  try {
+    await request;
+  } catch (error) {
+    if (isApiError(error)) return error;
+    throw error;
+  }
+  throw new Error("Expected the request to fail");
+}
+
+// Resolves with the field-level issues of a request expected to fail validation.
+async function validationIssues(request: Promise<unknown>) {
+  const error = await failure(request);
+  if (!isValidationError(error)) throw error;
+  return error.errors;
+}
+
+// Reads Server-Sent Events from a streaming response until `count` events with ids arrive.
+async function readSseEvents(response: Response, count: number) {
+  const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+  const decoder = new TextDecoder();
+  const events: Array<{ id: string; event: string; data: JsonRecord }> = [];
+  let buffer = "";
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+    for (const block of blocks) {
+      const fields: Record<string, string> = {};
+      for (const line of block.split("\n")) {
+        if (!line || line.startsWith(":")) continue;
+        const separator = line.indexOf(":");
+        fields[line.slice(0, separator)] = line.slice(separator + 1).trim();
+      }
+      if (fields.id && fields.event && fields.data) {
+        events.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) as JsonRecord });
+      }
+    }
+  }
+  return events;
 }
 
 describe("coffee tools full flow", () => {
@@ -22,6 +87,7 @@ describe("coffee tools full flow", () => {
     await new Promise<void>((resolve) => server.once("listening", () => resolve()));
     const address = server.address() as AddressInfo;
     baseUrl = `http://127.0.0.1:${address.port}`;
+    client = createApiClient({ baseUrl });
   });
 
   afterAll(async () => {
@@ -36,28 +102,21 @@ describe("coffee tools full flow", () => {
 
   it("creates bag, logs brews, reads analytics, archives bag", async () => {
     const suffix = Date.now();
-    const createBag = await api("/bags", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        coffeeName: `Flow Test ${suffix}`,
-        roaster: "Flow Roaster",
-        roastDate: "2026-02-10",
-        origin: "Panama",
-        process: "Washed",
-        notes: "integration test",
-      }),
+    const createdBag = await client.bags.create({
+      coffeeName: `Flow Test ${suffix}`,
+      roaster: "Flow Roaster",
+      roastDate: "2026-02-10",
+      origin: "Panama",
+      process: "Washed",
+      notes: "integration test",
     });
-
-    expect(createBag.status).toBe(201);
-    const createdBag = createBag.data as JsonRecord;
     expect(createdBag.status).toBe("ACTIVE");
     expect(createdBag.restingStatus).toBeTypeOf("string");
 
-    const bagId = String(createdBag.id);
+    const bagId = createdBag.id;
 
     // Add multiple brews to validate history + analytics aggregation behavior.
-    const brewPayloads = [
+    const brewPayloads: Array<Input<CreateBrewRequest>> = [
       {
         method: "V60",
         brewer: "Hario V60",
@@ -66,13 +125,9 @@ describe("coffee tools full flow", () => {
         grindSetting: 20,
         waterAmount: 300,
         rating: 3.6,
-        nutty: 2,
-        acidity: 4,
-        fruity: 5,
-        floral: 5,
-        sweetness: 3,
-        chocolate: 1,
-        flavourNotes: "jasmine, bergamot",
+        sensory: { nutty: 2, acidity: 4, fruity: 5, floral: 5, sweetness: 3, chocolate: 1 },
+        flavourTags: ["floral.floral.jasmine"],
+        flavourNotes: "bergamot",
       },
       {
         method: "V60",
@@ -82,77 +137,1246 @@ describe("coffee tools full flow", () => {
         grindSetting: 18,
         waterAmount: 300,
         rating: 3.4,
-        nutty: 2,
-        acidity: 4,
-        fruity: 4,
-        floral: 5,
-        sweetness: 3,
-        chocolate: 1,
-        flavourNotes: "floral, citrus",
+        sensory: { nutty: 2, acidity: 4, fruity: 4, floral: 5, sweetness: 3, chocolate: 1 },
+        flavourTags: ["floral", "fruity.citrus-fruit"],
       },
     ];
 
     for (const payload of brewPayloads) {
-      const brewResponse = await api(`/bags/${bagId}/brews`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
-      expect(brewResponse.status).toBe(201);
+      const brew = await client.brews.create(bagId, payload);
+      expect(brew.bagId).toBe(bagId);
     }
 
-    const brewListAfterCreate = await api(`/bags/${bagId}/brews`);
-    const createdBrews = brewListAfterCreate.data as JsonRecord[];
+    const createdBrews = await client.brews.list(bagId);
     const firstBrew = createdBrews[0];
     expect(firstBrew).toBeDefined();
     if (!firstBrew) throw new Error("Expected at least one brew");
-    const brewIdToMarkBest = String(firstBrew.id);
-    const markBest = await api(`/bags/${bagId}/brews/${brewIdToMarkBest}/best`, { method: "PATCH" });
-    expect(markBest.status).toBe(200);
-
-    const bagList = await api("/bags?status=ACTIVE");
-    expect(bagList.status).toBe(200);
-    const bags = bagList.data as JsonRecord[];
-    const flowBag = bags.find((bag) => bag.id === bagId);
+    const brewIdToMarkBest = firstBrew.id;
+    const markBest = await client.brews.markBest(bagId, brewIdToMarkBest);
+    expect(markBest.isBest).toBe(true);
+
+    const bagList = await client.bags.list({ status: "ACTIVE" });
+    const flowBag = bagList.items.find((bag) => bag.id === bagId);
     expect(flowBag).toBeDefined();
     expect(flowBag?.brewCount).toBe(2);
 
-    const brewList = await api(`/bags/${bagId}/brews`);
-    expect(brewList.status).toBe(200);
-    expect((brewList.data as JsonRecord[]).length).toBe(2);
+    expect(await client.brews.list(bagId)).toHaveLength(2);
 
-    const feed = await api("/feed/brews");
-    expect(feed.status).toBe(200);
-    const feedRows = feed.data as JsonRecord[];
+    const feedRows = await client.feed.brews();
     expect(feedRows.length).toBeGreaterThanOrEqual(2);
     expect(feedRows.some((row) => row.bagId === bagId)).toBe(true);
 
-    const analytics = await api(`/bags/${bagId}/analytics`);
-    expect(analytics.status).toBe(200);
-    const analyticsData = analytics.data as JsonRecord;
-    expect(analyticsData.totalBrews).toBe(2);
-    expect(analyticsData.averageRating).toBe(3.5);
-    expect(analyticsData.restingStatus).toBeTypeOf("string");
-    expect((analyticsData.bestBrew as JsonRecord).id).toBe(brewIdToMarkBest);
+    const analytics = await client.analytics.bag(bagId);
+    expect(analytics.totalBrews).toBe(2);
+    expect(analytics.averageRating).toBe(3.5);
+    expect(analytics.restingStatus).toBeTypeOf("string");
+    expect(analytics.bestBrew?.id).toBe(brewIdToMarkBest);
+    expect(analytics.roastAgeCurve).toEqual([expect.objectContaining({ brewCount: 2, averageRating: 3.5 })]);
+    expect(analytics.peakWindow).toBeNull();
+
+    // Correcting the roast date re-ages the brews already logged.
+    const threeDaysAgo = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000 - 60 * 60 * 1000).toISOString();
+    await client.bags.update(bagId, { roastDate: threeDaysAgo });
+    expect((await client.brews.list(bagId)).map((brew) => brew.daysOffRoast)).toEqual([3, 3]);
+
+    const recommendation = await client.analytics.recommendation(bagId);
+    expect(recommendation.explanation).toBeTypeOf("string");
+    expect(["SIMILAR_BAGS", "NONE"]).toContain(recommendation.source);
+
+    const dashboard = await client.analytics.me();
+    expect(dashboard.totalBrews).toBeGreaterThanOrEqual(2);
+    const originKeys = dashboard.ratingByOrigin.map((row) => row.key);
+    expect(originKeys).toContain("Panama");
+    expect(dashboard.ratingByRoastAge).toHaveLength(6);
+    expect(dashboard.roastAgeCurve.length).toBeGreaterThan(0);
+    expect(dashboard.peakWindowByRoaster.some((row) => row.roaster === "Flow Roaster")).toBe(true);
+    expect(
+      dashboard.equipmentCombos.some((combo) => combo.brewer === "Hario V60" && combo.grinder === "Baratza Virtuoso"),
+    ).toBe(true);
 
     // Archive and verify bag moves from active -> archived list.
-    const archive = await api(`/bags/${bagId}/archive`, { method: "PATCH" });
-    expect(archive.status).toBe(200);
+    const archive = await client.bags.archive(bagId);
+    expect(archive.status).toBe("ARCHIVED");
 
-    const activeAfter = await api("/bags?status=ACTIVE");
-    const activeBags = activeAfter.data as JsonRecord[];
+    const activeBags = (await client.bags.list({ status: "ACTIVE" })).items;
     expect(activeBags.some((bag) => bag.id === bagId)).toBe(false);
 
-    const archivedAfter = await api("/bags?status=ARCHIVED");
-    const archivedBags = archivedAfter.data as JsonRecord[];
+    const archivedBags = (await client.bags.list({ status: "ARCHIVED" })).items;
     const archivedBag = archivedBags.find((bag) => bag.id === bagId);
     expect(archivedBag).toBeDefined();
     expect(archivedBag?.brewCount).toBe(2);
 
-    const unarchive = await api(`/bags/${bagId}/unarchive`, { method: "PATCH" });
-    expect(unarchive.status).toBe(200);
-    const activeAgain = await api("/bags?status=ACTIVE");
-    const activeBagsAgain = activeAgain.data as JsonRecord[];
+    await client.bags.unarchive(bagId);
+    const activeBagsAgain = (await client.bags.list({ status: "ACTIVE" })).items;
     expect(activeBagsAgain.some((bag) => bag.id === bagId)).toBe(true);
   });
+
+  it("edits, soft-deletes and restores brews", async () => {
+    const { id: bagId } = await client.bags.create({
+      coffeeName: `Lifecycle Test ${Date.now()}`,
+      roaster: "Flow Roaster",
+      roastDate: "2026-02-10",
+    });
+
+    const createdBrew = await client.brews.create(bagId, {
+      method: "V60",
+      dose: 18,
+      waterAmount: 300,
+      waterTemperature: 94,
+      bloomTimeSeconds: 45,
+      bloomWater: 50,
+      brewTimeSeconds: 180,
+      beverageYield: 260,
+      tds: 1.38,
+      rating: 4.5,
+    });
+    expect(createdBrew.brewRatio).toBe(16.67);
+    expect(createdBrew.extractionYield).toBe(19.93);
+    const brewId = createdBrew.id;
+
+    const invalidBrew = await validationIssues(
+      client.brews.create(bagId, { method: "V60", waterAmount: 300, bloomWater: 400, waterTemperature: 120 }),
+    );
+    expect(invalidBrew.map((issue) => issue.field)).toEqual(["waterTemperature", "bloomWater"]);
+
+    const invalidEdit = await validationIssues(client.brews.update(bagId, brewId, { rating: 9, dose: 18.5 }));
+    expect(invalidEdit.map((issue) => issue.field)).toEqual(["dose", "rating"]);
+
+    const edit = await client.brews.update(bagId, brewId, { rating: 2.5 });
+    expect(edit.rating).toBe(2.5);
+    expect(edit.dose).toBe(18);
+
+    await client.brews.markBest(bagId, brewId);
+
+    const remove = await client.brews.delete(bagId, brewId);
+    expect(remove.isBest).toBe(false);
+    expect(remove.restoreDeadline).toBeTypeOf("string");
+
+    expect(await client.brews.list(bagId)).toHaveLength(0);
+    const analyticsAfterDelete = await client.analytics.bag(bagId);
+    expect(analyticsAfterDelete.totalBrews).toBe(0);
+    expect(analyticsAfterDelete.bestBrew).toBeNull();
+
+    const restore = await client.brews.restore(bagId, brewId);
+    expect(restore.deletedAt).toBeNull();
+
+    expect(await client.brews.list(bagId)).toHaveLength(1);
+  });
+
+  it("recommends next parameters from rated brew history", async () => {
+    const { id: bagId } = await client.bags.create({
+      coffeeName: `Recommendation Test ${Date.now()}`,
+      roaster: "Flow Roaster",
+      roastDate: "2026-02-10",
+    });
+
+    // Finer grind (lower number) rates higher, so the next suggestion should go finer still.
+    for (const [grindSetting, rating, acidity] of [
+      [24, 2.5, 5],
+      [22, 3.2, 4],
+      [20, 3.9, 3],
+      [18, 4.4, 2],
+    ] as const) {
+      await client.brews.create(bagId, { method: "V60", dose: 15, waterAmount: 250, grindSetting, rating, sensory: { acidity } });
+    }
+
+    const data = await client.analytics.recommendation(bagId);
+    expect(data.source).toBe("BAG");
+    expect(data.sampleSize).toBe(4);
+    expect(data.suggestion?.grindSetting).toBe(18);
+    expect(data.suggestion?.dose).toBe(15);
+    expect(data.explanation).toContain("a finer grind");
+    expect(data.explanation).toContain("lower acidity");
+  });
+
+  it("exports and re-imports the journal idempotently", async () => {
+    const bagId = randomUUID();
+    const brewId = randomUUID();
+    const brewer = await client.request<Json<EquipmentResponse>>("POST", "/equipment", {
+      body: { type: "BREWER", brand: "Hario", model: `Import V60 ${Date.now()}` },
+    });
+    const journal = {
+      bags: [
+        {
+          id: bagId,
+          coffeeName: `Import Test, "Quoted" ${Date.now()}`,
+          roaster: "Import Roaster",
+          origin: "Kenya",
+          roastDate: "2026-01-20T00:00:00.000Z",
+          status: "ARCHIVED",
+        },
+      ],
+      brews: [
+        { id: brewId, bagId, method: "V60", brewerId: brewer.id, dose: 15, waterAmount: 250, rating: 4, isBest: true },
+        { bagId, method: "", grinderId: brewer.id, dose: 1.5, rating: 7 },
+      ],
+    };
+    type Imported = Json<ImportResponse>;
+
+    // Row errors come back as an ImportResponse rather than field issues.
+    const invalidImport = await failure(client.request("POST", "/import", { body: journal }));
+    expect(invalidImport.status).toBe(400);
+    const invalidErrors = (invalidImport.body as Imported).errors;
+    expect(invalidErrors).toHaveLength(1);
+    expect(invalidErrors[0]?.recordType).toBe("brew");
+    expect(invalidErrors[0]?.row).toBe(2);
+    expect(invalidErrors[0]?.errors.map((issue) => issue.field)).toEqual(["method", "dose", "rating", "grinderId"]);
+
+    journal.brews.pop();
+    const dryRun = await client.request<Imported>("POST", "/import", { query: { dryRun: true }, body: journal });
+    expect(dryRun.bags).toEqual({ created: 1, updated: 0 });
+    expect((await failure(client.bags.get(bagId))).status).toBe(404);
+
+    const firstImport = await client.request<Imported>("POST", "/import", { body: journal });
+    expect(firstImport.brews).toEqual({ created: 1, updated: 0 });
+
+    const exported = await client.request<Json<JournalExport>>("GET", "/export", { query: { format: "json" } });
+    expect(exported.bags.some((bag) => bag.id === bagId)).toBe(true);
+    expect(exported.brews.find((brew) => brew.id === brewId)?.isBest).toBe(true);
+
+    const csvResponse = await fetch(`${baseUrl}/export?format=csv`);
+    expect(csvResponse.headers.get("content-type")).toContain("text/csv");
+    const csv = await csvResponse.text();
+    expect(csv.split("\r\n")[0]).toMatch(/^recordType,id,/);
+
+    // Re-importing the full CSV export only updates rows that already exist.
+    const csvImport = await client.request<Imported>("POST", "/import", {
+      headers: { "Content-Type": "text/csv" },
+      body: csv,
+    });
+    expect(csvImport.bags.created).toBe(0);
+    expect(csvImport.brews.created).toBe(0);
+
+    // Equipment links survive the round trip.
+    const importedBrews = await client.brews.list(bagId);
+    expect(importedBrews).toHaveLength(1);
+    expect(importedBrews[0]?.brewerId).toBe(brewer.id);
+    const importedBag = await client.bags.get(bagId);
+    expect(importedBag.coffeeName).toBe(journal.bags[0]?.coffeeName);
+    expect(importedBag.status).toBe("ARCHIVED");
+
+    // Brews deleted since the file was exported stay deleted.
+    await client.brews.delete(bagId, brewId);
+    await client.request<Imported>("POST", "/import", { headers: { "Content-Type": "text/csv" }, body: csv });
+    expect(await client.brews.list(bagId)).toHaveLength(0);
+  });
+
+  it("filters, sorts, searches and paginates bag lists", async () => {
+    const roaster = `Paging Roaster ${Date.now()}`;
+    const bagIds: string[] = [];
+    for (const [coffeeName, roastDate, rating] of [
+      ["Gesha Village", "2026-01-05", 4.5],
+      ["Sidamo Natural", "2026-01-15", 3],
+      ["Huila Pink Bourbon", "2026-01-25", 4],
+    ] as const) {
+      const created = await client.bags.create({ coffeeName, roaster, roastDate, origin: "Ethiopia", notes: "paging test" });
+      bagIds.push(created.id);
+      await client.brews.create(created.id, { method: "V60", rating });
+    }
+
+    const roasterFilter = { roaster: roaster.toUpperCase() };
+
+    const firstPage = await client.bags.list({ ...roasterFilter, sort: "roastDate", order: "asc", limit: 2 });
+    expect(firstPage.items.map((bag) => bag.id)).toEqual([bagIds[0], bagIds[1]]);
+    expect(firstPage.nextCursor).toBeTypeOf("string");
+
+    const secondPage = await client.bags.list({
+      ...roasterFilter,
+      sort: "roastDate",
+      order: "asc",
+      limit: 2,
+      cursor: firstPage.nextCursor,
+    });
+    expect(secondPage.items.map((bag) => bag.id)).toEqual([bagIds[2]]);
+    expect(secondPage.nextCursor).toBeNull();
+
+    // A cursor only continues the sort it came from, and its value must fit that sort.
+    const byUpdated = await client.bags.list({ ...roasterFilter, limit: 1 });
+    const nextByUpdated = await client.bags.list({ ...roasterFilter, limit: 1, cursor: byUpdated.nextCursor });
+    expect(nextByUpdated.items.map((bag) => bag.id)).toEqual([bagIds[1]]);
+    const forged = Buffer.from(JSON.stringify(["brewCount", "2026-01-05 00:00:00", bagIds[0]])).toString("base64url");
+    for (const cursor of [byUpdated.nextCursor, forged]) {
+      const mismatch = await validationIssues(client.bags.list({ ...roasterFilter, sort: "brewCount", cursor }));
+      expect(mismatch).toEqual([{ field: "cursor", message: "is invalid" }]);
+    }
+
+    const byRating = await client.bags.list({ ...roasterFilter, sort: "averageRating", minRating: 4 });
+    expect(byRating.items.map((bag) => bag.id)).toEqual([bagIds[0], bagIds[2]]);
+
+    const search = await client.bags.list({ ...roasterFilter, q: "sidam" });
+    expect(search.items.map((bag) => bag.id)).toEqual([bagIds[1]]);
+
+    const dateRange = await client.bags.list({ ...roasterFilter, roastDateFrom: "2026-01-10", roastDateTo: "2026-01-20" });
+    expect(dateRange.items.map((bag) => bag.id)).toEqual([bagIds[1]]);
+
+    const invalid = await validationIssues(
+      client.request("GET", "/bags", { query: { sort: "price", limit: 0, cursor: "nope" } }),
+    );
+    expect(invalid.map((issue) => issue.field)).toEqual(["sort", "limit", "cursor"]);
+  });
+
+  it("catalogues equipment and links brews to it", async () => {
+    const grinder = await client.request<Json<EquipmentResponse>>("POST", "/equipment", {
+      body: { type: "GRINDER", brand: "Comandante", model: `C40 ${Date.now()}`, grindSettingMax: 40 },
+    });
+    expect(grinder.displayName).toBe(`Comandante ${grinder.model}`);
+
+    const brewer = await client.request<Json<EquipmentResponse>>("POST", "/equipment", {
+      body: { type: "BREWER", brand: "Hario", model: "V60 02" },
+    });
+
+    const { id: bagId } = await client.bags.create({
+      coffeeName: `Equipment Test ${Date.now()}`,
+      roaster: "Flow Roaster",
+      roastDate: "2026-02-10",
+    });
+
+    const outOfRange = await validationIssues(
+      client.brews.create(bagId, { method: "V60", grinderId: grinder.id, brewerId: grinder.id, grindSetting: 55 }),
+    );
+    expect(outOfRange.map((issue) => issue.field)).toEqual(["brewerId", "grindSetting"]);
+
+    const brew = await client.brews.create(bagId, {
+      method: "V60",
+      grinderId: grinder.id,
+      brewerId: brewer.id,
+      grindSetting: 24,
+      rating: 4,
+    });
+    expect(brew.brewer).toBe("Hario V60 02");
+    expect(brew.grinderId).toBe(grinder.id);
+
+    const grinderAnalytics = await client.analytics.equipment(grinder.id);
+    expect(grinderAnalytics.totalBrews).toBe(1);
+    expect(grinderAnalytics.averageRating).toBe(4);
+    expect(grinderAnalytics.ratingByGrindSetting[0]?.key).toBe("24");
+
+    const list = await client.request<Json<EquipmentResponse>[]>("GET", "/equipment", { query: { type: "GRINDER" } });
+    expect(list.some((item) => item.id === grinder.id)).toBe(true);
+
+    await expect(client.request("DELETE", `/equipment/${grinder.id}`)).resolves.toBeUndefined();
+    const [unlinkedBrew] = await client.brews.list(bagId);
+    expect(unlinkedBrew?.grinderId).toBeNull();
+    expect(unlinkedBrew?.grinder).toBe(`Comandante ${grinder.model}`);
+  });
+
+  it("saves brews as recipes and brews again from them", async () => {
+    const { id: bagId } = await client.bags.create({
+      coffeeName: `Recipe Test ${Date.now()}`,
+      roaster: "Flow Roaster",
+      roastDate: "2026-02-10",
+    });
+
+    const { id: brewId } = await client.brews.create(bagId, {
+      method: "V60",
+      dose: 15,
+      grindSetting: 20,
+      waterAmount: 250,
+      waterTemperature: 94,
+      rating: 4,
+    });
+
+    const recipe = await client.request<Json<RecipeResponse>>("POST", `/bags/${bagId}/brews/${brewId}/recipe`, { body: {} });
+    expect(recipe.name).toMatch(/^Recipe Test \d+ - V60$/);
+    expect(recipe.sourceBrewId).toBe(brewId);
+    expect(recipe.waterTemperature).toBe(94);
+
+    const unknownRecipe = await validationIssues(client.brews.create(bagId, { recipeId: randomUUID() }));
+    expect(unknownRecipe.map((issue) => issue.field)).toEqual(["method", "recipeId"]);
+
+    // Recipe values prefill the brew; explicit fields override them.
+    const again = await client.brews.create(bagId, { recipeId: recipe.id, grindSetting: 18, rating: 5 });
+    expect(again.method).toBe("V60");
+    expect(again.dose).toBe(15);
+    expect(again.grindSetting).toBe(18);
+    expect(again.recipeId).toBe(recipe.id);
+
+    const rename = await failure(
+      client.request("PATCH", `/recipes/${recipe.id}`, { body: { name: "House V60", dose: "heavy" } }),
+    );
+    expect(rename.status).toBe(400);
+
+    const analytics = await client.analytics.bag(bagId);
+    expect(analytics.recipePerformance).toHaveLength(1);
+    expect(analytics.recipePerformance[0]).toMatchObject({ recipeId: recipe.id, brewCount: 1, averageRating: 5 });
+
+    const recipeAnalytics = await client.analytics.recipe(recipe.id);
+    expect(recipeAnalytics.totalBrews).toBe(1);
+
+    await expect(client.request("DELETE", `/recipes/${recipe.id}`)).resolves.toBeUndefined();
+    const missing = await failure(client.request("GET", `/recipes/${recipe.id}`));
+    expect(missing.status).toBe(404);
+  });
+
+  it("tracks bag inventory and archives empty bags", async () => {
+    const createdBag = await client.bags.create({
+      coffeeName: `Inventory Test ${Date.now()}`,
+      roaster: "Flow Roaster",
+      roastDate: "2026-02-10",
+      initialWeightGrams: 100,
+      price: 20,
+    });
+    const bagId = createdBag.id;
+    expect(createdBag).toMatchObject({ remainingGrams: 100, brewsRemaining: null, isRunningLow: false });
+
+    const badWeight = await failure(client.bags.update(bagId, { initialWeightGrams: 0 }));
+    expect(badWeight.status).toBe(400);
+
+    for (const dose of [20, 20]) {
+      await client.brews.create(bagId, { method: "V60", dose });
+    }
+
+    const detail = await client.bags.get(bagId);
+    expect(detail).toMatchObject({
+      usedGrams: 40,
+      remainingGrams: 60,
+      brewsRemaining: 3,
+      costPerCup: 4,
+      isRunningLow: true,
+    });
+
+    const list = await client.bags.list({ status: "ACTIVE", limit: 100 });
+    const listed = list.items.find((item) => item.id === bagId);
+    expect(listed).toMatchObject({ remainingGrams: 60, isRunningLow: true });
+
+    const zeroAdjustment = await failure(client.bags.adjust(bagId, { grams: 0 }));
+    expect(zeroAdjustment.status).toBe(400);
+
+    await client.bags.adjust(bagId, { grams: -45, reason: "Gave some to a friend" });
+    const adjustments = await client.bags.adjustments(bagId);
+    expect(adjustments[0]).toMatchObject({ grams: -45, reason: "Gave some to a friend" });
+
+    // The last 15g runs the bag dry, which archives it.
+    await client.brews.create(bagId, { method: "V60", dose: 15 });
+    const emptied = await client.bags.get(bagId);
+    expect(emptied).toMatchObject({ status: "ARCHIVED", remainingGrams: 0, isRunningLow: true });
+    const [autoArchived] = await client.bags.history(bagId);
+    expect(autoArchived).toMatchObject({
+      action: "ARCHIVE",
+      brewId: null,
+      changes: [{ field: "status", before: "ACTIVE", after: "ARCHIVED" }],
+    });
+  });
+
+  it("applies resting profiles by roast level, process and bag override", async () => {
+    const process = `Natural ${Date.now()}`;
+    const createProfile = (profile: JsonRecord) =>
+      client.request<Json<RestingProfileResponse>>("POST", "/resting-profiles", { body: profile });
+
+    const invalid = await validationIssues(createProfile({ name: "Broken", restDays: 10, pastPeakAfterDays: 5 }));
+    expect(invalid[0]?.field).toBe("pastPeakAfterDays");
+
+    const profile = await createProfile({
+      name: "Light naturals",
+      roastLevel: "LIGHT",
+      process: process.toUpperCase(),
+      restDays: 7,
+      peakStartDay: 10,
+      peakEndDay: 20,
+      pastPeakAfterDays: 35,
+    });
+
+    const roastDate = new Date(Date.now() - 12 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const bag = await client.bags.create({
+      coffeeName: `Resting Test ${Date.now()}`,
+      roaster: "Flow Roaster",
+      roastLevel: "LIGHT",
+      process,
+      roastDate,
+    });
+    expect(bag.restingStatus).toBe("PEAK");
+    expect(bag.restingProfile).toEqual({ id: profile.id, name: "Light naturals", source: "MATCHED" });
+    const bands = bag.restingBands;
+    expect(bands.map((band) => band.status)).toEqual(["RESTING", "READY", "PEAK", "READY", "PAST_PEAK"]);
+    expect(bands[2]).toMatchObject({ fromDay: 10, toDay: 20 });
+    expect(new Date(String(bands[2]?.startsAt)).getTime() - new Date(String(bag.roastDate)).getTime()).toBe(
+      10 * 24 * 60 * 60 * 1000,
+    );
+
+    const quickProfile = await createProfile({ name: "Espresso", restDays: 14, pastPeakAfterDays: 40 });
+    const pinned = await client.bags.update(bag.id, { restingProfileId: quickProfile.id });
+    expect(pinned).toMatchObject({ restingStatus: "RESTING", restingProfile: { source: "BAG", name: "Espresso" } });
+
+    const badLevel = await failure(client.request("PATCH", `/bags/${bag.id}`, { body: { roastLevel: "BLONDE" } }));
+    expect(badLevel.status).toBe(400);
+
+    for (const item of [quickProfile, profile]) {
+      await expect(client.request("DELETE", `/resting-profiles/${item.id}`)).resolves.toBeUndefined();
+    }
+    const fallback = await client.bags.get(bag.id);
+    expect(fallback).toMatchObject({ restingStatus: "READY", restingProfileId: null, restingProfile: { source: "DEFAULT" } });
+  });
+
+  it("streams new brews over SSE and resumes from Last-Event-ID", async () => {
+    const coffeeName = `Stream Test ${Date.now()}`;
+    const { id: bagId } = await client.bags.create({ coffeeName, roaster: "Flow Roaster", roastDate: "2026-02-10" });
+    const logBrew = async () => (await client.brews.create(bagId, { method: "V60" })).id;
+
+    const firstBrewId = await logBrew();
+
+    const live = new AbortController();
+    const stream = await fetch(`${baseUrl}/feed/stream`, { signal: live.signal });
+    expect(stream.status).toBe(200);
+    expect(stream.headers.get("content-type")).toContain("text/event-stream");
+    const secondBrewId = await logBrew();
+    const [pushed] = await readSseEvents(stream, 1);
+    live.abort();
+    expect(pushed).toMatchObject({ id: secondBrewId, event: "brew", data: { brewId: secondBrewId, coffeeName } });
+
+    const resumed = new AbortController();
+    const resumedStream = await fetch(`${baseUrl}/feed/stream`, {
+      headers: { "Last-Event-ID": firstBrewId },
+      signal: resumed.signal,
+    });
+    const [replayed] = await readSseEvents(resumedStream, 1);
+    resumed.abort();
+    expect(replayed?.id).toBe(secondBrewId);
+  });
+
+  it("hides private bags and brews from other users' feeds and shows display names", async () => {
+    // Another account's data, written directly since tests run as the guest user.
+    const otherUserId = randomUUID();
+    const tag = `Privacy Test ${Date.now()}`;
+    await store.profiles.save(otherUserId, { displayName: "Other Brewer" });
+    const publicBag = await store.bags.create({
+      userId: otherUserId,
+      coffeeName: `${tag} public`,
+      roaster: "Flow Roaster",
+      visibility: "PUBLIC",
+    });
+    const privateBag = await store.bags.create({
+      userId: otherUserId,
+      coffeeName: `${tag} private`,
+      roaster: "Flow Roaster",
+      visibility: "PRIVATE",
+    });
+    const publicBrew = await store.brews.create({ bagId: publicBag.id, userId: otherUserId, method: "V60" });
+    await store.brews.create({ bagId: publicBag.id, userId: otherUserId, method: "Hidden", visibility: "FOLLOWERS" });
+    await store.brews.create({ bagId: privateBag.id, userId: otherUserId, method: "V60", visibility: "PUBLIC" });
+    const updateProfile = (changes: JsonRecord) =>
+      client.request<Json<ProfileResponse>>("PATCH", "/profiles/me", { body: changes });
+
+    const invalid = await validationIssues(
+      updateProfile({ avatarUrl: "javascript:alert(1)", defaultVisibility: "EVERYONE" }),
+    );
+    expect(invalid).toEqual([
+      { field: "avatarUrl", message: "must be an http(s) URL" },
+      { field: "defaultVisibility", message: "must be one of PUBLIC, FOLLOWERS, PRIVATE" },
+    ]);
+
+    const saved = await updateProfile({ displayName: "  Guest Brewer ", defaultVisibility: "PRIVATE" });
+    expect(saved).toMatchObject({ displayName: "Guest Brewer", defaultVisibility: "PRIVATE" });
+
+    // New bags pick up the profile default; the owner still sees them in their feed.
+    const ownBag = await client.bags.create({ coffeeName: `${tag} own`, roaster: "Flow Roaster", roastDate: "2026-02-10" });
+    expect(ownBag).toMatchObject({ visibility: "PRIVATE" });
+    const ownBrew = await client.brews.create(ownBag.id, { method: "Aeropress", visibility: "PUBLIC" });
+    expect(ownBrew).toMatchObject({ visibility: "PUBLIC" });
+
+    const feed = await client.feed.brews({ limit: 200 });
+    const tagged = feed.filter((item) => item.coffeeName.startsWith(tag));
+    expect(tagged.map((item) => item.coffeeName).sort()).toEqual([`${tag} own`, `${tag} public`]);
+    expect(tagged.find((item) => item.brewId === publicBrew.id)).toMatchObject({
+      userId: otherUserId,
+      displayName: "Other Brewer",
+      avatarUrl: null,
+    });
+    expect(tagged.find((item) => item.coffeeName === `${tag} own`)).toMatchObject({ displayName: "Guest Brewer" });
+
+    const publicProfile = await client.request<Json<PublicProfileResponse>>("GET", `/profiles/${otherUserId}`);
+    expect(publicProfile).toEqual({
+      userId: otherUserId,
+      displayName: "Other Brewer",
+      avatarUrl: null,
+      bio: null,
+      followerCount: 0,
+      followingCount: 0,
+      followedByMe: false,
+    });
+    const missingProfile = await failure(client.request("GET", `/profiles/${randomUUID()}`));
+    expect(missingProfile.status).toBe(404);
+
+    const reset = await updateProfile({ displayName: "", defaultVisibility: null });
+    expect(reset).toMatchObject({ displayName: null, defaultVisibility: null });
+  });
+
+  it("follows users, likes and comments on brews and fills the notifications inbox", async () => {
+    const guestId = "00000000-0000-0000-0000-000000000001";
+    const otherUserId = randomUUID();
+    const tag = `Social Test ${Date.now()}`;
+    await store.profiles.save(otherUserId, { displayName: "Friendly Brewer" });
+    const otherBag = await store.bags.create({
+      userId: otherUserId,
+      coffeeName: tag,
+      roaster: "Flow Roaster",
+      visibility: "FOLLOWERS",
+    });
+    const otherBrew = await store.brews.create({ bagId: otherBag.id, userId: otherUserId, method: "V60" });
+    const otherBrewId = otherBrew.id;
+
+    const feedIds = async (feed: Promise<Array<{ brewId: string }>>) => (await feed).map((item) => item.brewId);
+    expect(await feedIds(client.feed.brews({ limit: 200 }))).not.toContain(otherBrewId);
+    expect((await failure(client.feed.like(otherBrewId))).status).toBe(404);
+
+    const followSelf = await failure(client.request("POST", `/users/${guestId}/follow`));
+    expect(followSelf.status).toBe(400);
+    await expect(client.request("POST", `/users/${otherUserId}/follow`)).resolves.toBeUndefined();
+    expect(await feedIds(client.feed.brews({ limit: 200 }))).toContain(otherBrewId);
+    expect(await feedIds(client.feed.following())).toEqual([otherBrewId]);
+    const followList = await client.request<Json<FollowListResponse>>("GET", "/follows");
+    expect(followList.following).toContainEqual(
+      expect.objectContaining({ userId: otherUserId, displayName: "Friendly Brewer" }),
+    );
+    const otherProfile = await client.request<Json<PublicProfileResponse>>("GET", `/profiles/${otherUserId}`);
+    expect(otherProfile).toMatchObject({ followerCount: 1, followingCount: 0, followedByMe: true });
+
+    // Liking is idempotent and notifies the owner once.
+    await client.feed.like(otherBrewId);
+    const liked = await client.feed.like(otherBrewId);
+    expect(liked).toEqual({ brewId: otherBrewId, likeCount: 1, likedByMe: true });
+
+    const comment = await client.feed.comment(otherBrewId, { body: "  Lovely cup  " });
+    expect(comment).toMatchObject({ body: "Lovely cup", parentId: null, userId: guestId });
+    const commentId = comment.id;
+    const otherReply = await store.feed.createComment({
+      brewId: otherBrewId,
+      userId: otherUserId,
+      parentId: commentId,
+      body: "Thanks!",
+    });
+    const reply = await client.feed.comment(otherBrewId, { body: "What grind?", parentId: otherReply.id });
+    expect(reply.parentId).toBe(otherReply.id);
+    const badParent = await validationIssues(client.feed.comment(otherBrewId, { body: "", parentId: randomUUID() }));
+    expect(badParent).toEqual([
+      { field: "body", message: "is required" },
+      { field: "parentId", message: "must reference a comment on this brew" },
+    ]);
+
+    const [feedItem] = await client.feed.following();
+    expect(feedItem).toMatchObject({ likeCount: 1, commentCount: 3, likedByMe: true, displayName: "Friendly Brewer" });
+
+    // Deleting a comment with replies keeps its place in the thread.
+    await expect(client.feed.deleteComment(otherBrewId, commentId)).resolves.toBeUndefined();
+    const thread = await client.feed.comments(otherBrewId);
+    expect(thread).toHaveLength(1);
+    expect(thread[0]).toMatchObject({ id: commentId, body: null });
+    expect(thread[0]?.replies).toEqual([
+      expect.objectContaining({
+        displayName: "Friendly Brewer",
+        body: "Thanks!",
+        replies: [expect.objectContaining({ body: "What grind?" })],
+      }),
+    ]);
+
+    const received = () => store.feed.listNotifications(otherUserId, { unreadOnly: false, limit: 100 });
+    expect((await received()).map((row) => row.type).sort()).toEqual(["COMMENT", "LIKE", "REPLY"]);
+
+    const unliked = await client.feed.unlike(otherBrewId);
+    expect(unliked).toEqual({ brewId: otherBrewId, likeCount: 0, likedByMe: false });
+    expect((await received()).filter((row) => row.type === "LIKE")).toHaveLength(0);
+
+    // The guest's own inbox.
+    const guestBag = await client.bags.create({ coffeeName: `${tag} guest`, roaster: "Flow Roaster", roastDate: "2026-02-10" });
+    const guestBrew = await client.brews.create(guestBag.id, { method: "Aeropress" });
+    const [incoming] = await store.feed.createNotifications([
+      { userId: guestId, actorId: otherUserId, type: "LIKE", brewId: guestBrew.id },
+    ]);
+    const unread = () =>
+      client.request<Json<NotificationListResponse>>("GET", "/notifications", { query: { unread: true } });
+    expect((await unread()).items).toContainEqual(
+      expect.objectContaining({ id: incoming!.id, actorDisplayName: "Friendly Brewer", coffeeName: `${tag} guest` }),
+    );
+    await expect(
+      client.request("PATCH", "/notifications/read", { body: { ids: [incoming!.id] } }),
+    ).resolves.toBeUndefined();
+    expect((await unread()).items.map((item) => item.id)).not.toContain(incoming!.id);
+
+    await expect(client.request("DELETE", `/users/${otherUserId}/follow`)).resolves.toBeUndefined();
+    expect(await feedIds(client.feed.following())).toEqual([]);
+  });
+
+  it("shares bags with member roles, invite links and per-brewer analytics", async () => {
+    const guestId = "00000000-0000-0000-0000-000000000001";
+    const otherUserId = randomUUID();
+    const tag = `Shared Test ${Date.now()}`;
+    await store.profiles.save(otherUserId, { displayName: "Housemate" });
+    const sharedBag = await store.bags.create({
+      userId: otherUserId,
+      coffeeName: tag,
+      roaster: "Flow Roaster",
+      visibility: "PRIVATE",
+    });
+    const sharedBagId = sharedBag.id;
+    const otherBrew = await store.brews.create({ bagId: sharedBagId, userId: otherUserId, method: "V60", rating: 3 });
+    expect((await failure(client.bags.get(sharedBagId))).status).toBe(404);
+
+    // Viewers can read the bag but not brew from it.
+    await store.bags.saveMember(sharedBagId, guestId, "VIEWER");
+    const listed = await client.bags.list({ q: tag });
+    expect(listed.items).toEqual([expect.objectContaining({ id: sharedBagId, role: "VIEWER" })]);
+    const viewerBrew = await failure(client.brews.create(sharedBagId, { method: "Aeropress" }));
+    expect(viewerBrew.status).toBe(403);
+    expect(viewerBrew.body).toEqual({ error: "Requires the BREWER role on this bag" });
+    expect(viewerBrew.message).toBe("Requires the BREWER role on this bag");
+
+    // Brewers log their own brews but can't touch anyone else's or the bag itself.
+    await store.bags.updateMember(sharedBagId, guestId, "BREWER");
+    const guestBrew = await client.brews.create(sharedBagId, { method: "Aeropress", rating: 4.5 });
+    expect(guestBrew).toMatchObject({ userId: guestId });
+    const editOther = await failure(client.brews.update(sharedBagId, otherBrew.id, { rating: 1 }));
+    expect(editOther.status).toBe(404);
+    const renameBag = await failure(client.bags.update(sharedBagId, { coffeeName: "Mine now" }));
+    expect(renameBag.status).toBe(403);
+    expect((await failure(client.bags.invites(sharedBagId))).status).toBe(403);
+
+    const analytics = await client.analytics.bag(sharedBagId);
+    expect(analytics.brewerPerformance).toEqual([
+      expect.objectContaining({ userId: guestId, brewCount: 1, averageRating: 4.5 }),
+      expect.objectContaining({ userId: otherUserId, displayName: "Housemate", brewCount: 1, averageRating: 3 }),
+    ]);
+    const members = await client.bags.members(sharedBagId);
+    expect(members).toEqual([
+      expect.objectContaining({ userId: otherUserId, displayName: "Housemate", role: "OWNER" }),
+      expect.objectContaining({ userId: guestId, role: "BREWER" }),
+    ]);
+
+    // Owners editing someone else's brew link that brewer's equipment, not their own.
+    await store.bags.updateMember(sharedBagId, guestId, "OWNER");
+    const otherBrewer = await store.equipment.create({ userId: otherUserId, type: "BREWER", model: "Housemate V60" });
+    const relinked = await client.brews.update(sharedBagId, otherBrew.id, { brewerId: otherBrewer.id });
+    expect(relinked).toMatchObject({ brewerId: otherBrewer.id, brewer: "Housemate V60" });
+    const guestBrewer = await client.request<Json<EquipmentResponse>>("POST", "/equipment", {
+      body: { type: "BREWER", model: `Guest V60 ${Date.now()}` },
+    });
+    const linkGuestEquipment = await validationIssues(
+      client.brews.update(sharedBagId, otherBrew.id, { brewerId: guestBrewer.id }),
+    );
+    expect(linkGuestEquipment).toEqual([{ field: "brewerId", message: "must reference your equipment" }]);
+
+    await expect(client.bags.removeMember(sharedBagId, guestId)).resolves.toBeUndefined();
+    expect((await failure(client.bags.get(sharedBagId))).status).toBe(404);
+
+    // Owners manage members and invite links on their own bags.
+    const ownBag = await client.bags.create({ coffeeName: `${tag} own`, roaster: "Flow Roaster", roastDate: "2026-02-10" });
+    expect(ownBag).toMatchObject({ role: "OWNER" });
+    const ownBagId = ownBag.id;
+    const badInvite = await validationIssues(
+      client.request("POST", `/bags/${ownBagId}/invites`, { body: { role: "ADMIN", expiresInHours: 0 } }),
+    );
+    expect(badInvite).toEqual([
+      { field: "role", message: "must be one of VIEWER, BREWER, OWNER" },
+      { field: "expiresInHours", message: "must be between 1 and 2160" },
+    ]);
+    const invite = await client.bags.createInvite(ownBagId);
+    expect(invite).toMatchObject({ bagId: ownBagId, role: "BREWER", revokedAt: null });
+    const { id: inviteId, token } = invite;
+
+    const accepted = await client.bags.acceptInvite(token);
+    expect(accepted).toEqual({ bagId: ownBagId, role: "OWNER" });
+    expect((await client.bags.invites(ownBagId)).map((item) => item.id)).toEqual([inviteId]);
+
+    await store.bags.saveMember(ownBagId, otherUserId, "BREWER");
+    const demoted = await client.bags.updateMember(ownBagId, otherUserId, { role: "VIEWER" });
+    expect(demoted).toMatchObject({ userId: otherUserId, displayName: "Housemate", role: "VIEWER" });
+    const demoteCreator = await failure(client.bags.updateMember(ownBagId, guestId, { role: "VIEWER" }));
+    expect(demoteCreator.status).toBe(400);
+    await expect(client.bags.removeMember(ownBagId, otherUserId)).resolves.toBeUndefined();
+
+    await expect(client.bags.revokeInvite(ownBagId, inviteId)).resolves.toBeUndefined();
+    expect((await failure(client.bags.acceptInvite(token))).status).toBe(404);
+    expect(await client.bags.invites(ownBagId)).toEqual([]);
+  });
+
+  it("verifies JWTs locally with a shared secret or cached JWKS and signs in local accounts", async () => {
+    const userId = randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+    const claims = { sub: userId, aud: "authenticated", exp: now + 300, email: "flow@example.com" };
+
+    const secretProvider = createSupabaseAuthProvider({ hs256Secret: "flow-secret", audience: "authenticated" });
+    expect(await secretProvider.verifyAccessToken(signHs256Jwt(claims, "flow-secret"))).toEqual({
+      id: userId,
+      email: "flow@example.com",
+    });
+    expect(await secretProvider.verifyAccessToken(signHs256Jwt(claims, "other-secret"))).toBeNull();
+    expect(await secretProvider.verifyAccessToken(signHs256Jwt({ ...claims, exp: now - 120 }, "flow-secret"))).toBeNull();
+    expect(await secretProvider.verifyAccessToken(signHs256Jwt({ ...claims, aud: "anon" }, "flow-secret"))).toBeNull();
+    expect(await secretProvider.verifyAccessToken("not-a-jwt")).toBeNull();
+
+    // Asymmetric keys come from a JWKS endpoint that is fetched once and cached.
+    const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    let jwksRequests = 0;
+    const jwksServer = createServer((_req, res) => {
+      jwksRequests += 1;
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: "flow-key", alg: "ES256" }] }));
+    });
+    jwksServer.listen(0);
+    await new Promise<void>((resolve) => jwksServer.once("listening", () => resolve()));
+    const signEs256 = (kid: string) => {
+      const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+      const signingInput = `${encode({ alg: "ES256", kid })}.${encode(claims)}`;
+      const signature = sign("sha256", Buffer.from(signingInput), { key: privateKey, dsaEncoding: "ieee-p1363" });
+      return `${signingInput}.${signature.toString("base64url")}`;
+    };
+    try {
+      const jwksProvider = createSupabaseAuthProvider({
+        jwksUrl: `http://127.0.0.1:${(jwksServer.address() as AddressInfo).port}/jwks.json`,
+        audience: "authenticated",
+      });
+      expect(await jwksProvider.verifyAccessToken(signEs256("flow-key"))).toMatchObject({ id: userId });
+      expect(await jwksProvider.verifyAccessToken(signEs256("flow-key"))).toMatchObject({ id: userId });
+      expect(await jwksProvider.verifyAccessToken(signEs256("unknown-key"))).toBeNull();
+      expect(await jwksProvider.verifyAccessToken(signHs256Jwt(claims, "flow-secret"))).toBeNull();
+      expect(jwksRequests).toBe(1);
+    } finally {
+      await new Promise<void>((resolve) => jwksServer.close(() => resolve()));
+    }
+
+    const local = createLocalAuthProvider({
+      secret: "local-secret",
+      audience: "authenticated",
+      tokenTtlHours: 1,
+      allowSignup: true,
+    });
+    const email = `Flow-${Date.now()}@Example.com`;
+    const registered = await local.register(email, "correct horse");
+    expect(registered).toMatchObject({ tokenType: "bearer", user: { email: email.toLowerCase() } });
+    expect(await local.register(email.toLowerCase(), "another password")).toBeNull();
+    expect(await local.login(email, "wrong password")).toBeNull();
+    const loggedIn = await local.login(email, "correct horse");
+    expect(loggedIn?.user.id).toBe(registered?.user.id);
+    expect(await local.verifyAccessToken(loggedIn!.accessToken)).toEqual(registered?.user);
+    expect(await secretProvider.verifyAccessToken(loggedIn!.accessToken)).toBeNull();
+
+    // Bad tokens are rejected instead of silently running as the guest.
+    const badToken = await failure(createApiClient({ baseUrl, token: "not-a-jwt" }).bags.list());
+    expect(badToken.status).toBe(401);
+    expect((await failure(client.request("POST", "/auth/login"))).status).toBe(404);
+  });
+
+  it("authenticates scripts with scoped personal access tokens", async () => {
+    const { id: bagId } = await client.bags.create({
+      coffeeName: `Token Test ${Date.now()}`,
+      roaster: "Flow Roaster",
+      roastDate: "2026-02-10",
+    });
+
+    const invalid = await validationIssues(
+      client.request("POST", "/tokens", { body: { name: " ", scopes: ["write:everything"], expiresInDays: 0 } }),
+    );
+    expect(invalid).toEqual([
+      { field: "name", message: "is required" },
+      { field: "scopes", message: expect.stringContaining("must only contain read:bags") },
+      { field: "expiresInDays", message: "must be between 1 and 3650" },
+    ]);
+
+    const created = await client.request<Json<CreatedApiTokenResponse>>("POST", "/tokens", {
+      body: { name: "Scale bridge", scopes: ["read:bags", "write:brews"], expiresInDays: 30 },
+    });
+    const { id: tokenId, token } = created;
+    expect(token).toMatch(/^ct_/);
+    expect(created).toMatchObject({ name: "Scale bridge", scopes: ["read:bags", "write:brews"], lastUsedAt: null });
+    const script = createApiClient({ baseUrl, token });
+
+    const brew = await script.brews.create(bagId, { method: "V60" });
+    expect(brew.bagId).toBe(bagId);
+    expect((await script.bags.get(bagId)).id).toBe(bagId);
+    const listBrews = await failure(script.brews.list(bagId));
+    expect(listBrews.body).toEqual({ error: "Token is missing the read:brews scope" });
+    const saveRecipe = await failure(
+      script.request("POST", `/bags/${bagId}/brews/${brew.id}/recipe`, { body: { name: "Scale recipe" } }),
+    );
+    expect(saveRecipe.body).toEqual({ error: "Token is missing the write:recipes scope" });
+
+    // The journal carries brews too, so bag scopes alone don't reach it.
+    const bagsOnly = await client.request<Json<CreatedApiTokenResponse>>("POST", "/tokens", {
+      body: { name: "Bags only", scopes: ["read:bags", "write:bags"] },
+    });
+    const bagsScript = createApiClient({ baseUrl, token: bagsOnly.token });
+    await expect(bagsScript.request("GET", "/resting-profiles")).resolves.toBeInstanceOf(Array);
+    const exportJournal = await failure(bagsScript.request("GET", "/export", { query: { format: "json" } }));
+    expect(exportJournal.status).toBe(403);
+    expect(exportJournal.body).toEqual({ error: "Token is missing the read:brews scope" });
+    const importJournal = await failure(bagsScript.request("POST", "/import", { body: { bags: [], brews: [] } }));
+    expect(importJournal.status).toBe(403);
+    expect(importJournal.body).toEqual({ error: "Token is missing the write:brews scope" });
+    await expect(client.request("DELETE", `/tokens/${bagsOnly.id}`)).resolves.toBeUndefined();
+    const rename = await failure(script.bags.update(bagId, { notes: "x" }));
+    expect(rename.status).toBe(403);
+    expect((await failure(script.request("GET", "/tokens"))).status).toBe(403);
+
+    const listTokens = () => client.request<Json<ApiTokenResponse>[]>("GET", "/tokens");
+    const listed = await listTokens();
+    expect(listed.find((item) => item.id === tokenId)).toMatchObject({ prefix: token.slice(0, 9) });
+    expect(listed.find((item) => item.id === tokenId)?.lastUsedAt).not.toBeNull();
+    expect(JSON.stringify(listed)).not.toContain(token);
+
+    await store.apiTokens.update(tokenId, { expiresAt: new Date(Date.now() - 1000) });
+    expect((await failure(script.bags.get(bagId))).status).toBe(401);
+    await store.apiTokens.update(tokenId, { expiresAt: null });
+
+    await expect(client.request("DELETE", `/tokens/${tokenId}`)).resolves.toBeUndefined();
+    expect((await failure(script.bags.get(bagId))).status).toBe(401);
+    expect((await listTokens()).map((item) => item.id)).not.toContain(tokenId);
+  });
+
+  it("times brew sessions and logs them with a pour schedule", async () => {
+    const { id: bagId } = await client.bags.create({
+      coffeeName: `Timer Test ${Date.now()}`,
+      roaster: "Flow Roaster",
+      roastDate: "2026-02-10",
+    });
+    const sessions = client.brews.sessions;
+    const { id: sessionId } = await sessions.start(bagId);
+    const record = (event: Input<RecordBrewEventRequest>) => sessions.record(bagId, sessionId, event);
+
+    await record({ type: "BLOOM_START", grams: 40, elapsedSeconds: 0 });
+    const mistake = await record({ type: "POUR", grams: 500, elapsedSeconds: 30 });
+    const mistakeId = mistake.events[1]?.id;
+    const undone = await sessions.undo(bagId, sessionId, String(mistakeId));
+    expect(undone.events).toHaveLength(1);
+    await record({ type: "POUR", grams: 100, elapsedSeconds: 45 });
+    const invalid = await validationIssues(record({ type: "POUR", elapsedSeconds: 20 }));
+    expect(invalid).toEqual([
+      { field: "grams", message: "is required for a pour" },
+      { field: "elapsedSeconds", message: "must not be before the previous event" },
+    ]);
+    await record({ type: "POUR", grams: 110, elapsedSeconds: 90.5 });
+    const drawdown = await record({ type: "DRAWDOWN_END", elapsedSeconds: 180 });
+    expect(drawdown.pourSchedule).toEqual([
+      { type: "BLOOM_START", elapsedSeconds: 0, grams: 40, totalGrams: 40 },
+      { type: "POUR", elapsedSeconds: 45, grams: 100, totalGrams: 140 },
+      { type: "POUR", elapsedSeconds: 90.5, grams: 110, totalGrams: 250 },
+      { type: "DRAWDOWN_END", elapsedSeconds: 180, grams: null, totalGrams: 250 },
+    ]);
+    expect((await failure(record({ type: "POUR", grams: 10 }))).status).toBe(400);
+    expect((await sessions.list(bagId)).map((item) => item.id)).toEqual([sessionId]);
+
+    const finished = await sessions.finish(bagId, sessionId, { method: "V60", dose: 15, rating: 4, waterAmount: null });
+    expect(finished).toMatchObject({
+      method: "V60",
+      brewTimeSeconds: 180,
+      waterAmount: 250,
+      bloomWater: 40,
+      bloomTimeSeconds: 45,
+    });
+    const history = await client.brews.list(bagId);
+    expect(history[0]?.pourSchedule).toHaveLength(4);
+    expect(await sessions.get(bagId, sessionId)).toMatchObject({ brewId: finished.id });
+    const finishedTwice = await failure(client.request("POST", `/bags/${bagId}/brew-sessions/${sessionId}/finish`));
+    expect(finishedTwice.status).toBe(409);
+
+    const abandoned = await sessions.start(bagId);
+    await expect(sessions.cancel(bagId, abandoned.id)).resolves.toBeUndefined();
+    expect(await sessions.list(bagId)).toEqual([]);
+    expect(await client.brews.list(bagId)).toHaveLength(1);
+  });
+
+  it("compares brews across bags with parameter diffs and rating deltas", async () => {
+    const createBag = async (roastDate: string) =>
+      (await client.bags.create({ coffeeName: `Compare Test ${Date.now()}`, roaster: "Flow Roaster", roastDate })).id;
+    const createBrew = async (bagId: string, brew: Input<CreateBrewRequest>) => (await client.brews.create(bagId, brew)).id;
+    const firstBagId = await createBag("2026-01-10");
+    const secondBagId = await createBag("2026-01-05");
+    const baselineId = await createBrew(firstBagId, {
+      method: "V60",
+      dose: 16,
+      grindSetting: 20,
+      waterAmount: 250,
+      rating: 3.2,
+      sensory: { acidity: 2 },
+    });
+    const otherId = await createBrew(secondBagId, {
+      method: "V60",
+      dose: 15,
+      grindSetting: 22,
+      waterAmount: 250,
+      rating: 4.5,
+      sensory: { acidity: 4 },
+    });
+
+    const comparison = await client.brews.compare(firstBagId, [baselineId, otherId]);
+    expect(comparison.baselineBrewId).toBe(baselineId);
+    const [baseline, other] = comparison.brews;
+    expect(baseline).toMatchObject({ ratingDelta: 0, changes: [] });
+    expect(other).toMatchObject({ ratingDelta: 1.3, tasteProfile: { acidity: 4 } });
+    expect(other!.changes).toEqual([
+      { field: "dose", from: 16, to: 15, delta: -1 },
+      { field: "grindSetting", from: 20, to: 22, delta: 2 },
+      { field: "brewRatio", from: 15.63, to: 16.67, delta: 1.04 },
+      { field: "daysOffRoast", from: expect.any(Number), to: expect.any(Number), delta: 5 },
+    ]);
+    expect(comparison.parameters.find((row) => row.field === "waterAmount")).toEqual({
+      field: "waterAmount",
+      values: [250, 250],
+      changed: false,
+    });
+
+    const invalid = await failure(client.brews.compare(firstBagId, [baselineId]));
+    expect(invalid.status).toBe(400);
+    const hiddenBag = await store.bags.create({
+      userId: randomUUID(),
+      coffeeName: "Hidden",
+      roaster: "Flow Roaster",
+      visibility: "PRIVATE",
+    });
+    const hiddenBrew = await store.brews.create({ bagId: hiddenBag.id, userId: hiddenBag.userId, method: "V60" });
+    const hidden = await failure(client.brews.compare(firstBagId, [baselineId, hiddenBrew.id]));
+    expect(hidden.status).toBe(404);
+  });
+
+  it("links bags to a roaster and coffee catalogue and merges duplicates", async () => {
+    const tag = `Catalogue ${Date.now()}`;
+    const createBag = (bag: Omit<Input<CreateBagRequest>, "roastDate">) =>
+      client.bags.create({ roastDate: "2026-03-01", ...bag });
+
+    const first = await createBag({ coffeeName: "Guji Natural", roaster: `${tag} Roasters`, origin: "Ethiopia" });
+    const repurchase = await createBag({ coffeeName: "guji natural ", roaster: `${tag} ROASTERS` });
+    expect(first.coffeeId).toBeTruthy();
+    expect(repurchase.coffeeId).toBe(first.coffeeId);
+    const misspelt = await createBag({ coffeeName: "Guji Natrual", roaster: `${tag} Roasters Ltd` });
+    expect(misspelt.coffeeId).not.toBe(first.coffeeId);
+
+    const roasterList = await client.request<Json<RoasterResponse>[]>("GET", "/roasters", { query: { q: tag } });
+    expect(roasterList.map((item) => [item.name, item.coffeeCount, item.bagCount])).toEqual([
+      [`${tag} Roasters`, 1, 2],
+      [`${tag} Roasters Ltd`, 1, 1],
+    ]);
+    const [target, duplicate] = roasterList;
+    const mergedRoaster = await client.request<Json<RoasterDetailResponse>>("POST", `/roasters/${target!.id}/merge`, {
+      body: { sourceIds: [duplicate!.id] },
+    });
+    expect(mergedRoaster.coffees).toHaveLength(2);
+    expect(await client.bags.get(misspelt.id)).toMatchObject({ roaster: `${tag} Roasters` });
+
+    const suggestions = await client.request<Json<CoffeeResponse>[]>("GET", "/coffees", {
+      query: { q: "guji", roasterId: target!.id },
+    });
+    expect(suggestions.map((item) => item.name)).toEqual(["Guji Natrual", "Guji Natural"]);
+    const mergedCoffee = await client.request<Json<CoffeeResponse>>("POST", `/coffees/${first.coffeeId}/merge`, {
+      body: { sourceIds: [misspelt.coffeeId] },
+    });
+    expect(mergedCoffee).toMatchObject({ name: "Guji Natural", country: "Ethiopia", bagCount: 3 });
+
+    const edited = await client.request<Json<CoffeeResponse>>("PATCH", `/coffees/${first.coffeeId}`, {
+      body: { region: "Guji", farm: "Hambela", variety: "Heirloom", altitude: 2100, process: "Natural" },
+    });
+    expect(edited.region).toBe("Guji");
+    expect(await client.bags.get(misspelt.id)).toMatchObject({
+      coffeeId: first.coffeeId,
+      coffeeName: "Guji Natural",
+      process: "Natural",
+    });
+
+    const third = await createBag({ coffeeId: first.coffeeId });
+    expect(third).toMatchObject({ coffeeName: "Guji Natural", roaster: `${tag} Roasters`, origin: "Ethiopia" });
+    await client.brews.create(third.id, { method: "V60", rating: 4 });
+    const detail = await client.request<Json<CoffeeDetailResponse>>("GET", `/coffees/${first.coffeeId}`);
+    expect(detail.purchases.map((item) => [item.bagId, item.brewCount, item.averageRating])).toEqual([
+      [first.id, 0, null],
+      [repurchase.id, 0, null],
+      [misspelt.id, 0, null],
+      [third.id, 1, 4],
+    ]);
+    const clash = await failure(client.request("POST", "/roasters", { body: { name: `${tag} roasters` } }));
+    expect(clash.status).toBe(409);
+  });
+
+  it("tags brews from the flavour wheel and scores custom sensory attributes", async () => {
+    const stamp = Date.now();
+    const wheel = await client.request<Json<FlavourWheelNode>[]>("GET", "/flavour-wheel");
+    const fruity = wheel.find((node) => node.key === "fruity");
+    expect(fruity?.children.map((node) => node.key)).toContain("fruity.berry");
+
+    const createAttribute = (attribute: JsonRecord) =>
+      client.request<Json<SensoryAttributeResponse>>("POST", "/sensory-attributes", { body: attribute });
+    const attribute = await createAttribute({ label: `Juiciness ${stamp}`, max: 10 });
+    const key = `juiciness-${stamp}`;
+    expect(attribute).toMatchObject({ key, min: 0, max: 10, builtIn: false });
+    const builtInClash = await failure(createAttribute({ label: "Body" }));
+    expect(builtInClash.status).toBe(409);
+
+    const origin = `Origin ${stamp}`;
+    const { id: bagId } = await client.bags.create({
+      coffeeName: "Wheel Test",
+      roaster: "Wheel Roasters",
+      origin,
+      roastDate: "2026-03-01",
+    });
+    const logBrew = (brew: Partial<Input<CreateBrewRequest>>) => client.brews.create(bagId, { method: "V60", ...brew });
+
+    const invalid = await validationIssues(
+      logBrew({ sensory: { [key]: 11, sparkle: 2 }, flavourTags: ["fruity.banana"] }),
+    );
+    expect(invalid).toEqual([
+      { field: `sensory.${key}`, message: "must be between 0 and 10" },
+      { field: "sensory.sparkle", message: "is not a sensory attribute" },
+      { field: "flavourTags", message: "has unknown flavour wheel tags: fruity.banana" },
+    ]);
+
+    await logBrew({ sensory: { body: 4, [key]: 8 }, flavourTags: ["fruity.berry.blueberry", "floral.floral.jasmine"] });
+    await logBrew({ sensory: { body: 2 }, flavourTags: ["fruity.berry.raspberry"] });
+
+    const analytics = await client.analytics.bag(bagId);
+    expect(analytics.averageTasteProfile).toEqual({ body: 3, [key]: 8 });
+    expect(analytics.flavourTags.slice(0, 3)).toEqual([
+      { key: "fruity", name: "Fruity", depth: 1, brewCount: 2 },
+      { key: "fruity.berry", name: "Berry", depth: 2, brewCount: 2 },
+      { key: "floral", name: "Floral", depth: 1, brewCount: 1 },
+    ]);
+    const dashboard = await client.analytics.me();
+    const byOrigin = dashboard.flavourTagsByOrigin.find((item) => item.origin === origin);
+    expect(byOrigin).toMatchObject({
+      brewCount: 2,
+      flavourTags: expect.arrayContaining([{ key: "fruity.berry.raspberry", name: "Raspberry", depth: 3, brewCount: 1 }]),
+    });
+
+    // Deleting an attribute drops its scores from the user's brews.
+    await expect(client.request("DELETE", `/sensory-attributes/${attribute.id}`)).resolves.toBeUndefined();
+    const brewsAfter = await client.brews.list(bagId);
+    expect(brewsAfter.map((brew) => brew.sensory)).toEqual(expect.arrayContaining([{ body: 4 }, { body: 2 }]));
+  });
+
+  it("declares a contract for every route and serves the OpenAPI document", async () => {
+    // Responses are checked against these contracts on every request in this suite.
+    const registered = app.router.stack.flatMap((layer) => {
+      const route = layer.route as { path: string; methods: Record<string, boolean> } | undefined;
+      return route ? Object.keys(route.methods).map((method) => `${method} ${route.path}`) : [];
+    });
+    const declared = ROUTES.map((route) => `${route.method} ${route.path}`);
+    expect(registered.filter((key) => !declared.includes(key))).toEqual([]);
+    expect(declared.filter((key) => !registered.includes(key))).toEqual([]);
+
+    const spec = await client.request<{ openapi: string; paths: Record<string, JsonRecord>; components: JsonRecord }>(
+      "GET",
+      "/openapi.json",
+    );
+    expect(spec.openapi).toMatch(/^3\./);
+    expect(spec.paths["/bags/{id}"]?.patch).toMatchObject({
+      requestBody: { content: { "application/json": { schema: { $ref: "#/components/schemas/UpdateBagRequest" } } } },
+    });
+    expect(Object.keys(spec.components.schemas as JsonRecord)).toContain("BagDetailResponse");
+
+    const { id: bagId } = await client.bags.create({
+      coffeeName: `Contract Test ${Date.now()}`,
+      roaster: "Flow Roaster",
+      roastDate: "2026-02-10",
+    });
+    const badEdit = await validationIssues(client.request("PATCH", `/bags/${bagId}`, { body: { coffeeName: 42, price: -1 } }));
+    expect(badEdit).toEqual([
+      { field: "coffeeName", message: "must be a string" },
+      { field: "price", message: "must be between 0 and 100000" },
+    ]);
+
+    const archived = await client.bags.archive(bagId);
+    expect(archived).toMatchObject({ id: bagId, status: "ARCHIVED", role: "OWNER", restingStatus: expect.any(String) });
+  });
+
+  it("retries idempotent GETs and raises typed errors from the client SDK", async () => {
+    // Answers the next `outages` requests with a 503, then passes through to the API.
+    let outages = 0;
+    const methods: string[] = [];
+    const flaky = createApiClient({
+      baseUrl,
+      retryDelayMs: 0,
+      token: () => null,
+      fetch: async (input, init) => {
+        methods.push(init?.method ?? "GET");
+        if (outages > 0) {
+          outages -= 1;
+          return new Response(JSON.stringify({ error: "Try again" }), {
+            status: 503,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        return fetch(input, init);
+      },
+    });
+
+    outages = 2;
+    const page = await flaky.bags.list({ limit: 1 });
+    expect(page.items.length).toBeLessThanOrEqual(1);
+    expect(methods).toEqual(["GET", "GET", "GET"]);
+
+    methods.length = 0;
+    outages = 3;
+    const unavailable = await failure(flaky.bags.list({ limit: 1 }));
+    expect(unavailable).toMatchObject({ name: "ApiError", status: 503, message: "Try again", path: "/bags" });
+    expect(methods).toHaveLength(3);
+
+    // Writes are never repeated.
+    methods.length = 0;
+    outages = 1;
+    const write = await failure(flaky.bags.create({ coffeeName: "Retry Test", roaster: "Flow Roaster", roastDate: "2026-02-10" }));
+    expect(write.status).toBe(503);
+    expect(methods).toEqual(["POST"]);
+
+    const invalid = await failure(flaky.bags.create({ coffeeName: "Retry Test", roaster: "Flow Roaster", roastDate: "soon" }));
+    expect(isValidationError(invalid)).toBe(true);
+    expect(invalid).toMatchObject({
+      name: "ApiValidationError",
+      status: 400,
+      errors: [{ field: "roastDate", message: expect.any(String) }],
+    });
+    expect(invalid.message).toMatch(/^Invalid request: roastDate /);
+  });
+
+  it("keeps a bag's change history and reverts single changes", async () => {
+    const createdBag = await client.bags.create({
+      coffeeName: `History Test ${Date.now()}`,
+      roaster: "Flow Roaster",
+      roastDate: "2026-02-10",
+      notes: "first notes",
+    });
+    const bagId = createdBag.id;
+    const edited = await client.bags.update(bagId, { roastDate: "2026-02-12", notes: "second notes" });
+    const brew = await client.brews.create(bagId, { method: "V60", rating: 3 });
+    await client.brews.update(bagId, brew.id, { rating: 4 });
+    await client.brews.markBest(bagId, brew.id);
+    await client.bags.archive(bagId);
+    await client.bags.unarchive(bagId);
+
+    const history = await client.bags.history(bagId);
+    expect(history.map((entry) => [entry.action, entry.brewId])).toEqual([
+      ["UNARCHIVE", null],
+      ["ARCHIVE", null],
+      ["MARK_BEST", brew.id],
+      ["UPDATE", brew.id],
+      ["CREATE", brew.id],
+      ["UPDATE", null],
+      ["CREATE", null],
+    ]);
+    expect(history.every((entry) => entry.actorId === createdBag.userId && entry.actorDisplayName)).toBe(true);
+    const [, , markBest, ratingEdit, brewCreate, bagEdit, bagCreate] = history;
+    expect(bagCreate?.changes).toContainEqual({ field: "notes", before: null, after: "first notes" });
+    expect(bagCreate?.revertible).toBe(false);
+    expect(bagEdit?.changes).toEqual([
+      { field: "roastDate", before: createdBag.roastDate, after: edited.roastDate },
+      { field: "notes", before: "first notes", after: "second notes" },
+    ]);
+    expect(ratingEdit?.changes).toEqual([{ field: "rating", before: 3, after: 4 }]);
+
+    // Reverting restores the old values and is itself recorded, pointing at what it undid.
+    if (!bagEdit || !markBest || !ratingEdit || !brewCreate) throw new Error("Expected history entries");
+    const reverted = await client.bags.revert(bagId, bagEdit.id);
+    expect(reverted[0]).toMatchObject({ action: "UPDATE", revertOfId: bagEdit.id });
+    expect(reverted.find((entry) => entry.id === bagEdit.id)).toMatchObject({
+      revertedById: reverted[0]?.id,
+      revertible: false,
+    });
+    expect(await client.bags.get(bagId)).toMatchObject({ roastDate: createdBag.roastDate, notes: "first notes" });
+    expect((await failure(client.bags.revert(bagId, bagEdit.id))).status).toBe(409);
+
+    await client.brews.markBest(bagId, brew.id);
+    await client.bags.revert(bagId, markBest.id);
+    expect((await client.brews.list(bagId))[0]?.isBest).toBe(false);
+
+    // Fields changed again since can't be reverted, and neither can creations.
+    await client.brews.update(bagId, brew.id, { rating: 5 });
+    const conflict = await failure(client.bags.revert(bagId, ratingEdit.id));
+    expect(conflict.status).toBe(409);
+    expect(conflict.body).toEqual({ error: "rating changed again since; revert the later change first" });
+    expect((await failure(client.bags.revert(bagId, brewCreate.id))).status).toBe(409);
+    expect((await failure(client.bags.revert(bagId, randomUUID()))).status).toBe(404);
+  });
 });
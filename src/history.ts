@@ -0,0 +1,176 @@
+import { store, type Bag, type BagHistoryEntry, type BagHistoryEntryInsert, type Brew, type Store } from "./store";
+import { UUID_PATTERN } from "./validation";
+import type { BagHistoryAction, BagHistoryChange, BagHistoryEntryResponse } from "./types/api";
+
+// Append-only change history of bags and their brews. Entries are written in the same
+// transaction as the change they describe and keep every changed field's value before
+// and after it, the way the API returns them.
+
+// Bag columns the history tracks; archivedAt follows status, updatedAt changes on every write.
+const BAG_HISTORY_FIELDS = [
+  "coffeeName",
+  "roaster",
+  "origin",
+  "process",
+  "roastLevel",
+  "roastDate",
+  "notes",
+  "restingProfileId",
+  "coffeeId",
+  "initialWeightGrams",
+  "price",
+  "visibility",
+  "status",
+] as const satisfies ReadonlyArray<keyof Bag>;
+
+// Brew columns the history tracks; daysOffRoast is derived from the bag's roast date.
+const BREW_HISTORY_FIELDS = [
+  "method",
+  "brewer",
+  "grinder",
+  "brewerId",
+  "grinderId",
+  "recipeId",
+  "visibility",
+  "dose",
+  "grindSetting",
+  "waterAmount",
+  "waterTemperature",
+  "brewTimeSeconds",
+  "bloomTimeSeconds",
+  "bloomWater",
+  "beverageYield",
+  "tds",
+  "rating",
+  "sensory",
+  "flavourTags",
+  "flavourNotes",
+  "pourSchedule",
+  "isBest",
+  "deletedAt",
+] as const satisfies ReadonlyArray<keyof Brew>;
+
+// Timestamp columns, turned back into dates when a change is reverted.
+const DATE_FIELDS = new Set<string>(["roastDate", "deletedAt"]);
+
+// Creations and soft deletes are undone by deleting or restoring instead.
+const REVERTIBLE_ACTIONS: BagHistoryAction[] = ["UPDATE", "ARCHIVE", "UNARCHIVE", "MARK_BEST", "UNMARK_BEST"];
+
+// Object keys sorted, so equal values compare equal however Postgres ordered the jsonb keys.
+function sortKeys(json: unknown): unknown {
+  if (Array.isArray(json)) return json.map(sortKeys);
+  if (!json || typeof json !== "object") return json;
+  return Object.fromEntries(
+    Object.entries(json)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, value]) => [key, sortKeys(value)]),
+  );
+}
+
+// A value as the API would return it.
+function toHistoryValue(value: unknown): unknown {
+  return sortKeys(value === undefined ? null : JSON.parse(JSON.stringify(value)));
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(toHistoryValue(a)) === JSON.stringify(toHistoryValue(b));
+}
+
+// Left out of creation entries: nothing was set.
+function isBlank(value: unknown) {
+  if (value === null || value === false) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return typeof value === "object" && Object.keys(value).length === 0;
+}
+
+// Field-level changes between two versions of a row; a null `before` means it was just
+// created, and then only the fields it was created with are listed.
+function diffFields<T extends object>(before: T | null, after: T, fields: ReadonlyArray<keyof T & string>) {
+  return fields.flatMap((field): BagHistoryChange[] => {
+    const afterValue = toHistoryValue(after[field]);
+    if (!before) return isBlank(afterValue) ? [] : [{ field, before: null, after: afterValue }];
+    const beforeValue = toHistoryValue(before[field]);
+    return sameValue(beforeValue, afterValue) ? [] : [{ field, before: beforeValue, after: afterValue }];
+  });
+}
+
+// The lifecycle action when `field` is the only thing that changed, otherwise an edit.
+function onlyChanged(changes: BagHistoryChange[], field: string) {
+  return changes.length === 1 && changes[0]?.field === field;
+}
+
+// History entry for a bag write; null when no tracked field changed.
+export function bagHistoryEntry(
+  before: Bag | null,
+  after: Bag,
+  actorId: string,
+  revertOfId: string | null = null,
+): BagHistoryEntryInsert | null {
+  const changes = diffFields(before, after, BAG_HISTORY_FIELDS);
+  if (before && !changes.length) return null;
+  let action: BagHistoryAction = before ? "UPDATE" : "CREATE";
+  if (before && onlyChanged(changes, "status")) action = after.status === "ARCHIVED" ? "ARCHIVE" : "UNARCHIVE";
+  return { bagId: after.id, actorId, action, changes, revertOfId };
+}
+
+// History entry for a brew write; null when no tracked field changed.
+export function brewHistoryEntry(
+  before: Brew | null,
+  after: Brew,
+  actorId: string,
+  revertOfId: string | null = null,
+): BagHistoryEntryInsert | null {
+  const changes = diffFields(before, after, BREW_HISTORY_FIELDS);
+  if (before && !changes.length) return null;
+  let action: BagHistoryAction = before ? "UPDATE" : "CREATE";
+  if (before && changes.some((change) => change.field === "deletedAt")) action = after.deletedAt ? "DELETE" : "RESTORE";
+  else if (before && onlyChanged(changes, "isBest")) action = after.isBest ? "MARK_BEST" : "UNMARK_BEST";
+  return { bagId: after.bagId, brewId: after.id, actorId, action, changes, revertOfId };
+}
+
+// Appends the entries that describe a change; meant to run inside the change's transaction.
+export async function recordHistory(tx: Store, entries: Array<BagHistoryEntryInsert | null>) {
+  const recorded = entries.filter((entry): entry is BagHistoryEntryInsert => entry !== null);
+  if (recorded.length) await tx.history.record(recorded);
+}
+
+// History of the bag and its brews, newest first.
+export async function listBagHistory(bagId: string): Promise<BagHistoryEntryResponse[]> {
+  const entries = await store.history.list(bagId);
+  const revertedBy = new Map(entries.flatMap((entry) => (entry.revertOfId ? [[entry.revertOfId, entry.id]] : [])));
+  return entries.map((entry) => ({
+    ...entry,
+    revertedById: revertedBy.get(entry.id) ?? null,
+    revertible: REVERTIBLE_ACTIONS.includes(entry.action) && !revertedBy.has(entry.id),
+  }));
+}
+
+export async function getBagHistoryEntry(bagId: string, entryId: string): Promise<BagHistoryEntry | null> {
+  if (!UUID_PATTERN.test(entryId)) return null;
+  return store.history.find(bagId, entryId);
+}
+
+// Why the entry can't be reverted onto `current`, the bag or brew as it is now: its
+// kind, an earlier revert, or fields that changed again since. Null when it can be.
+export async function findRevertConflict(entry: BagHistoryEntry, current: Bag | Brew): Promise<string | null> {
+  if (!REVERTIBLE_ACTIONS.includes(entry.action)) {
+    return "Only edits, archiving and best brew changes can be reverted";
+  }
+  if (await store.history.findRevertOf(entry.id)) return "This change was already reverted";
+  const values: Record<string, unknown> = current;
+  const changedSince = entry.changes
+    .filter((change) => !sameValue(values[change.field], change.after))
+    .map((change) => change.field);
+  if (changedSince.length) return `${changedSince.join(", ")} changed again since; revert the later change first`;
+  return null;
+}
+
+// What reverting the entry writes back: each field it changed, as it was before.
+export function revertedValues(entry: BagHistoryEntry): Record<string, unknown> {
+  return Object.fromEntries(
+    entry.changes.map(({ field, before }) => [
+      field,
+      DATE_FIELDS.has(field) && typeof before === "string" ? new Date(before) : before,
+    ]),
+  );
+}
@@ -0,0 +1,132 @@
+import type { NextFunction, Request, Response } from "express";
+import { AUTH_ERROR_STATUSES, COMMON_ERROR_STATUSES, type Content, type RouteContract } from "./contracts";
+import { ErrorResponse } from "./types/api";
+import { checkPayload, toJsonSchema, type JsonSchema, type Schema } from "./validation";
+
+// OpenAPI document built from the route table, and the response contract check that
+// keeps handlers honest about it.
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  204: "No content",
+  302: "Redirect",
+  400: "Invalid request",
+  401: "Missing or invalid token",
+  403: "Not allowed",
+  404: "Not found",
+  409: "Conflict",
+  410: "Gone",
+  500: "Server error",
+  503: "Auth provider unavailable",
+};
+
+function isSchema(content: Content): content is Schema<unknown> {
+  return !("content" in content);
+}
+
+function mediaTypes(content: Content): Record<string, Schema<unknown> | null> {
+  return isSchema(content) ? { "application/json": content } : content.content;
+}
+
+function toContent(content: Content, components: Record<string, JsonSchema>) {
+  return Object.fromEntries(
+    Object.entries(mediaTypes(content)).map(([type, schema]) => [type, schema ? { schema: toJsonSchema(schema, components) } : {}]),
+  );
+}
+
+// Error statuses every route may answer with, on top of its own.
+function sharedErrorStatuses(route: RouteContract) {
+  return route.public ? COMMON_ERROR_STATUSES : [...AUTH_ERROR_STATUSES, ...COMMON_ERROR_STATUSES];
+}
+
+export function buildOpenApiDocument(routes: RouteContract[]) {
+  const components: Record<string, JsonSchema> = {};
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of routes) {
+    const pathParams = [...route.path.matchAll(/:(\w+)/g)].map((match) => match[1] ?? "");
+    const queryParams = Object.entries(route.query?.shape ?? {}).map(([name, schema]) => {
+      const jsonSchema = toJsonSchema(schema, components);
+      const type = jsonSchema.type;
+      const nullable = Array.isArray(type) && type.includes("null");
+      return { name, in: "query", required: !schema.optional && !nullable, schema: jsonSchema };
+    });
+
+    const responses: Record<string, unknown> = {};
+    for (const [status, content] of Object.entries(route.responses)) {
+      const description = STATUS_DESCRIPTIONS[Number(status)] ?? "Response";
+      responses[status] = content ? { description, content: toContent(content, components) } : { description };
+    }
+    for (const status of sharedErrorStatuses(route)) {
+      responses[status] ??= {
+        description: STATUS_DESCRIPTIONS[status],
+        content: toContent(ErrorResponse, components),
+      };
+    }
+
+    const openApiPath = route.path.replace(/:(\w+)/g, "{$1}");
+    paths[openApiPath] ??= {};
+    paths[openApiPath][route.method] = {
+      summary: route.summary,
+      tags: [route.tag],
+      ...(route.public ? { security: [] } : {}),
+      parameters: [
+        ...pathParams.map((name) => ({ name, in: "path", required: true, schema: { type: "string" } })),
+        ...queryParams,
+      ],
+      ...(route.body ? { requestBody: { required: true, content: toContent(route.body, components) } } : {}),
+      responses,
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "coffee-tools-api",
+      version: "1.0.0",
+      description:
+        "Coffee bag and brew journal. Send `Authorization: Bearer <token>` with a provider access token or a personal access token (ct_...).",
+    },
+    servers: [{ url: "/" }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: { bearerAuth: { type: "http", scheme: "bearer" } },
+    },
+  };
+}
+
+// Checks every JSON response of a matched route against the schema declared for its
+// status. A mismatch is logged and answered with a 500, so tests fail on the spot.
+export function checkResponseContracts(routes: RouteContract[]) {
+  const byRoute = new Map(routes.map((route) => [`${route.method.toUpperCase()} ${route.path}`, route]));
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      // Middleware answers (auth, body parsing) happen before a route matches.
+      const routePath: unknown = req.route?.path;
+      if (typeof routePath !== "string") return json(body);
+
+      const key = `${req.method} ${routePath}`;
+      const route = byRoute.get(key);
+      const content = route?.responses[res.statusCode];
+      const schema = content ? mediaTypes(content)["application/json"] : undefined;
+      const fallback = route && sharedErrorStatuses(route).includes(res.statusCode) ? ErrorResponse : undefined;
+      const expected = schema ?? fallback;
+      const issues = !route
+        ? [{ field: "route", message: "has no contract" }]
+        : expected
+          ? checkPayload(expected, body)
+          : [{ field: "status", message: `${res.statusCode} is not in the contract` }];
+      if (!issues.length) return json(body);
+
+      console.error(`Response contract violated by ${key} (${res.statusCode})`, issues);
+      res.status(500);
+      return json({ error: "Response does not match its contract", errors: issues });
+    };
+    next();
+  };
+}
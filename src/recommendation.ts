@@ -0,0 +1,238 @@
+import type { RecommendationResponse, SensoryScores } from "./types/api";
+
+// Brew fields the recommendation engine looks at.
+export type RecommendationBrew = {
+  bagId: string;
+  method: string;
+  dose: number | null;
+  grindSetting: number | null;
+  waterAmount: number | null;
+  rating: number | null;
+  sensory: SensoryScores;
+};
+
+type RecipeField = "dose" | "grindSetting" | "waterAmount";
+
+// A bag needs this many rated brews before we trust its own history.
+export const MIN_RATED_BREWS_FOR_BAG_FIT = 3;
+
+// Correlations weaker than this are treated as noise.
+const CORRELATION_THRESHOLD = 0.3;
+
+// How far to move a recipe parameter for the next experiment.
+const NUDGE_STEP: Record<RecipeField, number> = {
+  dose: 1,
+  grindSetting: 1,
+  waterAmount: 10,
+};
+
+// Wording used when describing a parameter moving up (positive) or down (negative).
+const DIRECTION_WORDS: Record<RecipeField, { up: string; down: string }> = {
+  dose: { up: "a higher dose", down: "a lower dose" },
+  // Lower grind numbers are finer on nearly every grinder scale.
+  grindSetting: { up: "a coarser grind", down: "a finer grind" },
+  waterAmount: { up: "more water", down: "less water" },
+};
+
+// Same for the built-in sensory attributes; user-defined ones get "more X"/"less X".
+const TASTE_WORDS: Record<string, { up: string; down: string }> = {
+  nutty: { up: "more nuttiness", down: "less nuttiness" },
+  acidity: { up: "higher acidity", down: "lower acidity" },
+  fruity: { up: "more fruitiness", down: "less fruitiness" },
+  floral: { up: "more florals", down: "fewer florals" },
+  sweetness: { up: "more sweetness", down: "less sweetness" },
+  chocolate: { up: "more chocolate", down: "less chocolate" },
+  body: { up: "more body", down: "less body" },
+  bitterness: { up: "more bitterness", down: "less bitterness" },
+  aftertaste: { up: "a longer aftertaste", down: "a shorter aftertaste" },
+  clarity: { up: "more clarity", down: "less clarity" },
+};
+
+const RECIPE_FIELDS: RecipeField[] = ["dose", "grindSetting", "waterAmount"];
+
+function isRecipeField(field: string): field is RecipeField {
+  return RECIPE_FIELDS.includes(field as RecipeField);
+}
+
+function fieldValue(row: RecommendationBrew, field: string): number | null {
+  return isRecipeField(field) ? row[field] : (row.sensory[field] ?? null);
+}
+
+function tasteWords(field: string) {
+  return TASTE_WORDS[field] ?? { up: `more ${field}`, down: `less ${field}` };
+}
+
+// Pearson correlation between a field and rating; null when there is too little spread to say.
+function correlationWithRating(rows: RecommendationBrew[], field: string): number | null {
+  const pairs = rows.flatMap((row) => {
+    const value = fieldValue(row, field);
+    return row.rating !== null && value !== null ? [[value, row.rating] as const] : [];
+  });
+  if (pairs.length < MIN_RATED_BREWS_FOR_BAG_FIT) return null;
+
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (const [x, y] of pairs) {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return Number((covariance / Math.sqrt(varianceX * varianceY)).toFixed(2));
+}
+
+// Rating-weighted mean of a recipe field across the given brews.
+function weightedMean(rows: RecommendationBrew[], field: RecipeField): number | null {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const row of rows) {
+    const value = row[field];
+    if (value === null || row.rating === null) continue;
+    // Small floor keeps 0-rated brews from zeroing out the denominator.
+    const weight = Math.max(row.rating, 0.1);
+    weightedSum += value * weight;
+    totalWeight += weight;
+  }
+  return totalWeight ? weightedSum / totalWeight : null;
+}
+
+// Top third of rated brews by rating (at least one).
+function topRatedCluster(rows: RecommendationBrew[]): RecommendationBrew[] {
+  const rated = rows
+    .filter((row) => row.rating !== null)
+    .sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0));
+  return rated.slice(0, Math.max(1, Math.ceil(rated.length / 3)));
+}
+
+function mostCommonMethod(rows: RecommendationBrew[]): string | null {
+  const counts = new Map<string, number>();
+  for (const row of rows) counts.set(row.method, (counts.get(row.method) ?? 0) + 1);
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+function confidenceFor(sampleSize: number): RecommendationResponse["confidence"] {
+  if (sampleSize >= 10) return "HIGH";
+  if (sampleSize >= 5) return "MEDIUM";
+  return "LOW";
+}
+
+function buildSuggestion(
+  cluster: RecommendationBrew[],
+  nudge: { field: RecipeField; direction: 1 | -1 } | null,
+): NonNullable<RecommendationResponse["suggestion"]> {
+  const values = {} as Record<RecipeField, number | null>;
+  for (const field of RECIPE_FIELDS) {
+    const mean = weightedMean(cluster, field);
+    values[field] = mean === null ? null : Math.round(mean);
+  }
+
+  if (nudge) {
+    const current = values[nudge.field];
+    if (current !== null) values[nudge.field] = Math.max(0, current + nudge.direction * NUDGE_STEP[nudge.field]);
+  }
+
+  const { dose, grindSetting, waterAmount } = values;
+  return {
+    method: mostCommonMethod(cluster),
+    dose,
+    grindSetting,
+    waterAmount,
+    brewRatio: dose && waterAmount !== null ? Number((waterAmount / dose).toFixed(2)) : null,
+  };
+}
+
+// Fits a bag's own rated brews: centre on the best-rated cluster, then step the
+// most rating-correlated recipe parameter one notch further in its good direction.
+export function recommendFromBagHistory(
+  bagId: string,
+  rows: RecommendationBrew[],
+): RecommendationResponse {
+  const rated = rows.filter((row) => row.rating !== null);
+  // Taste fields are whichever sensory attributes these brews were scored on.
+  const tasteFields = Array.from(new Set(rated.flatMap((row) => Object.keys(row.sensory)))).sort();
+  const correlations = [...RECIPE_FIELDS, ...tasteFields]
+    .map((field) => ({ field, correlation: correlationWithRating(rated, field) }))
+    .filter((item): item is { field: string; correlation: number } => item.correlation !== null)
+    .sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
+
+  const strong = correlations.filter((item) => Math.abs(item.correlation) >= CORRELATION_THRESHOLD);
+  const strongestRecipe = strong.find((item): item is { field: RecipeField; correlation: number } =>
+    isRecipeField(item.field),
+  );
+  const nudge = strongestRecipe
+    ? { field: strongestRecipe.field, direction: (strongestRecipe.correlation > 0 ? 1 : -1) as 1 | -1 }
+    : null;
+
+  const cluster = topRatedCluster(rated);
+  const suggestion = buildSuggestion(cluster, nudge);
+
+  const direction = (item: { correlation: number }) => (item.correlation > 0 ? "up" : "down");
+  const recipePhrases = strong.flatMap((item) =>
+    isRecipeField(item.field) ? [DIRECTION_WORDS[item.field][direction(item)]] : [],
+  );
+  const tastePhrases = strong.flatMap((item) =>
+    isRecipeField(item.field) ? [] : [tasteWords(item.field)[direction(item)]],
+  );
+
+  const sentences: string[] = [];
+  if (recipePhrases.length || tastePhrases.length) {
+    const at = recipePhrases.length ? ` at ${recipePhrases.join(" and ")}` : "";
+    const withTaste = tastePhrases.length ? ` with ${tastePhrases.join(" and ")}` : "";
+    sentences.push(`Higher ratings cluster${at}${withTaste}.`);
+  } else {
+    sentences.push("No parameter stands out yet; repeating your best-rated recipe.");
+  }
+  if (nudge) {
+    sentences.push(`Next, try ${DIRECTION_WORDS[nudge.field][nudge.direction > 0 ? "up" : "down"]} than your top brews.`);
+  }
+
+  return {
+    bagId,
+    source: "BAG",
+    sampleSize: rated.length,
+    confidence: confidenceFor(rated.length),
+    suggestion,
+    correlations,
+    explanation: sentences.join(" "),
+    basedOnBagIds: [bagId],
+  };
+}
+
+// Cold-start fallback: average the user's best brews on bags like this one.
+export function recommendFromSimilarBags(
+  bagId: string,
+  rows: RecommendationBrew[],
+  similarity: string,
+): RecommendationResponse {
+  const cluster = rows
+    .filter((row) => row.rating !== null)
+    .sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0))
+    .slice(0, 5);
+
+  if (!cluster.length) {
+    return {
+      bagId,
+      source: "NONE",
+      sampleSize: 0,
+      confidence: "LOW",
+      suggestion: null,
+      correlations: [],
+      explanation: `Log at least ${MIN_RATED_BREWS_FOR_BAG_FIT} rated brews to get a recommendation.`,
+      basedOnBagIds: [],
+    };
+  }
+
+  return {
+    bagId,
+    source: "SIMILAR_BAGS",
+    sampleSize: cluster.length,
+    confidence: "LOW",
+    suggestion: buildSuggestion(cluster, null),
+    correlations: [],
+    explanation: `Not enough rated brews on this bag yet; starting from your best brews on bags with the same ${similarity}.`,
+    basedOnBagIds: Array.from(new Set(cluster.map((row) => row.bagId))),
+  };
+}
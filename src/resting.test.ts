@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_RESTING_WINDOWS,
+  computeRestingBands,
+  computeRestingStatus,
+  computeRoastAgeDays,
+  resolveRestingProfile,
+  validateRestingWindows,
+  type RestingProfile,
+} from "./resting";
+
+const PEAK_WINDOWS = { restDays: 5, peakStartDay: 8, peakEndDay: 14, pastPeakAfterDays: 30 };
+
+function profile(overrides: Partial<RestingProfile>): RestingProfile {
+  return {
+    id: "00000000-0000-0000-0000-0000000000a1",
+    name: "Profile",
+    roastLevel: null,
+    process: null,
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+    ...DEFAULT_RESTING_WINDOWS,
+    ...overrides,
+  };
+}
+
+describe("computeRestingStatus", () => {
+  it("uses the default windows when no profile applies", () => {
+    expect(computeRestingStatus(null)).toBe("UNKNOWN");
+    expect(computeRestingStatus(0)).toBe("RESTING");
+    expect(computeRestingStatus(3)).toBe("RESTING");
+    expect(computeRestingStatus(4)).toBe("READY");
+    expect(computeRestingStatus(21)).toBe("READY");
+    expect(computeRestingStatus(22)).toBe("PAST_PEAK");
+  });
+
+  it("puts a peak window between two ready bands", () => {
+    const statuses = [5, 6, 7, 8, 14, 15, 30, 31].map((day) => computeRestingStatus(day, PEAK_WINDOWS));
+    expect(statuses).toEqual(["RESTING", "READY", "READY", "PEAK", "PEAK", "READY", "READY", "PAST_PEAK"]);
+  });
+});
+
+describe("computeRestingBands", () => {
+  it("dates each band from the roast date", () => {
+    const bands = computeRestingBands(new Date("2026-03-01T00:00:00Z"), PEAK_WINDOWS);
+    expect(bands.map((band) => [band.status, band.fromDay, band.toDay])).toEqual([
+      ["RESTING", 0, 5],
+      ["READY", 6, 7],
+      ["PEAK", 8, 14],
+      ["READY", 15, 30],
+      ["PAST_PEAK", 31, null],
+    ]);
+    expect(bands[2]).toMatchObject({
+      startsAt: new Date("2026-03-09T00:00:00Z"),
+      endsAt: new Date("2026-03-16T00:00:00Z"),
+    });
+    expect(computeRestingBands(null, PEAK_WINDOWS).every((band) => band.startsAt === null)).toBe(true);
+  });
+});
+
+describe("resolveRestingProfile", () => {
+  const byLevel = profile({ id: "00000000-0000-0000-0000-0000000000a2", name: "Light", roastLevel: "LIGHT" });
+  const byBoth = profile({
+    id: "00000000-0000-0000-0000-0000000000a3",
+    name: "Light natural",
+    roastLevel: "LIGHT",
+    process: "Natural",
+  });
+  const pinned = profile({ id: "00000000-0000-0000-0000-0000000000a4", name: "Pinned" });
+
+  it("prefers the pinned profile, then the most specific match, then the default", () => {
+    const profiles = [byLevel, byBoth, pinned];
+    const bag = { roastLevel: "LIGHT", process: " natural ", restingProfileId: null };
+    expect(resolveRestingProfile({ ...bag, restingProfileId: pinned.id }, profiles).summary).toEqual({
+      id: pinned.id,
+      name: "Pinned",
+      source: "BAG",
+    });
+    expect(resolveRestingProfile(bag, profiles).summary.name).toBe("Light natural");
+    expect(resolveRestingProfile({ ...bag, process: "Washed" }, profiles).summary.name).toBe("Light");
+    expect(resolveRestingProfile({ ...bag, roastLevel: "DARK" }, [byLevel, byBoth])).toEqual({
+      summary: { id: null, name: "Default", source: "DEFAULT" },
+      windows: DEFAULT_RESTING_WINDOWS,
+    });
+  });
+});
+
+describe("validateRestingWindows", () => {
+  it("reports every inconsistent window", () => {
+    expect(validateRestingWindows(PEAK_WINDOWS)).toEqual([]);
+    expect(
+      validateRestingWindows({ restDays: 10, peakStartDay: 9, peakEndDay: 40, pastPeakAfterDays: 30 }),
+    ).toEqual([
+      { field: "peakStartDay", message: "must be after restDays" },
+      { field: "peakEndDay", message: "must not be after pastPeakAfterDays" },
+    ]);
+    expect(validateRestingWindows({ ...PEAK_WINDOWS, peakEndDay: null })).toEqual([
+      { field: "peakStartDay", message: "peakStartDay and peakEndDay must be set together" },
+    ]);
+  });
+
+  it("ages a bag in whole days", () => {
+    const roastDate = new Date("2026-03-01T00:00:00Z");
+    expect(computeRoastAgeDays(roastDate, Date.parse("2026-03-04T12:00:00Z"))).toBe(3);
+    expect(computeRoastAgeDays(roastDate, Date.parse("2026-02-27T00:00:00Z"))).toBe(0);
+  });
+});
@@ -0,0 +1,130 @@
+import type { RestingBand, RestingProfileSummary, RestingStatus, ValidationIssue } from "./types/api";
+
+// Resting windows, in whole days off roast.
+export type RestingWindows = {
+  restDays: number;
+  peakStartDay: number | null;
+  peakEndDay: number | null;
+  pastPeakAfterDays: number;
+};
+
+// Stored profile fields the matcher looks at.
+export type RestingProfile = RestingWindows & {
+  id: string;
+  name: string;
+  roastLevel: string | null;
+  process: string | null;
+  updatedAt: Date;
+};
+
+// Bag fields that decide which profile applies.
+export type RestingProfileBag = {
+  roastLevel: string | null;
+  process: string | null;
+  restingProfileId: string | null;
+};
+
+// Built-in fallback when no user profile matches: the original fixed thresholds.
+export const DEFAULT_RESTING_WINDOWS: RestingWindows = {
+  restDays: 3,
+  peakStartDay: null,
+  peakEndDay: null,
+  pastPeakAfterDays: 21,
+};
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Calculates whole-day age from roast date.
+export function computeRoastAgeDays(roastDate: Date | null, now = Date.now()): number | null {
+  if (!roastDate) return null;
+  const diffMs = now - roastDate.getTime();
+  if (diffMs < 0) return 0;
+  return Math.floor(diffMs / MILLISECONDS_PER_DAY);
+}
+
+type BandDays = Omit<RestingBand, "startsAt" | "endsAt">;
+
+// Splits the windows into consecutive bands. toDay is inclusive; null means open-ended.
+function bandDays(windows: RestingWindows): BandDays[] {
+  const bands: BandDays[] = [{ status: "RESTING", fromDay: 0, toDay: windows.restDays }];
+  const { peakStartDay, peakEndDay } = windows;
+  if (peakStartDay !== null && peakEndDay !== null) {
+    if (peakStartDay > windows.restDays + 1) {
+      bands.push({ status: "READY", fromDay: windows.restDays + 1, toDay: peakStartDay - 1 });
+    }
+    bands.push({ status: "PEAK", fromDay: peakStartDay, toDay: peakEndDay });
+    if (peakEndDay < windows.pastPeakAfterDays) {
+      bands.push({ status: "READY", fromDay: peakEndDay + 1, toDay: windows.pastPeakAfterDays });
+    }
+  } else {
+    bands.push({ status: "READY", fromDay: windows.restDays + 1, toDay: windows.pastPeakAfterDays });
+  }
+  bands.push({ status: "PAST_PEAK", fromDay: windows.pastPeakAfterDays + 1, toDay: null });
+  return bands;
+}
+
+// Gives user-facing rest status bands from roast age.
+export function computeRestingStatus(
+  roastAgeDays: number | null,
+  windows: RestingWindows = DEFAULT_RESTING_WINDOWS,
+): RestingStatus {
+  if (roastAgeDays === null) return "UNKNOWN";
+  const band = bandDays(windows).find((item) => item.toDay === null || roastAgeDays <= item.toDay);
+  return band?.status ?? "PAST_PEAK";
+}
+
+// Bands with the dates a bag enters (startsAt) and leaves (endsAt) each one.
+export function computeRestingBands(roastDate: Date | null, windows: RestingWindows): RestingBand[] {
+  const dayToDate = (day: number) => (roastDate ? new Date(roastDate.getTime() + day * MILLISECONDS_PER_DAY) : null);
+  return bandDays(windows).map((band) => ({
+    ...band,
+    startsAt: dayToDate(band.fromDay),
+    endsAt: band.toDay === null ? null : dayToDate(band.toDay + 1),
+  }));
+}
+
+// Picks the bag's override, else the most specific matching profile, else the built-in default.
+// Roast level outranks process; ties go to the most recently edited profile.
+export function resolveRestingProfile(
+  bag: RestingProfileBag,
+  profiles: RestingProfile[],
+): { summary: RestingProfileSummary; windows: RestingWindows } {
+  const override = bag.restingProfileId ? profiles.find((profile) => profile.id === bag.restingProfileId) : undefined;
+  if (override) {
+    return { summary: { id: override.id, name: override.name, source: "BAG" }, windows: override };
+  }
+
+  const bagProcess = bag.process?.trim().toLowerCase() ?? null;
+  const matched = profiles
+    .filter(
+      (profile) =>
+        (profile.roastLevel === null || profile.roastLevel === bag.roastLevel) &&
+        (profile.process === null || profile.process.trim().toLowerCase() === bagProcess),
+    )
+    .map((profile) => ({ profile, score: (profile.roastLevel ? 2 : 0) + (profile.process ? 1 : 0) }))
+    .sort((a, b) => b.score - a.score || b.profile.updatedAt.getTime() - a.profile.updatedAt.getTime())[0]?.profile;
+  if (matched) {
+    return { summary: { id: matched.id, name: matched.name, source: "MATCHED" }, windows: matched };
+  }
+
+  return { summary: { id: null, name: "Default", source: "DEFAULT" }, windows: DEFAULT_RESTING_WINDOWS };
+}
+
+// Validates a windows payload; returns field issues in request order.
+export function validateRestingWindows(windows: RestingWindows): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (windows.pastPeakAfterDays <= windows.restDays) {
+    issues.push({ field: "pastPeakAfterDays", message: "must be greater than restDays" });
+  }
+  const { peakStartDay, peakEndDay } = windows;
+  if ((peakStartDay === null) !== (peakEndDay === null)) {
+    issues.push({ field: "peakStartDay", message: "peakStartDay and peakEndDay must be set together" });
+  } else if (peakStartDay !== null && peakEndDay !== null) {
+    if (peakStartDay <= windows.restDays) issues.push({ field: "peakStartDay", message: "must be after restDays" });
+    if (peakEndDay < peakStartDay) issues.push({ field: "peakEndDay", message: "must not be before peakStartDay" });
+    if (peakEndDay > windows.pastPeakAfterDays) {
+      issues.push({ field: "peakEndDay", message: "must not be after pastPeakAfterDays" });
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,40 @@
+import type { BrewEventType, PourStage } from "./types/api";
+
+type SessionEvent = { type: BrewEventType; elapsedSeconds: number; grams: number | null };
+
+// Brew fields a finished session fills in, unless the finish request sets them itself.
+export type SessionBrewFields = {
+  brewTimeSeconds: number;
+  waterAmount: number | null;
+  bloomWater: number | null;
+  bloomTimeSeconds: number | null;
+};
+
+// Events in order with the running total of water poured. Events must be sorted by
+// elapsedSeconds.
+export function buildPourSchedule(events: SessionEvent[]): PourStage[] {
+  let totalGrams = 0;
+  return events.map((event) => {
+    totalGrams += event.grams ?? 0;
+    return { type: event.type, elapsedSeconds: event.elapsedSeconds, grams: event.grams, totalGrams };
+  });
+}
+
+// Total time runs to the end of drawdown, or to `finishedAtSeconds` when drawdown was
+// never marked. The bloom lasts until the first pour after it.
+export function deriveSessionBrewFields(events: SessionEvent[], finishedAtSeconds: number): SessionBrewFields {
+  const drawdown = events.find((event) => event.type === "DRAWDOWN_END");
+  const bloom = events.find((event) => event.type === "BLOOM_START");
+  const pourAfterBloom = bloom
+    ? events.find((event) => event.type === "POUR" && event.elapsedSeconds >= bloom.elapsedSeconds)
+    : undefined;
+  const totalGrams = events.reduce((sum, event) => sum + (event.grams ?? 0), 0);
+
+  return {
+    brewTimeSeconds: Math.round(drawdown?.elapsedSeconds ?? finishedAtSeconds),
+    waterAmount: totalGrams > 0 ? totalGrams : null,
+    bloomWater: bloom?.grams ?? null,
+    bloomTimeSeconds:
+      bloom && pourAfterBloom ? Math.round(pourAfterBloom.elapsedSeconds - bloom.elapsedSeconds) : null,
+  };
+}
@@ -0,0 +1,30 @@
+import type { CommentResponse } from "./types/api";
+
+type CommentRow = Omit<CommentResponse, "replies">;
+
+// Name shown for users who haven't set a display name.
+export const ANONYMOUS_DISPLAY_NAME = "Anonymous brewer";
+
+// Nests flat comment rows into threads. Rows must be sorted oldest first; replies
+// whose parent is missing are promoted to the top level rather than dropped.
+export function buildCommentThreads(rows: CommentRow[]): CommentResponse[] {
+  const byId = new Map<string, CommentResponse>();
+  for (const row of rows) {
+    byId.set(row.id, { ...row, body: row.deletedAt ? null : row.body, replies: [] });
+  }
+
+  const threads: CommentResponse[] = [];
+  for (const comment of byId.values()) {
+    const parent = comment.parentId ? byId.get(comment.parentId) : undefined;
+    if (parent) parent.replies.push(comment);
+    else threads.push(comment);
+  }
+  return threads;
+}
+
+// Drops deleted comments that no longer have anything under them.
+export function pruneDeletedComments(threads: CommentResponse[]): CommentResponse[] {
+  return threads
+    .map((comment) => ({ ...comment, replies: pruneDeletedComments(comment.replies) }))
+    .filter((comment) => !comment.deletedAt || comment.replies.length > 0);
+}
@@ -0,0 +1,11 @@
+import { db } from "../db/client";
+import { createMemoryStore } from "./memory";
+import { createPostgresStore } from "./postgres";
+import type { Store } from "./types";
+
+export type * from "./types";
+export { createMemoryStore } from "./memory";
+
+// STORAGE=memory keeps everything in process, for running the API and its tests
+// without Postgres; anything else uses DATABASE_URL.
+export const store: Store = process.env.STORAGE === "memory" ? createMemoryStore() : createPostgresStore(db);
@@ -0,0 +1,1329 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import { computeRoastAgeDays } from "../resting";
+import { ANONYMOUS_DISPLAY_NAME } from "../social";
+import type { BagSort } from "../contracts";
+import type { BagRole, GlobalFeedItemResponse, Visibility } from "../types/api";
+import type {
+  ApiToken,
+  Bag,
+  BagAdjustment,
+  BagHistoryEntry,
+  BagInvite,
+  BagMember,
+  BagUsageStats,
+  Brew,
+  BrewComment,
+  BrewSession,
+  BrewSessionEvent,
+  Coffee,
+  Equipment,
+  FeedViewer,
+  LocalUser,
+  Notification,
+  Profile,
+  Recipe,
+  Roaster,
+  SensoryAttribute,
+  Store,
+  StoredRestingProfile,
+} from "./types";
+
+// Store that keeps every table in process memory, for STORAGE=memory and tests that
+// shouldn't need Postgres. Queries are plain array scans mirroring the SQL in
+// postgres.ts; nothing survives a restart.
+
+type Follow = { followerId: string; followeeId: string; createdAt: Date };
+type BrewLike = { brewId: string; userId: string; createdAt: Date };
+
+type Tables = {
+  localUsers: LocalUser[];
+  apiTokens: ApiToken[];
+  profiles: Profile[];
+  follows: Follow[];
+  roasters: Roaster[];
+  coffees: Coffee[];
+  bags: Bag[];
+  bagMembers: BagMember[];
+  bagInvites: BagInvite[];
+  bagAdjustments: BagAdjustment[];
+  bagHistory: BagHistoryEntry[];
+  restingProfiles: StoredRestingProfile[];
+  brews: Brew[];
+  brewLikes: BrewLike[];
+  brewComments: BrewComment[];
+  notifications: Notification[];
+  sensoryAttributes: SensoryAttribute[];
+  brewSessions: BrewSession[];
+  brewSessionEvents: BrewSessionEvent[];
+  equipment: Equipment[];
+  recipes: Recipe[];
+};
+
+// Built-in sensory attributes, as seeded by the migration that introduced them.
+const BUILT_IN_SENSORY_ATTRIBUTES = [
+  ["acidity", "Acidity"],
+  ["sweetness", "Sweetness"],
+  ["body", "Body"],
+  ["bitterness", "Bitterness"],
+  ["aftertaste", "Aftertaste"],
+  ["clarity", "Clarity"],
+  ["fruity", "Fruity"],
+  ["floral", "Floral"],
+  ["nutty", "Nutty"],
+  ["chocolate", "Chocolate"],
+] as const;
+
+const VISIBILITY_RANK: Record<Visibility, number> = { PUBLIC: 0, FOLLOWERS: 1, PRIVATE: 2 };
+
+const stricterVisibility = (a: Visibility, b: Visibility) => (VISIBILITY_RANK[a] >= VISIBILITY_RANK[b] ? a : b);
+
+// Rows are copied on the way in and out so callers can't change stored state by mutation.
+const copy = <T>(value: T): T => structuredClone(value);
+
+// Fills columns the insert left out with their defaults; explicit undefined counts as left out.
+function withDefaults<T extends object>(defaults: T, values: object): T {
+  const given = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+  return copy({ ...defaults, ...given });
+}
+
+function assign<T extends object>(row: T, changes: object) {
+  Object.assign(row, withDefaults({}, changes));
+}
+
+const lower = (text: string | null) => text?.toLowerCase() ?? null;
+const sameName = (a: string, b: string) => a.toLowerCase() === b.trim().toLowerCase();
+const byText = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+function average(values: number[]): number | null {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+const roundTo2 = (value: number | null) => (value === null ? null : Math.round(value * 100) / 100);
+
+const ratingsOf = (rows: Brew[]) => rows.map((row) => row.rating).filter((rating): rating is number => rating !== null);
+
+// Names containing `q` (ignoring case), those starting with it first, then alphabetically.
+function autocomplete<T extends { name: string }>(rows: T[], q: string | undefined): T[] {
+  const needle = q?.toLowerCase() ?? "";
+  return rows
+    .filter((row) => row.name.toLowerCase().includes(needle))
+    .sort(
+      (a, b) =>
+        Number(b.name.toLowerCase().startsWith(needle)) - Number(a.name.toLowerCase().startsWith(needle)) ||
+        byText(a.name.toLowerCase(), b.name.toLowerCase()),
+    );
+}
+
+// Same word split as Postgres' 'simple' text search config, closely enough for prefix queries.
+const searchWords = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+export function createMemoryStore(): Store {
+  let tables: Tables = {
+    localUsers: [],
+    apiTokens: [],
+    profiles: [],
+    follows: [],
+    roasters: [],
+    coffees: [],
+    bags: [],
+    bagMembers: [],
+    bagInvites: [],
+    bagAdjustments: [],
+    bagHistory: [],
+    restingProfiles: [],
+    brews: [],
+    brewLikes: [],
+    brewComments: [],
+    notifications: [],
+    sensoryAttributes: [],
+    brewSessions: [],
+    brewSessionEvents: [],
+    equipment: [],
+    recipes: [],
+  };
+  const feedBus = new EventEmitter();
+  feedBus.setMaxListeners(0);
+
+  // Timestamps only have millisecond precision here, so defaults are kept strictly
+  // increasing to preserve insertion order the way Postgres' microseconds do.
+  let lastTimestamp = 0;
+  const now = () => {
+    lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+    return new Date(lastTimestamp);
+  };
+
+  const seededAt = now();
+  BUILT_IN_SENSORY_ATTRIBUTES.forEach(([key, label], position) => {
+    tables.sensoryAttributes.push({ id: randomUUID(), userId: null, key, label, min: 0, max: 5, position, createdAt: seededAt });
+  });
+
+  const findBag = (bagId: string) => tables.bags.find((bag) => bag.id === bagId) ?? null;
+  const findProfile = (userId: string) => tables.profiles.find((profile) => profile.userId === userId) ?? null;
+  const displayNameOf = (userId: string) => findProfile(userId)?.displayName ?? ANONYMOUS_DISPLAY_NAME;
+  const activeBrews = () => tables.brews.filter((brew) => !brew.deletedAt);
+  const byCreatedAt = <T extends { createdAt: Date }>(a: T, b: T) => a.createdAt.getTime() - b.createdAt.getTime();
+
+  const memberRole = (bagId: string, userId: string) =>
+    tables.bagMembers.find((member) => member.bagId === bagId && member.userId === userId)?.role ?? null;
+  const roleOn = (bag: Bag, userId: string): BagRole | null => (bag.userId === userId ? "OWNER" : memberRole(bag.id, userId));
+  const follows = (followerId: string, followeeId: string) =>
+    tables.follows.some((follow) => follow.followerId === followerId && follow.followeeId === followeeId);
+
+  function usageOf(bagId: string): BagUsageStats {
+    const brews = activeBrews().filter((brew) => brew.bagId === bagId);
+    const doses = brews.map((brew) => brew.dose).filter((dose): dose is number => dose !== null);
+    return {
+      usedGrams: doses.reduce((sum, dose) => sum + dose, 0),
+      averageDose: average(doses),
+      adjustmentGrams: tables.bagAdjustments
+        .filter((adjustment) => adjustment.bagId === bagId)
+        .reduce((sum, adjustment) => sum + adjustment.grams, 0),
+    };
+  }
+
+  // Stricter of bag and brew visibility, raised to the guest floor for the guest's rows.
+  function effectiveVisibility(brew: Brew, bag: Bag, viewer: FeedViewer): Visibility {
+    const stored = stricterVisibility(bag.visibility, brew.visibility ?? bag.visibility);
+    const isGuest = [bag.userId, brew.userId].includes(viewer.guestUserId);
+    return isGuest ? stricterVisibility(stored, viewer.guestVisibility) : stored;
+  }
+
+  function isVisibleTo(brew: Brew, bag: Bag, viewer: FeedViewer) {
+    const effective = effectiveVisibility(brew, bag, viewer);
+    return (
+      effective === "PUBLIC" ||
+      [bag.userId, brew.userId].includes(viewer.userId) ||
+      memberRole(bag.id, viewer.userId) !== null ||
+      (effective === "FOLLOWERS" && follows(viewer.userId, brew.userId))
+    );
+  }
+
+  function toFeedItem(brew: Brew, bag: Bag, viewerId: string | null): GlobalFeedItemResponse {
+    const likes = tables.brewLikes.filter((like) => like.brewId === brew.id);
+    return copy({
+      brewId: brew.id,
+      bagId: brew.bagId,
+      userId: brew.userId,
+      displayName: displayNameOf(brew.userId),
+      avatarUrl: findProfile(brew.userId)?.avatarUrl ?? null,
+      coffeeName: bag.coffeeName,
+      roaster: bag.roaster,
+      method: brew.method,
+      brewer: brew.brewer,
+      grinder: brew.grinder,
+      dose: brew.dose,
+      grindSetting: brew.grindSetting,
+      waterAmount: brew.waterAmount,
+      rating: brew.rating,
+      flavourTags: brew.flavourTags,
+      flavourNotes: brew.flavourNotes,
+      isBest: brew.isBest,
+      createdAt: brew.createdAt,
+      likeCount: likes.length,
+      commentCount: tables.brewComments.filter((comment) => comment.brewId === brew.id && !comment.deletedAt).length,
+      likedByMe: viewerId !== null && likes.some((like) => like.userId === viewerId),
+    });
+  }
+
+  // Visible active brews with their bag, newest first.
+  function visibleFeedBrews(viewer: FeedViewer) {
+    return activeBrews()
+      .flatMap((brew) => {
+        const bag = findBag(brew.bagId);
+        return bag && isVisibleTo(brew, bag, viewer) ? [{ brew, bag }] : [];
+      })
+      .sort((a, b) => byCreatedAt(b.brew, a.brew) || byText(b.brew.id, a.brew.id));
+  }
+
+  const withBag = (brews: Brew[]) =>
+    brews.flatMap((brew) => {
+      const bag = findBag(brew.bagId);
+      return bag ? [{ brew: copy(brew), bag: copy(bag) }] : [];
+    });
+
+  const store: Store = {
+    localUsers: {
+      async findByEmail(email) {
+        return copy(tables.localUsers.find((user) => user.email === email) ?? null);
+      },
+      async create(values) {
+        if (tables.localUsers.some((user) => user.email === values.email)) return null;
+        const created = withDefaults({ id: randomUUID(), email: "", passwordHash: "", createdAt: now() }, values);
+        tables.localUsers.push(created);
+        return copy(created);
+      },
+    },
+
+    apiTokens: {
+      async create(values) {
+        if (tables.apiTokens.some((token) => token.tokenHash === values.tokenHash)) {
+          throw new Error("Token hash already exists");
+        }
+        const created = withDefaults<ApiToken>(
+          {
+            id: randomUUID(),
+            userId: values.userId,
+            name: values.name,
+            prefix: values.prefix,
+            tokenHash: values.tokenHash,
+            scopes: values.scopes,
+            expiresAt: null,
+            lastUsedAt: null,
+            revokedAt: null,
+            createdAt: now(),
+          },
+          values,
+        );
+        tables.apiTokens.push(created);
+        return copy(created);
+      },
+      async findByHash(tokenHash) {
+        return copy(tables.apiTokens.find((token) => token.tokenHash === tokenHash) ?? null);
+      },
+      async listActive(userId) {
+        return copy(
+          tables.apiTokens
+            .filter((token) => token.userId === userId && !token.revokedAt)
+            .sort((a, b) => byCreatedAt(b, a)),
+        );
+      },
+      async update(id, changes) {
+        const token = tables.apiTokens.find((row) => row.id === id);
+        if (!token) return null;
+        assign(token, changes);
+        return copy(token);
+      },
+      async touch(id, usedAt, staleBefore) {
+        const token = tables.apiTokens.find((row) => row.id === id);
+        if (token && (!token.lastUsedAt || token.lastUsedAt < staleBefore)) token.lastUsedAt = usedAt;
+      },
+      async revoke(id, userId) {
+        const token = tables.apiTokens.find((row) => row.id === id && row.userId === userId && !row.revokedAt);
+        if (!token) return null;
+        token.revokedAt = now();
+        return copy(token);
+      },
+    },
+
+    profiles: {
+      async find(userId) {
+        return copy(findProfile(userId));
+      },
+      async findMany(userIds) {
+        return copy(tables.profiles.filter((profile) => userIds.includes(profile.userId)));
+      },
+      async save(userId, values) {
+        const existing = findProfile(userId);
+        if (existing) {
+          assign(existing, { ...values, updatedAt: now() });
+          return copy(existing);
+        }
+        const createdAt = now();
+        const created = withDefaults<Profile>(
+          { userId, displayName: null, avatarUrl: null, bio: null, defaultVisibility: null, createdAt, updatedAt: createdAt },
+          { ...values, userId },
+        );
+        tables.profiles.push(created);
+        return copy(created);
+      },
+      async findPublic(userId) {
+        const profile = findProfile(userId);
+        if (!profile) return null;
+        return {
+          userId: profile.userId,
+          displayName: profile.displayName,
+          avatarUrl: profile.avatarUrl,
+          bio: profile.bio,
+          followerCount: tables.follows.filter((follow) => follow.followeeId === userId).length,
+          followingCount: tables.follows.filter((follow) => follow.followerId === userId).length,
+        };
+      },
+      async follow(followerId, followeeId) {
+        if (!follows(followerId, followeeId)) tables.follows.push({ followerId, followeeId, createdAt: now() });
+      },
+      async unfollow(followerId, followeeId) {
+        tables.follows = tables.follows.filter(
+          (follow) => follow.followerId !== followerId || follow.followeeId !== followeeId,
+        );
+      },
+      async isFollowing(followerId, followeeId) {
+        return follows(followerId, followeeId);
+      },
+      async listFollowing(userId) {
+        return tables.follows
+          .filter((follow) => follow.followerId === userId)
+          .sort((a, b) => byCreatedAt(b, a))
+          .map((follow) => ({
+            userId: follow.followeeId,
+            displayName: displayNameOf(follow.followeeId),
+            avatarUrl: findProfile(follow.followeeId)?.avatarUrl ?? null,
+            followedAt: follow.createdAt,
+          }));
+      },
+      async listFollowers(userId) {
+        return tables.follows
+          .filter((follow) => follow.followeeId === userId)
+          .sort((a, b) => byCreatedAt(b, a))
+          .map((follow) => ({
+            userId: follow.followerId,
+            displayName: displayNameOf(follow.followerId),
+            avatarUrl: findProfile(follow.followerId)?.avatarUrl ?? null,
+            followedAt: follow.createdAt,
+          }));
+      },
+    },
+
+    bags: {
+      async create(values) {
+        const createdAt = now();
+        const created = withDefaults<Bag>(
+          {
+            id: randomUUID(),
+            userId: values.userId,
+            coffeeName: values.coffeeName,
+            roaster: values.roaster,
+            origin: null,
+            process: null,
+            roastLevel: null,
+            roastDate: null,
+            notes: null,
+            restingProfileId: null,
+            coffeeId: null,
+            initialWeightGrams: null,
+            price: null,
+            visibility: "PUBLIC",
+            status: "ACTIVE",
+            archivedAt: null,
+            createdAt,
+            updatedAt: createdAt,
+          },
+          values,
+        );
+        tables.bags.push(created);
+        return copy(created);
+      },
+      async find(bagId) {
+        return copy(findBag(bagId));
+      },
+      async findWithMemberRole(bagId, userId) {
+        const bag = findBag(bagId);
+        return bag ? { bag: copy(bag), memberRole: memberRole(bagId, userId) } : null;
+      },
+      async update(bagId, changes) {
+        const bag = findBag(bagId);
+        if (!bag) return null;
+        assign(bag, changes);
+        return copy(bag);
+      },
+      async upsert(values) {
+        const existing = values.id ? findBag(values.id) : null;
+        if (existing) {
+          assign(existing, values);
+          return copy(existing);
+        }
+        return store.bags.create(values);
+      },
+      async list(userId, query) {
+        const statsOf = (bag: Bag) => {
+          const brews = activeBrews().filter((brew) => brew.bagId === bag.id);
+          return { brewCount: brews.length, averageRating: roundTo2(average(ratingsOf(brews))) };
+        };
+        // Sort keys as numbers; nullable ones are coalesced like the SQL so cursors can compare them.
+        const sortKeys: Record<BagSort, (row: { bag: Bag; brewCount: number; averageRating: number | null }) => number> = {
+          updated: (row) => row.bag.updatedAt.getTime(),
+          roastDate: (row) => row.bag.roastDate?.getTime() ?? -Infinity,
+          averageRating: (row) => row.averageRating ?? -1,
+          brewCount: (row) => row.brewCount,
+        };
+        const sortKey = sortKeys[query.sort];
+        // Timestamp sort values are handed out as ISO text, like Postgres hands out timestamps.
+        const isTimestampSort = query.sort === "updated" || query.sort === "roastDate";
+        const toSortValue = (key: number) => {
+          if (!isTimestampSort) return String(key);
+          return Number.isFinite(key) ? new Date(key).toISOString() : "-infinity";
+        };
+        const fromSortValue = (value: string) => {
+          if (!isTimestampSort) return Number(value);
+          return value === "-infinity" ? -Infinity : Date.parse(value);
+        };
+        const direction = query.order === "desc" ? -1 : 1;
+        const matchesText = (column: string | null, value: string | undefined) =>
+          !value || lower(column) === value.toLowerCase();
+        const queryWords = query.q ? searchWords(query.q) : [];
+
+        const rows = tables.bags
+          .flatMap((bag) => {
+            const role = roleOn(bag, userId);
+            return role && bag.status === query.status ? [{ bag, role, ...statsOf(bag) }] : [];
+          })
+          .filter(({ bag, averageRating }) => {
+            if (!matchesText(bag.roaster, query.roaster)) return false;
+            if (!matchesText(bag.origin, query.origin)) return false;
+            if (!matchesText(bag.process, query.process)) return false;
+            if (query.roastDateFrom && !(bag.roastDate && bag.roastDate >= query.roastDateFrom)) return false;
+            if (query.roastDateTo && !(bag.roastDate && bag.roastDate <= query.roastDateTo)) return false;
+            if (query.minRating != null && !(averageRating !== null && averageRating >= query.minRating)) return false;
+            const words = searchWords(`${bag.coffeeName} ${bag.notes ?? ""}`);
+            return queryWords.every((queryWord) => words.some((word) => word.startsWith(queryWord)));
+          })
+          .map((row) => ({ ...row, key: sortKey(row) }))
+          .filter((row) => {
+            if (!query.cursor) return true;
+            const cursorKey = fromSortValue(query.cursor.sortValue);
+            const comparison = row.key - cursorKey || byText(row.bag.id, query.cursor.id);
+            return comparison * direction > 0;
+          })
+          .sort((a, b) => ((a.key - b.key || byText(a.bag.id, b.bag.id)) * direction));
+
+        return rows.slice(0, query.limit + 1).map(({ bag, role, brewCount, averageRating, key }) => ({
+          bag: copy(bag),
+          role,
+          brewCount,
+          averageRating,
+          usage: usageOf(bag.id),
+          sortValue: toSortValue(key),
+        }));
+      },
+      async listOwned(userId) {
+        return copy(tables.bags.filter((bag) => bag.userId === userId).sort(byCreatedAt));
+      },
+      async countOwned(userId) {
+        return tables.bags.filter((bag) => bag.userId === userId).length;
+      },
+      async findMany(bagIds) {
+        return copy(tables.bags.filter((bag) => bagIds.includes(bag.id)));
+      },
+      async usage(bagId) {
+        return usageOf(bagId);
+      },
+      async clearRestingProfile(restingProfileId, userId) {
+        for (const bag of tables.bags) {
+          if (bag.restingProfileId === restingProfileId && bag.userId === userId) bag.restingProfileId = null;
+        }
+      },
+
+      async listMembers(bagId) {
+        return tables.bagMembers
+          .filter((member) => member.bagId === bagId)
+          .sort(byCreatedAt)
+          .map((member) => ({
+            userId: member.userId,
+            displayName: displayNameOf(member.userId),
+            avatarUrl: findProfile(member.userId)?.avatarUrl ?? null,
+            role: member.role,
+            joinedAt: member.createdAt,
+          }));
+      },
+      async saveMember(bagId, userId, role) {
+        const existing = tables.bagMembers.find((member) => member.bagId === bagId && member.userId === userId);
+        if (existing) {
+          existing.role = role;
+          return copy(existing);
+        }
+        const created: BagMember = { bagId, userId, role, createdAt: now() };
+        tables.bagMembers.push(created);
+        return copy(created);
+      },
+      async updateMember(bagId, userId, role) {
+        const member = tables.bagMembers.find((row) => row.bagId === bagId && row.userId === userId);
+        if (!member) return null;
+        member.role = role;
+        return copy(member);
+      },
+      async removeMember(bagId, userId) {
+        const member = tables.bagMembers.find((row) => row.bagId === bagId && row.userId === userId);
+        if (!member) return null;
+        tables.bagMembers = tables.bagMembers.filter((row) => row !== member);
+        return copy(member);
+      },
+
+      async createInvite(values) {
+        const created = withDefaults<BagInvite>(
+          {
+            id: randomUUID(),
+            bagId: values.bagId,
+            token: values.token,
+            role: values.role,
+            createdBy: values.createdBy,
+            expiresAt: values.expiresAt,
+            revokedAt: null,
+            createdAt: now(),
+          },
+          values,
+        );
+        tables.bagInvites.push(created);
+        return copy(created);
+      },
+      async listActiveInvites(bagId, at) {
+        return copy(
+          tables.bagInvites
+            .filter((invite) => invite.bagId === bagId && !invite.revokedAt && invite.expiresAt >= at)
+            .sort((a, b) => byCreatedAt(b, a)),
+        );
+      },
+      async findActiveInvite(token, at) {
+        return copy(
+          tables.bagInvites.find((invite) => invite.token === token && !invite.revokedAt && invite.expiresAt >= at) ??
+            null,
+        );
+      },
+      async revokeInvite(bagId, inviteId) {
+        const invite = tables.bagInvites.find((row) => row.id === inviteId && row.bagId === bagId && !row.revokedAt);
+        if (!invite) return null;
+        invite.revokedAt = now();
+        return copy(invite);
+      },
+
+      async createAdjustment(values) {
+        const created = withDefaults<BagAdjustment>(
+          { id: randomUUID(), bagId: values.bagId, grams: values.grams, reason: null, createdAt: now() },
+          values,
+        );
+        tables.bagAdjustments.push(created);
+        return copy(created);
+      },
+      async listAdjustments(bagId) {
+        return copy(
+          tables.bagAdjustments.filter((adjustment) => adjustment.bagId === bagId).sort((a, b) => byCreatedAt(b, a)),
+        );
+      },
+    },
+
+    brews: {
+      async create(values) {
+        const createdAt = now();
+        const created = withDefaults<Brew>(
+          {
+            id: randomUUID(),
+            bagId: values.bagId,
+            userId: values.userId,
+            method: values.method,
+            brewer: null,
+            grinder: null,
+            brewerId: null,
+            grinderId: null,
+            recipeId: null,
+            visibility: null,
+            dose: null,
+            grindSetting: null,
+            waterAmount: null,
+            waterTemperature: null,
+            brewTimeSeconds: null,
+            bloomTimeSeconds: null,
+            bloomWater: null,
+            beverageYield: null,
+            tds: null,
+            rating: null,
+            sensory: {},
+            flavourTags: [],
+            isBest: false,
+            flavourNotes: null,
+            pourSchedule: null,
+            daysOffRoast: null,
+            createdAt,
+            updatedAt: createdAt,
+            deletedAt: null,
+          },
+          values,
+        );
+        tables.brews.push(created);
+        return copy(created);
+      },
+      async find(bagId, brewId) {
+        return copy(tables.brews.find((brew) => brew.id === brewId && brew.bagId === bagId) ?? null);
+      },
+      async update(bagId, brewId, changes, options = {}) {
+        const brew = tables.brews.find(
+          (row) => row.id === brewId && row.bagId === bagId && !(options.activeOnly && row.deletedAt),
+        );
+        if (!brew) return null;
+        assign(brew, changes);
+        return copy(brew);
+      },
+      async upsert(values, userId) {
+        const existing = tables.brews.find((brew) => brew.id === values.id);
+        if (existing) {
+          assign(existing, values);
+          return copy(existing);
+        }
+        return store.brews.create({ ...values, userId });
+      },
+      async markBest(bagId, brewId) {
+        for (const brew of tables.brews) if (brew.bagId === bagId) brew.isBest = false;
+        const brew = tables.brews.find((row) => row.id === brewId && row.bagId === bagId && !row.deletedAt);
+        if (!brew) return null;
+        brew.isBest = true;
+        return copy(brew);
+      },
+      async clearBest(bagIds) {
+        for (const brew of tables.brews) if (bagIds.includes(brew.bagId)) brew.isBest = false;
+      },
+      async refreshDaysOffRoast(bagIds) {
+        for (const brew of tables.brews) {
+          if (!bagIds.includes(brew.bagId)) continue;
+          brew.daysOffRoast = computeRoastAgeDays(findBag(brew.bagId)?.roastDate ?? null, brew.createdAt.getTime());
+        }
+      },
+      async listForBags(bagIds) {
+        return copy(activeBrews().filter((brew) => bagIds.includes(brew.bagId)).sort(byCreatedAt));
+      },
+      async listAccessible(brewIds, userId) {
+        return withBag(activeBrews().filter((brew) => brewIds.includes(brew.id))).filter(
+          ({ bag }) => roleOn(bag, userId) !== null,
+        );
+      },
+      async listOnOwnedBags(userId) {
+        return withBag(activeBrews().sort(byCreatedAt)).filter(({ bag }) => bag.userId === userId);
+      },
+      async listByBrewer(userId, filter) {
+        const { recipeIds, brewerId, grinderId } = filter;
+        return withBag(
+          activeBrews()
+            .filter(
+              (brew) =>
+                brew.userId === userId &&
+                (!recipeIds || (brew.recipeId !== null && recipeIds.includes(brew.recipeId))) &&
+                (!brewerId || brew.brewerId === brewerId) &&
+                (!grinderId || brew.grinderId === grinderId),
+            )
+            .sort(byCreatedAt),
+        );
+      },
+      async findMany(brewIds) {
+        return copy(tables.brews.filter((brew) => brewIds.includes(brew.id)));
+      },
+      async findOwners(brewIds) {
+        return tables.brews.flatMap((brew) => {
+          const bag = brewIds.includes(brew.id) ? findBag(brew.bagId) : null;
+          return bag ? [{ id: brew.id, userId: bag.userId }] : [];
+        });
+      },
+      async removeSensoryScore(userId, key) {
+        for (const brew of tables.brews) {
+          if (brew.userId === userId && key in brew.sensory) {
+            const { [key]: _removed, ...rest } = brew.sensory;
+            brew.sensory = rest;
+          }
+        }
+      },
+      async unlinkEquipment(equipmentId, type) {
+        for (const brew of tables.brews) {
+          if (type === "BREWER" && brew.brewerId === equipmentId) brew.brewerId = null;
+          if (type === "GRINDER" && brew.grinderId === equipmentId) brew.grinderId = null;
+        }
+      },
+
+      async createSession(values) {
+        const created: BrewSession = {
+          id: randomUUID(),
+          bagId: values.bagId,
+          userId: values.userId,
+          startedAt: now(),
+          finishedAt: null,
+          cancelledAt: null,
+          brewId: null,
+        };
+        tables.brewSessions.push(created);
+        return copy(created);
+      },
+      async findSession(sessionId, bagId, userId) {
+        return copy(
+          tables.brewSessions.find(
+            (session) => session.id === sessionId && session.bagId === bagId && session.userId === userId,
+          ) ?? null,
+        );
+      },
+      async listOpenSessions(bagId, userId) {
+        return copy(
+          tables.brewSessions
+            .filter(
+              (session) =>
+                session.bagId === bagId && session.userId === userId && !session.finishedAt && !session.cancelledAt,
+            )
+            .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime()),
+        );
+      },
+      async updateSession(sessionId, changes) {
+        const session = tables.brewSessions.find((row) => row.id === sessionId);
+        if (session) assign(session, changes);
+      },
+      async listSessionEvents(sessionId) {
+        return copy(
+          tables.brewSessionEvents
+            .filter((event) => event.sessionId === sessionId)
+            .sort((a, b) => a.elapsedSeconds - b.elapsedSeconds || byCreatedAt(a, b)),
+        );
+      },
+      async createSessionEvent(values) {
+        const created = withDefaults<BrewSessionEvent>(
+          {
+            id: randomUUID(),
+            sessionId: values.sessionId,
+            type: values.type,
+            elapsedSeconds: values.elapsedSeconds,
+            grams: null,
+            createdAt: now(),
+          },
+          values,
+        );
+        tables.brewSessionEvents.push(created);
+        return copy(created);
+      },
+      async deleteSessionEvent(sessionId, eventId) {
+        const event = tables.brewSessionEvents.find((row) => row.id === eventId && row.sessionId === sessionId);
+        if (!event) return null;
+        tables.brewSessionEvents = tables.brewSessionEvents.filter((row) => row !== event);
+        return copy(event);
+      },
+    },
+
+    feed: {
+      async list(viewer, options) {
+        return visibleFeedBrews(viewer)
+          .filter(({ brew }) => !options.followingOnly || follows(viewer.userId, brew.userId))
+          .slice(0, options.limit)
+          .map(({ brew, bag }) => toFeedItem(brew, bag, viewer.userId));
+      },
+      async find(brewId, viewer) {
+        const found = visibleFeedBrews(viewer).find(({ brew }) => brew.id === brewId);
+        return found ? toFeedItem(found.brew, found.bag, viewer.userId) : null;
+      },
+      async listAfter(brewId, viewer, limit) {
+        const anchor = tables.brews.find((brew) => brew.id === brewId);
+        if (!anchor) return [];
+        return visibleFeedBrews(viewer)
+          .filter(({ brew }) => byCreatedAt(brew, anchor) > 0 || (byCreatedAt(brew, anchor) === 0 && brew.id > anchor.id))
+          .reverse()
+          .slice(0, limit)
+          .map(({ brew, bag }) => toFeedItem(brew, bag, viewer.userId));
+      },
+      async findEvent(brewId) {
+        const brew = activeBrews().find((row) => row.id === brewId);
+        const bag = brew ? findBag(brew.bagId) : null;
+        if (!brew || !bag) return null;
+        return {
+          item: toFeedItem(brew, bag, null),
+          visibility: stricterVisibility(bag.visibility, brew.visibility ?? bag.visibility),
+          bagOwnerId: bag.userId,
+        };
+      },
+      async isVisible(brewId, viewer) {
+        const brew = tables.brews.find((row) => row.id === brewId);
+        const bag = brew ? findBag(brew.bagId) : null;
+        return Boolean(brew && bag && isVisibleTo(brew, bag, viewer));
+      },
+      async announce(brewId) {
+        feedBus.emit("brew", brewId);
+      },
+      async listen(onBrewId) {
+        feedBus.on("brew", onBrewId);
+      },
+
+      async like(brewId, userId) {
+        if (tables.brewLikes.some((like) => like.brewId === brewId && like.userId === userId)) return false;
+        tables.brewLikes.push({ brewId, userId, createdAt: now() });
+        return true;
+      },
+      async unlike(brewId, userId) {
+        tables.brewLikes = tables.brewLikes.filter((like) => like.brewId !== brewId || like.userId !== userId);
+      },
+      async likeState(brewId, userId) {
+        const likes = tables.brewLikes.filter((like) => like.brewId === brewId);
+        return { brewId, likeCount: likes.length, likedByMe: likes.some((like) => like.userId === userId) };
+      },
+
+      async listComments(brewId) {
+        return tables.brewComments
+          .filter((comment) => comment.brewId === brewId)
+          .sort((a, b) => byCreatedAt(a, b) || byText(a.id, b.id))
+          .map((comment) =>
+            copy({
+              id: comment.id,
+              brewId: comment.brewId,
+              parentId: comment.parentId,
+              userId: comment.userId,
+              displayName: displayNameOf(comment.userId),
+              avatarUrl: findProfile(comment.userId)?.avatarUrl ?? null,
+              body: comment.body,
+              createdAt: comment.createdAt,
+              deletedAt: comment.deletedAt,
+            }),
+          );
+      },
+      async findComment(brewId, commentId) {
+        return copy(
+          tables.brewComments.find(
+            (comment) => comment.id === commentId && comment.brewId === brewId && !comment.deletedAt,
+          ) ?? null,
+        );
+      },
+      async createComment(values) {
+        const created = withDefaults<BrewComment>(
+          {
+            id: randomUUID(),
+            brewId: values.brewId,
+            userId: values.userId,
+            parentId: null,
+            body: values.body,
+            createdAt: now(),
+            deletedAt: null,
+          },
+          values,
+        );
+        tables.brewComments.push(created);
+        return copy(created);
+      },
+      async deleteComment(brewId, commentId, authorId) {
+        const comment = tables.brewComments.find(
+          (row) =>
+            row.id === commentId && row.brewId === brewId && !row.deletedAt && (!authorId || row.userId === authorId),
+        );
+        if (!comment) return null;
+        comment.deletedAt = now();
+        return copy(comment);
+      },
+
+      async createNotifications(values) {
+        const created = values.map((value) =>
+          withDefaults<Notification>(
+            {
+              id: randomUUID(),
+              userId: value.userId,
+              actorId: value.actorId,
+              type: value.type,
+              brewId: value.brewId,
+              commentId: null,
+              readAt: null,
+              createdAt: now(),
+            },
+            value,
+          ),
+        );
+        tables.notifications.push(...created);
+        return copy(created);
+      },
+      async deleteUnreadLikeNotification(brewId, actorId) {
+        tables.notifications = tables.notifications.filter(
+          (row) => !(row.type === "LIKE" && row.brewId === brewId && row.actorId === actorId && !row.readAt),
+        );
+      },
+      async listNotifications(userId, options) {
+        return tables.notifications
+          .filter((row) => row.userId === userId && !(options.unreadOnly && row.readAt))
+          .sort((a, b) => byCreatedAt(b, a))
+          .flatMap((row) => {
+            const brew = tables.brews.find((candidate) => candidate.id === row.brewId);
+            const bag = brew ? findBag(brew.bagId) : null;
+            if (!bag) return [];
+            return [
+              copy({
+                id: row.id,
+                type: row.type,
+                actorId: row.actorId,
+                actorDisplayName: displayNameOf(row.actorId),
+                actorAvatarUrl: findProfile(row.actorId)?.avatarUrl ?? null,
+                brewId: row.brewId,
+                commentId: row.commentId,
+                coffeeName: bag.coffeeName,
+                readAt: row.readAt,
+                createdAt: row.createdAt,
+              }),
+            ];
+          })
+          .slice(0, options.limit);
+      },
+      async countUnreadNotifications(userId) {
+        return tables.notifications.filter((row) => row.userId === userId && !row.readAt).length;
+      },
+      async markNotificationsRead(userId, ids, readAt) {
+        for (const row of tables.notifications) {
+          if (row.userId === userId && !row.readAt && (ids === undefined || ids.includes(row.id))) row.readAt = readAt;
+        }
+      },
+    },
+
+    catalogue: {
+      async createRoaster(values) {
+        if (tables.roasters.some((row) => row.userId === values.userId && sameName(row.name, values.name))) return null;
+        const createdAt = now();
+        const created = withDefaults<Roaster>(
+          { id: randomUUID(), userId: values.userId, name: values.name, website: null, createdAt, updatedAt: createdAt },
+          values,
+        );
+        tables.roasters.push(created);
+        return copy(created);
+      },
+      async findRoaster(roasterId, userId) {
+        return copy(tables.roasters.find((row) => row.id === roasterId && row.userId === userId) ?? null);
+      },
+      async findRoasterNamed(userId, name) {
+        return copy(tables.roasters.find((row) => row.userId === userId && sameName(row.name, name)) ?? null);
+      },
+      async listRoasters(userId, filter = {}) {
+        const rows = autocomplete(
+          tables.roasters.filter(
+            (row) =>
+              row.userId === userId &&
+              (!filter.id || row.id === filter.id) &&
+              (!filter.name || sameName(row.name, filter.name)) &&
+              (!filter.exceptId || row.id !== filter.exceptId),
+          ),
+          filter.q,
+        ).map((roaster) => {
+          const coffeeIds = tables.coffees.filter((coffee) => coffee.roasterId === roaster.id).map((coffee) => coffee.id);
+          return copy({
+            ...roaster,
+            coffeeCount: coffeeIds.length,
+            bagCount: tables.bags.filter((bag) => bag.coffeeId !== null && coffeeIds.includes(bag.coffeeId)).length,
+          });
+        });
+        return filter.limit ? rows.slice(0, filter.limit) : rows;
+      },
+      async updateRoaster(roasterId, changes) {
+        const roaster = tables.roasters.find((row) => row.id === roasterId);
+        if (roaster) assign(roaster, changes);
+      },
+      async deleteRoasters(roasterIds) {
+        tables.roasters = tables.roasters.filter((row) => !roasterIds.includes(row.id));
+      },
+
+      async createCoffee(values) {
+        if (tables.coffees.some((row) => row.roasterId === values.roasterId && sameName(row.name, values.name))) {
+          return null;
+        }
+        const createdAt = now();
+        const created = withDefaults<Coffee>(
+          {
+            id: randomUUID(),
+            userId: values.userId,
+            roasterId: values.roasterId,
+            name: values.name,
+            country: null,
+            region: null,
+            farm: null,
+            variety: null,
+            altitude: null,
+            process: null,
+            createdAt,
+            updatedAt: createdAt,
+          },
+          values,
+        );
+        tables.coffees.push(created);
+        return copy(created);
+      },
+      async findCoffee(coffeeId, userId) {
+        return copy(tables.coffees.find((row) => row.id === coffeeId && row.userId === userId) ?? null);
+      },
+      async findCoffeeNamed(roasterId, name, exceptId) {
+        return copy(
+          tables.coffees.find(
+            (row) => row.roasterId === roasterId && sameName(row.name, name) && row.id !== exceptId,
+          ) ?? null,
+        );
+      },
+      async listCoffees(userId, filter = {}) {
+        const rows = autocomplete(
+          tables.coffees.filter(
+            (row) =>
+              row.userId === userId &&
+              (!filter.id || row.id === filter.id) &&
+              (!filter.roasterId || row.roasterId === filter.roasterId),
+          ),
+          filter.q,
+        ).flatMap((coffee) => {
+          const roaster = tables.roasters.find((row) => row.id === coffee.roasterId);
+          if (!roaster) return [];
+          const bagCount = tables.bags.filter((bag) => bag.coffeeId === coffee.id).length;
+          return [copy({ ...coffee, roasterName: roaster.name, bagCount })];
+        });
+        return filter.limit ? rows.slice(0, filter.limit) : rows;
+      },
+      async listRoasterCoffees(roasterIds) {
+        return copy(tables.coffees.filter((row) => roasterIds.includes(row.roasterId)));
+      },
+      async updateCoffee(coffeeId, changes) {
+        const coffee = tables.coffees.find((row) => row.id === coffeeId);
+        if (!coffee) return null;
+        assign(coffee, changes);
+        return copy(coffee);
+      },
+      async deleteCoffees(coffeeIds) {
+        tables.coffees = tables.coffees.filter((row) => !coffeeIds.includes(row.id));
+      },
+      async listPurchases(coffeeId) {
+        return tables.bags
+          .filter((bag) => bag.coffeeId === coffeeId)
+          .sort(byCreatedAt)
+          .map((bag) => {
+            const ratings = ratingsOf(activeBrews().filter((brew) => brew.bagId === bag.id));
+            return copy({
+              bagId: bag.id,
+              status: bag.status,
+              roastDate: bag.roastDate,
+              price: bag.price,
+              createdAt: bag.createdAt,
+              brewCount: activeBrews().filter((brew) => brew.bagId === bag.id).length,
+              averageRating: roundTo2(average(ratings)),
+              bestRating: ratings.length ? Math.max(...ratings) : null,
+            });
+          });
+      },
+
+      async relinkBags(sourceCoffeeIds, targetCoffeeId) {
+        for (const bag of tables.bags) {
+          if (bag.coffeeId !== null && sourceCoffeeIds.includes(bag.coffeeId)) bag.coffeeId = targetCoffeeId;
+        }
+      },
+      async syncBags(coffeeIds) {
+        for (const bag of tables.bags) {
+          const coffee = bag.coffeeId && coffeeIds.includes(bag.coffeeId)
+            ? tables.coffees.find((row) => row.id === bag.coffeeId)
+            : undefined;
+          const roaster = coffee ? tables.roasters.find((row) => row.id === coffee.roasterId) : undefined;
+          if (!coffee || !roaster) continue;
+          Object.assign(bag, {
+            coffeeName: coffee.name,
+            roaster: roaster.name,
+            origin: coffee.country ?? bag.origin,
+            process: coffee.process ?? bag.process,
+            updatedAt: now(),
+          });
+        }
+      },
+    },
+
+    equipment: {
+      async create(values) {
+        const createdAt = now();
+        const created = withDefaults<Equipment>(
+          {
+            id: randomUUID(),
+            userId: values.userId,
+            type: values.type,
+            brand: null,
+            model: values.model,
+            notes: null,
+            grindSettingMin: null,
+            grindSettingMax: null,
+            grindSettingUnit: null,
+            createdAt,
+            updatedAt: createdAt,
+          },
+          values,
+        );
+        tables.equipment.push(created);
+        return copy(created);
+      },
+      async find(equipmentId, userId) {
+        return copy(tables.equipment.find((row) => row.id === equipmentId && row.userId === userId) ?? null);
+      },
+      async list(userId, type) {
+        const sortName = (row: Equipment) => `${row.brand ?? ""} ${row.model}`.toLowerCase();
+        return copy(
+          tables.equipment
+            .filter((row) => row.userId === userId && (!type || row.type === type))
+            .sort((a, b) => byText(sortName(a), sortName(b))),
+        );
+      },
+      async update(equipmentId, changes) {
+        const item = tables.equipment.find((row) => row.id === equipmentId);
+        if (!item) return null;
+        assign(item, changes);
+        return copy(item);
+      },
+      async delete(equipmentId) {
+        tables.equipment = tables.equipment.filter((row) => row.id !== equipmentId);
+      },
+    },
+
+    recipes: {
+      async create(values) {
+        const createdAt = now();
+        const created = withDefaults<Recipe>(
+          {
+            id: randomUUID(),
+            userId: values.userId,
+            name: values.name,
+            method: values.method,
+            brewer: null,
+            grinder: null,
+            brewerId: null,
+            grinderId: null,
+            dose: null,
+            grindSetting: null,
+            waterAmount: null,
+            waterTemperature: null,
+            brewTimeSeconds: null,
+            bloomTimeSeconds: null,
+            bloomWater: null,
+            notes: null,
+            sourceBrewId: null,
+            createdAt,
+            updatedAt: createdAt,
+          },
+          values,
+        );
+        tables.recipes.push(created);
+        return copy(created);
+      },
+      async find(recipeId, userId) {
+        return copy(tables.recipes.find((row) => row.id === recipeId && row.userId === userId) ?? null);
+      },
+      async findMany(recipeIds) {
+        return copy(tables.recipes.filter((row) => recipeIds.includes(row.id)));
+      },
+      async list(userId) {
+        return copy(
+          tables.recipes
+            .filter((row) => row.userId === userId)
+            .sort((a, b) => byText(a.name.toLowerCase(), b.name.toLowerCase())),
+        );
+      },
+      async update(recipeId, changes) {
+        const recipe = tables.recipes.find((row) => row.id === recipeId);
+        if (!recipe) return null;
+        assign(recipe, changes);
+        return copy(recipe);
+      },
+      async delete(recipeId) {
+        tables.recipes = tables.recipes.filter((row) => row.id !== recipeId);
+      },
+      async unlinkEquipment(equipmentId, type) {
+        for (const recipe of tables.recipes) {
+          if (type === "BREWER" && recipe.brewerId === equipmentId) recipe.brewerId = null;
+          if (type === "GRINDER" && recipe.grinderId === equipmentId) recipe.grinderId = null;
+        }
+      },
+    },
+
+    restingProfiles: {
+      async create(values) {
+        const createdAt = now();
+        const created = withDefaults<StoredRestingProfile>(
+          {
+            id: randomUUID(),
+            userId: values.userId,
+            name: values.name,
+            roastLevel: null,
+            process: null,
+            restDays: values.restDays,
+            peakStartDay: null,
+            peakEndDay: null,
+            pastPeakAfterDays: values.pastPeakAfterDays,
+            createdAt,
+            updatedAt: createdAt,
+          },
+          values,
+        );
+        tables.restingProfiles.push(created);
+        return copy(created);
+      },
+      async find(profileId, userId) {
+        return copy(tables.restingProfiles.find((row) => row.id === profileId && row.userId === userId) ?? null);
+      },
+      async list(userId) {
+        return copy(
+          tables.restingProfiles
+            .filter((row) => row.userId === userId)
+            .sort((a, b) => byText(a.name.toLowerCase(), b.name.toLowerCase())),
+        );
+      },
+      async listForOwners(userIds) {
+        return copy(tables.restingProfiles.filter((row) => userIds.includes(row.userId)));
+      },
+      async update(profileId, changes) {
+        const profile = tables.restingProfiles.find((row) => row.id === profileId);
+        if (!profile) return null;
+        assign(profile, changes);
+        return copy(profile);
+      },
+      async delete(profileId) {
+        tables.restingProfiles = tables.restingProfiles.filter((row) => row.id !== profileId);
+      },
+    },
+
+    sensoryAttributes: {
+      async list(userId) {
+        return copy(
+          tables.sensoryAttributes
+            .filter((row) => row.userId === null || row.userId === userId)
+            .sort(
+              (a, b) =>
+                Number(a.userId !== null) - Number(b.userId !== null) || a.position - b.position || byCreatedAt(a, b),
+            ),
+        );
+      },
+      async create(values) {
+        // Like the unique index, built-in rows (null user) never conflict with anything.
+        const userId = values.userId ?? null;
+        if (userId && tables.sensoryAttributes.some((row) => row.userId === userId && row.key === values.key)) {
+          return null;
+        }
+        const created = withDefaults<SensoryAttribute>(
+          { id: randomUUID(), userId, key: values.key, label: values.label, min: 0, max: 5, position: 0, createdAt: now() },
+          values,
+        );
+        tables.sensoryAttributes.push(created);
+        return copy(created);
+      },
+      async findOwn(attributeId, userId) {
+        return copy(tables.sensoryAttributes.find((row) => row.id === attributeId && row.userId === userId) ?? null);
+      },
+      async delete(attributeId) {
+        tables.sensoryAttributes = tables.sensoryAttributes.filter((row) => row.id !== attributeId);
+      },
+    },
+
+    history: {
+      async record(entries) {
+        for (const values of entries) {
+          tables.bagHistory.push(
+            withDefaults<BagHistoryEntry>(
+              {
+                id: randomUUID(),
+                bagId: values.bagId,
+                brewId: null,
+                actorId: values.actorId,
+                action: values.action,
+                changes: [],
+                revertOfId: null,
+                createdAt: now(),
+              },
+              values,
+            ),
+          );
+        }
+      },
+      async list(bagId) {
+        return copy(
+          tables.bagHistory
+            .filter((entry) => entry.bagId === bagId)
+            .sort((a, b) => byCreatedAt(b, a))
+            .map((entry) => ({ ...entry, actorDisplayName: displayNameOf(entry.actorId) })),
+        );
+      },
+      async find(bagId, entryId) {
+        return copy(tables.bagHistory.find((entry) => entry.id === entryId && entry.bagId === bagId) ?? null);
+      },
+      async findRevertOf(entryId) {
+        return copy(tables.bagHistory.find((entry) => entry.revertOfId === entryId) ?? null);
+      },
+    },
+
+    // Restores a snapshot of every table when `work` throws. Writes from requests
+    // running meanwhile are rolled back with it, which is fine for tests and local use.
+    async transaction(work) {
+      const snapshot = copy(tables);
+      try {
+        return await work(store);
+      } catch (error) {
+        tables = snapshot;
+        throw error;
+      }
+    },
+  };
+
+  return store;
+}
@@ -0,0 +1,1170 @@
+import { and, asc, desc, eq, gte, inArray, isNull, lt, lte, ne, or, sql, type SQL } from "drizzle-orm";
+import { Client } from "pg";
+import type { db as appDb } from "../db/client";
+import {
+  apiTokens,
+  bagAdjustments,
+  bagHistory,
+  bagInvites,
+  bagMembers,
+  bags,
+  brewComments,
+  brewLikes,
+  brewSessionEvents,
+  brewSessions,
+  brews,
+  coffees,
+  equipment,
+  follows,
+  localUsers,
+  notifications,
+  profiles,
+  recipes,
+  restingProfiles,
+  roasters,
+  sensoryAttributes,
+} from "../db/schema";
+import { ANONYMOUS_DISPLAY_NAME } from "../social";
+import type { BagSort } from "../contracts";
+import type { BagRole, Visibility } from "../types/api";
+import type { CatalogueRepository, FeedViewer, Store } from "./types";
+
+// Store backed by Postgres through drizzle. Every query the API runs lives here.
+
+// The app's db handle or a transaction on it.
+type Executor = Pick<typeof appDb, "select" | "insert" | "update" | "delete" | "execute" | "transaction">;
+
+// NOTIFY channel carrying new brew ids between API instances.
+const FEED_CHANNEL = "feed_brews";
+
+// Profile name for rows left-joined with profiles.
+const profileDisplayName = sql<string>`coalesce(${profiles.displayName}, ${ANONYMOUS_DISPLAY_NAME})`;
+
+// Bags the user created or was invited to.
+function bagAccessibleBy(userId: string): SQL {
+  return sql`(${bags.userId} = ${userId} or exists (select 1 from ${bagMembers}
+    where ${bagMembers.bagId} = ${bags.id} and ${bagMembers.userId} = ${userId}))`;
+}
+
+// Caller's role on each bag row, for list queries already filtered by bagAccessibleBy.
+function bagRoleFor(userId: string) {
+  return sql<BagRole>`case when ${bags.userId} = ${userId} then 'OWNER'::bag_role else (select ${bagMembers.role}
+    from ${bagMembers} where ${bagMembers.bagId} = ${bags.id} and ${bagMembers.userId} = ${userId}) end`;
+}
+
+// Same expression as bags_search_idx so Postgres can use the GIN index.
+const bagSearchDocument = sql`to_tsvector('simple', coalesce(${bags.coffeeName}, '') || ' ' || coalesce(${bags.notes}, ''))`;
+
+// Turns free text into a prefix-matching tsquery ("ethi nat" -> "ethi:* & nat:*").
+function toPrefixTsQuery(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.length ? words.map((word) => `${word}:*`).join(" & ") : null;
+}
+
+// Stricter of bag and brew visibility; a brew never shows more widely than its bag.
+const storedVisibility = sql<Visibility>`greatest(${bags.visibility}, coalesce(${brews.visibility}, ${bags.visibility}))`;
+
+// True when viewerId follows the brewer.
+function followsOwner(viewerId: string): SQL {
+  return sql`exists (select 1 from ${follows} where ${follows.followerId} = ${viewerId} and ${follows.followeeId} = ${brews.userId})`;
+}
+
+// Feed rows the viewer may see: public ones, followers-only ones from people they
+// follow, their own, and everything on bags they share.
+function feedVisibleTo(viewer: FeedViewer): SQL {
+  const effective = sql`case when ${viewer.guestUserId} in (${bags.userId}, ${brews.userId})
+    then greatest(${storedVisibility}, ${viewer.guestVisibility}::visibility)
+    else ${storedVisibility} end`;
+  return sql`(${effective} = 'PUBLIC'
+    or ${viewer.userId} in (${bags.userId}, ${brews.userId})
+    or exists (select 1 from ${bagMembers} where ${bagMembers.bagId} = ${bags.id} and ${bagMembers.userId} = ${viewer.userId})
+    or (${effective} = 'FOLLOWERS' and ${followsOwner(viewer.userId)}))`;
+}
+
+// Columns for one feed row. likedByMe needs a viewer; broadcast events are new brews
+// nobody has liked yet.
+const feedItemColumns = (viewerId: string | null) => ({
+  brewId: brews.id,
+  bagId: brews.bagId,
+  userId: brews.userId,
+  displayName: profileDisplayName,
+  avatarUrl: profiles.avatarUrl,
+  coffeeName: bags.coffeeName,
+  roaster: bags.roaster,
+  method: brews.method,
+  brewer: brews.brewer,
+  grinder: brews.grinder,
+  dose: brews.dose,
+  grindSetting: brews.grindSetting,
+  waterAmount: brews.waterAmount,
+  rating: brews.rating,
+  flavourTags: brews.flavourTags,
+  flavourNotes: brews.flavourNotes,
+  isBest: brews.isBest,
+  createdAt: brews.createdAt,
+  likeCount: sql<number>`(select count(*)::int from ${brewLikes} where ${brewLikes.brewId} = ${brews.id})`,
+  commentCount: sql<number>`(select count(*)::int from ${brewComments}
+    where ${brewComments.brewId} = ${brews.id} and ${brewComments.deletedAt} is null)`,
+  likedByMe: viewerId
+    ? sql<boolean>`exists (select 1 from ${brewLikes} where ${brewLikes.brewId} = ${brews.id} and ${brewLikes.userId} = ${viewerId})`
+    : sql<boolean>`false`,
+});
+
+// Escapes LIKE wildcards so autocomplete text matches literally.
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Autocomplete filter and order: names containing `q`, those starting with it first.
+function autocompleteMatch(column: typeof roasters.name | typeof coffees.name, q: string | undefined) {
+  if (!q) return { where: undefined, orderBy: [sql`lower(${column})`] };
+  return {
+    where: sql`${column} ilike ${`%${escapeLike(q)}%`}`,
+    orderBy: [sql`${column} ilike ${`${escapeLike(q)}%`} desc`, sql`lower(${column})`],
+  };
+}
+
+const sameName = (column: typeof roasters.name | typeof coffees.name, name: string) =>
+  sql`lower(${column}) = lower(${name.trim()})`;
+
+function createCatalogueRepository(executor: Executor): CatalogueRepository {
+  const coffeeBagCount = sql<number>`(select count(*)::int from ${bags} where ${bags.coffeeId} = ${coffees.id})`;
+
+  return {
+    async createRoaster(values) {
+      const inserted = await executor.insert(roasters).values(values).onConflictDoNothing().returning();
+      return inserted[0] ?? null;
+    },
+    async findRoaster(roasterId, userId) {
+      const rows = await executor
+        .select()
+        .from(roasters)
+        .where(and(eq(roasters.id, roasterId), eq(roasters.userId, userId)));
+      return rows[0] ?? null;
+    },
+    async findRoasterNamed(userId, name) {
+      const rows = await executor
+        .select()
+        .from(roasters)
+        .where(and(eq(roasters.userId, userId), sameName(roasters.name, name)));
+      return rows[0] ?? null;
+    },
+    async listRoasters(userId, filter = {}) {
+      const match = autocompleteMatch(roasters.name, filter.q);
+      const query = executor
+        .select({
+          roaster: roasters,
+          coffeeCount: sql<number>`count(distinct ${coffees.id})::int`,
+          bagCount: sql<number>`count(distinct ${bags.id})::int`,
+        })
+        .from(roasters)
+        .leftJoin(coffees, eq(coffees.roasterId, roasters.id))
+        .leftJoin(bags, eq(bags.coffeeId, coffees.id))
+        .where(
+          and(
+            eq(roasters.userId, userId),
+            match.where,
+            filter.id ? eq(roasters.id, filter.id) : undefined,
+            filter.name ? sameName(roasters.name, filter.name) : undefined,
+            filter.exceptId ? ne(roasters.id, filter.exceptId) : undefined,
+          ),
+        )
+        .groupBy(roasters.id)
+        .orderBy(...match.orderBy)
+        .$dynamic();
+      const rows = await (filter.limit ? query.limit(filter.limit) : query);
+      return rows.map((row) => ({ ...row.roaster, coffeeCount: row.coffeeCount, bagCount: row.bagCount }));
+    },
+    async updateRoaster(roasterId, changes) {
+      await executor.update(roasters).set(changes).where(eq(roasters.id, roasterId));
+    },
+    async deleteRoasters(roasterIds) {
+      if (!roasterIds.length) return;
+      await executor.delete(roasters).where(inArray(roasters.id, roasterIds));
+    },
+
+    async createCoffee(values) {
+      const inserted = await executor.insert(coffees).values(values).onConflictDoNothing().returning();
+      return inserted[0] ?? null;
+    },
+    async findCoffee(coffeeId, userId) {
+      const rows = await executor
+        .select()
+        .from(coffees)
+        .where(and(eq(coffees.id, coffeeId), eq(coffees.userId, userId)));
+      return rows[0] ?? null;
+    },
+    async findCoffeeNamed(roasterId, name, exceptId) {
+      const rows = await executor
+        .select()
+        .from(coffees)
+        .where(
+          and(
+            eq(coffees.roasterId, roasterId),
+            sameName(coffees.name, name),
+            exceptId ? ne(coffees.id, exceptId) : undefined,
+          ),
+        );
+      return rows[0] ?? null;
+    },
+    async listCoffees(userId, filter = {}) {
+      const match = autocompleteMatch(coffees.name, filter.q);
+      const query = executor
+        .select({ coffee: coffees, roasterName: roasters.name, bagCount: coffeeBagCount })
+        .from(coffees)
+        .innerJoin(roasters, eq(roasters.id, coffees.roasterId))
+        .where(
+          and(
+            eq(coffees.userId, userId),
+            match.where,
+            filter.id ? eq(coffees.id, filter.id) : undefined,
+            filter.roasterId ? eq(coffees.roasterId, filter.roasterId) : undefined,
+          ),
+        )
+        .orderBy(...match.orderBy)
+        .$dynamic();
+      const rows = await (filter.limit ? query.limit(filter.limit) : query);
+      return rows.map((row) => ({ ...row.coffee, roasterName: row.roasterName, bagCount: row.bagCount }));
+    },
+    async listRoasterCoffees(roasterIds) {
+      if (!roasterIds.length) return [];
+      return executor.select().from(coffees).where(inArray(coffees.roasterId, roasterIds));
+    },
+    async updateCoffee(coffeeId, changes) {
+      const updated = await executor.update(coffees).set(changes).where(eq(coffees.id, coffeeId)).returning();
+      return updated[0] ?? null;
+    },
+    async deleteCoffees(coffeeIds) {
+      if (!coffeeIds.length) return;
+      await executor.delete(coffees).where(inArray(coffees.id, coffeeIds));
+    },
+    async listPurchases(coffeeId) {
+      return executor
+        .select({
+          bagId: bags.id,
+          status: bags.status,
+          roastDate: bags.roastDate,
+          price: bags.price,
+          createdAt: bags.createdAt,
+          brewCount: sql<number>`count(${brews.id})::int`,
+          averageRating: sql<number | null>`round(avg(${brews.rating})::numeric, 2)::float8`,
+          bestRating: sql<number | null>`max(${brews.rating})`,
+        })
+        .from(bags)
+        .leftJoin(brews, and(eq(brews.bagId, bags.id), isNull(brews.deletedAt)))
+        .where(eq(bags.coffeeId, coffeeId))
+        .groupBy(bags.id)
+        .orderBy(asc(bags.createdAt));
+    },
+
+    async relinkBags(sourceCoffeeIds, targetCoffeeId) {
+      if (!sourceCoffeeIds.length) return;
+      await executor.update(bags).set({ coffeeId: targetCoffeeId }).where(inArray(bags.coffeeId, sourceCoffeeIds));
+    },
+    async syncBags(coffeeIds) {
+      if (!coffeeIds.length) return;
+      await executor
+        .update(bags)
+        .set({
+          coffeeName: sql`${coffees.name}`,
+          roaster: sql`${roasters.name}`,
+          origin: sql`coalesce(${coffees.country}, ${bags.origin})`,
+          process: sql`coalesce(${coffees.process}, ${bags.process})`,
+          updatedAt: new Date(),
+        })
+        .from(coffees)
+        .innerJoin(roasters, eq(roasters.id, coffees.roasterId))
+        .where(and(eq(bags.coffeeId, coffees.id), inArray(coffees.id, coffeeIds)));
+    },
+  };
+}
+
+// Dedicated connection for LISTEN; notifications carry only the brew id to stay under
+// Postgres' 8000-byte payload limit, so each instance loads the row itself.
+async function listenForFeedBrews(onBrewId: (brewId: string) => void, onDisconnect: () => void) {
+  const client = new Client({ connectionString: process.env.DATABASE_URL });
+  client.on("notification", (message) => {
+    if (message.channel === FEED_CHANNEL && message.payload) onBrewId(message.payload);
+  });
+  client.on("error", (error) => {
+    console.error("feed listener disconnected", error);
+    onDisconnect();
+    client.end().catch(() => undefined);
+  });
+  await client.connect();
+  await client.query(`LISTEN ${FEED_CHANNEL}`);
+}
+
+export function createPostgresStore(executor: Executor): Store {
+  const selectFeedItems = (viewer: FeedViewer) =>
+    executor
+      .select(feedItemColumns(viewer.userId))
+      .from(brews)
+      .innerJoin(bags, eq(brews.bagId, bags.id))
+      .leftJoin(profiles, eq(profiles.userId, brews.userId));
+
+  const listFollows = (userId: string, side: "followerId" | "followeeId") => {
+    // The other user in the relationship is the one whose profile we show.
+    const otherSide = side === "followerId" ? follows.followeeId : follows.followerId;
+    return executor
+      .select({
+        userId: otherSide,
+        displayName: profileDisplayName,
+        avatarUrl: profiles.avatarUrl,
+        followedAt: follows.createdAt,
+      })
+      .from(follows)
+      .leftJoin(profiles, eq(profiles.userId, otherSide))
+      .where(eq(follows[side], userId))
+      .orderBy(desc(follows.createdAt));
+  };
+
+  return {
+    localUsers: {
+      async findByEmail(email) {
+        const rows = await executor.select().from(localUsers).where(eq(localUsers.email, email));
+        return rows[0] ?? null;
+      },
+      async create(values) {
+        const inserted = await executor.insert(localUsers).values(values).onConflictDoNothing().returning();
+        return inserted[0] ?? null;
+      },
+    },
+
+    apiTokens: {
+      async create(values) {
+        const [created] = await executor.insert(apiTokens).values(values).returning();
+        if (!created) throw new Error("Failed to create token");
+        return created;
+      },
+      async findByHash(tokenHash) {
+        const rows = await executor.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+        return rows[0] ?? null;
+      },
+      async listActive(userId) {
+        return executor
+          .select()
+          .from(apiTokens)
+          .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+          .orderBy(desc(apiTokens.createdAt));
+      },
+      async update(id, changes) {
+        const updated = await executor.update(apiTokens).set(changes).where(eq(apiTokens.id, id)).returning();
+        return updated[0] ?? null;
+      },
+      async touch(id, usedAt, staleBefore) {
+        await executor
+          .update(apiTokens)
+          .set({ lastUsedAt: usedAt })
+          .where(and(eq(apiTokens.id, id), or(isNull(apiTokens.lastUsedAt), lt(apiTokens.lastUsedAt, staleBefore))));
+      },
+      async revoke(id, userId) {
+        const revoked = await executor
+          .update(apiTokens)
+          .set({ revokedAt: new Date() })
+          .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+          .returning();
+        return revoked[0] ?? null;
+      },
+    },
+
+    profiles: {
+      async find(userId) {
+        const rows = await executor.select().from(profiles).where(eq(profiles.userId, userId));
+        return rows[0] ?? null;
+      },
+      async findMany(userIds) {
+        if (!userIds.length) return [];
+        return executor.select().from(profiles).where(inArray(profiles.userId, userIds));
+      },
+      async save(userId, values) {
+        const [saved] = await executor
+          .insert(profiles)
+          .values({ ...values, userId })
+          .onConflictDoUpdate({ target: profiles.userId, set: { ...values, updatedAt: new Date() } })
+          .returning();
+        if (!saved) throw new Error("Failed to save profile");
+        return saved;
+      },
+      async findPublic(userId) {
+        const rows = await executor
+          .select({
+            userId: profiles.userId,
+            displayName: profiles.displayName,
+            avatarUrl: profiles.avatarUrl,
+            bio: profiles.bio,
+            followerCount: sql<number>`(select count(*)::int from ${follows} where ${follows.followeeId} = ${profiles.userId})`,
+            followingCount: sql<number>`(select count(*)::int from ${follows} where ${follows.followerId} = ${profiles.userId})`,
+          })
+          .from(profiles)
+          .where(eq(profiles.userId, userId));
+        return rows[0] ?? null;
+      },
+      async follow(followerId, followeeId) {
+        await executor.insert(follows).values({ followerId, followeeId }).onConflictDoNothing();
+      },
+      async unfollow(followerId, followeeId) {
+        await executor.delete(follows).where(and(eq(follows.followerId, followerId), eq(follows.followeeId, followeeId)));
+      },
+      async isFollowing(followerId, followeeId) {
+        const rows = await executor
+          .select({ followerId: follows.followerId })
+          .from(follows)
+          .where(and(eq(follows.followerId, followerId), eq(follows.followeeId, followeeId)));
+        return rows.length > 0;
+      },
+      listFollowing: (userId) => listFollows(userId, "followerId"),
+      listFollowers: (userId) => listFollows(userId, "followeeId"),
+    },
+
+    bags: {
+      async create(values) {
+        const [created] = await executor.insert(bags).values(values).returning();
+        if (!created) throw new Error("Failed to create bag");
+        return created;
+      },
+      async find(bagId) {
+        const rows = await executor.select().from(bags).where(eq(bags.id, bagId));
+        return rows[0] ?? null;
+      },
+      async findWithMemberRole(bagId, userId) {
+        const rows = await executor
+          .select({ bag: bags, memberRole: bagMembers.role })
+          .from(bags)
+          .leftJoin(bagMembers, and(eq(bagMembers.bagId, bags.id), eq(bagMembers.userId, userId)))
+          .where(eq(bags.id, bagId));
+        return rows[0] ?? null;
+      },
+      async update(bagId, changes) {
+        const updated = await executor.update(bags).set(changes).where(eq(bags.id, bagId)).returning();
+        return updated[0] ?? null;
+      },
+      async upsert(values) {
+        const [saved] = await executor
+          .insert(bags)
+          .values(values)
+          .onConflictDoUpdate({ target: bags.id, set: values })
+          .returning();
+        if (!saved) throw new Error("Failed to save bag");
+        return saved;
+      },
+      async list(userId, query) {
+        // Per-bag aggregates, limited to this user's bags so the grouping stays small.
+        const userBagIds = executor.select({ id: bags.id }).from(bags).where(bagAccessibleBy(userId));
+        const brewStats = executor
+          .select({
+            bagId: brews.bagId,
+            brewCount: sql<number>`count(*)::int`.as("brew_count"),
+            averageRating: sql<number | null>`round(avg(${brews.rating})::numeric, 2)::float`.as("average_rating"),
+            usedGrams: sql<number>`sum(${brews.dose})::float`.as("used_grams"),
+            averageDose: sql<number | null>`avg(${brews.dose})::float`.as("average_dose"),
+          })
+          .from(brews)
+          .where(and(isNull(brews.deletedAt), inArray(brews.bagId, userBagIds)))
+          .groupBy(brews.bagId)
+          .as("brew_stats");
+        const adjustmentStats = executor
+          .select({
+            bagId: bagAdjustments.bagId,
+            grams: sql<number>`sum(${bagAdjustments.grams})::float`.as("adjustment_grams"),
+          })
+          .from(bagAdjustments)
+          .where(inArray(bagAdjustments.bagId, userBagIds))
+          .groupBy(bagAdjustments.bagId)
+          .as("adjustment_stats");
+
+        // Nullable sort values are coalesced so keyset cursors can compare them.
+        const sortKeys: Record<BagSort, { expression: SQL; type: string }> = {
+          updated: { expression: sql`${bags.updatedAt}`, type: "timestamp" },
+          roastDate: { expression: sql`coalesce(${bags.roastDate}, '-infinity'::timestamp)`, type: "timestamp" },
+          averageRating: { expression: sql`coalesce(${brewStats.averageRating}, -1)`, type: "float8" },
+          brewCount: { expression: sql`coalesce(${brewStats.brewCount}, 0)`, type: "int" },
+        };
+        const sortKey = sortKeys[query.sort];
+
+        const conditions: SQL[] = [bagAccessibleBy(userId), eq(bags.status, query.status)];
+        if (query.roaster) conditions.push(sql`lower(${bags.roaster}) = lower(${query.roaster})`);
+        if (query.origin) conditions.push(sql`lower(${bags.origin}) = lower(${query.origin})`);
+        if (query.process) conditions.push(sql`lower(${bags.process}) = lower(${query.process})`);
+        if (query.roastDateFrom) conditions.push(gte(bags.roastDate, query.roastDateFrom));
+        if (query.roastDateTo) conditions.push(lte(bags.roastDate, query.roastDateTo));
+        if (query.minRating != null) conditions.push(sql`${brewStats.averageRating} >= ${query.minRating}`);
+        const tsQuery = query.q ? toPrefixTsQuery(query.q) : null;
+        if (tsQuery) conditions.push(sql`${bagSearchDocument} @@ to_tsquery('simple', ${tsQuery})`);
+        if (query.cursor) {
+          const comparator = query.order === "desc" ? sql`<` : sql`>`;
+          conditions.push(
+            sql`(${sortKey.expression}, ${bags.id}) ${comparator} (${query.cursor.sortValue}::${sql.raw(sortKey.type)}, ${query.cursor.id}::uuid)`,
+          );
+        }
+
+        const direction = query.order === "desc" ? sql`desc` : sql`asc`;
+        const rows = await executor
+          .select({
+            bag: bags,
+            brewCount: sql<number>`coalesce(${brewStats.brewCount}, 0)`,
+            averageRating: brewStats.averageRating,
+            usedGrams: sql<number>`coalesce(${brewStats.usedGrams}, 0)`,
+            averageDose: brewStats.averageDose,
+            adjustmentGrams: sql<number>`coalesce(${adjustmentStats.grams}, 0)`,
+            role: bagRoleFor(userId),
+            sortValue: sql<string>`(${sortKey.expression})::text`,
+          })
+          .from(bags)
+          .leftJoin(brewStats, eq(brewStats.bagId, bags.id))
+          .leftJoin(adjustmentStats, eq(adjustmentStats.bagId, bags.id))
+          .where(and(...conditions))
+          .orderBy(sql`${sortKey.expression} ${direction}`, sql`${bags.id} ${direction}`)
+          .limit(query.limit + 1);
+
+        return rows.map(({ usedGrams, averageDose, adjustmentGrams, ...row }) => ({
+          ...row,
+          usage: { usedGrams, averageDose, adjustmentGrams },
+        }));
+      },
+      async listOwned(userId) {
+        return executor.select().from(bags).where(eq(bags.userId, userId)).orderBy(bags.createdAt);
+      },
+      async countOwned(userId) {
+        const rows = await executor
+          .select({ count: sql<number>`count(*)::int` })
+          .from(bags)
+          .where(eq(bags.userId, userId));
+        return rows[0]?.count ?? 0;
+      },
+      async findMany(bagIds) {
+        if (!bagIds.length) return [];
+        return executor.select().from(bags).where(inArray(bags.id, bagIds));
+      },
+      async usage(bagId) {
+        const [brewRows, adjustmentRows] = await Promise.all([
+          executor
+            .select({
+              usedGrams: sql<number>`coalesce(sum(${brews.dose}), 0)::float`,
+              averageDose: sql<number | null>`avg(${brews.dose})::float`,
+            })
+            .from(brews)
+            .where(and(eq(brews.bagId, bagId), isNull(brews.deletedAt))),
+          executor
+            .select({ grams: sql<number>`coalesce(sum(${bagAdjustments.grams}), 0)::float` })
+            .from(bagAdjustments)
+            .where(eq(bagAdjustments.bagId, bagId)),
+        ]);
+        return {
+          usedGrams: brewRows[0]?.usedGrams ?? 0,
+          averageDose: brewRows[0]?.averageDose ?? null,
+          adjustmentGrams: adjustmentRows[0]?.grams ?? 0,
+        };
+      },
+      async clearRestingProfile(restingProfileId, userId) {
+        await executor
+          .update(bags)
+          .set({ restingProfileId: null })
+          .where(and(eq(bags.restingProfileId, restingProfileId), eq(bags.userId, userId)));
+      },
+
+      async listMembers(bagId) {
+        return executor
+          .select({
+            userId: bagMembers.userId,
+            displayName: profileDisplayName,
+            avatarUrl: profiles.avatarUrl,
+            role: bagMembers.role,
+            joinedAt: bagMembers.createdAt,
+          })
+          .from(bagMembers)
+          .leftJoin(profiles, eq(profiles.userId, bagMembers.userId))
+          .where(eq(bagMembers.bagId, bagId))
+          .orderBy(asc(bagMembers.createdAt));
+      },
+      async saveMember(bagId, userId, role) {
+        const [saved] = await executor
+          .insert(bagMembers)
+          .values({ bagId, userId, role })
+          .onConflictDoUpdate({ target: [bagMembers.bagId, bagMembers.userId], set: { role } })
+          .returning();
+        if (!saved) throw new Error("Failed to save bag member");
+        return saved;
+      },
+      async updateMember(bagId, userId, role) {
+        const updated = await executor
+          .update(bagMembers)
+          .set({ role })
+          .where(and(eq(bagMembers.bagId, bagId), eq(bagMembers.userId, userId)))
+          .returning();
+        return updated[0] ?? null;
+      },
+      async removeMember(bagId, userId) {
+        const deleted = await executor
+          .delete(bagMembers)
+          .where(and(eq(bagMembers.bagId, bagId), eq(bagMembers.userId, userId)))
+          .returning();
+        return deleted[0] ?? null;
+      },
+
+      async createInvite(values) {
+        const [created] = await executor.insert(bagInvites).values(values).returning();
+        if (!created) throw new Error("Failed to create invite");
+        return created;
+      },
+      async listActiveInvites(bagId, now) {
+        return executor
+          .select()
+          .from(bagInvites)
+          .where(and(eq(bagInvites.bagId, bagId), isNull(bagInvites.revokedAt), gte(bagInvites.expiresAt, now)))
+          .orderBy(desc(bagInvites.createdAt));
+      },
+      async findActiveInvite(token, now) {
+        const rows = await executor
+          .select()
+          .from(bagInvites)
+          .where(and(eq(bagInvites.token, token), isNull(bagInvites.revokedAt), gte(bagInvites.expiresAt, now)));
+        return rows[0] ?? null;
+      },
+      async revokeInvite(bagId, inviteId) {
+        const revoked = await executor
+          .update(bagInvites)
+          .set({ revokedAt: new Date() })
+          .where(and(eq(bagInvites.id, inviteId), eq(bagInvites.bagId, bagId), isNull(bagInvites.revokedAt)))
+          .returning();
+        return revoked[0] ?? null;
+      },
+
+      async createAdjustment(values) {
+        const [created] = await executor.insert(bagAdjustments).values(values).returning();
+        if (!created) throw new Error("Failed to record adjustment");
+        return created;
+      },
+      async listAdjustments(bagId) {
+        return executor
+          .select()
+          .from(bagAdjustments)
+          .where(eq(bagAdjustments.bagId, bagId))
+          .orderBy(desc(bagAdjustments.createdAt));
+      },
+    },
+
+    brews: {
+      async create(values) {
+        const [created] = await executor.insert(brews).values(values).returning();
+        if (!created) throw new Error("Failed to create brew");
+        return created;
+      },
+      async find(bagId, brewId) {
+        const rows = await executor
+          .select()
+          .from(brews)
+          .where(and(eq(brews.id, brewId), eq(brews.bagId, bagId)));
+        return rows[0] ?? null;
+      },
+      async update(bagId, brewId, changes, options = {}) {
+        const updated = await executor
+          .update(brews)
+          .set(changes)
+          .where(
+            and(eq(brews.id, brewId), eq(brews.bagId, bagId), options.activeOnly ? isNull(brews.deletedAt) : undefined),
+          )
+          .returning();
+        return updated[0] ?? null;
+      },
+      async upsert(values, userId) {
+        const [saved] = await executor
+          .insert(brews)
+          .values({ ...values, userId })
+          .onConflictDoUpdate({ target: brews.id, set: values })
+          .returning();
+        if (!saved) throw new Error("Failed to save brew");
+        return saved;
+      },
+      async markBest(bagId, brewId) {
+        return executor.transaction(async (tx) => {
+          await tx.update(brews).set({ isBest: false }).where(eq(brews.bagId, bagId));
+          const rows = await tx
+            .update(brews)
+            .set({ isBest: true })
+            .where(and(eq(brews.id, brewId), eq(brews.bagId, bagId), isNull(brews.deletedAt)))
+            .returning();
+          return rows[0] ?? null;
+        });
+      },
+      async clearBest(bagIds) {
+        if (!bagIds.length) return;
+        await executor.update(brews).set({ isBest: false }).where(inArray(brews.bagId, bagIds));
+      },
+      async refreshDaysOffRoast(bagIds) {
+        if (!bagIds.length) return;
+        await executor
+          .update(brews)
+          .set({
+            daysOffRoast: sql`case when ${bags.roastDate} is null then null
+              else greatest(0, floor(extract(epoch from ${brews.createdAt} - ${bags.roastDate}) / 86400))::int end`,
+          })
+          .from(bags)
+          .where(and(eq(bags.id, brews.bagId), inArray(brews.bagId, bagIds)));
+      },
+      async listForBags(bagIds) {
+        if (!bagIds.length) return [];
+        return executor
+          .select()
+          .from(brews)
+          .where(and(inArray(brews.bagId, bagIds), isNull(brews.deletedAt)))
+          .orderBy(brews.createdAt);
+      },
+      async listAccessible(brewIds, userId) {
+        if (!brewIds.length) return [];
+        return executor
+          .select({ brew: brews, bag: bags })
+          .from(brews)
+          .innerJoin(bags, eq(bags.id, brews.bagId))
+          .where(and(inArray(brews.id, brewIds), isNull(brews.deletedAt), bagAccessibleBy(userId)));
+      },
+      async listOnOwnedBags(userId) {
+        return executor
+          .select({ brew: brews, bag: bags })
+          .from(brews)
+          .innerJoin(bags, eq(brews.bagId, bags.id))
+          .where(and(eq(bags.userId, userId), isNull(brews.deletedAt)))
+          .orderBy(brews.createdAt);
+      },
+      async listByBrewer(userId, filter) {
+        const { recipeIds, brewerId, grinderId } = filter;
+        if (recipeIds && !recipeIds.length) return [];
+        return executor
+          .select({ brew: brews, bag: bags })
+          .from(brews)
+          .innerJoin(bags, eq(brews.bagId, bags.id))
+          .where(
+            and(
+              eq(brews.userId, userId),
+              isNull(brews.deletedAt),
+              recipeIds ? inArray(brews.recipeId, recipeIds) : undefined,
+              brewerId ? eq(brews.brewerId, brewerId) : undefined,
+              grinderId ? eq(brews.grinderId, grinderId) : undefined,
+            ),
+          )
+          .orderBy(brews.createdAt);
+      },
+      async findMany(brewIds) {
+        if (!brewIds.length) return [];
+        return executor.select().from(brews).where(inArray(brews.id, brewIds));
+      },
+      async findOwners(brewIds) {
+        if (!brewIds.length) return [];
+        return executor
+          .select({ id: brews.id, userId: bags.userId })
+          .from(brews)
+          .innerJoin(bags, eq(brews.bagId, bags.id))
+          .where(inArray(brews.id, brewIds));
+      },
+      async removeSensoryScore(userId, key) {
+        await executor
+          .update(brews)
+          .set({ sensory: sql`${brews.sensory} - ${key}::text` })
+          .where(and(eq(brews.userId, userId), sql`${brews.sensory} ? ${key}`));
+      },
+      async unlinkEquipment(equipmentId, type) {
+        if (type === "BREWER") {
+          await executor.update(brews).set({ brewerId: null }).where(eq(brews.brewerId, equipmentId));
+        } else {
+          await executor.update(brews).set({ grinderId: null }).where(eq(brews.grinderId, equipmentId));
+        }
+      },
+
+      async createSession(values) {
+        const [created] = await executor.insert(brewSessions).values(values).returning();
+        if (!created) throw new Error("Failed to start brew session");
+        return created;
+      },
+      async findSession(sessionId, bagId, userId) {
+        const rows = await executor
+          .select()
+          .from(brewSessions)
+          .where(and(eq(brewSessions.id, sessionId), eq(brewSessions.bagId, bagId), eq(brewSessions.userId, userId)));
+        return rows[0] ?? null;
+      },
+      async listOpenSessions(bagId, userId) {
+        return executor
+          .select()
+          .from(brewSessions)
+          .where(
+            and(
+              eq(brewSessions.bagId, bagId),
+              eq(brewSessions.userId, userId),
+              isNull(brewSessions.finishedAt),
+              isNull(brewSessions.cancelledAt),
+            ),
+          )
+          .orderBy(desc(brewSessions.startedAt));
+      },
+      async updateSession(sessionId, changes) {
+        await executor.update(brewSessions).set(changes).where(eq(brewSessions.id, sessionId));
+      },
+      async listSessionEvents(sessionId) {
+        return executor
+          .select()
+          .from(brewSessionEvents)
+          .where(eq(brewSessionEvents.sessionId, sessionId))
+          .orderBy(asc(brewSessionEvents.elapsedSeconds), asc(brewSessionEvents.createdAt));
+      },
+      async createSessionEvent(values) {
+        const [created] = await executor.insert(brewSessionEvents).values(values).returning();
+        if (!created) throw new Error("Failed to record brew event");
+        return created;
+      },
+      async deleteSessionEvent(sessionId, eventId) {
+        const deleted = await executor
+          .delete(brewSessionEvents)
+          .where(and(eq(brewSessionEvents.id, eventId), eq(brewSessionEvents.sessionId, sessionId)))
+          .returning();
+        return deleted[0] ?? null;
+      },
+    },
+
+    feed: {
+      async list(viewer, options) {
+        return selectFeedItems(viewer)
+          .where(
+            and(
+              isNull(brews.deletedAt),
+              feedVisibleTo(viewer),
+              options.followingOnly ? followsOwner(viewer.userId) : undefined,
+            ),
+          )
+          .orderBy(desc(brews.createdAt))
+          .limit(options.limit);
+      },
+      async find(brewId, viewer) {
+        const rows = await selectFeedItems(viewer).where(
+          and(eq(brews.id, brewId), isNull(brews.deletedAt), feedVisibleTo(viewer)),
+        );
+        return rows[0] ?? null;
+      },
+      // The comparison stays in SQL because JS dates drop the microseconds Postgres stores.
+      async listAfter(brewId, viewer, limit) {
+        const anchor = sql`(select ${brews.createdAt}, ${brews.id} from ${brews} where ${brews.id} = ${brewId})`;
+        return selectFeedItems(viewer)
+          .where(
+            and(isNull(brews.deletedAt), feedVisibleTo(viewer), sql`(${brews.createdAt}, ${brews.id}) > ${anchor}`),
+          )
+          .orderBy(asc(brews.createdAt), asc(brews.id))
+          .limit(limit);
+      },
+      async findEvent(brewId) {
+        const rows = await executor
+          .select({ item: feedItemColumns(null), visibility: storedVisibility, bagOwnerId: bags.userId })
+          .from(brews)
+          .innerJoin(bags, eq(brews.bagId, bags.id))
+          .leftJoin(profiles, eq(profiles.userId, brews.userId))
+          .where(and(eq(brews.id, brewId), isNull(brews.deletedAt)));
+        return rows[0] ?? null;
+      },
+      async isVisible(brewId, viewer) {
+        const rows = await executor
+          .select({ id: brews.id })
+          .from(brews)
+          .innerJoin(bags, eq(brews.bagId, bags.id))
+          .where(and(eq(brews.id, brewId), feedVisibleTo(viewer)));
+        return rows.length > 0;
+      },
+      async announce(brewId) {
+        await executor.execute(sql`select pg_notify(${FEED_CHANNEL}, ${brewId})`);
+      },
+      listen: listenForFeedBrews,
+
+      async like(brewId, userId) {
+        const inserted = await executor.insert(brewLikes).values({ brewId, userId }).onConflictDoNothing().returning();
+        return inserted.length > 0;
+      },
+      async unlike(brewId, userId) {
+        await executor.delete(brewLikes).where(and(eq(brewLikes.brewId, brewId), eq(brewLikes.userId, userId)));
+      },
+      async likeState(brewId, userId) {
+        const rows = await executor
+          .select({
+            likeCount: sql<number>`count(*)::int`,
+            likedByMe: sql<boolean>`coalesce(bool_or(${brewLikes.userId} = ${userId}), false)`,
+          })
+          .from(brewLikes)
+          .where(eq(brewLikes.brewId, brewId));
+        return { brewId, likeCount: rows[0]?.likeCount ?? 0, likedByMe: rows[0]?.likedByMe ?? false };
+      },
+
+      async listComments(brewId) {
+        return executor
+          .select({
+            id: brewComments.id,
+            brewId: brewComments.brewId,
+            parentId: brewComments.parentId,
+            userId: brewComments.userId,
+            displayName: profileDisplayName,
+            avatarUrl: profiles.avatarUrl,
+            body: brewComments.body,
+            createdAt: brewComments.createdAt,
+            deletedAt: brewComments.deletedAt,
+          })
+          .from(brewComments)
+          .leftJoin(profiles, eq(profiles.userId, brewComments.userId))
+          .where(eq(brewComments.brewId, brewId))
+          .orderBy(asc(brewComments.createdAt), asc(brewComments.id));
+      },
+      async findComment(brewId, commentId) {
+        const rows = await executor
+          .select()
+          .from(brewComments)
+          .where(and(eq(brewComments.id, commentId), eq(brewComments.brewId, brewId), isNull(brewComments.deletedAt)));
+        return rows[0] ?? null;
+      },
+      async createComment(values) {
+        const [created] = await executor.insert(brewComments).values(values).returning();
+        if (!created) throw new Error("Failed to create comment");
+        return created;
+      },
+      async deleteComment(brewId, commentId, authorId) {
+        const deleted = await executor
+          .update(brewComments)
+          .set({ deletedAt: new Date() })
+          .where(
+            and(
+              eq(brewComments.id, commentId),
+              eq(brewComments.brewId, brewId),
+              isNull(brewComments.deletedAt),
+              authorId ? eq(brewComments.userId, authorId) : undefined,
+            ),
+          )
+          .returning();
+        return deleted[0] ?? null;
+      },
+
+      async createNotifications(values) {
+        if (!values.length) return [];
+        return executor.insert(notifications).values(values).returning();
+      },
+      async deleteUnreadLikeNotification(brewId, actorId) {
+        await executor
+          .delete(notifications)
+          .where(
+            and(
+              eq(notifications.type, "LIKE"),
+              eq(notifications.brewId, brewId),
+              eq(notifications.actorId, actorId),
+              isNull(notifications.readAt),
+            ),
+          );
+      },
+      async listNotifications(userId, options) {
+        return executor
+          .select({
+            id: notifications.id,
+            type: notifications.type,
+            actorId: notifications.actorId,
+            actorDisplayName: profileDisplayName,
+            actorAvatarUrl: profiles.avatarUrl,
+            brewId: notifications.brewId,
+            commentId: notifications.commentId,
+            coffeeName: bags.coffeeName,
+            readAt: notifications.readAt,
+            createdAt: notifications.createdAt,
+          })
+          .from(notifications)
+          .innerJoin(brews, eq(notifications.brewId, brews.id))
+          .innerJoin(bags, eq(brews.bagId, bags.id))
+          .leftJoin(profiles, eq(profiles.userId, notifications.actorId))
+          .where(and(eq(notifications.userId, userId), options.unreadOnly ? isNull(notifications.readAt) : undefined))
+          .orderBy(desc(notifications.createdAt))
+          .limit(options.limit);
+      },
+      async countUnreadNotifications(userId) {
+        const rows = await executor
+          .select({ count: sql<number>`count(*)::int` })
+          .from(notifications)
+          .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+        return rows[0]?.count ?? 0;
+      },
+      async markNotificationsRead(userId, ids, readAt) {
+        if (ids && !ids.length) return;
+        await executor
+          .update(notifications)
+          .set({ readAt })
+          .where(
+            and(
+              eq(notifications.userId, userId),
+              isNull(notifications.readAt),
+              ids === undefined ? undefined : inArray(notifications.id, ids),
+            ),
+          );
+      },
+    },
+
+    catalogue: createCatalogueRepository(executor),
+
+    equipment: {
+      async create(values) {
+        const [created] = await executor.insert(equipment).values(values).returning();
+        if (!created) throw new Error("Failed to create equipment");
+        return created;
+      },
+      async find(equipmentId, userId) {
+        const rows = await executor
+          .select()
+          .from(equipment)
+          .where(and(eq(equipment.id, equipmentId), eq(equipment.userId, userId)));
+        return rows[0] ?? null;
+      },
+      async list(userId, type) {
+        return executor
+          .select()
+          .from(equipment)
+          .where(and(eq(equipment.userId, userId), type ? eq(equipment.type, type) : undefined))
+          .orderBy(sql`lower(coalesce(${equipment.brand}, '') || ' ' || ${equipment.model})`);
+      },
+      async update(equipmentId, changes) {
+        const updated = await executor.update(equipment).set(changes).where(eq(equipment.id, equipmentId)).returning();
+        return updated[0] ?? null;
+      },
+      async delete(equipmentId) {
+        await executor.delete(equipment).where(eq(equipment.id, equipmentId));
+      },
+    },
+
+    recipes: {
+      async create(values) {
+        const [created] = await executor.insert(recipes).values(values).returning();
+        if (!created) throw new Error("Failed to create recipe");
+        return created;
+      },
+      async find(recipeId, userId) {
+        const rows = await executor
+          .select()
+          .from(recipes)
+          .where(and(eq(recipes.id, recipeId), eq(recipes.userId, userId)));
+        return rows[0] ?? null;
+      },
+      async findMany(recipeIds) {
+        if (!recipeIds.length) return [];
+        return executor.select().from(recipes).where(inArray(recipes.id, recipeIds));
+      },
+      async list(userId) {
+        return executor
+          .select()
+          .from(recipes)
+          .where(eq(recipes.userId, userId))
+          .orderBy(sql`lower(${recipes.name})`);
+      },
+      async update(recipeId, changes) {
+        const updated = await executor.update(recipes).set(changes).where(eq(recipes.id, recipeId)).returning();
+        return updated[0] ?? null;
+      },
+      async delete(recipeId) {
+        await executor.delete(recipes).where(eq(recipes.id, recipeId));
+      },
+      async unlinkEquipment(equipmentId, type) {
+        if (type === "BREWER") {
+          await executor.update(recipes).set({ brewerId: null }).where(eq(recipes.brewerId, equipmentId));
+        } else {
+          await executor.update(recipes).set({ grinderId: null }).where(eq(recipes.grinderId, equipmentId));
+        }
+      },
+    },
+
+    restingProfiles: {
+      async create(values) {
+        const [created] = await executor.insert(restingProfiles).values(values).returning();
+        if (!created) throw new Error("Failed to create resting profile");
+        return created;
+      },
+      async find(profileId, userId) {
+        const rows = await executor
+          .select()
+          .from(restingProfiles)
+          .where(and(eq(restingProfiles.id, profileId), eq(restingProfiles.userId, userId)));
+        return rows[0] ?? null;
+      },
+      async list(userId) {
+        return executor
+          .select()
+          .from(restingProfiles)
+          .where(eq(restingProfiles.userId, userId))
+          .orderBy(sql`lower(${restingProfiles.name})`);
+      },
+      async listForOwners(userIds) {
+        if (!userIds.length) return [];
+        return executor.select().from(restingProfiles).where(inArray(restingProfiles.userId, userIds));
+      },
+      async update(profileId, changes) {
+        const updated = await executor
+          .update(restingProfiles)
+          .set(changes)
+          .where(eq(restingProfiles.id, profileId))
+          .returning();
+        return updated[0] ?? null;
+      },
+      async delete(profileId) {
+        await executor.delete(restingProfiles).where(eq(restingProfiles.id, profileId));
+      },
+    },
+
+    sensoryAttributes: {
+      async list(userId) {
+        return executor
+          .select()
+          .from(sensoryAttributes)
+          .where(or(isNull(sensoryAttributes.userId), eq(sensoryAttributes.userId, userId)))
+          .orderBy(sql`${sensoryAttributes.userId} nulls first`, sensoryAttributes.position, sensoryAttributes.createdAt);
+      },
+      async create(values) {
+        const inserted = await executor.insert(sensoryAttributes).values(values).onConflictDoNothing().returning();
+        return inserted[0] ?? null;
+      },
+      async findOwn(attributeId, userId) {
+        const rows = await executor
+          .select()
+          .from(sensoryAttributes)
+          .where(and(eq(sensoryAttributes.id, attributeId), eq(sensoryAttributes.userId, userId)));
+        return rows[0] ?? null;
+      },
+      async delete(attributeId) {
+        await executor.delete(sensoryAttributes).where(eq(sensoryAttributes.id, attributeId));
+      },
+    },
+
+    history: {
+      async record(entries) {
+        if (!entries.length) return;
+        await executor.insert(bagHistory).values(entries);
+      },
+      async list(bagId) {
+        return executor
+          .select({
+            id: bagHistory.id,
+            bagId: bagHistory.bagId,
+            brewId: bagHistory.brewId,
+            actorId: bagHistory.actorId,
+            actorDisplayName: profileDisplayName,
+            action: bagHistory.action,
+            changes: bagHistory.changes,
+            revertOfId: bagHistory.revertOfId,
+            createdAt: bagHistory.createdAt,
+          })
+          .from(bagHistory)
+          .leftJoin(profiles, eq(profiles.userId, bagHistory.actorId))
+          .where(eq(bagHistory.bagId, bagId))
+          .orderBy(desc(bagHistory.createdAt));
+      },
+      async find(bagId, entryId) {
+        const rows = await executor
+          .select()
+          .from(bagHistory)
+          .where(and(eq(bagHistory.id, entryId), eq(bagHistory.bagId, bagId)));
+        return rows[0] ?? null;
+      },
+      async findRevertOf(entryId) {
+        const rows = await executor.select().from(bagHistory).where(eq(bagHistory.revertOfId, entryId)).limit(1);
+        return rows[0] ?? null;
+      },
+    },
+
+    transaction(work) {
+      return executor.transaction((tx) => work(createPostgresStore(tx)));
+    },
+  };
+}
@@ -0,0 +1,370 @@
+import type {
+  apiTokens,
+  bagAdjustments,
+  bagHistory,
+  bagInvites,
+  bagMembers,
+  bags,
+  brewComments,
+  brewSessionEvents,
+  brewSessions,
+  brews,
+  coffees,
+  equipment,
+  localUsers,
+  notifications,
+  profiles,
+  recipes,
+  restingProfiles,
+  roasters,
+  sensoryAttributes,
+} from "../db/schema";
+import type { BagSort } from "../contracts";
+import type {
+  BagMemberResponse,
+  BagRole,
+  CoffeePurchaseResponse,
+  CommentResponse,
+  EquipmentType,
+  FollowUser,
+  GlobalFeedItemResponse,
+  LikeResponse,
+  NotificationResponse,
+  Visibility,
+} from "../types/api";
+
+// Storage interface behind the services and routes. Every read and write goes through
+// a Store; STORAGE picks Postgres (default) or the in-memory implementation.
+
+export type LocalUser = typeof localUsers.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type ApiTokenInsert = typeof apiTokens.$inferInsert;
+export type Profile = typeof profiles.$inferSelect;
+export type ProfileInsert = typeof profiles.$inferInsert;
+export type Roaster = typeof roasters.$inferSelect;
+export type RoasterInsert = typeof roasters.$inferInsert;
+export type Coffee = typeof coffees.$inferSelect;
+export type CoffeeInsert = typeof coffees.$inferInsert;
+export type Bag = typeof bags.$inferSelect;
+export type BagInsert = typeof bags.$inferInsert;
+export type BagMember = typeof bagMembers.$inferSelect;
+export type BagInvite = typeof bagInvites.$inferSelect;
+export type BagInviteInsert = typeof bagInvites.$inferInsert;
+export type BagAdjustment = typeof bagAdjustments.$inferSelect;
+export type BagAdjustmentInsert = typeof bagAdjustments.$inferInsert;
+export type BagHistoryEntry = typeof bagHistory.$inferSelect;
+export type BagHistoryEntryInsert = typeof bagHistory.$inferInsert;
+export type StoredRestingProfile = typeof restingProfiles.$inferSelect;
+export type RestingProfileInsert = typeof restingProfiles.$inferInsert;
+export type Brew = typeof brews.$inferSelect;
+export type BrewInsert = typeof brews.$inferInsert;
+export type SensoryAttribute = typeof sensoryAttributes.$inferSelect;
+export type SensoryAttributeInsert = typeof sensoryAttributes.$inferInsert;
+export type BrewSession = typeof brewSessions.$inferSelect;
+export type BrewSessionEvent = typeof brewSessionEvents.$inferSelect;
+export type BrewSessionEventInsert = typeof brewSessionEvents.$inferInsert;
+export type BrewComment = typeof brewComments.$inferSelect;
+export type BrewCommentInsert = typeof brewComments.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type NotificationInsert = typeof notifications.$inferInsert;
+export type Equipment = typeof equipment.$inferSelect;
+export type EquipmentInsert = typeof equipment.$inferInsert;
+export type Recipe = typeof recipes.$inferSelect;
+export type RecipeInsert = typeof recipes.$inferInsert;
+
+// Who is reading the feed, plus the floor applied to the shared guest account so
+// anonymous DEV_USER_ID data stays out of other users' feeds.
+export type FeedViewer = { userId: string; guestUserId: string; guestVisibility: Visibility };
+
+// A new brew as it travels to open feed streams, with the visibility stored on its
+// bag/brew and the bag owner, who may differ from the brewer on shared bags.
+export type FeedEvent = { item: GlobalFeedItemResponse; visibility: Visibility; bagOwnerId: string };
+
+// Per-bag consumption totals the inventory fields are computed from.
+export type BagUsageStats = { usedGrams: number; averageDose: number | null; adjustmentGrams: number };
+
+// Filters, sort and keyset cursor of GET /bags, already validated.
+export type BagListQuery = {
+  status: "ACTIVE" | "ARCHIVED";
+  q?: string | undefined;
+  roaster?: string | undefined;
+  origin?: string | undefined;
+  process?: string | undefined;
+  roastDateFrom?: Date | null | undefined;
+  roastDateTo?: Date | null | undefined;
+  minRating?: number | null | undefined;
+  sort: BagSort;
+  order: "asc" | "desc";
+  limit: number;
+  cursor: { sortValue: string; id: string } | null;
+};
+
+// One bag of a list page with its aggregates. `sortValue` is opaque to callers and
+// only handed back in the next cursor.
+export type BagListRow = {
+  bag: Bag;
+  role: BagRole;
+  brewCount: number;
+  averageRating: number | null;
+  usage: BagUsageStats;
+  sortValue: string;
+};
+
+// Catalogue lookups: `q` matches names containing it, those starting with it first;
+// `name` matches a whole name, ignoring case. Without `q` rows come alphabetically.
+export type RoasterFilter = { id?: string; q?: string; name?: string; exceptId?: string; limit?: number };
+export type CoffeeFilter = { id?: string; roasterId?: string; q?: string; limit?: number };
+
+export type RoasterSummary = Roaster & { coffeeCount: number; bagCount: number };
+export type CoffeeSummary = Coffee & { roasterName: string; bagCount: number };
+
+export type CommentRow = Omit<CommentResponse, "replies">;
+export type PublicProfileRow = Pick<Profile, "userId" | "displayName" | "avatarUrl" | "bio"> & {
+  followerCount: number;
+  followingCount: number;
+};
+
+export type LocalUserRepository = {
+  findByEmail(email: string): Promise<LocalUser | null>;
+  // Null when the email is taken.
+  create(values: { email: string; passwordHash: string }): Promise<LocalUser | null>;
+};
+
+export type ApiTokenRepository = {
+  create(values: ApiTokenInsert): Promise<ApiToken>;
+  findByHash(tokenHash: string): Promise<ApiToken | null>;
+  // Tokens that haven't been revoked, newest first.
+  listActive(userId: string): Promise<ApiToken[]>;
+  update(id: string, changes: Partial<ApiTokenInsert>): Promise<ApiToken | null>;
+  // Sets lastUsedAt unless it was already set after `staleBefore`.
+  touch(id: string, usedAt: Date, staleBefore: Date): Promise<void>;
+  revoke(id: string, userId: string): Promise<ApiToken | null>;
+};
+
+export type ProfileRepository = {
+  find(userId: string): Promise<Profile | null>;
+  findMany(userIds: string[]): Promise<Profile[]>;
+  // Creates or updates the user's profile.
+  save(userId: string, values: Partial<ProfileInsert>): Promise<Profile>;
+  findPublic(userId: string): Promise<PublicProfileRow | null>;
+  // Following twice is a no-op.
+  follow(followerId: string, followeeId: string): Promise<void>;
+  unfollow(followerId: string, followeeId: string): Promise<void>;
+  isFollowing(followerId: string, followeeId: string): Promise<boolean>;
+  // The other side of the user's follows in either direction, newest first.
+  listFollowing(userId: string): Promise<FollowUser[]>;
+  listFollowers(userId: string): Promise<FollowUser[]>;
+};
+
+export type BagRepository = {
+  create(values: BagInsert): Promise<Bag>;
+  find(bagId: string): Promise<Bag | null>;
+  // The bag plus the user's membership role, null when they aren't a member.
+  findWithMemberRole(bagId: string, userId: string): Promise<{ bag: Bag; memberRole: BagRole | null } | null>;
+  update(bagId: string, changes: Partial<BagInsert>): Promise<Bag | null>;
+  // Inserts the bag or overwrites the one with its id.
+  upsert(values: BagInsert): Promise<Bag>;
+  // One page of the bags the user created or was invited to, plus one extra row when
+  // another page follows.
+  list(userId: string, query: BagListQuery): Promise<BagListRow[]>;
+  // Bags the user created, oldest first.
+  listOwned(userId: string): Promise<Bag[]>;
+  countOwned(userId: string): Promise<number>;
+  findMany(bagIds: string[]): Promise<Bag[]>;
+  usage(bagId: string): Promise<BagUsageStats>;
+  // Drops a deleted resting profile from the owner's bags.
+  clearRestingProfile(restingProfileId: string, userId: string): Promise<void>;
+
+  // Members besides the creator, with their profile, in the order they joined.
+  listMembers(bagId: string): Promise<BagMemberResponse[]>;
+  // Adds a member or changes their role.
+  saveMember(bagId: string, userId: string, role: BagRole): Promise<BagMember>;
+  updateMember(bagId: string, userId: string, role: BagRole): Promise<BagMember | null>;
+  removeMember(bagId: string, userId: string): Promise<BagMember | null>;
+
+  createInvite(values: BagInviteInsert): Promise<BagInvite>;
+  // Invites that are neither revoked nor expired at `now`, newest first.
+  listActiveInvites(bagId: string, now: Date): Promise<BagInvite[]>;
+  findActiveInvite(token: string, now: Date): Promise<BagInvite | null>;
+  revokeInvite(bagId: string, inviteId: string): Promise<BagInvite | null>;
+
+  createAdjustment(values: BagAdjustmentInsert): Promise<BagAdjustment>;
+  // Newest first.
+  listAdjustments(bagId: string): Promise<BagAdjustment[]>;
+};
+
+export type BrewRepository = {
+  create(values: BrewInsert): Promise<Brew>;
+  // Includes soft-deleted brews so restore can find them.
+  find(bagId: string, brewId: string): Promise<Brew | null>;
+  // `activeOnly` leaves soft-deleted brews untouched.
+  update(bagId: string, brewId: string, changes: Partial<BrewInsert>, options?: { activeOnly?: boolean }): Promise<Brew | null>;
+  // Inserts the brew or overwrites the one with its id; `userId` only applies to new rows.
+  upsert(values: Omit<BrewInsert, "userId"> & { id: string }, userId: string): Promise<Brew>;
+  // Flags the brew as the bag's best, clearing the previous one. Null when it isn't an
+  // active brew of the bag; the previous flag is cleared all the same.
+  markBest(bagId: string, brewId: string): Promise<Brew | null>;
+  clearBest(bagIds: string[]): Promise<void>;
+  // Recomputes each brew's days off roast from its bag's current roast date.
+  refreshDaysOffRoast(bagIds: string[]): Promise<void>;
+  // Active brews of the bags, oldest first.
+  listForBags(bagIds: string[]): Promise<Brew[]>;
+  // Active brews with their bag, limited to bags the user created or shares.
+  listAccessible(brewIds: string[], userId: string): Promise<Array<{ brew: Brew; bag: Bag }>>;
+  // Active brews on the bags the user created, oldest first.
+  listOnOwnedBags(userId: string): Promise<Array<{ brew: Brew; bag: Bag }>>;
+  // Active brews the user logged, with their bag, oldest first.
+  listByBrewer(
+    userId: string,
+    filter: { recipeIds?: string[]; brewerId?: string; grinderId?: string },
+  ): Promise<Array<{ brew: Brew; bag: Bag }>>;
+  // Brews by id, including soft-deleted ones.
+  findMany(brewIds: string[]): Promise<Brew[]>;
+  // Existing brews by id with the owner of their bag, for import ownership checks.
+  findOwners(brewIds: string[]): Promise<Array<{ id: string; userId: string }>>;
+  // Removes a sensory attribute's scores from the user's brews.
+  removeSensoryScore(userId: string, key: string): Promise<void>;
+  // Drops links to deleted equipment; the free-text brewer/grinder names stay.
+  unlinkEquipment(equipmentId: string, type: EquipmentType): Promise<void>;
+
+  createSession(values: { bagId: string; userId: string }): Promise<BrewSession>;
+  findSession(sessionId: string, bagId: string, userId: string): Promise<BrewSession | null>;
+  // The user's unfinished sessions on the bag, newest first.
+  listOpenSessions(bagId: string, userId: string): Promise<BrewSession[]>;
+  updateSession(sessionId: string, changes: Partial<Pick<BrewSession, "finishedAt" | "cancelledAt" | "brewId">>): Promise<void>;
+  // Timer steps in the order they happened.
+  listSessionEvents(sessionId: string): Promise<BrewSessionEvent[]>;
+  createSessionEvent(values: BrewSessionEventInsert): Promise<BrewSessionEvent>;
+  deleteSessionEvent(sessionId: string, eventId: string): Promise<BrewSessionEvent | null>;
+};
+
+export type FeedRepository = {
+  // Visible active brews, newest first; `followingOnly` limits them to people the viewer follows.
+  list(viewer: FeedViewer, options: { limit: number; followingOnly?: boolean }): Promise<GlobalFeedItemResponse[]>;
+  // A brew the viewer can see in the feed.
+  find(brewId: string, viewer: FeedViewer): Promise<GlobalFeedItemResponse | null>;
+  // Visible brews created after the given one, oldest first; none for an unknown id.
+  listAfter(brewId: string, viewer: FeedViewer, limit: number): Promise<GlobalFeedItemResponse[]>;
+  // A new brew as broadcast to streams, nobody having liked it yet.
+  findEvent(brewId: string): Promise<FeedEvent | null>;
+  isVisible(brewId: string, viewer: FeedViewer): Promise<boolean>;
+  // Broadcasts a brew id to every process listening on this store.
+  announce(brewId: string): Promise<void>;
+  // Calls `onBrewId` for each announced brew until the connection drops.
+  listen(onBrewId: (brewId: string) => void, onDisconnect: () => void): Promise<void>;
+
+  // False when the user already liked the brew.
+  like(brewId: string, userId: string): Promise<boolean>;
+  unlike(brewId: string, userId: string): Promise<void>;
+  likeState(brewId: string, userId: string): Promise<LikeResponse>;
+
+  // Oldest first, with the commenter's profile.
+  listComments(brewId: string): Promise<CommentRow[]>;
+  findComment(brewId: string, commentId: string): Promise<BrewComment | null>;
+  createComment(values: BrewCommentInsert): Promise<BrewComment>;
+  // Soft-deletes a comment; `authorId` limits it to that user's comments.
+  deleteComment(brewId: string, commentId: string, authorId: string | null): Promise<BrewComment | null>;
+
+  createNotifications(values: NotificationInsert[]): Promise<Notification[]>;
+  // Drops an unread LIKE notification after the like is taken back.
+  deleteUnreadLikeNotification(brewId: string, actorId: string): Promise<void>;
+  // Newest first, with the actor's profile and the brewed coffee.
+  listNotifications(userId: string, options: { unreadOnly: boolean; limit: number }): Promise<NotificationResponse[]>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  // Marks the given notifications read, or all of them when `ids` is undefined.
+  markNotificationsRead(userId: string, ids: string[] | undefined, readAt: Date): Promise<void>;
+};
+
+export type CatalogueRepository = {
+  // Null when the user already has a roaster of that name.
+  createRoaster(values: RoasterInsert): Promise<Roaster | null>;
+  findRoaster(roasterId: string, userId: string): Promise<Roaster | null>;
+  findRoasterNamed(userId: string, name: string): Promise<Roaster | null>;
+  listRoasters(userId: string, filter?: RoasterFilter): Promise<RoasterSummary[]>;
+  updateRoaster(roasterId: string, changes: Partial<RoasterInsert>): Promise<void>;
+  deleteRoasters(roasterIds: string[]): Promise<void>;
+
+  // Null when the roaster already sells a coffee of that name.
+  createCoffee(values: CoffeeInsert): Promise<Coffee | null>;
+  findCoffee(coffeeId: string, userId: string): Promise<Coffee | null>;
+  // A coffee of the roaster with that name, ignoring case and optionally another row.
+  findCoffeeNamed(roasterId: string, name: string, exceptId?: string): Promise<Coffee | null>;
+  listCoffees(userId: string, filter?: CoffeeFilter): Promise<CoffeeSummary[]>;
+  listRoasterCoffees(roasterIds: string[]): Promise<Coffee[]>;
+  updateCoffee(coffeeId: string, changes: Partial<CoffeeInsert>): Promise<Coffee | null>;
+  deleteCoffees(coffeeIds: string[]): Promise<void>;
+  // Every bag bought of a coffee with its brew stats, oldest first.
+  listPurchases(coffeeId: string): Promise<CoffeePurchaseResponse[]>;
+
+  // Moves bags from the source coffees to the target.
+  relinkBags(sourceCoffeeIds: string[], targetCoffeeId: string): Promise<void>;
+  // Rewrites the mirrored text columns of bags linked to the given coffees. Origin and
+  // process only follow the catalogue when it has them.
+  syncBags(coffeeIds: string[]): Promise<void>;
+};
+
+export type EquipmentRepository = {
+  create(values: EquipmentInsert): Promise<Equipment>;
+  find(equipmentId: string, userId: string): Promise<Equipment | null>;
+  // Alphabetically by brand and model.
+  list(userId: string, type?: EquipmentType): Promise<Equipment[]>;
+  update(equipmentId: string, changes: Partial<EquipmentInsert>): Promise<Equipment | null>;
+  delete(equipmentId: string): Promise<void>;
+};
+
+export type RecipeRepository = {
+  create(values: RecipeInsert): Promise<Recipe>;
+  find(recipeId: string, userId: string): Promise<Recipe | null>;
+  findMany(recipeIds: string[]): Promise<Recipe[]>;
+  // Alphabetically by name.
+  list(userId: string): Promise<Recipe[]>;
+  update(recipeId: string, changes: Partial<RecipeInsert>): Promise<Recipe | null>;
+  delete(recipeId: string): Promise<void>;
+  // Drops links to deleted equipment.
+  unlinkEquipment(equipmentId: string, type: EquipmentType): Promise<void>;
+};
+
+export type RestingProfileRepository = {
+  create(values: RestingProfileInsert): Promise<StoredRestingProfile>;
+  find(profileId: string, userId: string): Promise<StoredRestingProfile | null>;
+  // Alphabetically by name.
+  list(userId: string): Promise<StoredRestingProfile[]>;
+  listForOwners(userIds: string[]): Promise<StoredRestingProfile[]>;
+  update(profileId: string, changes: Partial<RestingProfileInsert>): Promise<StoredRestingProfile | null>;
+  delete(profileId: string): Promise<void>;
+};
+
+export type SensoryAttributeRepository = {
+  // Built-in attributes first, then the user's own, each in position order.
+  list(userId: string): Promise<SensoryAttribute[]>;
+  // Null when the user already has an attribute with that key.
+  create(values: SensoryAttributeInsert): Promise<SensoryAttribute | null>;
+  findOwn(attributeId: string, userId: string): Promise<SensoryAttribute | null>;
+  delete(attributeId: string): Promise<void>;
+};
+
+export type HistoryRepository = {
+  record(entries: BagHistoryEntryInsert[]): Promise<void>;
+  // Entries of the bag and its brews, newest first, with the actor's profile name.
+  list(bagId: string): Promise<Array<BagHistoryEntry & { actorDisplayName: string }>>;
+  find(bagId: string, entryId: string): Promise<BagHistoryEntry | null>;
+  // The entry that reverted `entryId`, if one did.
+  findRevertOf(entryId: string): Promise<BagHistoryEntry | null>;
+};
+
+export type Store = {
+  localUsers: LocalUserRepository;
+  apiTokens: ApiTokenRepository;
+  profiles: ProfileRepository;
+  bags: BagRepository;
+  brews: BrewRepository;
+  feed: FeedRepository;
+  catalogue: CatalogueRepository;
+  equipment: EquipmentRepository;
+  recipes: RecipeRepository;
+  restingProfiles: RestingProfileRepository;
+  sensoryAttributes: SensoryAttributeRepository;
+  history: HistoryRepository;
+  // Runs `work` against a store whose writes all land or none do.
+  transaction<T>(work: (tx: Store) => Promise<T>): Promise<T>;
+};
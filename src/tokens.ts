@@ -0,0 +1,80 @@
+import { createHash, randomBytes } from "crypto";
+import { store } from "./store";
+import type { ApiTokenScope } from "./types/api";
+
+// Personal access tokens: long-lived bearer tokens for scripts and scale bridges,
+// limited to the scopes picked when they were created.
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = [
+  "read:bags",
+  "write:bags",
+  "read:brews",
+  "write:brews",
+  "read:analytics",
+  "read:equipment",
+  "write:equipment",
+  "read:recipes",
+  "write:recipes",
+  "read:social",
+  "write:social",
+];
+
+// Every personal access token starts with this, which is how the auth middleware
+// tells them apart from JWTs.
+export const API_TOKEN_PREFIX = "ct_";
+
+// lastUsedAt is only rewritten when older than this, so busy scripts don't turn every
+// request into a write.
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return API_TOKEN_SCOPES.includes(value as ApiTokenScope);
+}
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// A fresh token plus what gets stored for it. The plain token is only ever returned once.
+export function generateApiToken() {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { token, prefix: token.slice(0, API_TOKEN_PREFIX.length + 6), tokenHash: hashApiToken(token) };
+}
+
+// Resource groups by path, first match wins. Paths that aren't listed can't be
+// reached with a personal access token at all (for example /tokens itself).
+const SCOPE_RESOURCES: Array<[RegExp, string[]]> = [
+  [/^\/bags\/[^/]+\/(analytics|recommendation)$/, ["analytics"]],
+  [/^\/(analytics|equipment\/[^/]+\/analytics|recipes\/[^/]+\/analytics)(\/|$)/, ["analytics"]],
+  // Saving a brew as a recipe creates a recipe, so it is checked before the brew routes.
+  [/^\/bags\/[^/]+\/brews\/[^/]+\/recipe$/, ["recipes"]],
+  [/^\/bags\/[^/]+\/(brews|brew-sessions)(\/|$)/, ["brews"]],
+  [/^\/(sensory-attributes|flavour-wheel)(\/|$)/, ["brews"]],
+  // The journal holds bags and their brews alike.
+  [/^\/(export|import)$/, ["bags", "brews"]],
+  // Resting profiles are bag settings, picked through restingProfileId.
+  [/^\/(bags|invites|roasters|coffees|resting-profiles)(\/|$)/, ["bags"]],
+  [/^\/equipment(\/|$)/, ["equipment"]],
+  [/^\/recipes(\/|$)/, ["recipes"]],
+  [/^\/(feed|profiles|users|follows|notifications)(\/|$)/, ["social"]],
+];
+
+// Scopes a token needs for a request, all of them; null when tokens aren't accepted there.
+export function requiredScopes(method: string, path: string): ApiTokenScope[] | null {
+  const resources = SCOPE_RESOURCES.find(([pattern]) => pattern.test(path))?.[1];
+  if (!resources) return null;
+  const access = method === "GET" || method === "HEAD" ? "read" : "write";
+  const scopes = resources.map((resource) => `${access}:${resource}`);
+  return scopes.every(isApiTokenScope) ? scopes : null;
+}
+
+// Looks up an active token and records that it was used; null when it is unknown,
+// revoked or expired.
+export async function verifyApiToken(token: string) {
+  const now = new Date();
+  const row = await store.apiTokens.findByHash(hashApiToken(token));
+  if (!row || row.revokedAt || (row.expiresAt && row.expiresAt <= now)) return null;
+
+  await store.apiTokens.touch(row.id, now, new Date(now.getTime() - LAST_USED_RESOLUTION_SECONDS * 1000));
+  return { id: row.id, userId: row.userId, scopes: row.scopes.filter(isApiTokenScope) };
+}
@@ -1,111 +1,1032 @@
-// Shared response contract types for backend handlers and frontend clients.
+// Shared response contracts for backend handlers and frontend clients. Each schema
+// validates responses in the contract check, feeds the OpenAPI document, and gives the
+// TypeScript type of the same name.
+import { s, type Infer, type Schema } from "../validation";
 
-// Roast-age guidance status computed from roast date.
-export type RestingStatus = "UNKNOWN" | "RESTING" | "READY" | "PAST_PEAK";
+// Roast-age guidance status computed from roast date and the bag's resting profile.
+export const RestingStatus = s.enumOf(["UNKNOWN", "RESTING", "READY", "PEAK", "PAST_PEAK"], { name: "RestingStatus" });
+export type RestingStatus = Infer<typeof RestingStatus>;
+
+// Roast development level used to match resting profiles.
+export const RoastLevel = s.enumOf(["LIGHT", "MEDIUM", "DARK"], { name: "RoastLevel" });
+export type RoastLevel = Infer<typeof RoastLevel>;
+
+// Who can see a bag or brew in the global feed.
+export const Visibility = s.enumOf(["PUBLIC", "FOLLOWERS", "PRIVATE"], { name: "Visibility" });
+export type Visibility = Infer<typeof Visibility>;
+
+// Caller's role on a bag: VIEWER reads, BREWER also logs brews, OWNER also edits
+// the bag and manages its members.
+export const BagRole = s.enumOf(["VIEWER", "BREWER", "OWNER"], { name: "BagRole" });
+export type BagRole = Infer<typeof BagRole>;
+
+export const BagStatus = s.enumOf(["ACTIVE", "ARCHIVED"], { name: "BagStatus", message: "must be ACTIVE or ARCHIVED" });
+export type BagStatus = Infer<typeof BagStatus>;
+
+// Which resting profile a bag's status was computed with.
+// BAG = set on the bag, MATCHED = picked by roast level/process, DEFAULT = built-in windows.
+export const RestingProfileSummary = s.object(
+  {
+    id: s.nullable(s.uuid()),
+    name: s.string(),
+    source: s.enumOf(["BAG", "MATCHED", "DEFAULT"]),
+  },
+  { name: "RestingProfileSummary" },
+);
+export type RestingProfileSummary = Infer<typeof RestingProfileSummary>;
+
+// One resting band: days off roast (toDay inclusive, null = open-ended) and the
+// dates the bag enters and leaves it (null without a roast date).
+export const RestingBand = s.object(
+  {
+    status: s.enumOf(["RESTING", "READY", "PEAK", "PAST_PEAK"]),
+    fromDay: s.integer(),
+    toDay: s.nullable(s.integer()),
+    startsAt: s.nullable(s.timestamp()),
+    endsAt: s.nullable(s.timestamp()),
+  },
+  { name: "RestingBand" },
+);
+export type RestingBand = Infer<typeof RestingBand>;
+
+// User-defined resting profile.
+export const RestingProfileResponse = s.object(
+  {
+    id: s.uuid(),
+    userId: s.uuid(),
+    name: s.string(),
+    roastLevel: s.nullable(RoastLevel),
+    process: s.nullable(s.string()),
+    restDays: s.integer(),
+    peakStartDay: s.nullable(s.integer()),
+    peakEndDay: s.nullable(s.integer()),
+    pastPeakAfterDays: s.integer(),
+    createdAt: s.timestamp(),
+    updatedAt: s.timestamp(),
+  },
+  { name: "RestingProfileResponse" },
+);
+export type RestingProfileResponse = Infer<typeof RestingProfileResponse>;
 
 // One field-level validation issue.
-export type ValidationIssue = {
-  field: string;
-  message: string;
-};
+export const ValidationIssue = s.object({ field: s.string(), message: s.string() }, { name: "ValidationIssue" });
+export type ValidationIssue = Infer<typeof ValidationIssue>;
 
 // Standardized validation error payload.
-export type ValidationErrorResponse = {
-  errors: ValidationIssue[];
-};
+export const ValidationErrorResponse = s.object(
+  { errors: s.array(ValidationIssue) },
+  { name: "ValidationErrorResponse" },
+);
+export type ValidationErrorResponse = Infer<typeof ValidationErrorResponse>;
+
+// Any other error: not found, forbidden, conflicts.
+export const ErrorResponse = s.object({ error: s.string() }, { name: "ErrorResponse" });
+export type ErrorResponse = Infer<typeof ErrorResponse>;
+
+export const HealthResponse = s.object({ ok: s.boolean(), message: s.string() }, { name: "HealthResponse" });
+export type HealthResponse = Infer<typeof HealthResponse>;
 
 // Computed fields appended to bag responses.
-export type BagComputedFields = {
-  roastAgeDays: number | null;
-  restingStatus: RestingStatus;
-};
+export const BagComputedFields = s.object({
+  roastAgeDays: s.nullable(s.integer()),
+  restingStatus: RestingStatus,
+  restingProfile: RestingProfileSummary,
+  restingBands: s.array(RestingBand),
+});
+export type BagComputedFields = Infer<typeof BagComputedFields>;
+
+// Computed bag inventory fields. remainingGrams/brewsRemaining/costPerCup are null
+// until the bag has a recorded weight (and, for the latter two, brews with a dose).
+export const BagInventoryFields = s.object({
+  usedGrams: s.number(),
+  remainingGrams: s.nullable(s.number()),
+  brewsRemaining: s.nullable(s.integer()),
+  costPerCup: s.nullable(s.number()),
+  isRunningLow: s.boolean(),
+});
+export type BagInventoryFields = Infer<typeof BagInventoryFields>;
+
+// Stored bag columns.
+const BagFields = s.object({
+  id: s.uuid(),
+  userId: s.uuid(),
+  coffeeName: s.string(),
+  roaster: s.string(),
+  origin: s.nullable(s.string()),
+  process: s.nullable(s.string()),
+  roastLevel: s.nullable(RoastLevel),
+  roastDate: s.nullable(s.timestamp()),
+  notes: s.nullable(s.string()),
+  restingProfileId: s.nullable(s.uuid()),
+  coffeeId: s.nullable(s.uuid()),
+  initialWeightGrams: s.nullable(s.integer()),
+  price: s.nullable(s.number()),
+  visibility: Visibility,
+  status: BagStatus,
+  archivedAt: s.nullable(s.timestamp()),
+  createdAt: s.timestamp(),
+  updatedAt: s.timestamp(),
+});
 
 // Single bag response shape.
-export type BagDetailResponse = {
-  id: string;
-  userId: string;
-  coffeeName: string;
-  roaster: string;
-  origin: string | null;
-  process: string | null;
-  roastDate: Date | null;
-  notes: string | null;
-  status: "ACTIVE" | "ARCHIVED";
-  archivedAt: Date | null;
-  createdAt: Date;
-  updatedAt: Date;
-} & BagComputedFields;
+export const BagDetailResponse = s.object(
+  {
+    ...BagFields.shape,
+    role: BagRole,
+    ...BagComputedFields.shape,
+    ...BagInventoryFields.shape,
+  },
+  { name: "BagDetailResponse" },
+);
+export type BagDetailResponse = Infer<typeof BagDetailResponse>;
+
+// Someone with access to a shared bag; the bag's creator is listed as OWNER.
+export const BagMemberResponse = s.object(
+  {
+    userId: s.uuid(),
+    displayName: s.string(),
+    avatarUrl: s.nullable(s.string()),
+    role: BagRole,
+    joinedAt: s.timestamp(),
+  },
+  { name: "BagMemberResponse" },
+);
+export type BagMemberResponse = Infer<typeof BagMemberResponse>;
+
+// Invite link for a bag. `token` goes into the link; anyone signed in can accept it
+// until it expires or is revoked.
+export const BagInviteResponse = s.object(
+  {
+    id: s.uuid(),
+    bagId: s.uuid(),
+    token: s.string(),
+    role: BagRole,
+    createdBy: s.uuid(),
+    expiresAt: s.timestamp(),
+    revokedAt: s.nullable(s.timestamp()),
+    createdAt: s.timestamp(),
+  },
+  { name: "BagInviteResponse" },
+);
+export type BagInviteResponse = Infer<typeof BagInviteResponse>;
+
+// Result of accepting an invite.
+export const BagInviteAcceptResponse = s.object({ bagId: s.uuid(), role: BagRole }, { name: "BagInviteAcceptResponse" });
+export type BagInviteAcceptResponse = Infer<typeof BagInviteAcceptResponse>;
+
+// Manual bag inventory correction.
+export const BagAdjustmentResponse = s.object(
+  {
+    id: s.uuid(),
+    bagId: s.uuid(),
+    grams: s.number(),
+    reason: s.nullable(s.string()),
+    createdAt: s.timestamp(),
+  },
+  { name: "BagAdjustmentResponse" },
+);
+export type BagAdjustmentResponse = Infer<typeof BagAdjustmentResponse>;
+
+export const BagHistoryAction = s.enumOf(
+  ["CREATE", "UPDATE", "ARCHIVE", "UNARCHIVE", "MARK_BEST", "UNMARK_BEST", "DELETE", "RESTORE"],
+  { name: "BagHistoryAction" },
+);
+export type BagHistoryAction = Infer<typeof BagHistoryAction>;
+
+// One field of a history entry; values are as the API returns them, so dates are ISO strings.
+export const BagHistoryChange = s.object(
+  {
+    field: s.string(),
+    before: s.unknown({ description: "null when the field was unset or the entry created the record" }),
+    after: s.unknown(),
+  },
+  { name: "BagHistoryChange" },
+);
+export type BagHistoryChange = Infer<typeof BagHistoryChange>;
+
+// Entry of a bag's change history, covering the bag and its brews (`brewId` set).
+export const BagHistoryEntryResponse = s.object(
+  {
+    id: s.uuid(),
+    bagId: s.uuid(),
+    brewId: s.nullable(s.uuid()),
+    action: BagHistoryAction,
+    actorId: s.uuid(),
+    actorDisplayName: s.string(),
+    changes: s.array(BagHistoryChange),
+    revertOfId: s.nullable(s.uuid()),
+    revertedById: s.nullable(s.uuid()),
+    revertible: s.boolean(),
+    createdAt: s.timestamp(),
+  },
+  { name: "BagHistoryEntryResponse" },
+);
+export type BagHistoryEntryResponse = Infer<typeof BagHistoryEntryResponse>;
 
 // Bag list item shape with brew count aggregate.
-export type BagListItemResponse = BagDetailResponse & {
-  brewCount: number;
-  averageRating: number | null;
-};
+export const BagListItemResponse = s.extend(
+  BagDetailResponse,
+  { brewCount: s.integer(), averageRating: s.nullable(s.number()) },
+  { name: "BagListItemResponse" },
+);
+export type BagListItemResponse = Infer<typeof BagListItemResponse>;
+
+// Paginated bag list; pass nextCursor back as `cursor` to fetch the following page.
+export const BagListResponse = s.object(
+  { items: s.array(BagListItemResponse), nextCursor: s.nullable(s.string()) },
+  { name: "BagListResponse" },
+);
+export type BagListResponse = Infer<typeof BagListResponse>;
+
+export const BrewEventType = s.enumOf(["BLOOM_START", "POUR", "DRAWDOWN_END"], { name: "BrewEventType" });
+export type BrewEventType = Infer<typeof BrewEventType>;
+
+// One step of a pour schedule. `totalGrams` is the water poured so far, this step included.
+export const PourStage = s.object(
+  {
+    type: BrewEventType,
+    elapsedSeconds: s.number(),
+    grams: s.nullable(s.integer()),
+    totalGrams: s.integer(),
+  },
+  { name: "PourStage" },
+);
+export type PourStage = Infer<typeof PourStage>;
+
+export const SensoryScores = s.record(s.number(), { name: "SensoryScores" });
+export type SensoryScores = Infer<typeof SensoryScores>;
+
+// Average of each sensory attribute, by key, over the brews that scored it.
+export const TasteProfile = s.record(s.nullable(s.number()), { name: "TasteProfile" });
+export type TasteProfile = Infer<typeof TasteProfile>;
 
 // Single brew response shape.
-export type BrewResponse = {
-  id: string;
-  bagId: string;
-  method: string;
-  brewer: string | null;
-  grinder: string | null;
-  dose: number | null;
-  grindSetting: number | null;
-  waterAmount: number | null;
-  rating: number | null;
-  nutty: number | null;
-  acidity: number | null;
-  fruity: number | null;
-  floral: number | null;
-  sweetness: number | null;
-  chocolate: number | null;
-  isBest: boolean;
-  flavourNotes: string | null;
-  createdAt: Date;
+export const BrewResponse = s.object(
+  {
+    id: s.uuid(),
+    bagId: s.uuid(),
+    // Who brewed it; on shared bags this can be any member with the BREWER role.
+    userId: s.uuid(),
+    method: s.string(),
+    brewer: s.nullable(s.string()),
+    grinder: s.nullable(s.string()),
+    brewerId: s.nullable(s.uuid()),
+    grinderId: s.nullable(s.uuid()),
+    recipeId: s.nullable(s.uuid()),
+    // null = inherits the bag's visibility.
+    visibility: s.nullable(Visibility),
+    dose: s.nullable(s.integer()),
+    grindSetting: s.nullable(s.integer()),
+    waterAmount: s.nullable(s.integer()),
+    waterTemperature: s.nullable(s.number()),
+    brewTimeSeconds: s.nullable(s.integer()),
+    bloomTimeSeconds: s.nullable(s.integer()),
+    bloomWater: s.nullable(s.integer()),
+    beverageYield: s.nullable(s.number()),
+    tds: s.nullable(s.number()),
+    rating: s.nullable(s.number()),
+    // Whole days between the bag's roast date and the brew; null while the bag has no roast date.
+    daysOffRoast: s.nullable(s.integer()),
+    // Sensory scores by attribute key, e.g. { acidity: 4, body: 3 }.
+    sensory: SensoryScores,
+    // Flavour wheel tag keys, e.g. "fruity.berry.blueberry".
+    flavourTags: s.array(s.string()),
+    isBest: s.boolean(),
+    // Free-text notes for anything the flavour wheel doesn't cover.
+    flavourNotes: s.nullable(s.string()),
+    createdAt: s.timestamp(),
+    updatedAt: s.timestamp(),
+    deletedAt: s.nullable(s.timestamp()),
+    // Computed: waterAmount / dose.
+    brewRatio: s.nullable(s.number()),
+    // Computed: beverageYield * tds / dose, as a percentage.
+    extractionYield: s.nullable(s.number()),
+    // Steps of a timed brew session; null for brews logged after the fact.
+    pourSchedule: s.nullable(s.array(PourStage)),
+  },
+  { name: "BrewResponse" },
+);
+export type BrewResponse = Infer<typeof BrewResponse>;
+
+export const BrewSessionEventResponse = s.object(
+  {
+    id: s.uuid(),
+    sessionId: s.uuid(),
+    type: BrewEventType,
+    elapsedSeconds: s.number(),
+    grams: s.nullable(s.integer()),
+    createdAt: s.timestamp(),
+  },
+  { name: "BrewSessionEventResponse" },
+);
+export type BrewSessionEventResponse = Infer<typeof BrewSessionEventResponse>;
+
+// A live brew timer. `pourSchedule` previews what the brew will get on finish.
+export const BrewSessionResponse = s.object(
+  {
+    id: s.uuid(),
+    bagId: s.uuid(),
+    userId: s.uuid(),
+    startedAt: s.timestamp(),
+    finishedAt: s.nullable(s.timestamp()),
+    cancelledAt: s.nullable(s.timestamp()),
+    brewId: s.nullable(s.uuid()),
+    events: s.array(BrewSessionEventResponse),
+    pourSchedule: s.array(PourStage),
+  },
+  { name: "BrewSessionResponse" },
+);
+export type BrewSessionResponse = Infer<typeof BrewSessionResponse>;
+
+// Soft-deleted brew response with the time until which it can still be restored.
+export const DeletedBrewResponse = s.extend(
+  BrewResponse,
+  { restoreDeadline: s.timestamp() },
+  { name: "DeletedBrewResponse" },
+);
+export type DeletedBrewResponse = Infer<typeof DeletedBrewResponse>;
+
+// A sensory attribute brews can be scored on. Built-in ones are shared by everyone;
+// users can add their own.
+export const SensoryAttributeResponse = s.object(
+  {
+    id: s.uuid(),
+    key: s.string(),
+    label: s.string(),
+    min: s.integer(),
+    max: s.integer(),
+    position: s.integer(),
+    builtIn: s.boolean(),
+  },
+  { name: "SensoryAttributeResponse" },
+);
+export type SensoryAttributeResponse = Infer<typeof SensoryAttributeResponse>;
+
+// One node of the flavour wheel.
+export type FlavourWheelNode = {
+  key: string;
+  name: string;
+  children: FlavourWheelNode[];
 };
+export const FlavourWheelNode: Schema<FlavourWheelNode> = s.lazy("FlavourWheelNode", () =>
+  s.object({ key: s.string(), name: s.string(), children: s.array(FlavourWheelNode) }),
+);
+
+// Brews carrying a flavour tag, counted with the categories above it.
+export const FlavourTagCount = s.object(
+  {
+    key: s.string(),
+    name: s.string(),
+    // 1 for top-level categories such as "fruity".
+    depth: s.integer(),
+    brewCount: s.integer(),
+  },
+  { name: "FlavourTagCount" },
+);
+export type FlavourTagCount = Infer<typeof FlavourTagCount>;
+
+// Brew parameters lined up by the comparison endpoint.
+export const BrewComparisonField = s.enumOf(
+  [
+    "method",
+    "brewer",
+    "grinder",
+    "dose",
+    "grindSetting",
+    "waterAmount",
+    "brewRatio",
+    "waterTemperature",
+    "brewTimeSeconds",
+    "bloomTimeSeconds",
+    "bloomWater",
+    "beverageYield",
+    "tds",
+    "extractionYield",
+    "daysOffRoast",
+    "rating",
+  ],
+  { name: "BrewComparisonField" },
+);
+export type BrewComparisonField = Infer<typeof BrewComparisonField>;
+
+const ComparisonValue = s.nullable(s.oneOf([s.number(), s.string()]));
+
+// One parameter across the compared brews, in request order.
+export const BrewComparisonRow = s.object(
+  { field: BrewComparisonField, values: s.array(ComparisonValue), changed: s.boolean() },
+  { name: "BrewComparisonRow" },
+);
+export type BrewComparisonRow = Infer<typeof BrewComparisonRow>;
+
+// A parameter that differs from the baseline brew. `delta` is null for text fields or
+// when either side is missing.
+export const BrewParameterChange = s.object(
+  {
+    field: BrewComparisonField,
+    from: ComparisonValue,
+    to: ComparisonValue,
+    delta: s.nullable(s.number()),
+  },
+  { name: "BrewParameterChange" },
+);
+export type BrewParameterChange = Infer<typeof BrewParameterChange>;
+
+export const ComparedBrewResponse = s.object(
+  {
+    brew: BrewResponse,
+    coffeeName: s.string(),
+    roaster: s.string(),
+    daysOffRoast: s.nullable(s.integer()),
+    tasteProfile: TasteProfile,
+    // Against the baseline (first) brew; the baseline itself has no changes.
+    ratingDelta: s.nullable(s.number()),
+    changes: s.array(BrewParameterChange),
+  },
+  { name: "ComparedBrewResponse" },
+);
+export type ComparedBrewResponse = Infer<typeof ComparedBrewResponse>;
+
+// Brew comparison response. The first requested brew is the baseline.
+export const BrewComparisonResponse = s.object(
+  {
+    baselineBrewId: s.uuid(),
+    brews: s.array(ComparedBrewResponse),
+    parameters: s.array(BrewComparisonRow),
+  },
+  { name: "BrewComparisonResponse" },
+);
+export type BrewComparisonResponse = Infer<typeof BrewComparisonResponse>;
+
+// Brews at one bean age: how they rated and tasted on average.
+export const RoastAgePoint = s.object(
+  {
+    daysOffRoast: s.integer(),
+    brewCount: s.integer(),
+    averageRating: s.nullable(s.number()),
+    tasteProfile: TasteProfile,
+  },
+  { name: "RoastAgePoint" },
+);
+export type RoastAgePoint = Infer<typeof RoastAgePoint>;
+
+// Days off roast (inclusive) where brews rated best, detected from the ratings logged.
+export const PeakWindow = s.object(
+  {
+    startDay: s.integer(),
+    endDay: s.integer(),
+    brewCount: s.integer(),
+    averageRating: s.number(),
+  },
+  { name: "PeakWindow" },
+);
+export type PeakWindow = Infer<typeof PeakWindow>;
 
 // Analytics endpoint response shape.
-export type AnalyticsResponse = {
-  bagId: string;
-  roastAgeDays: number | null;
-  restingStatus: RestingStatus;
-  totalBrews: number;
-  averageRating: number | null;
-  averageTasteProfile: {
-    nutty: number | null;
-    acidity: number | null;
-    fruity: number | null;
-    floral: number | null;
-    sweetness: number | null;
-    chocolate: number | null;
-  };
-  brewMethods: Array<{
-    method: string;
-    count: number;
-  }>;
-  ratingTrend: Array<{
-    brewNumber: number;
-    rating: number;
-    createdAt: Date;
-  }>;
-  bestBrew: BrewResponse | null;
-};
+export const AnalyticsResponse = s.object(
+  {
+    bagId: s.uuid(),
+    roastAgeDays: s.nullable(s.integer()),
+    restingStatus: RestingStatus,
+    restingProfile: RestingProfileSummary,
+    restingBands: s.array(RestingBand),
+    totalBrews: s.integer(),
+    averageRating: s.nullable(s.number()),
+    averageTasteProfile: TasteProfile,
+    flavourTags: s.array(FlavourTagCount),
+    brewMethods: s.array(s.object({ method: s.string(), count: s.integer() })),
+    ratingTrend: s.array(s.object({ brewNumber: s.integer(), rating: s.number(), createdAt: s.timestamp() })),
+    bestBrew: s.nullable(BrewResponse),
+    // Rating and taste by bean age at brew time, one point per day brewed.
+    roastAgeCurve: s.array(RoastAgePoint),
+    // null until enough rated brews on different days show where the bag peaks.
+    peakWindow: s.nullable(PeakWindow),
+    // Recipes used on this bag, compared with how they did on all bags.
+    recipePerformance: s.array(
+      s.object({
+        recipeId: s.uuid(),
+        name: s.string(),
+        brewCount: s.integer(),
+        averageRating: s.nullable(s.number()),
+        allBagsBrewCount: s.integer(),
+        allBagsAverageRating: s.nullable(s.number()),
+      }),
+    ),
+    // One row per member who brewed this bag, best average rating first.
+    brewerPerformance: s.array(
+      s.object({
+        userId: s.uuid(),
+        displayName: s.string(),
+        brewCount: s.integer(),
+        averageRating: s.nullable(s.number()),
+        bestRating: s.nullable(s.number()),
+        averageTasteProfile: TasteProfile,
+      }),
+    ),
+  },
+  { name: "AnalyticsResponse" },
+);
+export type AnalyticsResponse = Infer<typeof AnalyticsResponse>;
+
+// Average rating for one group (origin, process, roaster or method).
+export const RatingBreakdownItem = s.object(
+  { key: s.string(), brewCount: s.integer(), averageRating: s.nullable(s.number()) },
+  { name: "RatingBreakdownItem" },
+);
+export type RatingBreakdownItem = Infer<typeof RatingBreakdownItem>;
+
+// Cross-bag personal analytics dashboard response shape.
+export const PersonalAnalyticsResponse = s.object(
+  {
+    totalBags: s.integer(),
+    totalBrews: s.integer(),
+    averageRating: s.nullable(s.number()),
+    ratingByOrigin: s.array(RatingBreakdownItem),
+    ratingByProcess: s.array(RatingBreakdownItem),
+    ratingByRoaster: s.array(RatingBreakdownItem),
+    ratingByMethod: s.array(RatingBreakdownItem),
+    tasteProfileByOrigin: s.array(s.object({ origin: s.string(), brewCount: s.integer(), tasteProfile: TasteProfile })),
+    flavourTagsByOrigin: s.array(
+      s.object({ origin: s.string(), brewCount: s.integer(), flavourTags: s.array(FlavourTagCount) }),
+    ),
+    ratingByRoastAge: s.array(
+      s.object({
+        label: s.string(),
+        minDays: s.integer(),
+        maxDays: s.nullable(s.integer()),
+        brewCount: s.integer(),
+        averageRating: s.nullable(s.number()),
+      }),
+    ),
+    // Rating and taste by bean age across every bag, one point per day.
+    roastAgeCurve: s.array(RoastAgePoint),
+    // Where each roaster's beans rated best, roasters with the most aged brews first.
+    peakWindowByRoaster: s.array(
+      s.object({
+        roaster: s.string(),
+        bagCount: s.integer(),
+        brewCount: s.integer(),
+        peakWindow: s.nullable(PeakWindow),
+      }),
+    ),
+    equipmentCombos: s.array(
+      s.object({
+        brewer: s.string(),
+        grinder: s.string(),
+        brewCount: s.integer(),
+        averageRating: s.nullable(s.number()),
+      }),
+    ),
+  },
+  { name: "PersonalAnalyticsResponse" },
+);
+export type PersonalAnalyticsResponse = Infer<typeof PersonalAnalyticsResponse>;
+
+// Next-brew suggestion for a bag, fitted from brew history.
+export const RecommendationResponse = s.object(
+  {
+    bagId: s.uuid(),
+    // BAG: fitted from this bag; SIMILAR_BAGS: cold-start fallback; NONE: nothing to go on.
+    source: s.enumOf(["BAG", "SIMILAR_BAGS", "NONE"]),
+    sampleSize: s.integer(),
+    confidence: s.enumOf(["LOW", "MEDIUM", "HIGH"]),
+    suggestion: s.nullable(
+      s.object({
+        method: s.nullable(s.string()),
+        dose: s.nullable(s.number()),
+        grindSetting: s.nullable(s.number()),
+        waterAmount: s.nullable(s.number()),
+        brewRatio: s.nullable(s.number()),
+      }),
+    ),
+    // Pearson correlation of each parameter/taste slider with rating, strongest first.
+    correlations: s.array(s.object({ field: s.string(), correlation: s.number() })),
+    explanation: s.string(),
+    basedOnBagIds: s.array(s.uuid()),
+  },
+  { name: "RecommendationResponse" },
+);
+export type RecommendationResponse = Infer<typeof RecommendationResponse>;
+
+// Bag row as it appears in a journal export.
+export const JournalBagRecord = s.omit(BagFields, ["userId", "restingProfileId", "coffeeId"], {
+  name: "JournalBagRecord",
+});
+export type JournalBagRecord = Infer<typeof JournalBagRecord>;
+
+// Brew row as it appears in a journal export.
+export const JournalBrewRecord = s.omit(
+  BrewResponse,
+  [
+    "userId",
+    "updatedAt",
+    "deletedAt",
+    "brewRatio",
+    "extractionYield",
+    "recipeId",
+    "pourSchedule",
+    "daysOffRoast",
+  ],
+  { name: "JournalBrewRecord" },
+);
+export type JournalBrewRecord = Infer<typeof JournalBrewRecord>;
+
+// JSON journal export (GET /export?format=json), also accepted by POST /import.
+export const JournalExport = s.object(
+  {
+    version: s.literal(1),
+    exportedAt: s.timestamp(),
+    bags: s.array(JournalBagRecord),
+    brews: s.array(JournalBrewRecord),
+  },
+  { name: "JournalExport" },
+);
+export type JournalExport = Infer<typeof JournalExport>;
+
+// Validation issues for one imported row. `row` is the 1-based array index for JSON
+// imports and the line number for CSV imports.
+export const ImportRowError = s.object(
+  {
+    recordType: s.enumOf(["bag", "brew", "unknown"]),
+    row: s.integer(),
+    errors: s.array(ValidationIssue),
+  },
+  { name: "ImportRowError" },
+);
+export type ImportRowError = Infer<typeof ImportRowError>;
+
+const ImportCounts = s.object({ created: s.integer(), updated: s.integer() });
+
+// POST /import result; counts are what was (or, for a dry run, would be) written.
+export const ImportResponse = s.object(
+  {
+    dryRun: s.boolean(),
+    bags: ImportCounts,
+    brews: ImportCounts,
+    errors: s.array(ImportRowError),
+  },
+  { name: "ImportResponse" },
+);
+export type ImportResponse = Infer<typeof ImportResponse>;
+
+// Kinds of catalogued equipment.
+export const EquipmentType = s.enumOf(["BREWER", "GRINDER"], { name: "EquipmentType", message: "must be BREWER or GRINDER" });
+export type EquipmentType = Infer<typeof EquipmentType>;
+
+// Roaster from the user's coffee catalogue.
+export const RoasterResponse = s.object(
+  {
+    id: s.uuid(),
+    userId: s.uuid(),
+    name: s.string(),
+    website: s.nullable(s.string()),
+    createdAt: s.timestamp(),
+    updatedAt: s.timestamp(),
+    coffeeCount: s.integer(),
+    bagCount: s.integer(),
+  },
+  { name: "RoasterResponse" },
+);
+export type RoasterResponse = Infer<typeof RoasterResponse>;
+
+// Coffee from the user's catalogue, with its origin details.
+export const CoffeeResponse = s.object(
+  {
+    id: s.uuid(),
+    userId: s.uuid(),
+    roasterId: s.uuid(),
+    roasterName: s.string(),
+    name: s.string(),
+    country: s.nullable(s.string()),
+    region: s.nullable(s.string()),
+    farm: s.nullable(s.string()),
+    variety: s.nullable(s.string()),
+    altitude: s.nullable(s.integer()),
+    process: s.nullable(s.string()),
+    createdAt: s.timestamp(),
+    updatedAt: s.timestamp(),
+    bagCount: s.integer(),
+  },
+  { name: "CoffeeResponse" },
+);
+export type CoffeeResponse = Infer<typeof CoffeeResponse>;
+
+export const RoasterDetailResponse = s.extend(
+  RoasterResponse,
+  { coffees: s.array(CoffeeResponse) },
+  { name: "RoasterDetailResponse" },
+);
+export type RoasterDetailResponse = Infer<typeof RoasterDetailResponse>;
+
+// One bag bought of a coffee, for comparing repurchases.
+export const CoffeePurchaseResponse = s.object(
+  {
+    bagId: s.uuid(),
+    status: BagStatus,
+    roastDate: s.nullable(s.timestamp()),
+    price: s.nullable(s.number()),
+    createdAt: s.timestamp(),
+    brewCount: s.integer(),
+    averageRating: s.nullable(s.number()),
+    bestRating: s.nullable(s.number()),
+  },
+  { name: "CoffeePurchaseResponse" },
+);
+export type CoffeePurchaseResponse = Infer<typeof CoffeePurchaseResponse>;
+
+export const CoffeeDetailResponse = s.extend(
+  CoffeeResponse,
+  { purchases: s.array(CoffeePurchaseResponse) },
+  { name: "CoffeeDetailResponse" },
+);
+export type CoffeeDetailResponse = Infer<typeof CoffeeDetailResponse>;
+
+// One brewer or grinder from the user's catalogue.
+export const EquipmentResponse = s.object(
+  {
+    id: s.uuid(),
+    userId: s.uuid(),
+    type: EquipmentType,
+    brand: s.nullable(s.string()),
+    model: s.string(),
+    notes: s.nullable(s.string()),
+    grindSettingMin: s.nullable(s.integer()),
+    grindSettingMax: s.nullable(s.integer()),
+    grindSettingUnit: s.nullable(s.string()),
+    createdAt: s.timestamp(),
+    updatedAt: s.timestamp(),
+    // Computed: brand + model.
+    displayName: s.string(),
+  },
+  { name: "EquipmentResponse" },
+);
+export type EquipmentResponse = Infer<typeof EquipmentResponse>;
+
+// Ratings achieved with one piece of equipment across bags.
+export const EquipmentAnalyticsResponse = s.object(
+  {
+    equipment: EquipmentResponse,
+    totalBrews: s.integer(),
+    bagCount: s.integer(),
+    averageRating: s.nullable(s.number()),
+    byBag: s.array(
+      s.object({
+        bagId: s.uuid(),
+        coffeeName: s.string(),
+        roaster: s.string(),
+        brewCount: s.integer(),
+        averageRating: s.nullable(s.number()),
+        bestRating: s.nullable(s.number()),
+      }),
+    ),
+    ratingByMethod: s.array(RatingBreakdownItem),
+    // Grinders only; keyed by grind setting.
+    ratingByGrindSetting: s.array(RatingBreakdownItem),
+  },
+  { name: "EquipmentAnalyticsResponse" },
+);
+export type EquipmentAnalyticsResponse = Infer<typeof EquipmentAnalyticsResponse>;
+
+// Saved brew recipe.
+export const RecipeResponse = s.object(
+  {
+    id: s.uuid(),
+    userId: s.uuid(),
+    name: s.string(),
+    method: s.string(),
+    brewer: s.nullable(s.string()),
+    grinder: s.nullable(s.string()),
+    brewerId: s.nullable(s.uuid()),
+    grinderId: s.nullable(s.uuid()),
+    dose: s.nullable(s.integer()),
+    grindSetting: s.nullable(s.integer()),
+    waterAmount: s.nullable(s.integer()),
+    waterTemperature: s.nullable(s.number()),
+    brewTimeSeconds: s.nullable(s.integer()),
+    bloomTimeSeconds: s.nullable(s.integer()),
+    bloomWater: s.nullable(s.integer()),
+    notes: s.nullable(s.string()),
+    sourceBrewId: s.nullable(s.uuid()),
+    createdAt: s.timestamp(),
+    updatedAt: s.timestamp(),
+    // Computed: waterAmount / dose.
+    brewRatio: s.nullable(s.number()),
+  },
+  { name: "RecipeResponse" },
+);
+export type RecipeResponse = Infer<typeof RecipeResponse>;
+
+// How one recipe performed on each bag.
+export const RecipeAnalyticsResponse = s.object(
+  {
+    recipe: RecipeResponse,
+    totalBrews: s.integer(),
+    averageRating: s.nullable(s.number()),
+    byBag: s.array(
+      s.object({
+        bagId: s.uuid(),
+        coffeeName: s.string(),
+        roaster: s.string(),
+        brewCount: s.integer(),
+        averageRating: s.nullable(s.number()),
+      }),
+    ),
+  },
+  { name: "RecipeAnalyticsResponse" },
+);
+export type RecipeAnalyticsResponse = Infer<typeof RecipeAnalyticsResponse>;
 
 // Global social feed row shape with basic bag + brew context.
-export type GlobalFeedItemResponse = {
+export const GlobalFeedItemResponse = s.object(
+  {
+    brewId: s.uuid(),
+    bagId: s.uuid(),
+    userId: s.uuid(),
+    // Owner's profile name, or a placeholder when they haven't set one.
+    displayName: s.string(),
+    avatarUrl: s.nullable(s.string()),
+    coffeeName: s.string(),
+    roaster: s.string(),
+    method: s.string(),
+    brewer: s.nullable(s.string()),
+    grinder: s.nullable(s.string()),
+    dose: s.nullable(s.integer()),
+    grindSetting: s.nullable(s.integer()),
+    waterAmount: s.nullable(s.integer()),
+    rating: s.nullable(s.number()),
+    flavourTags: s.array(s.string()),
+    flavourNotes: s.nullable(s.string()),
+    isBest: s.boolean(),
+    createdAt: s.timestamp(),
+    likeCount: s.integer(),
+    commentCount: s.integer(),
+    likedByMe: s.boolean(),
+  },
+  { name: "GlobalFeedItemResponse" },
+);
+export type GlobalFeedItemResponse = Infer<typeof GlobalFeedItemResponse>;
+
+// Returned by POST /auth/register and /auth/login with AUTH_PROVIDER=local.
+// Send accessToken as a Bearer token until expiresAt.
+export const AuthSessionResponse = s.object(
+  {
+    accessToken: s.string(),
+    tokenType: s.literal("bearer"),
+    expiresAt: s.timestamp(),
+    user: s.object({ id: s.uuid(), email: s.string() }),
+  },
+  { name: "AuthSessionResponse" },
+);
+export type AuthSessionResponse = Infer<typeof AuthSessionResponse>;
+
+// What a personal access token may do; `read:x` covers GET requests on that resource,
+// `write:x` everything else.
+export const ApiTokenScope = s.enumOf(
+  [
+    "read:bags",
+    "write:bags",
+    "read:brews",
+    "write:brews",
+    "read:analytics",
+    "read:equipment",
+    "write:equipment",
+    "read:recipes",
+    "write:recipes",
+    "read:social",
+    "write:social",
+  ],
+  { name: "ApiTokenScope" },
+);
+export type ApiTokenScope = Infer<typeof ApiTokenScope>;
+
+// Personal access token as listed in settings; the secret itself is never returned again.
+export const ApiTokenResponse = s.object(
+  {
+    id: s.uuid(),
+    name: s.string(),
+    prefix: s.string(),
+    scopes: s.array(ApiTokenScope),
+    expiresAt: s.nullable(s.timestamp()),
+    lastUsedAt: s.nullable(s.timestamp()),
+    createdAt: s.timestamp(),
+  },
+  { name: "ApiTokenResponse" },
+);
+export type ApiTokenResponse = Infer<typeof ApiTokenResponse>;
+
+// Returned once by POST /tokens; `token` is the bearer token to copy.
+export const CreatedApiTokenResponse = s.extend(
+  ApiTokenResponse,
+  { token: s.string() },
+  { name: "CreatedApiTokenResponse" },
+);
+export type CreatedApiTokenResponse = Infer<typeof CreatedApiTokenResponse>;
+
+// Own profile, including the default visibility applied to new bags
+// (null = the deployment's DEFAULT_VISIBILITY).
+export const ProfileResponse = s.object(
+  {
+    userId: s.uuid(),
+    displayName: s.nullable(s.string()),
+    avatarUrl: s.nullable(s.string()),
+    bio: s.nullable(s.string()),
+    defaultVisibility: s.nullable(Visibility),
+    createdAt: s.nullable(s.timestamp()),
+    updatedAt: s.nullable(s.timestamp()),
+  },
+  { name: "ProfileResponse" },
+);
+export type ProfileResponse = Infer<typeof ProfileResponse>;
+
+// Another user's profile as anyone can see it.
+export const PublicProfileResponse = s.object(
+  {
+    ...s.pick(ProfileResponse, ["userId", "displayName", "avatarUrl", "bio"]).shape,
+    followerCount: s.integer(),
+    followingCount: s.integer(),
+    followedByMe: s.boolean(),
+  },
+  { name: "PublicProfileResponse" },
+);
+export type PublicProfileResponse = Infer<typeof PublicProfileResponse>;
+
+// One side of a follow relationship, with the other user's profile basics.
+export const FollowUser = s.object(
+  {
+    userId: s.uuid(),
+    displayName: s.string(),
+    avatarUrl: s.nullable(s.string()),
+    followedAt: s.timestamp(),
+  },
+  { name: "FollowUser" },
+);
+export type FollowUser = Infer<typeof FollowUser>;
+
+// Who the caller follows and who follows them, newest first.
+export const FollowListResponse = s.object(
+  { following: s.array(FollowUser), followers: s.array(FollowUser) },
+  { name: "FollowListResponse" },
+);
+export type FollowListResponse = Infer<typeof FollowListResponse>;
+
+// Like state of a brew after liking or unliking it.
+export const LikeResponse = s.object(
+  { brewId: s.uuid(), likeCount: s.integer(), likedByMe: s.boolean() },
+  { name: "LikeResponse" },
+);
+export type LikeResponse = Infer<typeof LikeResponse>;
+
+// Comment with its replies, oldest first. Deleted comments keep their place in the
+// thread with a null body.
+export type CommentResponse = {
+  id: string;
   brewId: string;
-  bagId: string;
+  parentId: string | null;
   userId: string;
-  coffeeName: string;
-  roaster: string;
-  method: string;
-  brewer: string | null;
-  grinder: string | null;
-  dose: number | null;
-  grindSetting: number | null;
-  waterAmount: number | null;
-  rating: number | null;
-  flavourNotes: string | null;
-  isBest: boolean;
+  displayName: string;
+  avatarUrl: string | null;
+  body: string | null;
   createdAt: Date;
+  deletedAt: Date | null;
+  replies: CommentResponse[];
 };
+export const CommentResponse: Schema<CommentResponse> = s.lazy("CommentResponse", () =>
+  s.object({
+    id: s.uuid(),
+    brewId: s.uuid(),
+    parentId: s.nullable(s.uuid()),
+    userId: s.uuid(),
+    displayName: s.string(),
+    avatarUrl: s.nullable(s.string()),
+    body: s.nullable(s.string()),
+    createdAt: s.timestamp(),
+    deletedAt: s.nullable(s.timestamp()),
+    replies: s.array(CommentResponse),
+  }),
+);
+
+export const NotificationType = s.enumOf(["LIKE", "COMMENT", "REPLY"], { name: "NotificationType" });
+export type NotificationType = Infer<typeof NotificationType>;
+
+// Inbox entry: someone liked or commented on your brew, or replied to your comment.
+export const NotificationResponse = s.object(
+  {
+    id: s.uuid(),
+    type: NotificationType,
+    actorId: s.uuid(),
+    actorDisplayName: s.string(),
+    actorAvatarUrl: s.nullable(s.string()),
+    brewId: s.uuid(),
+    commentId: s.nullable(s.uuid()),
+    coffeeName: s.string(),
+    readAt: s.nullable(s.timestamp()),
+    createdAt: s.timestamp(),
+  },
+  { name: "NotificationResponse" },
+);
+export type NotificationResponse = Infer<typeof NotificationResponse>;
+
+export const NotificationListResponse = s.object(
+  { items: s.array(NotificationResponse), unreadCount: s.integer() },
+  { name: "NotificationListResponse" },
+);
+export type NotificationListResponse = Infer<typeof NotificationListResponse>;
@@ -0,0 +1,491 @@
+// Declarative schemas for request and response payloads. One schema gives the
+// TypeScript type (`Infer`), runtime validation with field-level issues, and the JSON
+// Schema published in the OpenAPI document.
+
+// One field-level validation issue.
+export type ValidationIssue = {
+  field: string;
+  message: string;
+};
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+// Requests are parsed leniently: numbers may arrive as strings from forms, query strings
+// and CSV rows, and "" means "not set". Response contract checks are strict and also flag
+// properties a schema doesn't declare.
+export type ParseContext = {
+  issues: ValidationIssue[];
+  strict: boolean;
+};
+
+export const INVALID: unique symbol = Symbol("invalid");
+
+export type Schema<T> = {
+  // Named schemas become components in the OpenAPI document and are referenced by name.
+  readonly name?: string | undefined;
+  // Object keys whose schema is optional may be left out.
+  readonly optional?: boolean;
+  // Returns the parsed value, or INVALID after pushing issues for `field`.
+  parse(value: unknown, field: string, context: ParseContext): T | typeof INVALID;
+  jsonSchema(components: Record<string, JsonSchema>): JsonSchema;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type Shape = { [key: string]: Schema<unknown> };
+
+export type OptionalSchema<T> = Schema<T | undefined> & { readonly optional: true };
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S];
+
+type Flatten<T> = { [K in keyof T]: T[K] } & {};
+
+export type ObjectOutput<S extends Shape> = Flatten<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>;
+  }
+>;
+
+export type ObjectSchema<S extends Shape> = Schema<ObjectOutput<S>> & { readonly shape: S };
+
+type Meta = { name?: string; description?: string };
+
+function fail(context: ParseContext, field: string, message: string): typeof INVALID {
+  context.issues.push({ field, message });
+  return INVALID;
+}
+
+function childField(parent: string, key: string | number) {
+  return parent ? `${parent}.${key}` : String(key);
+}
+
+// Drops keywords left undefined so generated schemas stay compact.
+function compact(schema: JsonSchema): JsonSchema {
+  return Object.fromEntries(Object.entries(schema).filter(([, value]) => value !== undefined));
+}
+
+// JSON Schema for `schema`; named schemas are added to `components` once and referenced.
+export function toJsonSchema(schema: Schema<unknown>, components: Record<string, JsonSchema>): JsonSchema {
+  if (!schema.name) return schema.jsonSchema(components);
+  if (!(schema.name in components)) {
+    // Placeholder first, so recursive schemas reference themselves instead of looping.
+    components[schema.name] = {};
+    components[schema.name] = schema.jsonSchema(components);
+  }
+  return { $ref: `#/components/schemas/${schema.name}` };
+}
+
+type StringOptions = Meta & {
+  trim?: boolean;
+  // Blank strings fail with `message` (default "is required").
+  nonEmpty?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+  format?: string;
+  // Replaces "must be a string" / "is required".
+  message?: string;
+};
+
+function string(options: StringOptions = {}): Schema<string> {
+  return {
+    name: options.name,
+    parse(value, field, context) {
+      if (typeof value !== "string") {
+        return fail(context, field, options.message ?? (value == null ? "is required" : "must be a string"));
+      }
+      const text = options.trim ? value.trim() : value;
+      if (options.nonEmpty && !text) return fail(context, field, options.message ?? "is required");
+      if (options.minLength !== undefined && text.length < options.minLength) {
+        return fail(context, field, `must be at least ${options.minLength} characters`);
+      }
+      if (options.maxLength !== undefined && text.length > options.maxLength) {
+        return fail(context, field, `must be at most ${options.maxLength} characters`);
+      }
+      if (options.pattern && !options.pattern.test(text)) {
+        return fail(context, field, options.patternMessage ?? "is invalid");
+      }
+      return text;
+    },
+    jsonSchema: () =>
+      compact({
+        type: "string",
+        description: options.description,
+        format: options.format,
+        minLength: options.minLength ?? (options.nonEmpty ? 1 : undefined),
+        maxLength: options.maxLength,
+        // Flags don't carry over to JSON Schema patterns.
+        pattern: options.pattern && !options.pattern.flags ? options.pattern.source : undefined,
+      }),
+  };
+}
+
+type NumberOptions = Meta & {
+  min?: number;
+  max?: number;
+  // Replaces every failure message, e.g. "must be an integer between 1 and 100".
+  message?: string;
+};
+
+function numeric(integer: boolean, options: NumberOptions): Schema<number> {
+  const { min, max } = options;
+  return {
+    name: options.name,
+    parse(value, field, context) {
+      const message = (fallback: string): typeof INVALID => fail(context, field, options.message ?? fallback);
+      if (value == null || (!context.strict && value === "")) return message("is required");
+      const parsed = typeof value === "string" && !context.strict ? Number(value) : value;
+      if (typeof parsed !== "number" || !Number.isFinite(parsed)) return message("must be a number");
+      if (integer && !Number.isInteger(parsed)) return message("must be an integer");
+      if ((min !== undefined && parsed < min) || (max !== undefined && parsed > max)) {
+        if (min !== undefined && max !== undefined) return message(`must be between ${min} and ${max}`);
+        return message(min !== undefined ? `must be at least ${min}` : `must be at most ${max}`);
+      }
+      return parsed;
+    },
+    jsonSchema: () =>
+      compact({
+        type: integer ? "integer" : "number",
+        description: options.description,
+        minimum: min,
+        maximum: max,
+      }),
+  };
+}
+
+function number(options: NumberOptions = {}): Schema<number> {
+  return numeric(false, options);
+}
+
+function integer(options: NumberOptions = {}): Schema<number> {
+  return numeric(true, options);
+}
+
+// Booleans; requests also accept "true"/"false" as sent by query strings and CSV rows.
+function boolean(options: Meta & { message?: string } = {}): Schema<boolean> {
+  return {
+    name: options.name,
+    parse(value, field, context) {
+      if (typeof value === "boolean") return value;
+      if (!context.strict && (value === "true" || value === "false")) return value === "true";
+      return fail(context, field, options.message ?? "must be true or false");
+    },
+    jsonSchema: () => compact({ type: "boolean", description: options.description }),
+  };
+}
+
+function enumOf<const V extends readonly string[]>(
+  values: V,
+  options: Meta & { message?: string } = {},
+): Schema<V[number]> & { readonly values: V } {
+  return {
+    name: options.name,
+    values,
+    parse(value, field, context) {
+      if (values.includes(value as string)) return value as V[number];
+      return fail(context, field, options.message ?? `must be one of ${values.join(", ")}`);
+    },
+    jsonSchema: () => compact({ type: "string", enum: [...values], description: options.description }),
+  };
+}
+
+function literal<const V extends string | number>(expected: V, options: Meta = {}): Schema<V> {
+  return {
+    name: options.name,
+    parse(value, field, context) {
+      if (value === expected) return expected;
+      if (!context.strict && typeof expected === "number" && Number(value) === expected) return expected;
+      return fail(context, field, `must be ${expected}`);
+    },
+    jsonSchema: () => compact({ const: expected, description: options.description }),
+  };
+}
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function uuid(options: Meta & { message?: string } = {}): Schema<string> {
+  return {
+    name: options.name,
+    parse(value, field, context) {
+      if (typeof value === "string" && UUID_PATTERN.test(value)) return value;
+      return fail(context, field, options.message ?? "must be a UUID");
+    },
+    jsonSchema: () => compact({ type: "string", format: "uuid", description: options.description }),
+  };
+}
+
+// Dates travel as ISO 8601 strings; handlers build responses with Date objects.
+function timestamp(options: Meta & { message?: string } = {}): Schema<Date> {
+  return {
+    name: options.name,
+    parse(value, field, context) {
+      if (value instanceof Date && !Number.isNaN(value.getTime())) return value;
+      if (value == null || value === "") return fail(context, field, options.message ?? "is required");
+      const accepted = typeof value === "string" || (!context.strict && typeof value === "number");
+      const parsed = accepted ? new Date(value as string | number) : null;
+      if (!parsed || Number.isNaN(parsed.getTime())) {
+        return fail(context, field, options.message ?? "must be a valid date");
+      }
+      return parsed;
+    },
+    jsonSchema: () => compact({ type: "string", format: "date-time", description: options.description }),
+  };
+}
+
+// Anything at all; the handler checks it.
+function unknown(options: Meta = {}): Schema<unknown> {
+  return {
+    name: options.name,
+    parse: (value) => value,
+    jsonSchema: () => compact({ description: options.description }),
+  };
+}
+
+// null also stands for a missing value, and in requests for "".
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse(value, field, context) {
+      if (value === null || (!context.strict && (value === undefined || value === ""))) return null;
+      return schema.parse(value, field, context);
+    },
+    jsonSchema(components) {
+      const inner = toJsonSchema(schema, components);
+      if (typeof inner.type === "string") {
+        return { ...inner, type: [inner.type, "null"], ...(Array.isArray(inner.enum) ? { enum: [...inner.enum, null] } : {}) };
+      }
+      return { anyOf: [inner, { type: "null" }] };
+    },
+  };
+}
+
+// The key may be left out of its object entirely.
+function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    optional: true,
+    parse: (value, field, context) => (value === undefined ? undefined : schema.parse(value, field, context)),
+    jsonSchema: (components) => toJsonSchema(schema, components),
+  };
+}
+
+type ArrayOptions = Meta & {
+  minItems?: number;
+  maxItems?: number;
+  // Replaces the default messages with one issue on the array itself.
+  message?: string;
+  // Message for invalid items, reported once on the array; items are reported one by one without it.
+  itemsMessage?: (invalid: unknown[]) => string;
+};
+
+function array<T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> {
+  return {
+    name: options.name,
+    parse(value, field, context) {
+      if (!Array.isArray(value)) return fail(context, field, options.message ?? "must be an array");
+      const collapse = options.itemsMessage ?? (options.message ? () => options.message as string : null);
+      const itemContext = collapse ? { ...context, issues: [] } : context;
+      const items: T[] = [];
+      const invalid: unknown[] = [];
+      value.forEach((element, index) => {
+        const parsed = item.parse(element, childField(field, index), itemContext);
+        if (parsed === INVALID) invalid.push(element);
+        else items.push(parsed);
+      });
+      if (invalid.length) return collapse ? fail(context, field, collapse(invalid)) : INVALID;
+      const { minItems, maxItems } = options;
+      if ((minItems !== undefined && items.length < minItems) || (maxItems !== undefined && items.length > maxItems)) {
+        return fail(
+          context,
+          field,
+          options.message ?? (maxItems === undefined ? `must have at least ${minItems} items` : `must have ${minItems ?? 0} to ${maxItems} items`),
+        );
+      }
+      return items;
+    },
+    jsonSchema: (components) =>
+      compact({
+        type: "array",
+        description: options.description,
+        items: toJsonSchema(item, components),
+        minItems: options.minItems,
+        maxItems: options.maxItems,
+      }),
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// Maps of arbitrary keys, e.g. sensory scores by attribute key. Invalid entries are dropped.
+function record<T>(value: Schema<T>, options: Meta & { message?: string } = {}): Schema<Record<string, T>> {
+  return {
+    name: options.name,
+    parse(input, field, context) {
+      if (!isPlainObject(input)) return fail(context, field, options.message ?? "must be an object");
+      const output: Record<string, T> = {};
+      for (const [key, entry] of Object.entries(input)) {
+        const parsed = value.parse(entry, childField(field, key), context);
+        if (parsed !== INVALID) output[key] = parsed;
+      }
+      return output;
+    },
+    jsonSchema: (components) =>
+      compact({
+        type: "object",
+        description: options.description,
+        additionalProperties: toJsonSchema(value, components),
+      }),
+  };
+}
+
+// Objects keep the keys that parsed, so handlers can still run their own checks
+// (references, cross-field rules) on the rest and answer with every issue at once.
+function object<S extends Shape>(shape: S, options: Meta & { message?: string } = {}): ObjectSchema<S> {
+  return {
+    name: options.name,
+    shape,
+    parse(value, field, context) {
+      if (!isPlainObject(value)) return fail(context, field || "body", options.message ?? "must be an object");
+      const output: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const parsed = schema.parse(value[key], childField(field, key), context);
+        if (parsed !== INVALID && parsed !== undefined) output[key] = parsed;
+      }
+      if (context.strict) {
+        for (const [key, entry] of Object.entries(value)) {
+          if (!(key in shape) && entry !== undefined) context.issues.push({ field: childField(field, key), message: "is not in the schema" });
+        }
+      }
+      return output as ObjectOutput<S>;
+    },
+    jsonSchema(components) {
+      const entries = Object.entries(shape);
+      const required = entries.filter(([, schema]) => !schema.optional).map(([key]) => key);
+      return compact({
+        type: "object",
+        description: options.description,
+        properties: Object.fromEntries(entries.map(([key, schema]) => [key, toJsonSchema(schema, components)])),
+        required: required.length ? required : undefined,
+      });
+    },
+  };
+}
+
+// First schema the value fits, e.g. comparison cells that hold a number or a string.
+function oneOf<const S extends ReadonlyArray<Schema<unknown>>>(schemas: S, options: Meta = {}): Schema<Infer<S[number]>> {
+  return {
+    name: options.name,
+    parse(value, field, context) {
+      for (const schema of schemas) {
+        const parsed = schema.parse(value, field, { ...context, issues: [] });
+        if (parsed !== INVALID) return parsed as Infer<S[number]>;
+      }
+      return fail(context, field, "is invalid");
+    },
+    jsonSchema: (components) =>
+      compact({ description: options.description, anyOf: schemas.map((schema) => toJsonSchema(schema, components)) }),
+  };
+}
+
+// Self-referencing schemas, such as comment threads. They must be named.
+function lazy<T>(name: string, resolve: () => Schema<T>): Schema<T> {
+  return {
+    name,
+    parse: (value, field, context) => resolve().parse(value, field, context),
+    jsonSchema: (components) => resolve().jsonSchema(components),
+  };
+}
+
+// Extra check on a parsed value; `check` returns the failure message or null.
+function refine<T>(schema: Schema<T>, check: (value: T) => string | null): Schema<T> {
+  return {
+    name: schema.name,
+    optional: schema.optional ?? false,
+    parse(value, field, context) {
+      const parsed = schema.parse(value, field, context);
+      if (parsed === INVALID) return INVALID;
+      const message = check(parsed);
+      return message ? fail(context, field, message) : parsed;
+    },
+    jsonSchema: (components) => schema.jsonSchema(components),
+  };
+}
+
+function extend<S extends Shape, E extends Shape>(
+  base: ObjectSchema<S>,
+  shape: E,
+  options: Meta = {},
+): ObjectSchema<Omit<S, keyof E> & E> {
+  return object({ ...base.shape, ...shape } as Omit<S, keyof E> & E, options);
+}
+
+function pick<S extends Shape, K extends keyof S & string>(
+  base: ObjectSchema<S>,
+  keys: readonly K[],
+  options: Meta = {},
+): ObjectSchema<Pick<S, K>> {
+  const shape = Object.fromEntries(keys.map((key) => [key, base.shape[key]]));
+  return object(shape as Pick<S, K>, options);
+}
+
+function omit<S extends Shape, K extends keyof S & string>(
+  base: ObjectSchema<S>,
+  keys: readonly K[],
+  options: Meta = {},
+): ObjectSchema<Omit<S, K>> {
+  const shape = Object.fromEntries(Object.entries(base.shape).filter(([key]) => !keys.includes(key as K)));
+  return object(shape as Omit<S, K>, options);
+}
+
+type PartialShape<S extends Shape> = { [K in keyof S]: OptionalSchema<Exclude<Infer<S[K]>, undefined>> };
+
+// Every key optional, for PATCH bodies that only change the fields they send.
+function partial<S extends Shape>(base: ObjectSchema<S>, options: Meta = {}): ObjectSchema<PartialShape<S>> {
+  const shape = Object.fromEntries(
+    Object.entries(base.shape).map(([key, schema]) => [key, schema.optional ? schema : optional(schema)]),
+  );
+  return object(shape as PartialShape<S>, options);
+}
+
+export const s = {
+  string,
+  number,
+  integer,
+  boolean,
+  enumOf,
+  literal,
+  uuid,
+  timestamp,
+  unknown,
+  nullable,
+  optional,
+  array,
+  record,
+  object,
+  oneOf,
+  lazy,
+  refine,
+  extend,
+  pick,
+  omit,
+  partial,
+};
+
+// Parses a request body or query. `values` holds the fields that passed; handlers add
+// their own issues before answering.
+export function parsePayload<S extends Shape>(
+  schema: ObjectSchema<S>,
+  payload: unknown,
+): { values: Partial<ObjectOutput<S>>; issues: ValidationIssue[] } {
+  const context: ParseContext = { issues: [], strict: false };
+  const parsed = schema.parse(payload ?? {}, "", context);
+  return { values: parsed === INVALID ? {} : parsed, issues: context.issues };
+}
+
+// Strict check of an outgoing payload against its schema; empty when it matches.
+export function checkPayload(schema: Schema<unknown>, payload: unknown): ValidationIssue[] {
+  const context: ParseContext = { issues: [], strict: true };
+  schema.parse(payload, "", context);
+  return context.issues;
+}
@@ -8,26 +8,55 @@ const state = {
   supabase: null,
   authReady: false,
   feedPollingTimer: null,
+  feedStream: null,
+  feedScope: "everyone",
+  profileUserId: null,
+  lastDeletedBrew: null,
+  brewSession: null,
+  brewTimer: null,
+  compareBrews: [],
+  flavourWheel: null,
+  flavourTagNames: new Map(),
+  sensoryAttributes: null,
+  bagFilters: { ACTIVE: {}, ARCHIVED: {} },
 };
 
 // Screen roots.
 const views = {
   myBags: document.getElementById("view-my-bags"),
   feed: document.getElementById("view-feed"),
+  dashboard: document.getElementById("view-dashboard"),
   create: document.getElementById("view-create"),
   archived: document.getElementById("view-archived"),
+  equipment: document.getElementById("view-equipment"),
+  catalogue: document.getElementById("view-catalogue"),
+  recipes: document.getElementById("view-recipes"),
+  resting: document.getElementById("view-resting"),
+  profile: document.getElementById("view-profile"),
+  inbox: document.getElementById("view-inbox"),
+  settings: document.getElementById("view-settings"),
   detail: document.getElementById("view-detail"),
   analytics: document.getElementById("view-analytics"),
+  compare: document.getElementById("view-compare"),
 };
 
 // Navigation buttons.
 const navButtons = {
   myBags: document.getElementById("nav-my-bags"),
   feed: document.getElementById("nav-feed"),
+  dashboard: document.getElementById("nav-dashboard"),
   create: document.getElementById("nav-create"),
   archived: document.getElementById("nav-archived"),
+  equipment: document.getElementById("nav-equipment"),
+  catalogue: document.getElementById("nav-catalogue"),
+  recipes: document.getElementById("nav-recipes"),
+  resting: document.getElementById("nav-resting"),
+  profile: document.getElementById("nav-profile"),
+  inbox: document.getElementById("nav-inbox"),
+  settings: document.getElementById("nav-settings"),
   detail: document.getElementById("nav-detail"),
   analytics: document.getElementById("nav-analytics"),
+  compare: document.getElementById("nav-compare"),
 };
 
 // Auth controls.
@@ -35,12 +64,16 @@ const authElements = {
   panel: document.getElementById("auth-panel"),
   status: document.getElementById("auth-status"),
   emailInput: document.getElementById("auth-email"),
+  passwordInput: document.getElementById("auth-password"),
+  passwordLogin: document.getElementById("auth-password-login"),
+  register: document.getElementById("auth-register"),
   emailLogin: document.getElementById("auth-email-login"),
   googleLogin: document.getElementById("auth-google-login"),
   logout: document.getElementById("auth-logout"),
 };
 
 function setActiveView(key) {
+  if (key !== "detail") stopBrewTimer();
   Object.entries(views).forEach(([k, el]) => {
     el.classList.toggle("hidden", k !== key);
   });
@@ -102,19 +135,114 @@ async function request(path, init) {
 }
 
 const api = {
-  listBags: (status = "ACTIVE") => request(`/bags?status=${status}`),
+  listBags: (status = "ACTIVE", filters = {}) => {
+    const params = new URLSearchParams({ status });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    return request(`/bags?${params}`);
+  },
   listFeed: (limit = 50) => request(`/feed/brews?limit=${limit}`),
+  listFollowingFeed: (limit = 50) => request(`/feed/following?limit=${limit}`),
   createBag: (payload) => request("/bags", { method: "POST", body: JSON.stringify(payload) }),
   updateBag: (id, payload) => request(`/bags/${id}`, { method: "PATCH", body: JSON.stringify(payload) }),
   getBag: (id) => request(`/bags/${id}`),
   archiveBag: (id) => request(`/bags/${id}/archive`, { method: "PATCH" }),
   unarchiveBag: (id) => request(`/bags/${id}/unarchive`, { method: "PATCH" }),
   listBrews: (id) => request(`/bags/${id}/brews`),
+  compareBrews: (bagId, brewIds) => request(`/bags/${bagId}/brews/compare?ids=${brewIds.join(",")}`),
   createBrew: (id, payload) => request(`/bags/${id}/brews`, { method: "POST", body: JSON.stringify(payload) }),
   setBestBrew: (bagId, brewId) => request(`/bags/${bagId}/brews/${brewId}/best`, { method: "PATCH" }),
+  updateBrew: (bagId, brewId, payload) =>
+    request(`/bags/${bagId}/brews/${brewId}`, { method: "PATCH", body: JSON.stringify(payload) }),
+  deleteBrew: (bagId, brewId) => request(`/bags/${bagId}/brews/${brewId}`, { method: "DELETE" }),
+  restoreBrew: (bagId, brewId) => request(`/bags/${bagId}/brews/${brewId}/restore`, { method: "PATCH" }),
   analytics: (id) => request(`/bags/${id}/analytics`),
+  personalAnalytics: () => request("/analytics/me"),
+  recommendation: (id) => request(`/bags/${id}/recommendation`),
+  listEquipment: (type) => request(type ? `/equipment?type=${type}` : "/equipment"),
+  listRoasters: (q = "", limit = 10) => request(`/roasters?q=${encodeURIComponent(q)}&limit=${limit}`),
+  updateRoaster: (id, payload) => request(`/roasters/${id}`, { method: "PATCH", body: JSON.stringify(payload) }),
+  mergeRoasters: (id, sourceIds) =>
+    request(`/roasters/${id}/merge`, { method: "POST", body: JSON.stringify({ sourceIds }) }),
+  listCoffees: (q = "", limit = 10) => request(`/coffees?q=${encodeURIComponent(q)}&limit=${limit}`),
+  getCoffee: (id) => request(`/coffees/${id}`),
+  updateCoffee: (id, payload) => request(`/coffees/${id}`, { method: "PATCH", body: JSON.stringify(payload) }),
+  mergeCoffees: (id, sourceIds) =>
+    request(`/coffees/${id}/merge`, { method: "POST", body: JSON.stringify({ sourceIds }) }),
+  createEquipment: (payload) => request("/equipment", { method: "POST", body: JSON.stringify(payload) }),
+  deleteEquipment: (id) => request(`/equipment/${id}`, { method: "DELETE" }),
+  equipmentAnalytics: (id) => request(`/equipment/${id}/analytics`),
+  listRecipes: () => request("/recipes"),
+  saveBrewAsRecipe: (bagId, brewId, payload) =>
+    request(`/bags/${bagId}/brews/${brewId}/recipe`, { method: "POST", body: JSON.stringify(payload) }),
+  deleteRecipe: (id) => request(`/recipes/${id}`, { method: "DELETE" }),
+  recipeAnalytics: (id) => request(`/recipes/${id}/analytics`),
+  listRestingProfiles: () => request("/resting-profiles"),
+  createRestingProfile: (payload) => request("/resting-profiles", { method: "POST", body: JSON.stringify(payload) }),
+  deleteRestingProfile: (id) => request(`/resting-profiles/${id}`, { method: "DELETE" }),
+  adjustInventory: (bagId, payload) =>
+    request(`/bags/${bagId}/adjustments`, { method: "POST", body: JSON.stringify(payload) }),
+  listHistory: (bagId) => request(`/bags/${bagId}/history`),
+  revertHistory: (bagId, entryId) => request(`/bags/${bagId}/history/${entryId}/revert`, { method: "POST" }),
+  getProfile: () => request("/profiles/me"),
+  updateProfile: (payload) => request("/profiles/me", { method: "PATCH", body: JSON.stringify(payload) }),
+  follow: (userId) => request(`/users/${userId}/follow`, { method: "POST" }),
+  unfollow: (userId) => request(`/users/${userId}/follow`, { method: "DELETE" }),
+  listFollows: () => request("/follows"),
+  likeBrew: (brewId) => request(`/feed/brews/${brewId}/like`, { method: "POST" }),
+  unlikeBrew: (brewId) => request(`/feed/brews/${brewId}/like`, { method: "DELETE" }),
+  listComments: (brewId) => request(`/feed/brews/${brewId}/comments`),
+  addComment: (brewId, payload) =>
+    request(`/feed/brews/${brewId}/comments`, { method: "POST", body: JSON.stringify(payload) }),
+  deleteComment: (brewId, commentId) => request(`/feed/brews/${brewId}/comments/${commentId}`, { method: "DELETE" }),
+  listNotifications: () => request("/notifications"),
+  listMembers: (bagId) => request(`/bags/${bagId}/members`),
+  updateMember: (bagId, userId, payload) =>
+    request(`/bags/${bagId}/members/${userId}`, { method: "PATCH", body: JSON.stringify(payload) }),
+  removeMember: (bagId, userId) => request(`/bags/${bagId}/members/${userId}`, { method: "DELETE" }),
+  listInvites: (bagId) => request(`/bags/${bagId}/invites`),
+  createInvite: (bagId, payload) => request(`/bags/${bagId}/invites`, { method: "POST", body: JSON.stringify(payload) }),
+  revokeInvite: (bagId, inviteId) => request(`/bags/${bagId}/invites/${inviteId}`, { method: "DELETE" }),
+  acceptInvite: (token) => request(`/invites/${token}/accept`, { method: "POST" }),
+  listBrewSessions: (bagId) => request(`/bags/${bagId}/brew-sessions`),
+  startBrewSession: (bagId) => request(`/bags/${bagId}/brew-sessions`, { method: "POST" }),
+  recordBrewEvent: (bagId, sessionId, payload) =>
+    request(`/bags/${bagId}/brew-sessions/${sessionId}/events`, { method: "POST", body: JSON.stringify(payload) }),
+  undoBrewEvent: (bagId, sessionId, eventId) =>
+    request(`/bags/${bagId}/brew-sessions/${sessionId}/events/${eventId}`, { method: "DELETE" }),
+  finishBrewSession: (bagId, sessionId, payload) =>
+    request(`/bags/${bagId}/brew-sessions/${sessionId}/finish`, { method: "POST", body: JSON.stringify(payload) }),
+  cancelBrewSession: (bagId, sessionId) => request(`/bags/${bagId}/brew-sessions/${sessionId}`, { method: "DELETE" }),
+  flavourWheel: () => request("/flavour-wheel"),
+  listSensoryAttributes: () => request("/sensory-attributes"),
+  createSensoryAttribute: (payload) =>
+    request("/sensory-attributes", { method: "POST", body: JSON.stringify(payload) }),
+  deleteSensoryAttribute: (id) => request(`/sensory-attributes/${id}`, { method: "DELETE" }),
+  listTokens: () => request("/tokens"),
+  createToken: (payload) => request("/tokens", { method: "POST", body: JSON.stringify(payload) }),
+  revokeToken: (id) => request(`/tokens/${id}`, { method: "DELETE" }),
+  markNotificationsRead: (payload = {}) =>
+    request("/notifications/read", { method: "PATCH", body: JSON.stringify(payload) }),
 };
 
+const HTML_ESCAPES = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+// Text written by other users (names, comments, coffee details) goes through this
+// before it is put into innerHTML.
+function escapeHtml(value) {
+  return String(value ?? "").replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+// Avatars may only point at http(s) images; anything else is dropped.
+function safeImageUrl(url) {
+  try {
+    return ["http:", "https:"].includes(new URL(url).protocol) ? url : null;
+  } catch {
+    return null;
+  }
+}
+
 function renderValidationErrors(payload) {
   if (!payload?.errors || !Array.isArray(payload.errors)) {
     if (payload?.error) return `<ul class='error-list'><li>${payload.error}</li></ul>`;
@@ -125,10 +253,24 @@ function renderValidationErrors(payload) {
     .join("")}</ul>`;
 }
 
-function daysOffRoast(roastDate, brewDate) {
-  if (!roastDate || !brewDate) return "-";
-  const diffMs = new Date(brewDate).getTime() - new Date(roastDate).getTime();
-  return `${Math.max(0, Math.floor(diffMs / (1000 * 60 * 60 * 24)))}d`;
+function formatSeconds(seconds) {
+  if (seconds == null) return "-";
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+const POUR_STAGE_LABELS = { BLOOM_START: "Bloom", POUR: "Pour", DRAWDOWN_END: "Drawdown" };
+
+function pourStageText(stage) {
+  const time = formatSeconds(Math.round(stage.elapsedSeconds));
+  return `${time} ${POUR_STAGE_LABELS[stage.type]}${stage.grams != null ? ` ${stage.grams}g` : ""}`;
+}
+
+function pourScheduleHtml(stages) {
+  if (!stages.length) return `<p class="inline-meta">No steps recorded yet.</p>`;
+  return `<ol class="pour-schedule">${stages
+    .map((stage) => `<li>${pourStageText(stage)}${stage.grams != null ? ` (${stage.totalGrams}g total)` : ""}</li>`)
+    .join("")}</ol>`;
 }
 
 function sliderField(label, name, min, max, step, value = min) {
@@ -153,24 +295,267 @@ function wireSliderOutputs(scope) {
   });
 }
 
-function brewTableHtml(brews, roastDate) {
+// The flavour wheel and the user's sensory attributes are fetched once; attributes are
+// refetched after signing in as someone else or editing them in Settings.
+async function loadTasteConfig() {
+  if (!state.flavourWheel) {
+    state.flavourWheel = await api.flavourWheel();
+    const index = (nodes) =>
+      nodes.forEach((node) => {
+        state.flavourTagNames.set(node.key, node.name);
+        index(node.children);
+      });
+    index(state.flavourWheel);
+  }
+  if (!state.sensoryAttributes) state.sensoryAttributes = await api.listSensoryAttributes();
+}
+
+function sensoryAttribute(key) {
+  return state.sensoryAttributes?.find((attribute) => attribute.key === key) ?? null;
+}
+
+function flavourTagsText(tags) {
+  return tags.map((key) => state.flavourTagNames.get(key) ?? key).join(", ");
+}
+
+// Tag keys for comma-separated names typed into a prompt, shallowest match first.
+// Unknown names are passed through so the API reports them.
+function flavourTagKeysFromNames(text) {
+  const entries = Array.from(state.flavourTagNames.entries()).sort(
+    ([a], [b]) => a.split(".").length - b.split(".").length,
+  );
+  return text
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name) => entries.find(([, tagName]) => tagName.toLowerCase() === name.toLowerCase())?.[0] ?? name);
+}
+
+function sensoryText(sensory) {
+  const entries = Object.entries(sensory);
+  if (!entries.length) return "-";
+  return entries.map(([key, score]) => `${sensoryAttribute(key)?.label ?? key} ${score}`).join(" · ");
+}
+
+function flavourCellText(brew) {
+  return [flavourTagsText(brew.flavourTags), brew.flavourNotes].filter(Boolean).join(" · ") || "-";
+}
+
+function sensoryFieldsHtml() {
+  return (state.sensoryAttributes ?? [])
+    .map((attribute) =>
+      sliderField(
+        attribute.label,
+        `sensory-${attribute.key}`,
+        attribute.min,
+        attribute.max,
+        1,
+        Math.round((attribute.min + attribute.max) / 2),
+      ),
+    )
+    .join("");
+}
+
+// Nested checkboxes, one collapsible group per top-level category.
+function flavourTagPickerHtml() {
+  const nodeHtml = (node) => `
+    <li>
+      <label class="inline"><input type="checkbox" name="flavourTags" value="${node.key}" /> ${node.name}</label>
+      ${node.children.length ? `<ul>${node.children.map(nodeHtml).join("")}</ul>` : ""}
+    </li>`;
+  return `
+    <fieldset class="flavour-wheel">
+      <legend>Flavour Wheel</legend>
+      ${(state.flavourWheel ?? [])
+        .map(
+          (category) => `
+          <details>
+            <summary>${category.name}</summary>
+            <ul>${nodeHtml(category)}</ul>
+          </details>`,
+        )
+        .join("")}
+    </fieldset>
+  `;
+}
+
+function flavourTagCountsHtml(counts, limit = 12) {
+  if (!counts.length) return "<p class='inline-meta'>No flavour tags yet.</p>";
+  return `<ul class="flavour-counts">${counts
+    .slice(0, limit)
+    .map((count) => `<li>${"· ".repeat(count.depth - 1)}${count.name} <span class="inline-meta">${count.brewCount}</span></li>`)
+    .join("")}</ul>`;
+}
+
+const RADAR_COLORS = ["#0f1e3a", "#b45309", "#047857", "#7c3aed", "#be123c", "#0369a1"];
+
+// Overlays taste profiles on an SVG radar chart with one axis per sensory attribute,
+// ordered like the attribute list. Each axis is scaled to its attribute's range.
+function radarChartSvg(series, size = 220) {
+  const keys = new Set(series.flatMap(({ profile }) => Object.keys(profile)));
+  const ordered = (state.sensoryAttributes ?? []).map((attribute) => attribute.key).filter((key) => keys.has(key));
+  const dimensions = [...ordered, ...[...keys].filter((key) => !ordered.includes(key)).sort()];
+  if (!dimensions.length) return "<p class='inline-meta'>No sensory scores yet.</p>";
+
+  const center = size / 2;
+  const radius = size / 2 - 28;
+  const angleFor = (index) => (Math.PI * 2 * index) / dimensions.length - Math.PI / 2;
+  const point = (index, fraction) => {
+    const r = radius * fraction;
+    return `${(center + r * Math.cos(angleFor(index))).toFixed(1)},${(center + r * Math.sin(angleFor(index))).toFixed(1)}`;
+  };
+  const fractionOf = (dimension, value) => {
+    const attribute = sensoryAttribute(dimension) ?? { min: 0, max: 5 };
+    return Math.max(0, (value - attribute.min) / (attribute.max - attribute.min));
+  };
+
+  const grid = [1, 2, 3, 4, 5]
+    .map((level) => `<polygon points="${dimensions.map((_d, i) => point(i, level / 5)).join(" ")}" class="radar-grid" />`)
+    .join("");
+  const labels = dimensions.map((dimension, i) => {
+    const x = center + (radius + 16) * Math.cos(angleFor(i));
+    const y = center + (radius + 16) * Math.sin(angleFor(i));
+    const label = sensoryAttribute(dimension)?.label ?? dimension;
+    return `<text x="${x.toFixed(1)}" y="${y.toFixed(1)}" text-anchor="middle" dominant-baseline="middle">${label}</text>`;
+  }).join("");
+  const shapes = series
+    .map(({ profile }, seriesIndex) => {
+      const color = RADAR_COLORS[seriesIndex % RADAR_COLORS.length];
+      const points = dimensions.map((dimension, i) => point(i, fractionOf(dimension, profile[dimension] ?? 0))).join(" ");
+      return `<polygon points="${points}" fill="${color}" fill-opacity="0.15" stroke="${color}" stroke-width="2" />`;
+    })
+    .join("");
+  const legend = series
+    .map(
+      ({ label }, seriesIndex) =>
+        `<span class="radar-legend-item"><span class="radar-swatch" style="background:${RADAR_COLORS[seriesIndex % RADAR_COLORS.length]}"></span>${label}</span>`,
+    )
+    .join("");
+
+  return `
+    <div class="radar">
+      <svg viewBox="0 0 ${size} ${size}" width="${size}" height="${size}">${grid}${shapes}${labels}</svg>
+      <div class="radar-legend">${legend}</div>
+    </div>
+  `;
+}
+
+// Plots rating and each taste dimension against days off roast, every line scaled to its
+// own range like the radar axes, with the detected peak window shaded behind them.
+function roastAgeChartSvg(points, peakWindow, width = 420, height = 200) {
+  if (points.length < 2) return "<p class='inline-meta'>Log brews on at least two different days off roast to see this.</p>";
+
+  const keys = new Set(points.flatMap((point) => Object.keys(point.tasteProfile)));
+  const ordered = (state.sensoryAttributes ?? []).map((attribute) => attribute.key).filter((key) => keys.has(key));
+  const series = [
+    { label: "Rating", min: 0, max: 5, valueOf: (point) => point.averageRating },
+    ...[...ordered, ...[...keys].filter((key) => !ordered.includes(key)).sort()].map((key) => {
+      const attribute = sensoryAttribute(key) ?? { label: key, min: 0, max: 5 };
+      return { label: attribute.label, min: attribute.min, max: attribute.max, valueOf: (point) => point.tasteProfile[key] };
+    }),
+  ];
+
+  const pad = 24;
+  const firstDay = points[0].daysOffRoast;
+  const lastDay = points[points.length - 1].daysOffRoast;
+  const x = (day) => (pad + ((day - firstDay) / Math.max(1, lastDay - firstDay)) * (width - 2 * pad)).toFixed(1);
+  const y = (fraction) => (height - pad - Math.max(0, Math.min(1, fraction)) * (height - 2 * pad)).toFixed(1);
+
+  const peak = peakWindow
+    ? `<rect x="${x(peakWindow.startDay)}" y="${pad}" width="${Math.max(2, x(peakWindow.endDay) - x(peakWindow.startDay)).toFixed(1)}" height="${height - 2 * pad}" class="peak-window" />`
+    : "";
+  const axis = `
+    <line x1="${pad}" y1="${height - pad}" x2="${width - pad}" y2="${height - pad}" class="radar-grid" />
+    <text x="${pad}" y="${height - 6}" text-anchor="start">${firstDay}d</text>
+    <text x="${width - pad}" y="${height - 6}" text-anchor="end">${lastDay}d</text>
+  `;
+  const lines = series
+    .map(({ min, max, valueOf }, seriesIndex) => {
+      const color = RADAR_COLORS[seriesIndex % RADAR_COLORS.length];
+      const coords = points
+        .filter((point) => valueOf(point) != null)
+        .map((point) => `${x(point.daysOffRoast)},${y((valueOf(point) - min) / (max - min))}`);
+      return coords.length
+        ? `<polyline points="${coords.join(" ")}" fill="none" stroke="${color}" stroke-width="${seriesIndex ? 1.5 : 2.5}" />`
+        : "";
+    })
+    .join("");
+  const legend = series
+    .map(
+      ({ label }, seriesIndex) =>
+        `<span class="radar-legend-item"><span class="radar-swatch" style="background:${RADAR_COLORS[seriesIndex % RADAR_COLORS.length]}"></span>${label}</span>`,
+    )
+    .join("");
+
+  return `
+    <div class="radar">
+      <svg viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">${peak}${axis}${lines}</svg>
+      <div class="radar-legend">${legend}</div>
+    </div>
+  `;
+}
+
+function peakWindowText(peakWindow) {
+  if (!peakWindow) return "Not enough rated brews to find a peak yet.";
+  const days =
+    peakWindow.startDay === peakWindow.endDay
+      ? `day ${peakWindow.startDay}`
+      : `days ${peakWindow.startDay}–${peakWindow.endDay}`;
+  return `Peaks at ${days} off roast (${peakWindow.brewCount} brews, avg rating ${peakWindow.averageRating})`;
+}
+
+function ratingBreakdownHtml(title, rows) {
+  return `
+    <article class="card">
+      <h3>${title}</h3>
+      ${
+        rows.length
+          ? `<div class="table-wrap"><table>
+              <thead><tr><th>${title.replace("Rating by ", "")}</th><th>Brews</th><th>Avg Rating</th></tr></thead>
+              <tbody>${rows
+                .map((row) => `<tr><td>${row.key}</td><td>${row.brewCount}</td><td>${row.averageRating ?? "-"}</td></tr>`)
+                .join("")}</tbody>
+            </table></div>`
+          : "<p class='inline-meta'>Not enough data yet.</p>"
+      }
+    </article>
+  `;
+}
+
+// `members` (userId -> display name) adds a "Brewed By" column for shared bags;
+// `canEdit` limits row actions to brews the viewer may change.
+function brewTableHtml(
+  brews,
+  { editable = false, canEdit = () => true, canMarkBest = true, members = null, comparable = false } = {},
+) {
   if (!brews.length) return `<p class="inline-meta">No brews yet</p>`;
   return `
     <div class="table-wrap">
       <table>
         <thead>
           <tr>
+            ${comparable ? "<th>Compare</th>" : ""}
             <th>Brew Date</th>
             <th>Days Off Roast</th>
+            ${members ? "<th>Brewed By</th>" : ""}
             <th>Brewer</th>
             <th>Method</th>
             <th>Grinder</th>
             <th>Grind Setting</th>
             <th>Dose (gms)</th>
             <th>Water (ml)</th>
+            <th>Ratio</th>
+            <th>Temp (°C)</th>
+            <th>Bloom</th>
+            <th>Brew Time</th>
+            <th>Yield (g)</th>
+            <th>EY (%)</th>
+            <th>Pours</th>
             <th>Rating</th>
-            <th>Flavour Notes</th>
+            <th>Sensory</th>
+            <th>Flavour</th>
             <th>Best</th>
+            ${editable ? "<th>Actions</th>" : ""}
           </tr>
         </thead>
         <tbody>
@@ -178,17 +563,48 @@ function brewTableHtml(brews, roastDate) {
             .map(
               (brew) => `
               <tr>
+                ${
+                  comparable
+                    ? `<td><input type="checkbox" class="compare-brew" data-brew-id="${brew.id}" ${
+                        isComparing(brew.id) ? "checked" : ""
+                      } /></td>`
+                    : ""
+                }
                 <td>${new Date(brew.createdAt).toLocaleString()}</td>
-                <td>${daysOffRoast(roastDate, brew.createdAt)}</td>
-                <td>${brew.brewer || "-"}</td>
-                <td>${brew.method}</td>
-                <td>${brew.grinder || "-"}</td>
+                <td>${brew.daysOffRoast != null ? `${brew.daysOffRoast}d` : "-"}</td>
+                ${members ? `<td>${escapeHtml(members.get(brew.userId) ?? "Former member")}</td>` : ""}
+                <td>${escapeHtml(brew.brewer || "-")}</td>
+                <td>${escapeHtml(brew.method)}</td>
+                <td>${escapeHtml(brew.grinder || "-")}</td>
                 <td>${brew.grindSetting ?? "-"}</td>
                 <td>${brew.dose ?? "-"}</td>
                 <td>${brew.waterAmount ?? "-"}</td>
+                <td>${brew.brewRatio != null ? `1:${brew.brewRatio}` : "-"}</td>
+                <td>${brew.waterTemperature ?? "-"}</td>
+                <td>${brew.bloomTimeSeconds != null ? `${formatSeconds(brew.bloomTimeSeconds)}${brew.bloomWater != null ? ` / ${brew.bloomWater}g` : ""}` : "-"}</td>
+                <td>${formatSeconds(brew.brewTimeSeconds)}</td>
+                <td>${brew.beverageYield ?? "-"}</td>
+                <td>${brew.extractionYield ?? "-"}</td>
+                <td>${brew.pourSchedule ? brew.pourSchedule.map(pourStageText).join(" · ") : "-"}</td>
                 <td>${brew.rating ?? "-"}</td>
-                <td>${brew.flavourNotes || "-"}</td>
-                <td><button class="set-best" data-brew-id="${brew.id}">${brew.isBest ? "★ Best" : "Mark Best"}</button></td>
+                <td>${sensoryText(brew.sensory)}</td>
+                <td>${escapeHtml(flavourCellText(brew))}</td>
+                <td>${
+                  canMarkBest
+                    ? `<button class="set-best" data-brew-id="${brew.id}">${brew.isBest ? "★ Best" : "Mark Best"}</button>`
+                    : brew.isBest
+                      ? "★ Best"
+                      : "-"
+                }</td>
+                ${
+                  editable
+                    ? `<td class="row-actions">
+                        ${canEdit(brew) ? `<button class="edit-brew" data-brew-id="${brew.id}">Edit</button>` : ""}
+                        <button class="save-recipe" data-brew-id="${brew.id}">Save as Recipe</button>
+                        ${canEdit(brew) ? `<button class="delete-brew warn" data-brew-id="${brew.id}">Delete</button>` : ""}
+                      </td>`
+                    : ""
+                }
               </tr>
             `,
             )
@@ -199,9 +615,10 @@ function brewTableHtml(brews, roastDate) {
   `;
 }
 
-function formatFeedUser(userId) {
-  if (!userId) return "unknown";
-  return `@${String(userId).slice(0, 8)}`;
+function feedAuthorHtml(item) {
+  const avatarUrl = item.avatarUrl ? safeImageUrl(item.avatarUrl) : null;
+  const avatar = avatarUrl ? `<img class="avatar" src="${escapeHtml(avatarUrl)}" alt="" />` : "";
+  return `${avatar}<strong>${escapeHtml(item.displayName)}</strong>`;
 }
 
 function feedItemHtml(item) {
@@ -217,51 +634,224 @@ function feedItemHtml(item) {
 
   return `
     <article class="card">
-      <p class="inline-meta">${formatFeedUser(item.userId)} brewed <strong>${item.coffeeName}</strong> (${item.roaster})</p>
-      <p><strong>${item.method}</strong> ${item.brewer ? `- ${item.brewer}` : ""} ${item.isBest ? "- ★ best brew" : ""}</p>
-      <p class="inline-meta">${recipe || "No recipe details"} ${item.grinder ? `- grinder ${item.grinder}` : ""}</p>
+      <p class="inline-meta">${feedAuthorHtml(item)} brewed <strong>${escapeHtml(item.coffeeName)}</strong> (${escapeHtml(
+        item.roaster,
+      )})</p>
+      <p><strong>${escapeHtml(item.method)}</strong> ${item.brewer ? `- ${escapeHtml(item.brewer)}` : ""} ${
+        item.isBest ? "- ★ best brew" : ""
+      }</p>
+      <p class="inline-meta">${recipe || "No recipe details"} ${item.grinder ? `- grinder ${escapeHtml(item.grinder)}` : ""}</p>
       <p class="inline-meta">Rating: ${rating}</p>
-      <p class="inline-meta">${item.flavourNotes || "No flavour notes"}</p>
+      <p class="inline-meta">${flavourCellText(item) === "-" ? "No flavour notes" : escapeHtml(flavourCellText(item))}</p>
       <p class="inline-meta">${createdAt}</p>
+      <div class="actions">
+        <button class="ghost" data-action="like" data-brew-id="${item.brewId}" data-liked="${item.likedByMe}">
+          ${item.likedByMe ? "♥" : "♡"} ${item.likeCount}
+        </button>
+        <button class="ghost" data-action="comments" data-brew-id="${item.brewId}">Comments (${item.commentCount})</button>
+        ${
+          item.userId !== state.profileUserId
+            ? `<button class="ghost" data-action="follow" data-user-id="${item.userId}">Follow ${escapeHtml(item.displayName)}</button>`
+            : ""
+        }
+      </div>
+      <div class="comments hidden" id="comments-${item.brewId}"></div>
     </article>
   `;
 }
 
+function commentHtml(brewId, comment) {
+  const canDelete = !comment.deletedAt && comment.userId === state.profileUserId;
+  return `
+    <div class="comment">
+      <p class="inline-meta">${feedAuthorHtml(comment)} - ${new Date(comment.createdAt).toLocaleString()}</p>
+      <p>${comment.deletedAt ? "<em>deleted</em>" : escapeHtml(comment.body)}</p>
+      <div class="actions">
+        ${comment.deletedAt ? "" : `<button class="ghost" data-action="reply" data-brew-id="${brewId}" data-comment-id="${comment.id}">Reply</button>`}
+        ${canDelete ? `<button class="ghost" data-action="delete-comment" data-brew-id="${brewId}" data-comment-id="${comment.id}">Delete</button>` : ""}
+      </div>
+      ${comment.replies.map((child) => commentHtml(brewId, child)).join("")}
+    </div>
+  `;
+}
+
+async function renderComments(brewId) {
+  const container = document.getElementById(`comments-${brewId}`);
+  if (!container) return;
+  const comments = await api.listComments(brewId);
+  container.innerHTML = `
+    ${comments.length ? comments.map((comment) => commentHtml(brewId, comment)).join("") : "<p class='inline-meta'>No comments yet.</p>"}
+    <div class="actions"><button class="ghost" data-action="reply" data-brew-id="${brewId}">Add Comment</button></div>
+  `;
+}
+
+// Feed items are re-rendered and streamed in, so their buttons are handled here once.
+views.feed.addEventListener("click", async (event) => {
+  const button = event.target.closest("button[data-action]");
+  if (!button) return;
+  const { action, brewId, commentId, userId } = button.dataset;
+  try {
+    if (action === "like") {
+      const like = button.dataset.liked === "true" ? await api.unlikeBrew(brewId) : await api.likeBrew(brewId);
+      button.dataset.liked = String(like.likedByMe);
+      button.textContent = `${like.likedByMe ? "♥" : "♡"} ${like.likeCount}`;
+    } else if (action === "comments") {
+      const container = document.getElementById(`comments-${brewId}`);
+      container.classList.toggle("hidden");
+      if (!container.classList.contains("hidden")) await renderComments(brewId);
+    } else if (action === "follow") {
+      await api.follow(userId);
+      button.textContent = "Following";
+      button.disabled = true;
+    } else if (action === "reply") {
+      const body = window.prompt(commentId ? "Reply" : "Comment");
+      if (!body) return;
+      await api.addComment(brewId, { body, parentId: commentId || null });
+      await renderComments(brewId);
+    } else if (action === "delete-comment") {
+      if (!window.confirm("Delete this comment?")) return;
+      await api.deleteComment(brewId, commentId);
+      await renderComments(brewId);
+    }
+  } catch (error) {
+    if (error.status === 401) return showAuthRequiredError();
+    alert(error.payload?.errors?.[0]?.message || error.payload?.error || "Request failed");
+  }
+});
+
 function showAuthRequiredError() {
   if (!state.authRequired) return;
   const html = "<ul class='error-list'><li>Please sign in to use the app.</li></ul>";
   views.myBags.innerHTML = `<h2>My Bags</h2>${html}`;
   views.feed.innerHTML = `<h2>Global Brew Feed</h2>${html}`;
+  views.dashboard.innerHTML = `<h2>My Dashboard</h2>${html}`;
   views.archived.innerHTML = `<h2>Archived Bags</h2>${html}`;
+  views.equipment.innerHTML = `<h2>Equipment</h2>${html}`;
+  views.catalogue.innerHTML = `<h2>Coffee Catalogue</h2>${html}`;
+  views.recipes.innerHTML = `<h2>Recipes</h2>${html}`;
+  views.resting.innerHTML = `<h2>Resting Profiles</h2>${html}`;
+  views.profile.innerHTML = `<h2>Profile</h2>${html}`;
+  views.inbox.innerHTML = `<h2>Inbox</h2>${html}`;
+  views.settings.innerHTML = `<h2>Settings</h2>${html}`;
   views.detail.innerHTML = html;
   views.analytics.innerHTML = html;
+  views.compare.innerHTML = html;
 }
 
-async function renderMyBags() {
-  try {
-    const bags = await api.listBags("ACTIVE");
-    const tpl = document.getElementById("bag-card-template");
+function inventoryText(bag) {
+  if (bag.remainingGrams == null) return "";
+  const brewsLeft = bag.brewsRemaining != null ? ` (~${bag.brewsRemaining} brews)` : "";
+  return `${bag.remainingGrams}g left${brewsLeft}${bag.isRunningLow ? " - running low" : ""}`;
+}
 
-    views.myBags.innerHTML = `<h2>My Bags</h2><div id="active-bag-list"></div>`;
-    const list = document.getElementById("active-bag-list");
+function appendActiveBagCard(list, bag) {
+  const tpl = document.getElementById("bag-card-template");
+  const node = tpl.content.cloneNode(true);
+  node.querySelector(".bag-name").textContent = bag.coffeeName;
+  node.querySelector(".bag-meta").textContent = `${bag.roaster} ${bag.origin ? `- ${bag.origin}` : ""}`;
+  node.querySelector(".bag-stats").textContent = [
+    `${bag.brewCount} brews - avg ${bag.averageRating ?? "-"} - age ${bag.roastAgeDays ?? "?"}d (${bag.restingStatus})`,
+    inventoryText(bag),
+  ]
+    .filter(Boolean)
+    .join(" - ");
+  node.querySelector(".open-bag").addEventListener("click", async () => {
+    state.selectedBagId = bag.id;
+    ensureBagSelected();
+    await renderDetail();
+    setActiveView("detail");
+  });
+  list.appendChild(node);
+}
 
-    if (!bags.length) {
-      list.innerHTML = `<p class="inline-meta">No active bags</p>`;
-      return;
+function bagFilterFormHtml(formId, filters) {
+  const sortOption = (value, label) =>
+    `<option value="${value}" ${filters.sort === value ? "selected" : ""}>${label}</option>`;
+  return `
+    <form id="${formId}" class="card filter-bar">
+      <input name="q" placeholder="Search name or notes" value="${filters.q || ""}" />
+      <input name="roaster" placeholder="Roaster" value="${filters.roaster || ""}" />
+      <input name="origin" placeholder="Origin" value="${filters.origin || ""}" />
+      <input name="process" placeholder="Process" value="${filters.process || ""}" />
+      <label>Roasted from<input type="date" name="roastDateFrom" value="${filters.roastDateFrom || ""}" /></label>
+      <label>Roasted to<input type="date" name="roastDateTo" value="${filters.roastDateTo || ""}" /></label>
+      <input type="number" name="minRating" min="0" max="5" step="0.1" placeholder="Min avg rating" value="${filters.minRating || ""}" />
+      <select name="sort">
+        ${sortOption("updated", "Recently updated")}
+        ${sortOption("roastDate", "Roast date")}
+        ${sortOption("averageRating", "Average rating")}
+        ${sortOption("brewCount", "Brew count")}
+      </select>
+      <select name="order">
+        <option value="desc" ${filters.order !== "asc" ? "selected" : ""}>Descending</option>
+        <option value="asc" ${filters.order === "asc" ? "selected" : ""}>Ascending</option>
+      </select>
+      <div class="actions">
+        <button type="submit" class="primary">Apply</button>
+        <button type="reset" class="ghost">Clear</button>
+      </div>
+      <div class="filter-errors"></div>
+    </form>
+  `;
+}
+
+// Shared list screen for active and archived bags: filter bar, cards and "Load more" paging.
+async function renderBagList({ view, status, title, emptyText, appendCard }) {
+  const filters = state.bagFilters[status];
+  const formId = `${status.toLowerCase()}-bag-filters`;
+  const listId = `${status.toLowerCase()}-bag-list`;
+  const page = await api.listBags(status, filters);
+
+  view.innerHTML = `
+    <h2>${title}</h2>
+    ${bagFilterFormHtml(formId, filters)}
+    <div id="${listId}"></div>
+    <div class="actions"><button class="ghost load-more hidden">Load More</button></div>
+  `;
+
+  const list = document.getElementById(listId);
+  const loadMore = view.querySelector(".load-more");
+  const form = document.getElementById(formId);
+
+  const showPage = ({ items, nextCursor }) => {
+    items.forEach((bag) => appendCard(list, bag));
+    loadMore.classList.toggle("hidden", !nextCursor);
+    loadMore.dataset.cursor = nextCursor || "";
+  };
+
+  if (!page.items.length) list.innerHTML = `<p class="inline-meta">${emptyText}</p>`;
+  showPage(page);
+
+  loadMore.addEventListener("click", async () => {
+    showPage(await api.listBags(status, { ...filters, cursor: loadMore.dataset.cursor }));
+  });
+
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+    state.bagFilters[status] = Object.fromEntries(new FormData(form).entries());
+    try {
+      await renderBagList({ view, status, title, emptyText, appendCard });
+    } catch (error) {
+      state.bagFilters[status] = filters;
+      form.querySelector(".filter-errors").innerHTML = renderValidationErrors(error.payload);
     }
+  });
 
-    bags.forEach((bag) => {
-      const node = tpl.content.cloneNode(true);
-      node.querySelector(".bag-name").textContent = bag.coffeeName;
-      node.querySelector(".bag-meta").textContent = `${bag.roaster} ${bag.origin ? `- ${bag.origin}` : ""}`;
-      node.querySelector(".bag-stats").textContent = `${bag.brewCount} brews - avg ${bag.averageRating ?? "-"} - age ${bag.roastAgeDays ?? "?"}d (${bag.restingStatus})`;
-      node.querySelector(".open-bag").addEventListener("click", async () => {
-        state.selectedBagId = bag.id;
-        ensureBagSelected();
-        await renderDetail();
-        setActiveView("detail");
-      });
-      list.appendChild(node);
+  form.addEventListener("reset", async (event) => {
+    event.preventDefault();
+    state.bagFilters[status] = {};
+    await renderBagList({ view, status, title, emptyText, appendCard });
+  });
+}
+
+async function renderMyBags() {
+  try {
+    await renderBagList({
+      view: views.myBags,
+      status: "ACTIVE",
+      title: "My Bags",
+      emptyText: "No active bags",
+      appendCard: appendActiveBagCard,
     });
   } catch (error) {
     if (error.status === 401) return showAuthRequiredError();
@@ -271,22 +861,35 @@ async function renderMyBags() {
 
 async function renderFeed() {
   try {
-    const feed = await api.listFeed(75);
+    const following = state.feedScope === "following";
+    await loadTasteConfig();
+    const [feed, profile] = await Promise.all([
+      following ? api.listFollowingFeed(75) : api.listFeed(75),
+      api.getProfile(),
+    ]);
+    state.profileUserId = profile.userId;
     views.feed.innerHTML = `
-      <h2>Global Brew Feed</h2>
+      <h2>${following ? "Following" : "Global Brew Feed"}</h2>
       <div class="actions">
+        <button id="feed-scope" class="ghost">${following ? "Show Everyone" : "Show Following"}</button>
         <button id="refresh-feed" class="ghost">Refresh Feed</button>
       </div>
-      <div id="feed-list"></div>
+      <div id="${following ? "following-list" : "feed-list"}"></div>
     `;
 
-    const list = document.getElementById("feed-list");
+    const list = views.feed.querySelector(following ? "#following-list" : "#feed-list");
     if (!feed.length) {
-      list.innerHTML = `<p class="inline-meta">No brews in feed yet.</p>`;
+      list.innerHTML = following
+        ? `<p class="inline-meta">No brews from people you follow yet.</p>`
+        : `<p id="feed-empty" class="inline-meta">No brews in feed yet.</p>`;
     } else {
       list.innerHTML = feed.map(feedItemHtml).join("");
     }
 
+    document.getElementById("feed-scope").addEventListener("click", async () => {
+      state.feedScope = following ? "everyone" : "following";
+      await renderFeed();
+    });
     document.getElementById("refresh-feed").addEventListener("click", renderFeed);
   } catch (error) {
     if (error.status === 401) return showAuthRequiredError();
@@ -294,9 +897,100 @@ async function renderFeed() {
   }
 }
 
+async function renderDashboard() {
+  try {
+    await loadTasteConfig();
+    const dashboard = await api.personalAnalytics();
+    views.dashboard.innerHTML = `
+      <h2>My Dashboard</h2>
+      <p class="inline-meta">${dashboard.totalBags} bags | ${dashboard.totalBrews} brews | Average Rating: ${dashboard.averageRating ?? "-"}</p>
+
+      ${ratingBreakdownHtml("Rating by Origin", dashboard.ratingByOrigin)}
+      ${ratingBreakdownHtml("Rating by Process", dashboard.ratingByProcess)}
+      ${ratingBreakdownHtml("Rating by Roaster", dashboard.ratingByRoaster)}
+      ${ratingBreakdownHtml("Rating by Method", dashboard.ratingByMethod)}
+
+      <article class="card">
+        <h3>Taste Profile by Origin</h3>
+        ${
+          dashboard.tasteProfileByOrigin.length
+            ? radarChartSvg(
+                dashboard.tasteProfileByOrigin.map((item) => ({
+                  label: `${item.origin} (${item.brewCount})`,
+                  profile: item.tasteProfile,
+                })),
+                280,
+              )
+            : "<p class='inline-meta'>Add an origin to your bags to see this.</p>"
+        }
+      </article>
+
+      <article class="card">
+        <h3>Flavour Tags by Origin</h3>
+        ${
+          dashboard.flavourTagsByOrigin.some((item) => item.flavourTags.length)
+            ? dashboard.flavourTagsByOrigin
+                .filter((item) => item.flavourTags.length)
+                .map((item) => `<h4>${item.origin} (${item.brewCount})</h4>${flavourTagCountsHtml(item.flavourTags, 6)}`)
+                .join("")
+            : "<p class='inline-meta'>Tag your brews from the flavour wheel to see this.</p>"
+        }
+      </article>
+
+      <article class="card">
+        <h3>Rating vs Days Off Roast</h3>
+        <div class="table-wrap"><table>
+          <thead><tr><th>Bean Age</th><th>Brews</th><th>Avg Rating</th></tr></thead>
+          <tbody>${dashboard.ratingByRoastAge
+            .map((bucket) => `<tr><td>${bucket.label}</td><td>${bucket.brewCount}</td><td>${bucket.averageRating ?? "-"}</td></tr>`)
+            .join("")}</tbody>
+        </table></div>
+        ${roastAgeChartSvg(dashboard.roastAgeCurve, null)}
+      </article>
+
+      <article class="card">
+        <h3>Peak Window by Roaster</h3>
+        ${
+          dashboard.peakWindowByRoaster.length
+            ? `<div class="table-wrap"><table>
+                <thead><tr><th>Roaster</th><th>Bags</th><th>Brews</th><th>Peak Window</th></tr></thead>
+                <tbody>${dashboard.peakWindowByRoaster
+                  .map(
+                    (row) =>
+                      `<tr><td>${row.roaster}</td><td>${row.bagCount}</td><td>${row.brewCount}</td><td>${peakWindowText(row.peakWindow)}</td></tr>`,
+                  )
+                  .join("")}</tbody>
+              </table></div>`
+            : "<p class='inline-meta'>Add roast dates to your bags to see this.</p>"
+        }
+      </article>
+
+      <article class="card">
+        <h3>Most Used Brewer + Grinder</h3>
+        ${
+          dashboard.equipmentCombos.length
+            ? `<div class="table-wrap"><table>
+                <thead><tr><th>Brewer</th><th>Grinder</th><th>Brews</th><th>Avg Rating</th></tr></thead>
+                <tbody>${dashboard.equipmentCombos
+                  .map(
+                    (combo) =>
+                      `<tr><td>${combo.brewer}</td><td>${combo.grinder}</td><td>${combo.brewCount}</td><td>${combo.averageRating ?? "-"}</td></tr>`,
+                  )
+                  .join("")}</tbody>
+              </table></div>`
+            : "<p class='inline-meta'>Log brewer and grinder on your brews to see this.</p>"
+        }
+      </article>
+    `;
+  } catch (error) {
+    if (error.status === 401) return showAuthRequiredError();
+    throw error;
+  }
+}
+
+// Fallback when the live stream is unavailable: refetch every 5 seconds while the feed is open.
 function startFeedPolling() {
   if (state.feedPollingTimer) return;
-  // Poll every 5 seconds so newly logged brews appear quickly in the global feed.
   state.feedPollingTimer = window.setInterval(() => {
     if (!views.feed.classList.contains("hidden")) {
       renderFeed().catch((error) => console.error("feed refresh failed", error));
@@ -304,15 +998,457 @@ function startFeedPolling() {
   }, 5000);
 }
 
+// Pushes new brews into the feed over Server-Sent Events.
+// EventSource reconnects (with Last-Event-ID) on its own; a CLOSED stream means the
+// server refused it, so we switch to polling.
+function startFeedStream() {
+  if (state.feedStream || state.feedPollingTimer) return;
+  if (!window.EventSource) return startFeedPolling();
+
+  const url = state.accessToken
+    ? `/feed/stream?access_token=${encodeURIComponent(state.accessToken)}`
+    : "/feed/stream";
+  const stream = new EventSource(url);
+  state.feedStream = stream;
+
+  stream.addEventListener("brew", (event) => {
+    const list = document.getElementById("feed-list");
+    if (!list) return;
+    document.getElementById("feed-empty")?.remove();
+    list.insertAdjacentHTML("afterbegin", feedItemHtml(JSON.parse(event.data)));
+  });
+
+  stream.addEventListener("error", () => {
+    if (stream.readyState !== EventSource.CLOSED) return;
+    stopFeedStream();
+    startFeedPolling();
+  });
+}
+
+function stopFeedStream() {
+  state.feedStream?.close();
+  state.feedStream = null;
+}
+
+const ROAST_LEVELS = ["LIGHT", "MEDIUM", "DARK"];
+
+function roastLevelOptionsHtml(selected = null) {
+  return ROAST_LEVELS.map(
+    (level) => `<option value="${level}" ${level === selected ? "selected" : ""}>${level.toLowerCase()}</option>`,
+  ).join("");
+}
+
+const VISIBILITY_LABELS = {
+  PUBLIC: "Public - everyone in the feed",
+  FOLLOWERS: "Followers only",
+  PRIVATE: "Private - only me",
+};
+
+// `emptyLabel` adds a leading "not set" option, e.g. for brews that follow their bag.
+function visibilityOptionsHtml(selected = null, emptyLabel = null) {
+  return [
+    emptyLabel ? `<option value="">${emptyLabel}</option>` : "",
+    ...Object.entries(VISIBILITY_LABELS).map(
+      ([value, label]) => `<option value="${value}" ${value === selected ? "selected" : ""}>${label}</option>`,
+    ),
+  ].join("");
+}
+
+const NOTIFICATION_TEXT = {
+  LIKE: "liked your brew of",
+  COMMENT: "commented on your brew of",
+  REPLY: "replied to your comment on",
+};
+
+function updateInboxBadge(unreadCount) {
+  navButtons.inbox.textContent = unreadCount ? `Inbox (${unreadCount})` : "Inbox";
+}
+
+async function renderInbox() {
+  try {
+    const inbox = await api.listNotifications();
+    updateInboxBadge(inbox.unreadCount);
+    views.inbox.innerHTML = `
+      <h2>Inbox</h2>
+      <div class="actions"><button id="inbox-read-all" class="ghost" ${inbox.unreadCount ? "" : "disabled"}>Mark All Read</button></div>
+      ${
+        inbox.items.length
+          ? inbox.items
+              .map(
+                (item) => `
+                <article class="card ${item.readAt ? "" : "unread"}">
+                  <p class="inline-meta">${feedAuthorHtml({ displayName: item.actorDisplayName, avatarUrl: item.actorAvatarUrl })}
+                    ${NOTIFICATION_TEXT[item.type]} <strong>${escapeHtml(item.coffeeName)}</strong></p>
+                  <p class="inline-meta">${new Date(item.createdAt).toLocaleString()}</p>
+                </article>
+              `,
+              )
+              .join("")
+          : "<p class='inline-meta'>Nothing here yet. Likes and comments on your brews show up here.</p>"
+      }
+    `;
+
+    document.getElementById("inbox-read-all").addEventListener("click", async () => {
+      await api.markNotificationsRead();
+      await renderInbox();
+    });
+  } catch (error) {
+    if (error.status === 401) return showAuthRequiredError();
+    throw error;
+  }
+}
+
+function followListHtml(title, users, { unfollow = false } = {}) {
+  return `
+    <article class="card">
+      <h3>${title} (${users.length})</h3>
+      ${
+        users.length
+          ? users
+              .map(
+                (user) => `
+                <p class="inline-meta">${feedAuthorHtml(user)} - since ${new Date(user.followedAt).toLocaleDateString()}
+                  ${unfollow ? `<button class="ghost profile-unfollow" data-user-id="${user.userId}">Unfollow</button>` : ""}
+                </p>
+              `,
+              )
+              .join("")
+          : "<p class='inline-meta'>Nobody yet.</p>"
+      }
+    </article>
+  `;
+}
+
+async function renderProfile() {
+  try {
+    const [profile, followList] = await Promise.all([api.getProfile(), api.listFollows()]);
+    views.profile.innerHTML = `
+      <h2>Profile</h2>
+      <form id="profile-form" class="card">
+        <label>Display Name<input name="displayName" maxlength="50" value="${profile.displayName || ""}" /></label>
+        <label>Avatar URL<input name="avatarUrl" type="url" value="${profile.avatarUrl || ""}" placeholder="https://" /></label>
+        <label>Bio<textarea name="bio" maxlength="500">${profile.bio || ""}</textarea></label>
+        <label>Default Visibility for New Bags
+          <select name="defaultVisibility">
+            ${visibilityOptionsHtml(profile.defaultVisibility, "- server default -")}
+          </select>
+        </label>
+        <p class="inline-meta">Brews show in the global feed under your display name. Each bag and brew can override its visibility; a brew is never shown more widely than its bag.</p>
+        <div class="actions"><button type="submit" class="primary">Save Profile</button></div>
+        <div id="profile-errors"></div>
+      </form>
+      ${followListHtml("Following", followList.following, { unfollow: true })}
+      ${followListHtml("Followers", followList.followers)}
+    `;
+
+    views.profile.querySelectorAll(".profile-unfollow").forEach((btn) => {
+      btn.addEventListener("click", async () => {
+        await api.unfollow(btn.dataset.userId);
+        await renderProfile();
+      });
+    });
+
+    const form = document.getElementById("profile-form");
+    form.addEventListener("submit", async (event) => {
+      event.preventDefault();
+      const raw = Object.fromEntries(new FormData(form).entries());
+      try {
+        await api.updateProfile({
+          displayName: raw.displayName || null,
+          avatarUrl: raw.avatarUrl || null,
+          bio: raw.bio || null,
+          defaultVisibility: raw.defaultVisibility || null,
+        });
+        await renderProfile();
+      } catch (error) {
+        document.getElementById("profile-errors").innerHTML = renderValidationErrors(error.payload);
+      }
+    });
+  } catch (error) {
+    if (error.status === 401) return showAuthRequiredError();
+    throw error;
+  }
+}
+
+const API_TOKEN_SCOPES = [
+  "read:bags",
+  "write:bags",
+  "read:brews",
+  "write:brews",
+  "read:analytics",
+  "read:equipment",
+  "write:equipment",
+  "read:recipes",
+  "write:recipes",
+  "read:social",
+  "write:social",
+];
+
+// Personal access tokens for scripts and scale bridges. A new token is shown once, right after creation.
+async function renderSettings(createdToken = null) {
+  try {
+    const [tokens, attributes] = await Promise.all([api.listTokens(), api.listSensoryAttributes()]);
+    state.sensoryAttributes = attributes;
+    const formatDate = (value) => (value ? new Date(value).toLocaleString() : "-");
+    views.settings.innerHTML = `
+      <h2>Settings</h2>
+      <h3>Sensory Attributes</h3>
+      <p class="inline-meta">Brews are scored on these. Built-in attributes are shared; add your own for anything else you taste for.</p>
+      <div class="table-wrap">
+        <table>
+          <thead><tr><th>Attribute</th><th>Key</th><th>Scale</th><th></th></tr></thead>
+          <tbody>${attributes
+            .map(
+              (attribute) => `<tr>
+                <td>${attribute.label}</td>
+                <td><code>${attribute.key}</code></td>
+                <td>${attribute.min}-${attribute.max}</td>
+                <td>${
+                  attribute.builtIn
+                    ? "<span class='inline-meta'>Built in</span>"
+                    : `<button class="warn delete-attribute" data-attribute-id="${attribute.id}">Delete</button>`
+                }</td>
+              </tr>`,
+            )
+            .join("")}</tbody>
+        </table>
+      </div>
+      <form id="attribute-form" class="card">
+        <label>Label<input name="label" maxlength="40" placeholder="Juiciness" required /></label>
+        <label>Min<input type="number" name="min" value="0" min="0" /></label>
+        <label>Max<input type="number" name="max" value="5" min="1" /></label>
+        <div class="actions"><button type="submit" class="primary">Add Attribute</button></div>
+        <div id="attribute-errors"></div>
+      </form>
+      <h3>Personal Access Tokens</h3>
+      <p class="inline-meta">Use a token as <code>Authorization: Bearer ct_...</code> from scripts and scale bridges. It can only do what its scopes allow.</p>
+      ${
+        createdToken
+          ? `<article class="card">
+              <p><strong>${createdToken.name}</strong> created. Copy it now, it won't be shown again:</p>
+              <input id="created-token" readonly value="${createdToken.token}" />
+            </article>`
+          : ""
+      }
+      ${
+        tokens.length
+          ? `<div class="table-wrap">
+              <table>
+                <thead><tr><th>Name</th><th>Token</th><th>Scopes</th><th>Expires</th><th>Last Used</th><th></th></tr></thead>
+                <tbody>${tokens
+                  .map(
+                    (token) => `<tr>
+                      <td>${token.name}</td>
+                      <td><code>${token.prefix}...</code></td>
+                      <td>${token.scopes.join(", ")}</td>
+                      <td>${token.expiresAt ? formatDate(token.expiresAt) : "Never"}</td>
+                      <td>${formatDate(token.lastUsedAt)}</td>
+                      <td><button class="warn revoke-token" data-token-id="${token.id}">Revoke</button></td>
+                    </tr>`,
+                  )
+                  .join("")}</tbody>
+              </table>
+            </div>`
+          : `<p class="inline-meta">No tokens yet.</p>`
+      }
+      <form id="token-form" class="card">
+        <label>Name<input name="name" maxlength="100" placeholder="Kitchen scale" required /></label>
+        <fieldset>
+          <legend>Scopes</legend>
+          ${API_TOKEN_SCOPES.map(
+            (scope) => `<label class="inline"><input type="checkbox" name="scopes" value="${scope}" /> ${scope}</label>`,
+          ).join("")}
+        </fieldset>
+        <label>Expires
+          <select name="expiresInDays">
+            <option value="30">In 30 days</option>
+            <option value="90">In 90 days</option>
+            <option value="365">In a year</option>
+            <option value="">Never</option>
+          </select>
+        </label>
+        <div class="actions"><button type="submit" class="primary">Create Token</button></div>
+        <div id="token-errors"></div>
+      </form>
+    `;
+
+    document.getElementById("created-token")?.select();
+
+    views.settings.querySelectorAll(".delete-attribute").forEach((btn) => {
+      btn.addEventListener("click", async () => {
+        if (!window.confirm("Delete this attribute? Its scores are removed from your brews.")) return;
+        await api.deleteSensoryAttribute(btn.dataset.attributeId);
+        await renderSettings();
+      });
+    });
+
+    const attributeForm = document.getElementById("attribute-form");
+    attributeForm.addEventListener("submit", async (event) => {
+      event.preventDefault();
+      const fd = new FormData(attributeForm);
+      try {
+        await api.createSensoryAttribute({ label: fd.get("label"), min: fd.get("min"), max: fd.get("max") });
+        await renderSettings();
+      } catch (error) {
+        document.getElementById("attribute-errors").innerHTML = renderValidationErrors(error.payload);
+      }
+    });
+
+    views.settings.querySelectorAll(".revoke-token").forEach((btn) => {
+      btn.addEventListener("click", async () => {
+        if (!window.confirm("Revoke this token? Anything using it stops working.")) return;
+        await api.revokeToken(btn.dataset.tokenId);
+        await renderSettings();
+      });
+    });
+
+    const form = document.getElementById("token-form");
+    form.addEventListener("submit", async (event) => {
+      event.preventDefault();
+      const fd = new FormData(form);
+      try {
+        const created = await api.createToken({
+          name: fd.get("name"),
+          scopes: fd.getAll("scopes"),
+          expiresInDays: fd.get("expiresInDays") || null,
+        });
+        await renderSettings(created);
+      } catch (error) {
+        document.getElementById("token-errors").innerHTML = renderValidationErrors(error.payload);
+      }
+    });
+  } catch (error) {
+    if (error.status === 401) return showAuthRequiredError();
+    throw error;
+  }
+}
+
+function isCurrentBand(roastAgeDays, band) {
+  return roastAgeDays != null && roastAgeDays >= band.fromDay && (band.toDay == null || roastAgeDays <= band.toDay);
+}
+
+function restingBandsHtml(bag) {
+  const formatDate = (value) => (value ? new Date(value).toLocaleDateString() : "-");
+  return `
+    <div class="table-wrap">
+      <table>
+        <thead><tr><th>Band</th><th>Days Off Roast</th><th>From</th><th>Until</th></tr></thead>
+        <tbody>${bag.restingBands
+          .map(
+            (band) => `
+            <tr class="${isCurrentBand(bag.roastAgeDays, band) ? "current-band" : ""}">
+              <td>${band.status}</td>
+              <td>${band.fromDay}${band.toDay != null ? `-${band.toDay}` : "+"}</td>
+              <td>${formatDate(band.startsAt)}</td>
+              <td>${band.endsAt ? formatDate(band.endsAt) : "-"}</td>
+            </tr>`,
+          )
+          .join("")}</tbody>
+      </table>
+    </div>
+  `;
+}
+
+async function renderRestingProfiles() {
+  try {
+    const profiles = await api.listRestingProfiles();
+    views.resting.innerHTML = `
+      <h2>Resting Profiles</h2>
+      <p class="inline-meta">Bags use the most specific profile matching their roast level and process, unless one is picked on the bag. Without a match the default is resting up to day 3 and past peak after day 21.</p>
+      <form id="create-resting-form" class="card">
+        <h3>Add Profile</h3>
+        <label>Name *<input name="name" required placeholder="e.g. Light naturals" /></label>
+        <label>Roast Level
+          <select name="roastLevel">
+            <option value="">- any -</option>
+            ${roastLevelOptionsHtml()}
+          </select>
+        </label>
+        <label>Process<input name="process" placeholder="any" /></label>
+        <label>Resting Until Day *<input type="number" name="restDays" required /></label>
+        <label>Peak From Day<input type="number" name="peakStartDay" /></label>
+        <label>Peak Until Day<input type="number" name="peakEndDay" /></label>
+        <label>Past Peak After Day *<input type="number" name="pastPeakAfterDays" required /></label>
+        <div class="actions"><button type="submit" class="primary">Save Profile</button></div>
+        <div id="resting-errors"></div>
+      </form>
+      ${
+        profiles.length
+          ? profiles
+              .map(
+                (profile) => `
+                <article class="card">
+                  <h3>${profile.name}</h3>
+                  <p class="inline-meta">${profile.roastLevel ? profile.roastLevel.toLowerCase() : "any roast"} - ${profile.process || "any process"}</p>
+                  <p class="inline-meta">Resting to day ${profile.restDays}${
+                    profile.peakStartDay != null ? ` | peak days ${profile.peakStartDay}-${profile.peakEndDay}` : ""
+                  } | past peak after day ${profile.pastPeakAfterDays}</p>
+                  <div class="actions">
+                    <button class="resting-delete warn" data-profile-id="${profile.id}">Delete</button>
+                  </div>
+                </article>
+              `,
+              )
+              .join("")
+          : "<p class='inline-meta'>No resting profiles yet.</p>"
+      }
+    `;
+
+    const form = document.getElementById("create-resting-form");
+    form.addEventListener("submit", async (event) => {
+      event.preventDefault();
+      const raw = Object.fromEntries(new FormData(form).entries());
+      try {
+        await api.createRestingProfile({
+          name: raw.name,
+          roastLevel: raw.roastLevel || null,
+          process: raw.process || null,
+          restDays: raw.restDays,
+          peakStartDay: raw.peakStartDay || null,
+          peakEndDay: raw.peakEndDay || null,
+          pastPeakAfterDays: raw.pastPeakAfterDays,
+        });
+        await renderRestingProfiles();
+      } catch (error) {
+        document.getElementById("resting-errors").innerHTML = renderValidationErrors(error.payload);
+      }
+    });
+
+    views.resting.querySelectorAll(".resting-delete").forEach((btn) => {
+      btn.addEventListener("click", async () => {
+        if (!window.confirm("Delete this profile? Bags using it fall back to matching.")) return;
+        await api.deleteRestingProfile(btn.dataset.profileId);
+        await renderRestingProfiles();
+      });
+    });
+  } catch (error) {
+    if (error.status === 401) return showAuthRequiredError();
+    throw error;
+  }
+}
+
 function renderCreateForm() {
   views.create.innerHTML = `
     <h2>Create Bag</h2>
     <form id="create-bag-form" class="card">
-      <label>Coffee Name *<input name="coffeeName" required /></label>
-      <label>Roaster *<input name="roaster" required /></label>
+      <label>Coffee Name *<input name="coffeeName" list="coffee-suggestions" autocomplete="off" required /></label>
+      <datalist id="coffee-suggestions"></datalist>
+      <label>Roaster *<input name="roaster" list="roaster-suggestions" autocomplete="off" required /></label>
+      <datalist id="roaster-suggestions"></datalist>
       <label>Origin<input name="origin" /></label>
       <label>Process<input name="process" /></label>
+      <label>Roast Level
+        <select name="roastLevel">
+          <option value="">- unknown -</option>
+          ${roastLevelOptionsHtml()}
+        </select>
+      </label>
       <label>Roast Date *<input type="date" name="roastDate" required /></label>
+      <label>Bag Weight (g)<input type="number" name="initialWeightGrams" placeholder="e.g. 250" /></label>
+      <label>Price<input type="number" name="price" step="0.01" /></label>
+      <label>Visibility
+        <select name="visibility">${visibilityOptionsHtml(null, "- my default -")}</select>
+      </label>
       <label>Notes<textarea name="notes"></textarea></label>
       <div class="actions">
         <button type="submit" class="primary">Save Bag</button>
@@ -322,16 +1458,22 @@ function renderCreateForm() {
   `;
 
   const form = document.getElementById("create-bag-form");
+  const coffeeSuggestions = wireCatalogueAutocomplete(form);
   form.addEventListener("submit", async (event) => {
     event.preventDefault();
     const fd = new FormData(form);
     const payload = Object.fromEntries(fd.entries());
     const cleaned = {
+      coffeeId: coffeeSuggestions.matching(payload.coffeeName, payload.roaster)?.id ?? null,
       coffeeName: payload.coffeeName,
       roaster: payload.roaster,
       origin: payload.origin || null,
       process: payload.process || null,
+      roastLevel: payload.roastLevel || null,
       roastDate: payload.roastDate,
+      initialWeightGrams: payload.initialWeightGrams || null,
+      price: payload.price || null,
+      visibility: payload.visibility || null,
       notes: payload.notes || null,
     };
 
@@ -350,6 +1492,43 @@ function renderCreateForm() {
   });
 }
 
+// Suggests catalogue roasters and coffees while typing. Picking a known coffee fills
+// in its roaster, origin and process; `matching` finds the coffee the form names.
+function wireCatalogueAutocomplete(form) {
+  let coffees = [];
+  const fill = async (input, listId, load) => {
+    const items = await load(input.value.trim());
+    document.getElementById(listId).innerHTML = items.map((item) => `<option value="${item.value}">${item.label}</option>`).join("");
+  };
+  const matching = (coffeeName, roaster) =>
+    coffees.find(
+      (coffee) =>
+        coffee.name.toLowerCase() === coffeeName.trim().toLowerCase() &&
+        (!roaster || coffee.roasterName.toLowerCase() === roaster.trim().toLowerCase()),
+    ) ?? null;
+
+  form.coffeeName.addEventListener("input", () =>
+    fill(form.coffeeName, "coffee-suggestions", async (q) => {
+      coffees = await api.listCoffees(q);
+      return coffees.map((coffee) => ({ value: coffee.name, label: `${coffee.roasterName}${coffee.country ? ` - ${coffee.country}` : ""}` }));
+    }),
+  );
+  form.roaster.addEventListener("input", () =>
+    fill(form.roaster, "roaster-suggestions", async (q) =>
+      (await api.listRoasters(q)).map((roaster) => ({ value: roaster.name, label: `${roaster.coffeeCount} coffees` })),
+    ),
+  );
+  form.coffeeName.addEventListener("change", () => {
+    const coffee = matching(form.coffeeName.value, "");
+    if (!coffee) return;
+    if (!form.roaster.value) form.roaster.value = coffee.roasterName;
+    if (!form.origin.value) form.origin.value = coffee.country || "";
+    if (!form.process.value) form.process.value = coffee.process || "";
+  });
+
+  return { matching };
+}
+
 async function promptEditBag(bag) {
   const coffeeName = window.prompt("Coffee name", bag.coffeeName);
   if (coffeeName === null) return;
@@ -359,11 +1538,19 @@ async function promptEditBag(bag) {
   if (origin === null) return;
   const process = window.prompt("Process (optional)", bag.process || "");
   if (process === null) return;
+  const roastLevel = window.prompt("Roast level (LIGHT, MEDIUM, DARK or blank)", bag.roastLevel || "");
+  if (roastLevel === null) return;
   const roastDate = window.prompt(
     "Roast date (YYYY-MM-DD)",
     bag.roastDate ? new Date(bag.roastDate).toISOString().slice(0, 10) : "",
   );
   if (roastDate === null) return;
+  const initialWeightGrams = window.prompt("Bag weight in grams (optional)", bag.initialWeightGrams ?? "");
+  if (initialWeightGrams === null) return;
+  const price = window.prompt("Price (optional)", bag.price ?? "");
+  if (price === null) return;
+  const visibility = window.prompt("Visibility (PUBLIC, FOLLOWERS or PRIVATE)", bag.visibility);
+  if (visibility === null) return;
   const notes = window.prompt("Notes", bag.notes || "");
   if (notes === null) return;
 
@@ -372,118 +1559,829 @@ async function promptEditBag(bag) {
     roaster,
     origin,
     process,
+    roastLevel: roastLevel.trim().toUpperCase() || null,
     roastDate,
+    initialWeightGrams: initialWeightGrams || null,
+    price: price || null,
+    visibility: visibility.trim().toUpperCase(),
     notes,
   });
 }
 
-async function renderArchived() {
-  try {
-    const bags = await api.listBags("ARCHIVED");
-    views.archived.innerHTML = `<h2>Archived Bags</h2><div id="archived-list"></div>`;
-    const list = document.getElementById("archived-list");
+async function promptEditBrew(bagId, brew) {
+  const method = window.prompt("Method", brew.method);
+  if (method === null) return false;
+  const dose = window.prompt("Dose (gms)", brew.dose ?? "");
+  if (dose === null) return false;
+  const grindSetting = window.prompt("Grind setting", brew.grindSetting ?? "");
+  if (grindSetting === null) return false;
+  const waterAmount = window.prompt("Water amount (ml)", brew.waterAmount ?? "");
+  if (waterAmount === null) return false;
+  const rating = window.prompt("Rating (0-5)", brew.rating ?? "");
+  if (rating === null) return false;
+  const flavourTags = window.prompt("Flavour tags (comma-separated)", flavourTagsText(brew.flavourTags));
+  if (flavourTags === null) return false;
+  const flavourNotes = window.prompt("Other flavour notes", brew.flavourNotes || "");
+  if (flavourNotes === null) return false;
+  const visibility = window.prompt("Visibility (PUBLIC, FOLLOWERS, PRIVATE or blank for the bag's)", brew.visibility || "");
+  if (visibility === null) return false;
+
+  await api.updateBrew(bagId, brew.id, {
+    method,
+    dose: dose || null,
+    grindSetting: grindSetting || null,
+    waterAmount: waterAmount || null,
+    rating: rating || null,
+    flavourTags: flavourTagKeysFromNames(flavourTags),
+    flavourNotes: flavourNotes || null,
+    visibility: visibility.trim().toUpperCase() || null,
+  });
+  return true;
+}
+
+function undoDeleteHtml() {
+  const deleted = state.lastDeletedBrew;
+  if (!deleted || deleted.bagId !== state.selectedBagId) return "";
+  if (new Date(deleted.restoreDeadline).getTime() < Date.now()) return "";
+  return `
+    <div class="card undo-banner">
+      <p class="inline-meta">Deleted ${deleted.method} brew from ${new Date(deleted.createdAt).toLocaleString()}.
+        Undo available until ${new Date(deleted.restoreDeadline).toLocaleTimeString()}.</p>
+      <div class="actions"><button id="undo-delete-brew" class="ghost">Undo Delete</button></div>
+    </div>
+  `;
+}
+
+function appendArchivedBagCard(list, bag) {
+  const card = document.createElement("article");
+  card.className = "card";
+  card.innerHTML = `
+    <h3>${escapeHtml(bag.coffeeName)}</h3>
+    <p class="inline-meta">${escapeHtml(bag.roaster)}</p>
+    <p class="inline-meta">${bag.brewCount} brews - avg rating ${bag.averageRating ?? "-"}</p>
+    <div class="actions">
+      <button class="arch-open">Open</button>
+      <button class="arch-analytics">View Analytics</button>
+      <button class="arch-unarchive">Unarchive</button>
+      <button class="arch-edit">Edit</button>
+    </div>
+  `;
+
+  card.querySelector(".arch-open").addEventListener("click", async () => {
+    state.selectedBagId = bag.id;
+    ensureBagSelected();
+    await renderDetail();
+    setActiveView("detail");
+  });
+
+  card.querySelector(".arch-analytics").addEventListener("click", async () => {
+    state.selectedBagId = bag.id;
+    ensureBagSelected();
+    await renderAnalytics();
+    setActiveView("analytics");
+  });
+
+  card.querySelector(".arch-unarchive").addEventListener("click", async () => {
+    await api.unarchiveBag(bag.id);
+    await renderArchived();
+    await renderMyBags();
+  });
+
+  card.querySelector(".arch-edit").addEventListener("click", async () => {
+    const bagDetail = await api.getBag(bag.id);
+    await promptEditBag(bagDetail);
+    await renderArchived();
+    await renderMyBags();
+  });
+
+  list.appendChild(card);
+}
+
+async function renderArchived() {
+  try {
+    await renderBagList({
+      view: views.archived,
+      status: "ARCHIVED",
+      title: "Archived Bags",
+      emptyText: "No archived bags",
+      appendCard: appendArchivedBagCard,
+    });
+  } catch (error) {
+    if (error.status === 401) return showAuthRequiredError();
+    throw error;
+  }
+}
+
+function equipmentOptionsHtml(items, type) {
+  return items
+    .filter((item) => item.type === type)
+    .map((item) => `<option value="${item.id}">${escapeHtml(item.displayName)}</option>`)
+    .join("");
+}
+
+async function renderEquipment() {
+  try {
+    const items = await api.listEquipment();
+    views.equipment.innerHTML = `
+      <h2>Equipment</h2>
+      <form id="create-equipment-form" class="card">
+        <h3>Add Equipment</h3>
+        <label>Type *
+          <select name="type">
+            <option value="BREWER">Brewer</option>
+            <option value="GRINDER">Grinder</option>
+          </select>
+        </label>
+        <label>Brand<input name="brand" placeholder="e.g. Hario" /></label>
+        <label>Model *<input name="model" required placeholder="e.g. V60 02" /></label>
+        <label>Grind Setting Min<input type="number" name="grindSettingMin" /></label>
+        <label>Grind Setting Max<input type="number" name="grindSettingMax" /></label>
+        <label>Grind Setting Unit<input name="grindSettingUnit" placeholder="e.g. clicks" /></label>
+        <label>Notes<textarea name="notes"></textarea></label>
+        <div class="actions"><button type="submit" class="primary">Save Equipment</button></div>
+        <div id="equipment-errors"></div>
+      </form>
+      <div id="equipment-list">
+        ${
+          items.length
+            ? items
+                .map(
+                  (item) => `
+                  <article class="card">
+                    <h3>${escapeHtml(item.displayName)}</h3>
+                    <p class="inline-meta">${item.type === "BREWER" ? "Brewer" : "Grinder"}${
+                      item.grindSettingMin != null || item.grindSettingMax != null
+                        ? ` - settings ${item.grindSettingMin ?? 0}-${item.grindSettingMax ?? "?"} ${item.grindSettingUnit || ""}`
+                        : ""
+                    }</p>
+                    <p class="inline-meta">${item.notes || ""}</p>
+                    <div class="actions">
+                      <button class="equipment-analytics" data-equipment-id="${item.id}">View Analytics</button>
+                      <button class="equipment-delete warn" data-equipment-id="${item.id}">Delete</button>
+                    </div>
+                    <div class="equipment-analytics-output"></div>
+                  </article>
+                `,
+                )
+                .join("")
+            : "<p class='inline-meta'>No equipment yet.</p>"
+        }
+      </div>
+    `;
+
+    const form = document.getElementById("create-equipment-form");
+    form.addEventListener("submit", async (event) => {
+      event.preventDefault();
+      const raw = Object.fromEntries(new FormData(form).entries());
+      const isGrinder = raw.type === "GRINDER";
+      try {
+        await api.createEquipment({
+          type: raw.type,
+          brand: raw.brand || null,
+          model: raw.model,
+          grindSettingMin: isGrinder ? raw.grindSettingMin || null : null,
+          grindSettingMax: isGrinder ? raw.grindSettingMax || null : null,
+          grindSettingUnit: isGrinder ? raw.grindSettingUnit || null : null,
+          notes: raw.notes || null,
+        });
+        await renderEquipment();
+      } catch (error) {
+        document.getElementById("equipment-errors").innerHTML = renderValidationErrors(error.payload);
+      }
+    });
+
+    views.equipment.querySelectorAll(".equipment-analytics").forEach((btn) => {
+      btn.addEventListener("click", async () => {
+        const analytics = await api.equipmentAnalytics(btn.dataset.equipmentId);
+        const output = btn.closest("article").querySelector(".equipment-analytics-output");
+        output.innerHTML = `
+          <p class="inline-meta">${analytics.totalBrews} brews across ${analytics.bagCount} bags | Average Rating: ${analytics.averageRating ?? "-"}</p>
+          ${
+            analytics.byBag.length
+              ? `<div class="table-wrap"><table>
+                  <thead><tr><th>Coffee</th><th>Roaster</th><th>Brews</th><th>Avg Rating</th><th>Best</th></tr></thead>
+                  <tbody>${analytics.byBag
+                    .map(
+                      (row) =>
+                        `<tr><td>${row.coffeeName}</td><td>${row.roaster}</td><td>${row.brewCount}</td><td>${row.averageRating ?? "-"}</td><td>${row.bestRating ?? "-"}</td></tr>`,
+                    )
+                    .join("")}</tbody>
+                </table></div>`
+              : ""
+          }
+          ${analytics.ratingByGrindSetting.length ? ratingBreakdownHtml("Rating by Grind Setting", analytics.ratingByGrindSetting) : ""}
+        `;
+      });
+    });
+
+    views.equipment.querySelectorAll(".equipment-delete").forEach((btn) => {
+      btn.addEventListener("click", async () => {
+        if (!window.confirm("Delete this equipment? Brews keep its name as text.")) return;
+        await api.deleteEquipment(btn.dataset.equipmentId);
+        await renderEquipment();
+      });
+    });
+  } catch (error) {
+    if (error.status === 401) return showAuthRequiredError();
+    throw error;
+  }
+}
+
+function coffeeOriginText(coffee) {
+  const parts = [
+    [coffee.country, coffee.region].filter(Boolean).join(", "),
+    coffee.farm,
+    coffee.variety,
+    coffee.altitude != null ? `${coffee.altitude} masl` : null,
+    coffee.process,
+  ].filter(Boolean);
+  return parts.length ? parts.join(" - ") : "No origin details yet";
+}
+
+function catalogueMergeFormHtml(kind, items) {
+  const options = items.map((item) => `<option value="${item.id}">${item.label}</option>`).join("");
+  return `
+    <form class="card catalogue-merge" data-kind="${kind}">
+      <h3>Merge Duplicate ${kind === "roaster" ? "Roasters" : "Coffees"}</h3>
+      <label>Duplicate<select name="sourceId">${options}</select></label>
+      <label>Keep<select name="targetId">${options}</select></label>
+      <div class="actions"><button type="submit" class="primary">Merge</button></div>
+      <div class="merge-errors"></div>
+    </form>
+  `;
+}
+
+async function promptEditCoffee(coffee) {
+  const fields = [
+    ["name", "Coffee name"],
+    ["country", "Country"],
+    ["region", "Region"],
+    ["farm", "Farm or washing station"],
+    ["variety", "Variety"],
+    ["altitude", "Altitude (masl)"],
+    ["process", "Process"],
+  ];
+  const payload = {};
+  for (const [key, label] of fields) {
+    const value = window.prompt(label, coffee[key] ?? "");
+    if (value === null) return false;
+    payload[key] = value || null;
+  }
+  await api.updateCoffee(coffee.id, payload);
+  return true;
+}
+
+function coffeePurchasesHtml(coffee) {
+  if (!coffee.purchases.length) return `<p class="inline-meta">No bags yet.</p>`;
+  return `
+    <div class="table-wrap"><table>
+      <thead><tr><th>Bought</th><th>Roast Date</th><th>Price</th><th>Status</th><th>Brews</th><th>Avg Rating</th><th>Best</th></tr></thead>
+      <tbody>${coffee.purchases
+        .map(
+          (bag) =>
+            `<tr><td>${new Date(bag.createdAt).toLocaleDateString()}</td><td>${
+              bag.roastDate ? new Date(bag.roastDate).toLocaleDateString() : "-"
+            }</td><td>${bag.price ?? "-"}</td><td>${bag.status}</td><td>${bag.brewCount}</td><td>${bag.averageRating ?? "-"}</td><td>${bag.bestRating ?? "-"}</td></tr>`,
+        )
+        .join("")}</tbody>
+    </table></div>
+  `;
+}
+
+// Roasters and coffees bags link to, with origin details, repurchase history and a merge tool.
+async function renderCatalogue() {
+  try {
+    const [roasters, coffees] = await Promise.all([api.listRoasters("", 50), api.listCoffees("", 50)]);
+    views.catalogue.innerHTML = `
+      <h2>Coffee Catalogue</h2>
+      <p class="inline-meta">Bags are linked to a coffee here when you create them. Merge duplicates to combine their history.</p>
+      ${
+        roasters.length
+          ? roasters
+              .map(
+                (roaster) => `
+                <article class="card">
+                  <h3>${roaster.name}</h3>
+                  <p class="inline-meta">${roaster.coffeeCount} coffees - ${roaster.bagCount} bags</p>
+                  <div class="actions"><button class="roaster-rename" data-roaster-id="${roaster.id}">Rename</button></div>
+                  <ul class="coffee-list">
+                    ${coffees
+                      .filter((coffee) => coffee.roasterId === roaster.id)
+                      .map(
+                        (coffee) => `
+                        <li>
+                          <strong>${coffee.name}</strong> <span class="inline-meta">${coffeeOriginText(coffee)} - ${coffee.bagCount} bags</span>
+                          <button class="coffee-edit" data-coffee-id="${coffee.id}">Edit</button>
+                          <button class="coffee-purchases" data-coffee-id="${coffee.id}">Compare Bags</button>
+                          <div class="coffee-purchases-output"></div>
+                        </li>
+                      `,
+                      )
+                      .join("")}
+                  </ul>
+                </article>
+              `,
+              )
+              .join("")
+          : "<p class='inline-meta'>No roasters yet. Create a bag to start the catalogue.</p>"
+      }
+      ${roasters.length > 1 ? catalogueMergeFormHtml("roaster", roasters.map((roaster) => ({ id: roaster.id, label: roaster.name }))) : ""}
+      ${
+        coffees.length > 1
+          ? catalogueMergeFormHtml(
+              "coffee",
+              coffees.map((coffee) => ({ id: coffee.id, label: `${coffee.name} (${coffee.roasterName})` })),
+            )
+          : ""
+      }
+    `;
+
+    views.catalogue.querySelectorAll(".roaster-rename").forEach((btn) => {
+      btn.addEventListener("click", async () => {
+        const roaster = roasters.find((item) => item.id === btn.dataset.roasterId);
+        const name = window.prompt("Roaster name", roaster?.name ?? "");
+        if (!name) return;
+        await api.updateRoaster(btn.dataset.roasterId, { name });
+        await renderCatalogue();
+      });
+    });
+
+    views.catalogue.querySelectorAll(".coffee-edit").forEach((btn) => {
+      btn.addEventListener("click", async () => {
+        const coffee = coffees.find((item) => item.id === btn.dataset.coffeeId);
+        if (coffee && (await promptEditCoffee(coffee))) await renderCatalogue();
+      });
+    });
+
+    views.catalogue.querySelectorAll(".coffee-purchases").forEach((btn) => {
+      btn.addEventListener("click", async () => {
+        const coffee = await api.getCoffee(btn.dataset.coffeeId);
+        btn.closest("li").querySelector(".coffee-purchases-output").innerHTML = coffeePurchasesHtml(coffee);
+      });
+    });
+
+    views.catalogue.querySelectorAll(".catalogue-merge").forEach((form) => {
+      form.addEventListener("submit", async (event) => {
+        event.preventDefault();
+        const { sourceId, targetId } = Object.fromEntries(new FormData(form).entries());
+        const merge = form.dataset.kind === "roaster" ? api.mergeRoasters : api.mergeCoffees;
+        try {
+          await merge(targetId, [sourceId]);
+          await renderCatalogue();
+        } catch (error) {
+          form.querySelector(".merge-errors").innerHTML = renderValidationErrors(error.payload);
+        }
+      });
+    });
+  } catch (error) {
+    if (error.status === 401) return showAuthRequiredError();
+    throw error;
+  }
+}
+
+function recipeSummary(recipe) {
+  const parts = [
+    recipe.dose != null ? `${recipe.dose}g` : null,
+    recipe.waterAmount != null ? `${recipe.waterAmount}ml` : null,
+    recipe.brewRatio != null ? `1:${recipe.brewRatio}` : null,
+    recipe.grindSetting != null ? `grind ${recipe.grindSetting}` : null,
+    recipe.waterTemperature != null ? `${recipe.waterTemperature}°C` : null,
+  ].filter(Boolean);
+  return `${recipe.method}${parts.length ? ` - ${parts.join(", ")}` : ""}`;
+}
+
+async function renderRecipes() {
+  try {
+    const recipes = await api.listRecipes();
+    views.recipes.innerHTML = `
+      <h2>Recipes</h2>
+      <p class="inline-meta">Save a brew as a recipe from its bag's brew history, then start new brews from it.</p>
+      ${
+        recipes.length
+          ? recipes
+              .map(
+                (recipe) => `
+                <article class="card">
+                  <h3>${recipe.name}</h3>
+                  <p class="inline-meta">${recipeSummary(recipe)}</p>
+                  <p class="inline-meta">${[recipe.brewer, recipe.grinder].filter(Boolean).join(" / ")}</p>
+                  <p class="inline-meta">${recipe.notes || ""}</p>
+                  <div class="actions">
+                    <button class="recipe-analytics" data-recipe-id="${recipe.id}">View Analytics</button>
+                    <button class="recipe-delete warn" data-recipe-id="${recipe.id}">Delete</button>
+                  </div>
+                  <div class="recipe-analytics-output"></div>
+                </article>
+              `,
+              )
+              .join("")
+          : "<p class='inline-meta'>No recipes yet.</p>"
+      }
+    `;
+
+    views.recipes.querySelectorAll(".recipe-analytics").forEach((btn) => {
+      btn.addEventListener("click", async () => {
+        const analytics = await api.recipeAnalytics(btn.dataset.recipeId);
+        const output = btn.closest("article").querySelector(".recipe-analytics-output");
+        output.innerHTML = `
+          <p class="inline-meta">${analytics.totalBrews} brews | Average Rating: ${analytics.averageRating ?? "-"}</p>
+          ${
+            analytics.byBag.length
+              ? `<div class="table-wrap"><table>
+                  <thead><tr><th>Coffee</th><th>Roaster</th><th>Brews</th><th>Avg Rating</th></tr></thead>
+                  <tbody>${analytics.byBag
+                    .map(
+                      (row) =>
+                        `<tr><td>${row.coffeeName}</td><td>${row.roaster}</td><td>${row.brewCount}</td><td>${row.averageRating ?? "-"}</td></tr>`,
+                    )
+                    .join("")}</tbody>
+                </table></div>`
+              : ""
+          }
+        `;
+      });
+    });
+
+    views.recipes.querySelectorAll(".recipe-delete").forEach((btn) => {
+      btn.addEventListener("click", async () => {
+        if (!window.confirm("Delete this recipe? Brews made from it are kept.")) return;
+        await api.deleteRecipe(btn.dataset.recipeId);
+        await renderRecipes();
+      });
+    });
+  } catch (error) {
+    if (error.status === 401) return showAuthRequiredError();
+    throw error;
+  }
+}
+
+function brewFormHtml(equipmentItems = [], recipes = []) {
+  return `
+  <form id="create-brew-form" class="card">
+    <h3>Make a Cup</h3>
+    ${
+      recipes.length
+        ? `<label>Start from Recipe
+            <select name="recipeId">
+              <option value="">- none -</option>
+              ${recipes.map((recipe) => `<option value="${recipe.id}">${recipe.name}</option>`).join("")}
+            </select>
+          </label>`
+        : ""
+    }
+    <label>Method *
+      <select name="method" required>
+        <option>Pourover</option>
+        <option>Aeropress</option>
+        <option>French Press</option>
+        <option>Espresso</option>
+        <option>Moka Pot</option>
+        <option value="__custom__">Custom</option>
+      </select>
+    </label>
+    <label id="custom-method-label" class="hidden">Custom Method *
+      <input name="customMethod" placeholder="e.g. Origami Air S" />
+    </label>
+    <label>Brewer
+      <input name="brewer" list="brewer-options" placeholder="e.g. V60, Kalita, Cafec Deep 27, Gaggia Classic" />
+      <datalist id="brewer-options">
+        <option value="V60"></option>
+        <option value="Kalita"></option>
+        <option value="Cafec Deep 27"></option>
+        <option value="Chemex"></option>
+        <option value="Origami"></option>
+        <option value="Gaggia Classic"></option>
+        <option value="AeroPress"></option>
+        <option value="French Press"></option>
+        <option value="Moka Pot"></option>
+      </datalist>
+    </label>
+    <label>Brewer from Equipment
+      <select name="brewerId">
+        <option value="">- none -</option>
+        ${equipmentOptionsHtml(equipmentItems, "BREWER")}
+      </select>
+    </label>
+    <label>Grinder<input name="grinder" /></label>
+    <label>Grinder from Equipment
+      <select name="grinderId">
+        <option value="">- none -</option>
+        ${equipmentOptionsHtml(equipmentItems, "GRINDER")}
+      </select>
+    </label>
+    <label>Dose (gms)<input type="number" name="dose" /></label>
+    <label>Grind Setting<input type="number" name="grindSetting" /></label>
+    <label>Water Amount (ml)<input type="number" name="waterAmount" /></label>
+    <label>Water Temperature (°C)<input type="number" name="waterTemperature" step="0.5" /></label>
+    <label>Bloom Time (sec)<input type="number" name="bloomTimeSeconds" /></label>
+    <label>Bloom Water (g)<input type="number" name="bloomWater" /></label>
+    <label>Total Brew Time (sec)<input type="number" name="brewTimeSeconds" /></label>
+    <label>Beverage Yield (g)<input type="number" name="beverageYield" step="0.1" /></label>
+    <label>TDS (%)<input type="number" name="tds" step="0.01" /></label>
+    ${sliderField("Rating", "rating", 0, 5, 0.1, 3)}
+    ${sensoryFieldsHtml()}
+    ${flavourTagPickerHtml()}
+    <label>Other Flavour Notes<textarea name="flavourNotes" placeholder="Anything the wheel doesn't cover"></textarea></label>
+    <label>Visibility
+      <select name="visibility">${visibilityOptionsHtml(null, "- same as bag -")}</select>
+    </label>
+    <div class="actions"><button type="submit" class="primary">Save Brew</button></div>
+    <div id="brew-errors"></div>
+  </form>`;
+}
+
+function recommendationHtml(recommendation) {
+  const suggestion = recommendation.suggestion;
+  return `
+    <article class="card">
+      <h3>Try Next</h3>
+      <p class="inline-meta">${recommendation.explanation}</p>
+      ${
+        suggestion
+          ? `<p><strong>${suggestion.method ?? "Any method"}</strong> -
+              ${suggestion.dose ?? "-"}g dose, grind ${suggestion.grindSetting ?? "-"}, ${suggestion.waterAmount ?? "-"}ml water
+              ${suggestion.brewRatio != null ? `(1:${suggestion.brewRatio})` : ""}</p>
+             <p class="inline-meta">Based on ${recommendation.sampleSize} rated brews - ${recommendation.confidence.toLowerCase()} confidence</p>
+             <div class="actions"><button id="apply-recommendation" class="ghost">Use These Values</button></div>`
+          : ""
+      }
+    </article>
+  `;
+}
+
+// Live brew timer on bag detail. While a session runs, saving the brew form finishes it.
+function brewTimerHtml(session) {
+  if (!session) {
+    return `
+      <article class="card" id="brew-timer">
+        <h3>Brew Timer</h3>
+        <p class="inline-meta">Time bloom, pours and drawdown as you brew; the schedule is saved with the brew.</p>
+        <div class="actions"><button id="timer-start" class="primary">Start Timer</button></div>
+      </article>
+    `;
+  }
+  return `
+    <article class="card" id="brew-timer">
+      <h3>Brew Timer</h3>
+      <p class="timer-display" id="timer-display">0:00</p>
+      <div class="actions">
+        <input id="timer-grams" type="number" min="1" max="5000" placeholder="Grams" />
+        <button class="ghost timer-event" data-type="BLOOM_START">Bloom</button>
+        <button class="ghost timer-event" data-type="POUR">Pour</button>
+        <button class="ghost timer-event" data-type="DRAWDOWN_END">Drawdown Done</button>
+        <button id="timer-undo" class="ghost" ${session.events.length ? "" : "disabled"}>Undo Last</button>
+        <button id="timer-cancel" class="warn">Cancel</button>
+      </div>
+      <div id="timer-errors"></div>
+      ${pourScheduleHtml(session.pourSchedule)}
+      <p class="inline-meta">Fill in the brew form below and save it to finish the timed brew.</p>
+    </article>
+  `;
+}
+
+function stopBrewTimer() {
+  if (state.brewTimer) window.clearInterval(state.brewTimer);
+  state.brewTimer = null;
+}
+
+function wireBrewTimer(bagId) {
+  const session = state.brewSession;
+  const rerender = async (next) => {
+    state.brewSession = next;
+    stopBrewTimer();
+    document.getElementById("brew-timer").outerHTML = brewTimerHtml(next);
+    wireBrewTimer(bagId);
+  };
+
+  document.getElementById("timer-start")?.addEventListener("click", async () => {
+    await rerender(await api.startBrewSession(bagId));
+  });
+  if (!session) return;
+
+  const display = document.getElementById("timer-display");
+  const tick = () => {
+    const seconds = Math.max(0, Math.floor((Date.now() - new Date(session.startedAt).getTime()) / 1000));
+    display.textContent = formatSeconds(seconds);
+  };
+  tick();
+  state.brewTimer = window.setInterval(tick, 250);
+
+  document.querySelectorAll(".timer-event").forEach((btn) => {
+    btn.addEventListener("click", async () => {
+      const grams = document.getElementById("timer-grams").value;
+      try {
+        await rerender(await api.recordBrewEvent(bagId, session.id, { type: btn.dataset.type, grams: grams || null }));
+      } catch (error) {
+        document.getElementById("timer-errors").innerHTML = renderValidationErrors(error.payload);
+      }
+    });
+  });
+
+  document.getElementById("timer-undo").addEventListener("click", async () => {
+    const last = session.events[session.events.length - 1];
+    if (last) await rerender(await api.undoBrewEvent(bagId, session.id, last.id));
+  });
+
+  document.getElementById("timer-cancel").addEventListener("click", async () => {
+    if (!window.confirm("Cancel this timed brew? Nothing will be logged.")) return;
+    await api.cancelBrewSession(bagId, session.id);
+    await rerender(null);
+  });
+}
+
+const BAG_ROLE_LABELS = { VIEWER: "Viewer", BREWER: "Brewer", OWNER: "Owner" };
 
-    if (!bags.length) {
-      list.innerHTML = `<p class="inline-meta">No archived bags</p>`;
-      return;
-    }
+function bagRoleOptionsHtml(selected) {
+  return Object.entries(BAG_ROLE_LABELS)
+    .map(([value, label]) => `<option value="${value}" ${value === selected ? "selected" : ""}>${label}</option>`)
+    .join("");
+}
 
-    bags.forEach((bag) => {
-      const card = document.createElement("article");
-      card.className = "card";
-      card.innerHTML = `
-        <h3>${bag.coffeeName}</h3>
-        <p class="inline-meta">${bag.roaster}</p>
-        <p class="inline-meta">${bag.brewCount} brews - avg rating ${bag.averageRating ?? "-"}</p>
-        <div class="actions">
-          <button class="arch-open">Open</button>
-          <button class="arch-analytics">View Analytics</button>
-          <button class="arch-unarchive">Unarchive</button>
-          <button class="arch-edit">Edit</button>
-        </div>
-      `;
-
-      card.querySelector(".arch-open").addEventListener("click", async () => {
-        state.selectedBagId = bag.id;
-        ensureBagSelected();
-        await renderDetail();
-        setActiveView("detail");
-      });
+function inviteLink(invite) {
+  return `${window.location.origin}/app/?invite=${invite.token}`;
+}
 
-      card.querySelector(".arch-analytics").addEventListener("click", async () => {
-        state.selectedBagId = bag.id;
-        ensureBagSelected();
-        await renderAnalytics();
-        setActiveView("analytics");
-      });
+// Members panel on bag detail; owners also get role pickers and invite links.
+function bagMembersHtml(bag, members, invites) {
+  const isOwner = bag.role === "OWNER";
+  return `
+    <details class="card" id="bag-members">
+      <summary>Shared with ${members.length === 1 ? "nobody yet" : `${members.length - 1} ${members.length === 2 ? "person" : "people"}`}</summary>
+      <ul class="member-list">
+        ${members
+          .map((member) => {
+            const isCreator = member.userId === bag.userId;
+            const isMe = member.userId === state.profileUserId;
+            const roleControl =
+              isOwner && !isCreator
+                ? `<select class="member-role" data-user-id="${member.userId}">${bagRoleOptionsHtml(member.role)}</select>`
+                : BAG_ROLE_LABELS[member.role];
+            const remove =
+              !isCreator && (isOwner || isMe)
+                ? `<button class="ghost remove-member" data-user-id="${member.userId}">${isMe ? "Leave" : "Remove"}</button>`
+                : "";
+            return `<li>${escapeHtml(member.displayName)}${isMe ? " (you)" : ""} - ${roleControl} ${remove}</li>`;
+          })
+          .join("")}
+      </ul>
+      ${
+        isOwner
+          ? `<h4>Invite Links</h4>
+             <ul class="invite-list">
+               ${invites
+                 .map(
+                   (invite) => `<li>
+                     <input readonly value="${inviteLink(invite)}" />
+                     ${BAG_ROLE_LABELS[invite.role]}, expires ${new Date(invite.expiresAt).toLocaleDateString()}
+                     <button class="ghost revoke-invite" data-invite-id="${invite.id}">Revoke</button>
+                   </li>`,
+                 )
+                 .join("")}
+             </ul>
+             <div class="actions">
+               <select id="invite-role">${bagRoleOptionsHtml("BREWER")}</select>
+               <button id="create-invite" class="ghost">Create Invite Link</button>
+             </div>`
+          : ""
+      }
+    </details>
+  `;
+}
 
-      card.querySelector(".arch-unarchive").addEventListener("click", async () => {
-        await api.unarchiveBag(bag.id);
-        await renderArchived();
-        await renderMyBags();
-      });
+function wireBagMembers(bag) {
+  const panel = document.getElementById("bag-members");
+  const rerender = async () => {
+    await renderDetail();
+    document.getElementById("bag-members").open = true;
+  };
 
-      card.querySelector(".arch-edit").addEventListener("click", async () => {
-        const bagDetail = await api.getBag(bag.id);
-        await promptEditBag(bagDetail);
-        await renderArchived();
-        await renderMyBags();
-      });
+  panel.querySelectorAll(".member-role").forEach((select) => {
+    select.addEventListener("change", async () => {
+      await api.updateMember(bag.id, select.dataset.userId, { role: select.value });
+      await rerender();
+    });
+  });
+
+  panel.querySelectorAll(".remove-member").forEach((btn) => {
+    btn.addEventListener("click", async () => {
+      const leaving = btn.dataset.userId === state.profileUserId;
+      if (!window.confirm(leaving ? "Leave this bag? Your brews stay on it." : "Remove this member?")) return;
+      await api.removeMember(bag.id, btn.dataset.userId);
+      if (!leaving) return rerender();
+      state.selectedBagId = null;
+      ensureBagSelected();
+      await renderMyBags();
+      setActiveView("myBags");
+    });
+  });
 
-      list.appendChild(card);
+  panel.querySelectorAll(".revoke-invite").forEach((btn) => {
+    btn.addEventListener("click", async () => {
+      await api.revokeInvite(bag.id, btn.dataset.inviteId);
+      await rerender();
     });
+  });
+
+  document.getElementById("create-invite")?.addEventListener("click", async () => {
+    const invite = await api.createInvite(bag.id, { role: document.getElementById("invite-role").value });
+    await navigator.clipboard?.writeText(inviteLink(invite)).catch(() => {});
+    await rerender();
+  });
+}
+
+// Joins the bag from an /app/?invite=... link, then drops the token from the address bar.
+async function acceptInviteFromUrl() {
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get("invite");
+  if (!token) return false;
+  params.delete("invite");
+  const query = params.toString();
+  window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+  try {
+    const accepted = await api.acceptInvite(token);
+    state.selectedBagId = accepted.bagId;
+    return true;
   } catch (error) {
-    if (error.status === 401) return showAuthRequiredError();
-    throw error;
+    alert(error.payload?.error || "Could not accept invite");
+    return false;
   }
 }
 
-function brewFormHtml() {
+const HISTORY_ACTION_LABELS = {
+  CREATE: "created",
+  UPDATE: "edited",
+  ARCHIVE: "finished",
+  UNARCHIVE: "reopened",
+  MARK_BEST: "marked best",
+  UNMARK_BEST: "unmarked best",
+  DELETE: "deleted",
+  RESTORE: "restored",
+};
+
+// "roastDate" -> "roast date".
+function historyFieldLabel(field) {
+  return field.replace(/([A-Z])/g, " $1").toLowerCase();
+}
+
+function historyValueText(field, value) {
+  if (value == null || value === "") return "-";
+  if (field === "roastDate" || field === "deletedAt") return new Date(value).toLocaleDateString();
+  if (field === "sensory") return sensoryText(value);
+  if (field === "flavourTags") return flavourTagsText(value) || "-";
+  if (field === "pourSchedule") return value.map(pourStageText).join(" · ") || "-";
+  if (field === "status") return value.toLowerCase();
+  if (field === "visibility") return VISIBILITY_LABELS[value] ?? value;
+  return String(value);
+}
+
+// Timeline of the bag's change history, newest first. Owners revert bag changes,
+// brewers the brew changes they could make themselves.
+function bagHistoryHtml(bag, history, brews) {
+  const isOwner = bag.role === "OWNER";
+  const brewsById = new Map(brews.map((brew) => [brew.id, brew]));
+  const canRevert = (entry) => {
+    if (!entry.revertible || bag.role === "VIEWER") return false;
+    if (!entry.brewId) return isOwner;
+    if (entry.action === "MARK_BEST" || entry.action === "UNMARK_BEST") return true;
+    return isOwner || brewsById.get(entry.brewId)?.userId === state.profileUserId;
+  };
+  const target = (entry) => {
+    if (!entry.brewId) return "the bag";
+    const brew = brewsById.get(entry.brewId);
+    return brew ? `${escapeHtml(brew.method)} brew of ${new Date(brew.createdAt).toLocaleDateString()}` : "a deleted brew";
+  };
   return `
-  <form id="create-brew-form" class="card">
-    <h3>Make a Cup</h3>
-    <label>Method *
-      <select name="method" required>
-        <option>Pourover</option>
-        <option>Aeropress</option>
-        <option>French Press</option>
-        <option>Espresso</option>
-        <option>Moka Pot</option>
-        <option value="__custom__">Custom</option>
-      </select>
-    </label>
-    <label id="custom-method-label" class="hidden">Custom Method *
-      <input name="customMethod" placeholder="e.g. Origami Air S" />
-    </label>
-    <label>Brewer
-      <input name="brewer" list="brewer-options" placeholder="e.g. V60, Kalita, Cafec Deep 27, Gaggia Classic" />
-      <datalist id="brewer-options">
-        <option value="V60"></option>
-        <option value="Kalita"></option>
-        <option value="Cafec Deep 27"></option>
-        <option value="Chemex"></option>
-        <option value="Origami"></option>
-        <option value="Gaggia Classic"></option>
-        <option value="AeroPress"></option>
-        <option value="French Press"></option>
-        <option value="Moka Pot"></option>
-      </datalist>
-    </label>
-    <label>Grinder<input name="grinder" /></label>
-    <label>Dose (gms)<input type="number" name="dose" /></label>
-    <label>Grind Setting<input type="number" name="grindSetting" /></label>
-    <label>Water Amount (ml)<input type="number" name="waterAmount" /></label>
-    ${sliderField("Rating", "rating", 0, 5, 0.1, 3)}
-    ${sliderField("Nutty", "nutty", 0, 5, 1, 2)}
-    ${sliderField("Acidity", "acidity", 0, 5, 1, 3)}
-    ${sliderField("Fruity", "fruity", 0, 5, 1, 3)}
-    ${sliderField("Floral", "floral", 0, 5, 1, 3)}
-    ${sliderField("Sweetness", "sweetness", 0, 5, 1, 3)}
-    ${sliderField("Chocolate", "chocolate", 0, 5, 1, 2)}
-    <label>Flavour Notes<textarea name="flavourNotes"></textarea></label>
-    <div class="actions"><button type="submit" class="primary">Save Brew</button></div>
-    <div id="brew-errors"></div>
-  </form>`;
+    <details class="card" id="bag-history">
+      <summary>Change History (${history.length})</summary>
+      <ul class="history-list">
+        ${history
+          .map(
+            (entry) => `<li>
+              <span class="inline-meta">${new Date(entry.createdAt).toLocaleString()}</span>
+              ${escapeHtml(entry.actorDisplayName)} ${HISTORY_ACTION_LABELS[entry.action]} ${target(entry)}${
+                entry.revertOfId ? " (revert)" : ""
+              }${entry.revertedById ? " - reverted" : ""}
+              ${
+                canRevert(entry)
+                  ? `<button class="ghost revert-change" data-entry-id="${entry.id}">Revert</button>`
+                  : ""
+              }
+              <ul>
+                ${entry.changes
+                  .map(
+                    (change) =>
+                      `<li>${historyFieldLabel(change.field)}: ${escapeHtml(
+                        historyValueText(change.field, change.before),
+                      )} → ${escapeHtml(historyValueText(change.field, change.after))}</li>`,
+                  )
+                  .join("")}
+              </ul>
+            </li>`,
+          )
+          .join("")}
+      </ul>
+    </details>
+  `;
 }
 
 async function renderDetail() {
@@ -492,28 +2390,91 @@ async function renderDetail() {
     return;
   }
 
-  const [bag, brews] = await Promise.all([
+  await loadTasteConfig();
+  const [bag, brews, recommendation, equipmentItems, recipes, restingProfiles, members, history] = await Promise.all([
     api.getBag(state.selectedBagId),
     api.listBrews(state.selectedBagId),
+    api.recommendation(state.selectedBagId),
+    api.listEquipment(),
+    api.listRecipes(),
+    api.listRestingProfiles(),
+    api.listMembers(state.selectedBagId),
+    api.listHistory(state.selectedBagId),
   ]);
+  const isOwner = bag.role === "OWNER";
+  const canBrew = bag.role !== "VIEWER";
+  const invites = isOwner ? await api.listInvites(bag.id) : [];
+  stopBrewTimer();
+  state.brewSession = canBrew ? ((await api.listBrewSessions(bag.id))[0] ?? null) : null;
+  const memberNames = members.length > 1 ? new Map(members.map((member) => [member.userId, member.displayName])) : null;
 
   views.detail.innerHTML = `
-    <h2>${bag.coffeeName}</h2>
-    <p class="inline-meta">${bag.roaster} ${bag.origin ? `- ${bag.origin}` : ""} ${bag.process ? `- ${bag.process}` : ""}</p>
-    <p class="inline-meta">Roasted: ${bag.roastDate ? new Date(bag.roastDate).toLocaleDateString() : "-"} | Age: ${bag.roastAgeDays} days | ${bag.restingStatus}</p>
-    <p>${bag.notes || ""}</p>
+    <h2>${escapeHtml(bag.coffeeName)}</h2>
+    <p class="inline-meta">${escapeHtml(bag.roaster)} ${bag.origin ? `- ${escapeHtml(bag.origin)}` : ""} ${
+      bag.process ? `- ${escapeHtml(bag.process)}` : ""
+    }</p>
+    <p class="inline-meta">Roasted: ${bag.roastDate ? new Date(bag.roastDate).toLocaleDateString() : "-"}${
+      bag.roastLevel ? ` (${bag.roastLevel.toLowerCase()})` : ""
+    } | Age: ${bag.roastAgeDays} days | ${bag.restingStatus}</p>
+    <p class="inline-meta">Visibility: ${VISIBILITY_LABELS[bag.visibility]}${
+      bag.role !== "OWNER" ? ` | Shared with you as ${BAG_ROLE_LABELS[bag.role].toLowerCase()}` : ""
+    }</p>
+    <details class="card">
+      <summary>Resting profile: ${escapeHtml(bag.restingProfile.name)}${bag.restingProfile.source === "MATCHED" ? " (matched)" : ""}</summary>
+      <label>Profile for this bag
+        <select id="bag-resting-profile" ${isOwner ? "" : "disabled"}>
+          <option value="">Match by roast level and process</option>
+          ${restingProfiles
+            .map(
+              (profile) =>
+                `<option value="${profile.id}" ${profile.id === bag.restingProfileId ? "selected" : ""}>${escapeHtml(profile.name)}</option>`,
+            )
+            .join("")}
+        </select>
+      </label>
+      ${restingBandsHtml(bag)}
+    </details>
+    ${
+      bag.remainingGrams != null
+        ? `<p class="inline-meta">Inventory: ${inventoryText(bag)} | Used ${bag.usedGrams}g of ${bag.initialWeightGrams}g${
+            bag.costPerCup != null ? ` | ${bag.costPerCup} per cup` : ""
+          }</p>`
+        : ""
+    }
+    <p>${escapeHtml(bag.notes)}</p>
 
     <div class="actions">
       <button id="refresh-detail" class="ghost">Refresh</button>
       <button id="view-analytics" class="ghost">View Analytics</button>
-      <button id="edit-bag" class="ghost">Edit Bag</button>
-      <button id="archive-bag" class="warn">Finish Bag</button>
+      ${
+        isOwner
+          ? `<button id="edit-bag" class="ghost">Edit Bag</button>
+             <button id="adjust-inventory" class="ghost">Adjust Inventory</button>
+             <button id="archive-bag" class="warn">Finish Bag</button>`
+          : ""
+      }
     </div>
 
-    ${brewFormHtml()}
+    ${bagMembersHtml(bag, members, invites)}
+
+    ${recommendationHtml(recommendation)}
+
+    ${canBrew ? brewTimerHtml(state.brewSession) : ""}
+
+    ${canBrew ? brewFormHtml(equipmentItems, recipes) : ""}
 
     <h3>Brew History</h3>
-    <div id="brew-list">${brewTableHtml(brews, bag.roastDate)}</div>
+    <div id="brew-errors-history"></div>
+    ${undoDeleteHtml()}
+    <div id="brew-list">${brewTableHtml(brews, {
+      editable: canBrew,
+      canEdit: (brew) => isOwner || brew.userId === state.profileUserId,
+      canMarkBest: canBrew,
+      members: memberNames,
+      comparable: true,
+    })}</div>
+
+    ${bagHistoryHtml(bag, history, brews)}
   `;
 
   wireSliderOutputs(views.detail);
@@ -525,14 +2486,52 @@ async function renderDetail() {
     setActiveView("analytics");
   });
 
-  document.getElementById("edit-bag").addEventListener("click", async () => {
+  wireBagMembers(bag);
+
+  document.querySelectorAll(".revert-change").forEach((button) => {
+    button.addEventListener("click", async () => {
+      try {
+        await api.revertHistory(bag.id, button.dataset.entryId);
+      } catch (error) {
+        alert(error.payload?.error || "Could not revert change");
+        return;
+      }
+      await renderMyBags();
+      await renderArchived();
+      await renderDetail();
+    });
+  });
+
+  document.getElementById("edit-bag")?.addEventListener("click", async () => {
     await promptEditBag(bag);
     await renderMyBags();
     await renderArchived();
     await renderDetail();
   });
 
-  document.getElementById("archive-bag").addEventListener("click", async () => {
+  document.getElementById("bag-resting-profile").addEventListener("change", async (event) => {
+    await api.updateBag(bag.id, { restingProfileId: event.target.value || null });
+    await renderMyBags();
+    await renderDetail();
+  });
+
+  document.getElementById("adjust-inventory")?.addEventListener("click", async () => {
+    const grams = window.prompt("Grams to add (use a negative number for coffee removed outside of brews)", "");
+    if (grams === null || grams === "") return;
+    const reason = window.prompt("Reason (optional)", "");
+    if (reason === null) return;
+    try {
+      await api.adjustInventory(state.selectedBagId, { grams, reason: reason || null });
+    } catch (error) {
+      document.getElementById("brew-errors-history").innerHTML = renderValidationErrors(error.payload);
+      return;
+    }
+    await renderMyBags();
+    await renderArchived();
+    await renderDetail();
+  });
+
+  document.getElementById("archive-bag")?.addEventListener("click", async () => {
     await api.archiveBag(state.selectedBagId);
     state.selectedBagId = null;
     ensureBagSelected();
@@ -541,6 +2540,10 @@ async function renderDetail() {
     setActiveView("myBags");
   });
 
+  views.detail.querySelectorAll(".compare-brew").forEach((input) => {
+    input.addEventListener("change", () => toggleCompareBrew(input.dataset.brewId, bag.id, input.checked));
+  });
+
   views.detail.querySelectorAll(".set-best").forEach((btn) => {
     btn.addEventListener("click", async () => {
       await api.setBestBrew(state.selectedBagId, btn.dataset.brewId);
@@ -548,7 +2551,60 @@ async function renderDetail() {
     });
   });
 
+  views.detail.querySelectorAll(".edit-brew").forEach((btn) => {
+    btn.addEventListener("click", async () => {
+      const brew = brews.find((item) => item.id === btn.dataset.brewId);
+      if (!brew) return;
+      try {
+        const changed = await promptEditBrew(state.selectedBagId, brew);
+        if (!changed) return;
+        await renderMyBags();
+        await renderDetail();
+      } catch (error) {
+        document.getElementById("brew-errors-history").innerHTML = renderValidationErrors(error.payload);
+      }
+    });
+  });
+
+  views.detail.querySelectorAll(".save-recipe").forEach((btn) => {
+    btn.addEventListener("click", async () => {
+      const brew = brews.find((item) => item.id === btn.dataset.brewId);
+      if (!brew) return;
+      const name = window.prompt("Recipe name", `${bag.coffeeName} - ${brew.method}`);
+      if (name === null) return;
+      try {
+        await api.saveBrewAsRecipe(state.selectedBagId, brew.id, { name });
+        await renderDetail();
+      } catch (error) {
+        document.getElementById("brew-errors-history").innerHTML = renderValidationErrors(error.payload);
+      }
+    });
+  });
+
+  views.detail.querySelectorAll(".delete-brew").forEach((btn) => {
+    btn.addEventListener("click", async () => {
+      if (!window.confirm("Delete this brew? You can undo for a short while.")) return;
+      state.lastDeletedBrew = await api.deleteBrew(state.selectedBagId, btn.dataset.brewId);
+      await renderMyBags();
+      await renderDetail();
+    });
+  });
+
+  document.getElementById("undo-delete-brew")?.addEventListener("click", async () => {
+    const deleted = state.lastDeletedBrew;
+    state.lastDeletedBrew = null;
+    try {
+      await api.restoreBrew(deleted.bagId, deleted.id);
+    } catch (error) {
+      alert(error.payload?.error || "Could not restore brew");
+    }
+    await renderMyBags();
+    await renderDetail();
+  });
+
   const form = document.getElementById("create-brew-form");
+  if (!form) return;
+  wireBrewTimer(bag.id);
   const methodSelect = form.querySelector("select[name='method']");
   const customMethodLabel = form.querySelector("#custom-method-label");
   const customMethodInput = form.querySelector("input[name='customMethod']");
@@ -562,6 +2618,44 @@ async function renderDetail() {
   methodSelect.addEventListener("change", syncCustomMethodVisibility);
   syncCustomMethodVisibility();
 
+  const applyMethod = (method) => {
+    const known = Array.from(methodSelect.options).some((option) => option.value === method);
+    methodSelect.value = known ? method : "__custom__";
+    syncCustomMethodVisibility();
+    if (!known) customMethodInput.value = method;
+  };
+
+  // Brew again: copy the recipe into the form so it can still be tweaked before saving.
+  form.querySelector("select[name='recipeId']")?.addEventListener("change", (event) => {
+    const recipe = recipes.find((item) => item.id === event.target.value);
+    if (!recipe) return;
+    applyMethod(recipe.method);
+    [
+      "brewer",
+      "grinder",
+      "brewerId",
+      "grinderId",
+      "dose",
+      "grindSetting",
+      "waterAmount",
+      "waterTemperature",
+      "bloomTimeSeconds",
+      "bloomWater",
+      "brewTimeSeconds",
+    ].forEach((name) => {
+      form.querySelector(`[name='${name}']`).value = recipe[name] ?? "";
+    });
+  });
+
+  document.getElementById("apply-recommendation")?.addEventListener("click", () => {
+    const suggestion = recommendation.suggestion;
+    if (suggestion.method) applyMethod(suggestion.method);
+    ["dose", "grindSetting", "waterAmount"].forEach((name) => {
+      if (suggestion[name] != null) form.querySelector(`input[name='${name}']`).value = suggestion[name];
+    });
+    form.scrollIntoView({ behavior: "smooth" });
+  });
+
   form.addEventListener("submit", async (event) => {
     event.preventDefault();
     const fd = new FormData(form);
@@ -572,20 +2666,28 @@ async function renderDetail() {
         : raw.method;
 
     const payload = {
+      recipeId: raw.recipeId || null,
       method: resolvedMethod,
       brewer: raw.brewer || null,
       grinder: raw.grinder || null,
+      brewerId: raw.brewerId || null,
+      grinderId: raw.grinderId || null,
       dose: raw.dose || null,
       grindSetting: raw.grindSetting || null,
       waterAmount: raw.waterAmount || null,
+      waterTemperature: raw.waterTemperature || null,
+      bloomTimeSeconds: raw.bloomTimeSeconds || null,
+      bloomWater: raw.bloomWater || null,
+      brewTimeSeconds: raw.brewTimeSeconds || null,
+      beverageYield: raw.beverageYield || null,
+      tds: raw.tds || null,
       rating: raw.rating || null,
-      nutty: raw.nutty || null,
-      acidity: raw.acidity || null,
-      fruity: raw.fruity || null,
-      floral: raw.floral || null,
-      sweetness: raw.sweetness || null,
-      chocolate: raw.chocolate || null,
+      sensory: Object.fromEntries(
+        state.sensoryAttributes.map((attribute) => [attribute.key, raw[`sensory-${attribute.key}`] || null]),
+      ),
+      flavourTags: fd.getAll("flavourTags"),
       flavourNotes: raw.flavourNotes || null,
+      visibility: raw.visibility || null,
     };
 
     try {
@@ -594,7 +2696,11 @@ async function renderDetail() {
           renderValidationErrors({ errors: [{ field: "customMethod", message: "is required when method is Custom" }] });
         return;
       }
-      await api.createBrew(state.selectedBagId, payload);
+      if (state.brewSession) {
+        await api.finishBrewSession(state.selectedBagId, state.brewSession.id, payload);
+      } else {
+        await api.createBrew(state.selectedBagId, payload);
+      }
       document.getElementById("brew-errors").innerHTML = "";
       await renderMyBags();
       await renderArchived();
@@ -605,46 +2711,178 @@ async function renderDetail() {
   });
 }
 
+// Brew comparison. Brews are picked with the Compare checkboxes in bag detail and can
+// span several bags; the first one picked is the baseline.
+function isComparing(brewId) {
+  return state.compareBrews.some((item) => item.brewId === brewId);
+}
+
+function updateCompareNav() {
+  navButtons.compare.disabled = state.compareBrews.length < 2;
+  navButtons.compare.textContent = state.compareBrews.length ? `Compare (${state.compareBrews.length})` : "Compare";
+}
+
+function toggleCompareBrew(brewId, bagId, selected) {
+  state.compareBrews = state.compareBrews.filter((item) => item.brewId !== brewId);
+  if (selected) state.compareBrews.push({ brewId, bagId });
+  updateCompareNav();
+}
+
+const COMPARISON_LABELS = {
+  method: { label: "Method" },
+  brewer: { label: "Brewer" },
+  grinder: { label: "Grinder" },
+  dose: { label: "Dose", unit: " g" },
+  grindSetting: { label: "Grind" },
+  waterAmount: { label: "Water", unit: " ml" },
+  brewRatio: { label: "Ratio" },
+  waterTemperature: { label: "Temp", unit: " °C" },
+  brewTimeSeconds: { label: "Brew time", unit: " s" },
+  bloomTimeSeconds: { label: "Bloom time", unit: " s" },
+  bloomWater: { label: "Bloom water", unit: " g" },
+  beverageYield: { label: "Yield", unit: " g" },
+  tds: { label: "TDS", unit: "%" },
+  extractionYield: { label: "EY", unit: "%" },
+  daysOffRoast: { label: "Days off roast" },
+  rating: { label: "Rating" },
+};
+
+function signed(value) {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+function comparisonChangeText(change) {
+  const { label, unit = "" } = COMPARISON_LABELS[change.field];
+  if (change.delta != null) return `${label.toLowerCase()} ${signed(change.delta)}${unit}`;
+  return `${label.toLowerCase()} ${escapeHtml(change.from ?? "-")} → ${escapeHtml(change.to ?? "-")}`;
+}
+
+async function renderCompare() {
+  if (state.compareBrews.length < 2) {
+    views.compare.innerHTML = `<h2>Compare Brews</h2><p class="inline-meta">Tick at least two brews in bag detail to compare them.</p>`;
+    return;
+  }
+
+  let comparison;
+  try {
+    await loadTasteConfig();
+    comparison = await api.compareBrews(
+      state.compareBrews[0].bagId,
+      state.compareBrews.map((item) => item.brewId),
+    );
+  } catch (error) {
+    if (error.status === 401) return showAuthRequiredError();
+    views.compare.innerHTML = `<h2>Compare Brews</h2>${renderValidationErrors(error.payload)}`;
+    return;
+  }
+
+  const heading = (item, index) =>
+    `${index + 1}. ${escapeHtml(item.coffeeName)}<br /><span class="inline-meta">${new Date(item.brew.createdAt).toLocaleDateString()}</span>`;
+  views.compare.innerHTML = `
+    <h2>Compare Brews</h2>
+    <div class="table-wrap">
+      <table>
+        <thead>
+          <tr><th></th>${comparison.brews.map((item, index) => `<th>${heading(item, index)}</th>`).join("")}</tr>
+        </thead>
+        <tbody>
+          ${comparison.parameters
+            .map(
+              (row) => `
+              <tr class="${row.changed ? "comparison-changed" : ""}">
+                <th>${COMPARISON_LABELS[row.field].label}</th>
+                ${row.values.map((value) => `<td>${escapeHtml(value ?? "-")}</td>`).join("")}
+              </tr>
+            `,
+            )
+            .join("")}
+        </tbody>
+      </table>
+    </div>
+
+    <div>
+      ${comparison.brews
+        .slice(1)
+        .map(
+          (item, index) => `
+          <article class="card">
+            <h3>${index + 2}. ${escapeHtml(item.coffeeName)} vs baseline</h3>
+            <p><strong>Rating:</strong> ${item.ratingDelta != null ? signed(item.ratingDelta) : "-"}</p>
+            <p class="inline-meta">${item.changes.length ? item.changes.map(comparisonChangeText).join(", ") : "Same parameters"}</p>
+          </article>
+        `,
+        )
+        .join("")}
+    </div>
+
+    <article class="card">
+      <h3>Taste Profiles</h3>
+      ${radarChartSvg(
+        comparison.brews.map((item, index) => ({
+          label: `${index + 1}. ${escapeHtml(item.coffeeName)}`,
+          profile: item.tasteProfile,
+        })),
+      )}
+    </article>
+
+    <div class="actions">
+      <button id="compare-clear" class="ghost">Clear Selection</button>
+    </div>
+  `;
+
+  document.getElementById("compare-clear").addEventListener("click", async () => {
+    state.compareBrews = [];
+    updateCompareNav();
+    await renderCompare();
+  });
+}
+
 async function renderAnalytics() {
   if (!state.selectedBagId) {
     views.analytics.innerHTML = `<p class="inline-meta">Select a bag first.</p>`;
     return;
   }
 
-  const [bag, brews, analytics] = await Promise.all([
+  await loadTasteConfig();
+  const [bag, brews, analytics, members] = await Promise.all([
     api.getBag(state.selectedBagId),
     api.listBrews(state.selectedBagId),
     api.analytics(state.selectedBagId),
+    api.listMembers(state.selectedBagId),
   ]);
+  const memberNames = members.length > 1 ? new Map(members.map((member) => [member.userId, member.displayName])) : null;
 
   const best = analytics.bestBrew;
   views.analytics.innerHTML = `
-    <h2>Analytics - ${bag.coffeeName}</h2>
+    <h2>Analytics - ${escapeHtml(bag.coffeeName)}</h2>
     <article class="card">
       <h3>Coffee Journey Sheet Snapshot</h3>
-      <p class="inline-meta"><strong>Roaster:</strong> ${bag.roaster}</p>
-      <p class="inline-meta"><strong>Origin:</strong> ${bag.origin || "-"}</p>
-      <p class="inline-meta"><strong>Process:</strong> ${bag.process || "-"}</p>
+      <p class="inline-meta"><strong>Roaster:</strong> ${escapeHtml(bag.roaster)}</p>
+      <p class="inline-meta"><strong>Origin:</strong> ${escapeHtml(bag.origin || "-")}</p>
+      <p class="inline-meta"><strong>Process:</strong> ${escapeHtml(bag.process || "-")}</p>
       <p class="inline-meta"><strong>Roast Date:</strong> ${bag.roastDate ? new Date(bag.roastDate).toLocaleDateString() : "-"}</p>
       <p class="inline-meta"><strong>Bag Age:</strong> ${bag.roastAgeDays} days (${bag.restingStatus})</p>
     </article>
 
     <article class="card">
       <h3>Brew Journey Table</h3>
-      ${brewTableHtml([...brews].reverse(), bag.roastDate)}
+      ${brewTableHtml([...brews].reverse(), { canMarkBest: bag.role !== "VIEWER", members: memberNames })}
     </article>
 
     <article class="card">
       <h3>Best Recipe So Far</h3>
       ${
         best
-          ? `<p><strong>Method:</strong> ${best.method}</p>
+          ? `<p><strong>Method:</strong> ${escapeHtml(best.method)}</p>
              <p><strong>Dose:</strong> ${best.dose ?? "-"} gms</p>
              <p><strong>Water:</strong> ${best.waterAmount ?? "-"} ml</p>
-             <p><strong>Grinder:</strong> ${best.grinder || "-"}</p>
+             <p><strong>Ratio:</strong> ${best.brewRatio != null ? `1:${best.brewRatio}` : "-"}</p>
+             <p><strong>Water Temp:</strong> ${best.waterTemperature ?? "-"} °C</p>
+             <p><strong>Brew Time:</strong> ${formatSeconds(best.brewTimeSeconds)}</p>
+             <p><strong>Grinder:</strong> ${escapeHtml(best.grinder || "-")}</p>
              <p><strong>Grind Setting:</strong> ${best.grindSetting ?? "-"}</p>
              <p><strong>Rating:</strong> ${best.rating ?? "-"}</p>
-             <p><strong>Notes:</strong> ${best.flavourNotes || "-"}</p>`
+             <p><strong>Flavour:</strong> ${escapeHtml(flavourCellText(best))}</p>`
           : "<p class='inline-meta'>No best brew selected yet.</p>"
       }
     </article>
@@ -653,19 +2891,66 @@ async function renderAnalytics() {
       <h3>Taste Profile Averages</h3>
       <div class="table-wrap">
         <table>
-          <tbody>
-            <tr><th>Nutty</th><td>${analytics.averageTasteProfile.nutty ?? "-"}</td></tr>
-            <tr><th>Acidity</th><td>${analytics.averageTasteProfile.acidity ?? "-"}</td></tr>
-            <tr><th>Fruity</th><td>${analytics.averageTasteProfile.fruity ?? "-"}</td></tr>
-            <tr><th>Floral</th><td>${analytics.averageTasteProfile.floral ?? "-"}</td></tr>
-            <tr><th>Sweetness</th><td>${analytics.averageTasteProfile.sweetness ?? "-"}</td></tr>
-            <tr><th>Chocolate</th><td>${analytics.averageTasteProfile.chocolate ?? "-"}</td></tr>
-          </tbody>
+          <tbody>${Object.entries(analytics.averageTasteProfile)
+            .map(([key, value]) => `<tr><th>${sensoryAttribute(key)?.label ?? key}</th><td>${value ?? "-"}</td></tr>`)
+            .join("")}</tbody>
         </table>
       </div>
       <p class="inline-meta">Total Brews: ${analytics.totalBrews} | Average Rating: ${analytics.averageRating ?? "-"}</p>
     </article>
 
+    <article class="card">
+      <h3>Flavour Tags</h3>
+      ${flavourTagCountsHtml(analytics.flavourTags)}
+    </article>
+
+    <article class="card">
+      <h3>Rating &amp; Taste vs Days Off Roast</h3>
+      <p class="inline-meta">${bag.roastDate ? peakWindowText(analytics.peakWindow) : "Add a roast date to relate brews to bean age."}</p>
+      ${bag.roastDate ? roastAgeChartSvg(analytics.roastAgeCurve, analytics.peakWindow) : ""}
+    </article>
+
+    ${
+      analytics.recipePerformance.length
+        ? `<article class="card">
+            <h3>Recipe Performance</h3>
+            <div class="table-wrap">
+              <table>
+                <thead><tr><th>Recipe</th><th>Brews Here</th><th>Avg Rating Here</th><th>Brews (All Bags)</th><th>Avg Rating (All Bags)</th></tr></thead>
+                <tbody>${analytics.recipePerformance
+                  .map(
+                    (row) =>
+                      `<tr><td>${escapeHtml(row.name)}</td><td>${row.brewCount}</td><td>${row.averageRating ?? "-"}</td><td>${row.allBagsBrewCount}</td><td>${row.allBagsAverageRating ?? "-"}</td></tr>`,
+                  )
+                  .join("")}</tbody>
+              </table>
+            </div>
+          </article>`
+        : ""
+    }
+
+    ${
+      analytics.brewerPerformance.length > 1
+        ? `<article class="card">
+            <h3>Brewer Performance</h3>
+            <div class="table-wrap">
+              <table>
+                <thead><tr><th>Brewer</th><th>Brews</th><th>Avg Rating</th><th>Best Rating</th></tr></thead>
+                <tbody>${analytics.brewerPerformance
+                  .map(
+                    (row) =>
+                      `<tr><td>${escapeHtml(row.displayName)}</td><td>${row.brewCount}</td><td>${row.averageRating ?? "-"}</td><td>${row.bestRating ?? "-"}</td></tr>`,
+                  )
+                  .join("")}</tbody>
+              </table>
+            </div>
+            ${radarChartSvg(
+              analytics.brewerPerformance.map((row) => ({ label: escapeHtml(row.displayName), profile: row.averageTasteProfile })),
+            )}
+          </article>`
+        : ""
+    }
+
     <div class="actions">
       <button id="analytics-back" class="ghost">Back to Bag</button>
     </div>
@@ -684,7 +2969,71 @@ async function renderAnalytics() {
   });
 }
 
+// Where AUTH_PROVIDER=local keeps its access token between page loads.
+const LOCAL_TOKEN_KEY = "coffeeTools.accessToken";
+
+// Re-renders everything that depends on who is signed in.
+function onSignedInUserChanged() {
+  updateAuthStatus();
+  state.sensoryAttributes = null;
+  // The stream URL carries the token, so reconnect with the new one.
+  if (state.feedStream) {
+    stopFeedStream();
+    startFeedStream();
+  }
+  renderMyBags().catch(() => {});
+  renderFeed().catch(() => {});
+  renderArchived().catch(() => {});
+  if (state.selectedBagId) {
+    renderDetail().catch(() => {});
+    renderAnalytics().catch(() => {});
+  }
+}
+
+// Email/password sign-in against the API's own accounts instead of Supabase.
+function initLocalAuth() {
+  const stored = window.localStorage.getItem(LOCAL_TOKEN_KEY);
+  const storedSession = stored ? JSON.parse(stored) : null;
+  if (storedSession && new Date(storedSession.expiresAt) > new Date()) state.accessToken = storedSession.accessToken;
+
+  authElements.emailLogin.classList.add("hidden");
+  authElements.googleLogin.classList.add("hidden");
+  authElements.passwordInput.classList.remove("hidden");
+  authElements.passwordLogin.classList.remove("hidden");
+  authElements.register.classList.toggle("hidden", !window.APP_CONFIG?.localSignup);
+
+  const signIn = async (path) => {
+    const email = authElements.emailInput.value.trim();
+    const password = authElements.passwordInput.value;
+    try {
+      const session = await request(path, { method: "POST", body: JSON.stringify({ email, password }) });
+      window.localStorage.setItem(LOCAL_TOKEN_KEY, JSON.stringify(session));
+      state.accessToken = session.accessToken;
+      authElements.passwordInput.value = "";
+      onSignedInUserChanged();
+    } catch (error) {
+      const issues = error.payload?.errors?.map((issue) => `${issue.field} ${issue.message}`).join(", ");
+      alert(issues || error.payload?.error || "Sign-in failed");
+    }
+  };
+  authElements.passwordLogin.addEventListener("click", () => signIn("/auth/login"));
+  authElements.register.addEventListener("click", () => signIn("/auth/register"));
+  authElements.logout.addEventListener("click", () => {
+    window.localStorage.removeItem(LOCAL_TOKEN_KEY);
+    state.accessToken = null;
+    onSignedInUserChanged();
+  });
+
+  state.authReady = true;
+  updateAuthStatus();
+}
+
 async function initAuth() {
+  if (window.APP_CONFIG?.authProvider === "local") {
+    initLocalAuth();
+    return;
+  }
+
   const supabaseUrl = window.APP_CONFIG?.supabaseUrl;
   const supabaseAnonKey = window.APP_CONFIG?.supabaseAnonKey;
 
@@ -696,14 +3045,7 @@ async function initAuth() {
 
     state.supabase.auth.onAuthStateChange((_event, session) => {
       state.accessToken = session?.access_token ?? null;
-      updateAuthStatus();
-      renderMyBags().catch(() => {});
-      renderFeed().catch(() => {});
-      renderArchived().catch(() => {});
-      if (state.selectedBagId) {
-        renderDetail().catch(() => {});
-        renderAnalytics().catch(() => {});
-      }
+      onSignedInUserChanged();
     });
   }
 
@@ -762,6 +3104,11 @@ navButtons.feed.addEventListener("click", async () => {
   setActiveView("feed");
 });
 
+navButtons.dashboard.addEventListener("click", async () => {
+  await renderDashboard();
+  setActiveView("dashboard");
+});
+
 navButtons.create.addEventListener("click", () => {
   renderCreateForm();
   setActiveView("create");
@@ -772,6 +3119,41 @@ navButtons.archived.addEventListener("click", async () => {
   setActiveView("archived");
 });
 
+navButtons.equipment.addEventListener("click", async () => {
+  await renderEquipment();
+  setActiveView("equipment");
+});
+
+navButtons.catalogue.addEventListener("click", async () => {
+  await renderCatalogue();
+  setActiveView("catalogue");
+});
+
+navButtons.recipes.addEventListener("click", async () => {
+  await renderRecipes();
+  setActiveView("recipes");
+});
+
+navButtons.resting.addEventListener("click", async () => {
+  await renderRestingProfiles();
+  setActiveView("resting");
+});
+
+navButtons.profile.addEventListener("click", async () => {
+  await renderProfile();
+  setActiveView("profile");
+});
+
+navButtons.settings.addEventListener("click", async () => {
+  await renderSettings();
+  setActiveView("settings");
+});
+
+navButtons.inbox.addEventListener("click", async () => {
+  await renderInbox();
+  setActiveView("inbox");
+});
+
 navButtons.detail.addEventListener("click", async () => {
   await renderDetail();
   setActiveView("detail");
@@ -782,13 +3164,25 @@ navButtons.analytics.addEventListener("click", async () => {
   setActiveView("analytics");
 });
 
+navButtons.compare.addEventListener("click", async () => {
+  await renderCompare();
+  setActiveView("compare");
+});
+
 async function bootstrap() {
   await initAuth();
   renderCreateForm();
   await renderMyBags();
   await renderFeed();
   await renderArchived();
-  startFeedPolling();
+  await renderInbox();
+  startFeedStream();
+  if (await acceptInviteFromUrl()) {
+    await renderMyBags();
+    await renderDetail();
+    setActiveView("detail");
+    return;
+  }
   ensureBagSelected();
   setActiveView("myBags");
 }